@@ -0,0 +1,332 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  AlertEngine,
+  AlertRule,
+  formatAlerts,
+  loadAlertState,
+  saveAlertState,
+  validateAlertRule,
+} from "./alerts.js";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { RAGSystem } from "./rag.js";
+import { at, logAt, MINUTE } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+// Таймаут платёжного шлюза через minute минут после 08:00
+const paymentTimeout = (minute: number, overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  logAt(minute, {
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    message: "Payment gateway did not respond",
+    ...overrides,
+  });
+
+describe("alerts", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "alerts");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("AlertEngine", () => {
+    it("should fire threshold rules per group within the window", () => {
+      const rule: AlertRule = {
+        name: "timeouts",
+        type: "threshold",
+        match: { error_type: "PaymentGatewayTimeout" },
+        groupBy: ["metadata.gateway"],
+        windowMs: 5 * MINUTE,
+        threshold: 3,
+        severity: "critical",
+      };
+      const logs = [
+        ...[10, 11, 12].map((minute) => paymentTimeout(minute, { metadata: { gateway: "stripe" } })),
+        ...[2, 11, 12].map((minute) => paymentTimeout(minute, { metadata: { gateway: "paypal" } })),
+        paymentTimeout(12, { error_type: "DatabaseConnectionError", metadata: { gateway: "paypal" } }),
+      ];
+
+      const alerts = new AlertEngine([rule]).evaluate(logs);
+
+      assert.strictEqual(alerts.length, 1);
+      assert.strictEqual(alerts[0].rule, "timeouts");
+      assert.strictEqual(alerts[0].severity, "critical");
+      assert.deepStrictEqual(alerts[0].group, { "metadata.gateway": "stripe" });
+      assert.strictEqual(alerts[0].count, 3);
+      assert.strictEqual(alerts[0].firedAt, new Date(at(12)).toISOString());
+      assert.match(alerts[0].message, /записей за 5м 00с: 3 \(порог 3\)/);
+    });
+
+    it("should fire rate rules when the window grows against the baseline", () => {
+      const rule: AlertRule = {
+        name: "error-rate",
+        type: "rate",
+        windowMs: 10 * MINUTE,
+        baselineWindows: 2,
+        factor: 3,
+        threshold: 2,
+      };
+      // База: по одной записи в каждом из двух предыдущих окон
+      const steady = [paymentTimeout(2), paymentTimeout(12)];
+
+      assert.deepStrictEqual(
+        new AlertEngine([rule]).evaluate([...steady, paymentTimeout(25), paymentTimeout(26)]),
+        []
+      );
+
+      const alerts = new AlertEngine([rule]).evaluate([
+        ...steady,
+        ...[21, 22, 23, 24].map((minute) => paymentTimeout(minute)),
+      ]);
+      assert.strictEqual(alerts.length, 1);
+      assert.match(alerts[0].message, /4 против 1\.0 в среднем \(×4\.0\)/);
+    });
+
+    it("should fire first_seen rules once per new value", () => {
+      const rule: AlertRule = {
+        name: "new-error-type",
+        type: "first_seen",
+        match: { service: "payment-service" },
+        windowMs: 10 * MINUTE,
+      };
+      const engine = new AlertEngine([rule]);
+      const logs = [
+        paymentTimeout(0),
+        paymentTimeout(25, { error_type: "CardDeclined" }),
+        paymentTimeout(30, { error_type: "CardDeclined" }),
+        paymentTimeout(30, { service: "auth-service", error_type: "InvalidCredentials" }),
+      ];
+
+      const alerts = engine.evaluate(logs);
+      assert.deepStrictEqual(
+        alerts.map((alert) => alert.group),
+        [{ error_type: "CardDeclined" }]
+      );
+      assert.strictEqual(alerts[0].count, 2);
+
+      // Значение уже встречалось — повторного оповещения нет даже после cooldown
+      logs.push(paymentTimeout(31, { error_type: "CardDeclined" }));
+      assert.deepStrictEqual(engine.evaluate(logs, at(120)), []);
+    });
+
+    it("should fire absence rules when matching records stop", () => {
+      const rule: AlertRule = {
+        name: "heartbeat",
+        type: "absence",
+        match: { error_type: "Heartbeat" },
+        groupBy: ["service"],
+        windowMs: 10 * MINUTE,
+      };
+      const logs = [
+        paymentTimeout(0, { service: "auth-service", error_type: "Heartbeat", level: "INFO" }),
+        paymentTimeout(18, { service: "auth-service", error_type: "Heartbeat", level: "INFO" }),
+        paymentTimeout(2, { service: "payment-service", error_type: "Heartbeat", level: "INFO" }),
+        paymentTimeout(20),
+      ];
+      const engine = new AlertEngine([rule]);
+
+      const alerts = engine.evaluate(logs);
+      assert.deepStrictEqual(
+        alerts.map((alert) => alert.group),
+        [{ service: "payment-service" }]
+      );
+      assert.match(alerts[0].message, /нет записей 18м 00с/);
+
+      // О тишине payment-service уже сообщено, auth-service замолчал позже
+      assert.deepStrictEqual(
+        engine.evaluate(logs, at(90)).map((alert) => alert.group),
+        [{ service: "auth-service" }]
+      );
+    });
+
+    it("should fire absence rules when no records arrive after the window", () => {
+      const rule: AlertRule = {
+        name: "heartbeat",
+        type: "absence",
+        match: { error_type: "Heartbeat" },
+        windowMs: 10 * MINUTE,
+      };
+      const logs = [paymentTimeout(0, { error_type: "Heartbeat", level: "INFO" })];
+      const engine = new AlertEngine([rule]);
+
+      // Наблюдение: время текущее, новых записей так и не появилось
+      engine.prime(logs, at(5));
+      assert.deepStrictEqual(engine.evaluate(logs, at(8)), []);
+      const alerts = engine.evaluate(logs, at(11));
+      assert.strictEqual(alerts.length, 1);
+      assert.match(alerts[0].message, /нет записей 11м 00с \(последняя 2024-12-10T08:00:00\.000Z\)/);
+      assert.strictEqual(alerts[0].firedAt, new Date(at(11)).toISOString());
+
+      // Логов нет совсем — тишина тоже видна
+      const [empty] = new AlertEngine([rule]).evaluate([], at(11));
+      assert.strictEqual(empty.message, "подходящих записей нет");
+    });
+
+    it("should respect cooldown and skip alerts without new records", () => {
+      const rule: AlertRule = {
+        name: "timeouts",
+        type: "threshold",
+        windowMs: 10 * MINUTE,
+        threshold: 2,
+        cooldownMs: 30 * MINUTE,
+      };
+      const engine = new AlertEngine([rule]);
+      const logs = [paymentTimeout(0), paymentTimeout(1)];
+
+      assert.strictEqual(engine.evaluate(logs).length, 1);
+      logs.push(paymentTimeout(5));
+      assert.deepStrictEqual(engine.evaluate(logs), [], "cooldown");
+
+      // Cooldown прошёл, но новых записей нет
+      assert.deepStrictEqual(engine.evaluate(logs, at(40)), []);
+
+      logs.push(paymentTimeout(40), paymentTimeout(41));
+      const alerts = engine.evaluate(logs);
+      assert.strictEqual(alerts.length, 1);
+      assert.strictEqual(alerts[0].count, 2);
+    });
+
+    it("should alert again after a rollback of undelivered alerts", () => {
+      const rules: AlertRule[] = [
+        {
+          name: "timeouts",
+          type: "threshold",
+          windowMs: 10 * MINUTE,
+          threshold: 2,
+          cooldownMs: 30 * MINUTE,
+        },
+        { name: "new-type", type: "first_seen", windowMs: 60 * MINUTE },
+      ];
+      const engine = new AlertEngine(rules);
+      const logs = [paymentTimeout(0), paymentTimeout(1)];
+
+      const alerts = engine.evaluate(logs);
+      assert.strictEqual(alerts.length, 2);
+      engine.rollback(alerts);
+      assert.deepStrictEqual(engine.getState(), { fired: {}, seen: { "new-type": [] } });
+      assert.deepStrictEqual(
+        engine.evaluate(logs).map((alert) => alert.rule),
+        ["timeouts", "new-type"]
+      );
+
+      // Доставленные оповещения по-прежнему гасятся cooldown
+      assert.deepStrictEqual(engine.evaluate([...logs, paymentTimeout(2)]), []);
+    });
+
+    it("should only alert on records added after prime", () => {
+      const rules: AlertRule[] = [
+        {
+          name: "burst",
+          type: "threshold",
+          windowMs: 10 * MINUTE,
+          threshold: 2,
+          cooldownMs: MINUTE,
+        },
+        { name: "new-type", type: "first_seen", windowMs: 60 * MINUTE },
+      ];
+      const engine = new AlertEngine(rules);
+      const logs = [paymentTimeout(0), paymentTimeout(1), paymentTimeout(2, { error_type: "CardDeclined" })];
+
+      engine.prime(logs);
+      assert.deepStrictEqual(engine.evaluate(logs), []);
+
+      logs.push(paymentTimeout(3, { error_type: "FraudSuspected" }));
+      assert.deepStrictEqual(
+        engine.evaluate(logs).map((alert) => [alert.rule, alert.group]),
+        [
+          ["burst", {}],
+          ["new-type", { error_type: "FraudSuspected" }],
+        ]
+      );
+    });
+  });
+
+  describe("state", () => {
+    it("should persist cooldown and seen values between runs", async () => {
+      const statePath = join(testDir, "state", "alerts.json");
+      const rule: AlertRule = { name: "new-type", type: "first_seen", windowMs: 60 * MINUTE };
+      const logs = [paymentTimeout(0, { error_type: "CardDeclined" })];
+
+      assert.deepStrictEqual(await loadAlertState(statePath), { fired: {}, seen: {} });
+
+      const first = new AlertEngine([rule], await loadAlertState(statePath));
+      assert.strictEqual(first.evaluate(logs).length, 1);
+      await saveAlertState(statePath, first.getState());
+
+      const second = new AlertEngine([rule], await loadAlertState(statePath));
+      assert.deepStrictEqual(second.evaluate(logs), []);
+    });
+  });
+
+  describe("validateAlertRule", () => {
+    it("should point to the invalid field", () => {
+      assert.throws(() => validateAlertRule({ name: "x", type: "spike" }, 0), {
+        message: "alerts.rules[0].type must be one of: threshold, rate, first_seen, absence",
+      });
+      assert.throws(
+        () => validateAlertRule({ name: "x", type: "threshold", threshold: 0 }, 2),
+        { message: "alerts.rules[2].threshold must be a positive number" }
+      );
+      assert.throws(() => validateAlertRule({ type: "absence" }, 1), {
+        message: "alerts.rules[1].name must be a non-empty string",
+      });
+      assert.throws(
+        () => validateAlertRule({ name: "x", type: "threshold", match: { from: "вчера" } }, 3),
+        { message: 'alerts.rules[3].match: Invalid "from" time: вчера' }
+      );
+      assert.doesNotThrow(() =>
+        validateAlertRule(
+          { name: "x", type: "rate", match: { service: "api" }, groupBy: ["service"], factor: 2 },
+          0
+        )
+      );
+    });
+  });
+
+  describe("formatAlerts", () => {
+    it("should list alerts with summary and the last record", () => {
+      const [alert] = new AlertEngine([
+        { name: "timeouts", type: "threshold", threshold: 1, severity: "critical" },
+      ]).evaluate([paymentTimeout(0)]);
+
+      const text = formatAlerts([{ ...alert, summary: "Шлюз платежей не отвечает." }]);
+      assert.match(text, /🔴 critical timeouts: записей за 5м 00с: 1 \(порог 1\)/);
+      assert.match(text, /Шлюз платежей не отвечает\./);
+      assert.match(text, /последняя: .* payment-service PaymentGatewayTimeout/);
+      assert.strictEqual(formatAlerts([]), "🔕 Правила оповещений не сработали");
+    });
+  });
+
+  describe("RAGSystem", () => {
+    it("should evaluate rules on loaded logs and summarize alerts with the model", async () => {
+      await mkdir(testDir, { recursive: true });
+      const logFile = join(testDir, "logs.json");
+      await writeFile(logFile, JSON.stringify([paymentTimeout(0), paymentTimeout(1), paymentTimeout(2)]));
+
+      const ollama = new OllamaClient();
+      const prompts: string[] = [];
+      ollama.chat = async (system: string, user: string) => {
+        prompts.push(system, user);
+        return "Шлюз платежей перестал отвечать.";
+      };
+      const rag = new RAGSystem(ollama, { cacheDir: join(testDir, "cache") }, silentLogger);
+      await rag.loadLogs(logFile);
+
+      const engine = new AlertEngine([{ name: "timeouts", type: "threshold", threshold: 3 }]);
+      const [alert] = rag.evaluateAlerts(engine);
+      assert.strictEqual(alert.count, 3);
+
+      const summary = await rag.summarizeAlert(alert);
+      assert.strictEqual(summary, "Шлюз платежей перестал отвечать.");
+      assert.match(prompts[1], /ALERT timeouts \[threshold, warning\]/);
+      assert.match(prompts[1], /payment-service PaymentGatewayTimeout/);
+
+      const primed = new AlertEngine([{ name: "timeouts", type: "threshold", threshold: 3 }]);
+      assert.deepStrictEqual(rag.evaluateAlerts(primed, { prime: true }), []);
+      assert.deepStrictEqual(rag.evaluateAlerts(primed), []);
+    });
+  });
+});
@@ -0,0 +1,433 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { formatDuration } from "./batching";
+import { groupBy } from "./collections";
+import { getField, LogFilter, matchesFilter, validateFilter } from "./query";
+import type { SinkConfig } from "./sinks";
+import { ErrorLog } from "./types";
+
+// threshold  — записей в окне не меньше threshold
+// rate       — записей в окне в factor раз больше, чем в среднем за
+//              baselineWindows предыдущих окон (и не меньше threshold)
+// first_seen — значение поля field встретилось впервые
+// absence    — подходящих записей нет дольше windowMs
+export type AlertRuleType = "threshold" | "rate" | "first_seen" | "absence";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ["threshold", "rate", "first_seen", "absence"];
+export const ALERT_SEVERITIES: AlertSeverity[] = ["info", "warning", "critical"];
+
+export interface AlertRule {
+  name: string;
+  type: AlertRuleType;
+  match?: LogFilter; // Какие записи учитывать: service, error_type, level, metadata
+  groupBy?: string[]; // Отдельный счёт по значениям полей: ["service", "metadata.endpoint"]
+  windowMs?: number;
+  threshold?: number;
+  factor?: number; // Только rate
+  baselineWindows?: number; // Только rate
+  field?: string; // Только first_seen
+  cooldownMs?: number; // Пауза между оповещениями одного правила и группы
+  severity?: AlertSeverity;
+  summarize?: boolean; // Сводка модели по записям; по умолчанию — alerts.summarize
+  sinks?: string[]; // Имена получателей; по умолчанию — все
+}
+
+export interface AlertOptions {
+  rules: AlertRule[];
+  sinks: SinkConfig[]; // Куда отправлять: webhook, файл, уведомление рабочего стола
+  summarize: boolean; // Сводка модели по записям для каждого оповещения
+  statePath: string; // Состояние между запусками команды alerts (cooldown, first_seen)
+}
+
+export const DEFAULT_ALERTS: AlertOptions = {
+  rules: [],
+  sinks: [],
+  summarize: false,
+  statePath: "./data/alerts-state.json",
+};
+
+const RULE_DEFAULTS = {
+  windowMs: 5 * 60 * 1000,
+  threshold: 5,
+  factor: 3,
+  baselineWindows: 4,
+  field: "error_type",
+  cooldownMs: 30 * 60 * 1000,
+  severity: "warning" as AlertSeverity,
+};
+
+// Сколько записей оповещения передаётся получателям и модели
+const MAX_ALERT_RECORDS = 20;
+
+export interface Alert {
+  id: string; // "<правило>:<группа>@<время>"
+  rule: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  group: Record<string, string>; // Значения groupBy (для first_seen — поле и новое значение)
+  message: string;
+  firedAt: string; // Время по последней записи логов, а не по часам машины
+  count: number; // Сколько записей вызвали оповещение
+  records: ErrorLog[]; // Последние из них, не больше MAX_ALERT_RECORDS
+  summary?: string;
+}
+
+// Что уже отправлено: время оповещения и последней учтённой записи по
+// ключу правило+группа, известные значения first_seen по правилам
+export interface AlertState {
+  fired: Record<string, FiredAlert>;
+  seen: Record<string, string[]>;
+}
+
+interface FiredAlert {
+  at: number;
+  lastRecord: number;
+}
+
+export function createAlertState(): AlertState {
+  return { fired: {}, seen: {} };
+}
+
+// Состояние из файла; отсутствующий файл — пустое состояние
+export async function loadAlertState(filePath: string): Promise<AlertState> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    return { ...createAlertState(), ...parsed };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return createAlertState();
+    }
+    throw error;
+  }
+}
+
+// Запись через временный файл, чтобы прерванная запись не испортила состояние
+export async function saveAlertState(filePath: string, state: AlertState): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(state, null, 2));
+  await fs.rename(tmpPath, filePath);
+}
+
+// Проверка правила из конфигурации; ошибка указывает на поле правила
+export function validateAlertRule(rule: unknown, index: number): void {
+  const prefix = `alerts.rules[${index}]`;
+  if (!rule || typeof rule !== "object" || Array.isArray(rule)) {
+    throw new Error(`${prefix} must be an object`);
+  }
+  const value = rule as Record<string, unknown>;
+
+  if (typeof value.name !== "string" || value.name.trim() === "") {
+    throw new Error(`${prefix}.name must be a non-empty string`);
+  }
+  if (!ALERT_RULE_TYPES.includes(value.type as AlertRuleType)) {
+    throw new Error(`${prefix}.type must be one of: ${ALERT_RULE_TYPES.join(", ")}`);
+  }
+  if (
+    value.match !== undefined &&
+    (!value.match || typeof value.match !== "object" || Array.isArray(value.match))
+  ) {
+    throw new Error(`${prefix}.match must be an object`);
+  }
+  if (value.match !== undefined) {
+    try {
+      validateFilter(value.match as LogFilter);
+    } catch (error) {
+      throw new Error(`${prefix}.match: ${(error as Error).message}`);
+    }
+  }
+  for (const key of ["groupBy", "sinks"] as const) {
+    const list = value[key];
+    if (
+      list !== undefined &&
+      (!Array.isArray(list) || list.some((item) => typeof item !== "string" || !item))
+    ) {
+      throw new Error(`${prefix}.${key} must be an array of non-empty strings`);
+    }
+  }
+  for (const key of ["windowMs", "threshold", "factor", "baselineWindows", "cooldownMs"] as const) {
+    const number = value[key];
+    if (
+      number !== undefined &&
+      (typeof number !== "number" || !Number.isFinite(number) || number <= 0)
+    ) {
+      throw new Error(`${prefix}.${key} must be a positive number`);
+    }
+  }
+  if (value.field !== undefined && (typeof value.field !== "string" || !value.field)) {
+    throw new Error(`${prefix}.field must be a non-empty string`);
+  }
+  if (
+    value.severity !== undefined &&
+    !ALERT_SEVERITIES.includes(value.severity as AlertSeverity)
+  ) {
+    throw new Error(`${prefix}.severity must be one of: ${ALERT_SEVERITIES.join(", ")}`);
+  }
+  if (value.summarize !== undefined && typeof value.summarize !== "boolean") {
+    throw new Error(`${prefix}.summarize must be a boolean`);
+  }
+}
+
+function timeOf(log: ErrorLog): number {
+  return Date.parse(log.timestamp);
+}
+
+function fieldValue(log: ErrorLog, field: string): string {
+  const value = getField(log, field);
+  return value === undefined || value === null ? "" : String(value);
+}
+
+// Подходящие записи по группам groupBy; без groupBy — одна группа
+function groupRecords(rule: AlertRule, logs: ErrorLog[]): Map<string, ErrorLog[]> {
+  return groupBy(
+    logs.filter((log) => matchesFilter(log, rule.match)),
+    (log) => JSON.stringify((rule.groupBy ?? []).map((field) => fieldValue(log, field)))
+  );
+}
+
+function groupLabel(group: Record<string, string>): string {
+  const entries = Object.entries(group);
+  return entries.length > 0
+    ? ` (${entries.map(([field, value]) => `${field}=${value || "-"}`).join(", ")})`
+    : "";
+}
+
+interface Trigger {
+  group: Record<string, string>;
+  message: string;
+  records: ErrorLog[];
+}
+
+// Срабатывания одного правила на момент now; записи отсортированы по времени
+function evaluateRule(
+  rule: AlertRule,
+  logs: ErrorLog[],
+  now: number,
+  seen: Set<string>
+): Trigger[] {
+  const settings = { ...RULE_DEFAULTS, ...rule };
+  const window = formatDuration(settings.windowMs);
+  const triggers: Trigger[] = [];
+
+  if (settings.type === "first_seen") {
+    const firstByValue = groupBy(
+      logs.filter((log) => matchesFilter(log, rule.match)),
+      (log) => fieldValue(log, settings.field) || undefined
+    );
+    for (const [value, records] of firstByValue) {
+      // Новым считается значение, впервые встреченное в последнем окне
+      if (seen.has(value) || timeOf(records[0]) < now - settings.windowMs) continue;
+      triggers.push({
+        group: { [settings.field]: value },
+        message: `впервые встретилось ${settings.field}=${value} (записей: ${records.length})`,
+        records,
+      });
+    }
+    return triggers;
+  }
+
+  const groups = groupRecords(rule, logs);
+  if (settings.type === "absence" && groups.size === 0 && !rule.groupBy?.length) {
+    groups.set("[]", []);
+  }
+
+  for (const [key, records] of groups) {
+    const values: string[] = JSON.parse(key);
+    const group = Object.fromEntries(
+      (rule.groupBy ?? []).map((field, idx) => [field, values[idx]])
+    );
+    const label = groupLabel(group);
+    const inWindow = records.filter((log) => timeOf(log) > now - settings.windowMs);
+
+    if (settings.type === "threshold" && inWindow.length >= settings.threshold) {
+      triggers.push({
+        group,
+        message: `записей за ${window}: ${inWindow.length} (порог ${settings.threshold})${label}`,
+        records: inWindow,
+      });
+    }
+
+    if (settings.type === "rate" && inWindow.length >= settings.threshold) {
+      const baselineStart = now - settings.windowMs * (settings.baselineWindows + 1);
+      const baseline =
+        records.filter((log) => {
+          const time = timeOf(log);
+          return time > baselineStart && time <= now - settings.windowMs;
+        }).length / settings.baselineWindows;
+      if (inWindow.length >= baseline * settings.factor) {
+        const growth = baseline > 0 ? `×${(inWindow.length / baseline).toFixed(1)}` : "с нуля";
+        triggers.push({
+          group,
+          message:
+            `рост записей за ${window}: ${inWindow.length} против ${baseline.toFixed(1)} ` +
+            `в среднем (${growth})${label}`,
+          records: inWindow,
+        });
+      }
+    }
+
+    if (settings.type === "absence" && inWindow.length === 0) {
+      const last = records[records.length - 1];
+      triggers.push({
+        group,
+        message: last
+          ? `нет записей ${formatDuration(now - timeOf(last))} (последняя ${last.timestamp})${label}`
+          : `подходящих записей нет${label}`,
+        records: last ? [last] : [],
+      });
+    }
+  }
+  return triggers;
+}
+
+// Правила оповещений над всеми загруженными записями. При наблюдении и
+// в cron время — текущее, иначе тишина (absence) после последней записи
+// не была бы видна; для разбора архивных логов — время последней записи.
+// Повторы гасятся: после оповещения правило+группа молчат cooldownMs и
+// не оповещают снова, пока не появятся новые подходящие записи
+export class AlertEngine {
+  private state: AlertState;
+  // Состояние до оповещений последней проверки по id оповещения — для отката
+  private previous = new Map<string, { key: string; fired?: FiredAlert }>();
+
+  constructor(private rules: AlertRule[], state: AlertState = createAlertState()) {
+    this.state = structuredClone(state);
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  getState(): AlertState {
+    return structuredClone(this.state);
+  }
+
+  // Оповещения на момент now (по умолчанию — время последней записи)
+  evaluate(logs: ErrorLog[], now?: number): Alert[] {
+    const sorted = logs
+      .filter((log) => Number.isFinite(timeOf(log)))
+      .sort((a, b) => timeOf(a) - timeOf(b));
+    if (sorted.length === 0 && now === undefined) {
+      return [];
+    }
+    const at = now ?? timeOf(sorted[sorted.length - 1]);
+    const alerts: Alert[] = [];
+    this.previous.clear();
+
+    for (const rule of this.rules) {
+      const settings = { ...RULE_DEFAULTS, ...rule };
+      const seen = new Set(this.state.seen[rule.name] ?? []);
+
+      for (const trigger of evaluateRule(rule, sorted, at, seen)) {
+        const groupKey = JSON.stringify(trigger.group);
+        const key = `${rule.name}\n${groupKey}`;
+        const lastRecord = trigger.records.length
+          ? timeOf(trigger.records[trigger.records.length - 1])
+          : 0;
+        const previous = this.state.fired[key];
+        if (previous) {
+          if (at - previous.at < settings.cooldownMs) continue;
+          // Те же записи, что и в прошлый раз, — не новое событие
+          if (lastRecord <= previous.lastRecord) continue;
+        }
+
+        const id = `${rule.name}:${Object.values(trigger.group).join("/") || "*"}@${new Date(at).toISOString()}`;
+        this.previous.set(id, { key, fired: previous });
+        this.state.fired[key] = { at, lastRecord };
+        if (settings.type === "first_seen") {
+          seen.add(Object.values(trigger.group)[0]);
+        }
+        alerts.push({
+          id,
+          rule: rule.name,
+          type: settings.type,
+          severity: settings.severity,
+          group: trigger.group,
+          message: trigger.message,
+          firedAt: new Date(at).toISOString(),
+          count: trigger.records.length,
+          records: trigger.records.slice(-MAX_ALERT_RECORDS),
+        });
+      }
+
+      if (settings.type === "first_seen") {
+        this.state.seen[rule.name] = [...seen];
+      }
+    }
+    return alerts;
+  }
+
+  // Откат оповещений последней проверки, которые не дошли ни до одного
+  // получателя: cooldown и значение first_seen не расходуются, и следующая
+  // проверка оповестит снова
+  rollback(alerts: Alert[]): void {
+    for (const alert of alerts) {
+      const previous = this.previous.get(alert.id);
+      if (!previous) continue;
+      this.previous.delete(alert.id);
+      if (previous.fired) {
+        this.state.fired[previous.key] = previous.fired;
+      } else {
+        delete this.state.fired[previous.key];
+      }
+      if (alert.type === "first_seen") {
+        const value = Object.values(alert.group)[0];
+        this.state.seen[alert.rule] = (this.state.seen[alert.rule] ?? []).filter(
+          (item) => item !== value
+        );
+      }
+    }
+  }
+
+  // Учесть уже загруженные записи без оповещений: при запуске наблюдения
+  // оповещать только о том, что случилось после него
+  prime(logs: ErrorLog[], now?: number): void {
+    for (const rule of this.rules) {
+      if (rule.type !== "first_seen") continue;
+      const field = rule.field ?? RULE_DEFAULTS.field;
+      const seen = new Set(this.state.seen[rule.name] ?? []);
+      for (const log of logs) {
+        if (!matchesFilter(log, rule.match)) continue;
+        const value = fieldValue(log, field);
+        if (value) seen.add(value);
+      }
+      this.state.seen[rule.name] = [...seen];
+    }
+    this.evaluate(logs, now);
+  }
+}
+
+const SEVERITY_ICONS: Record<AlertSeverity, string> = {
+  critical: "🔴",
+  warning: "🟠",
+  info: "🔵",
+};
+
+// "🔴 critical payment-timeouts: записей за 5м 00с: 7 (порог 5)"
+export function formatAlertLine(alert: Alert): string {
+  return `${SEVERITY_ICONS[alert.severity]} ${alert.severity} ${alert.rule}: ${alert.message}`;
+}
+
+// Оповещения для вывода пользователю: строка, сводка модели и пример записи
+export function formatAlerts(alerts: Alert[]): string {
+  if (alerts.length === 0) {
+    return "🔕 Правила оповещений не сработали";
+  }
+
+  const lines = [`🔔 Сработавших правил: ${alerts.length}`];
+  for (const alert of alerts) {
+    lines.push(`  ${formatAlertLine(alert)}`);
+    if (alert.summary) {
+      lines.push(...alert.summary.split("\n").map((line) => `     ${line}`));
+    }
+    const last = alert.records[alert.records.length - 1];
+    if (last) {
+      lines.push(
+        `     последняя: ${last.timestamp} ${last.service} ${last.error_type}: ${last.message}`
+      );
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,157 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  computeRates,
+  detectAnomalies,
+  detectLatencyRegressions,
+  detectNewErrorTypes,
+  detectSpikes,
+  formatAnomalies,
+  MAX_RATE_BUCKETS,
+} from "./anomalies.js";
+import { logAt } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+// Фон: одна ошибка auth-service в минуту в течение часа
+function background(minutes: number): ErrorLog[] {
+  return Array.from({ length: minutes }, (_, minute) => logAt(minute));
+}
+
+describe("anomalies", () => {
+  describe("computeRates", () => {
+    it("should count per bucket including empty buckets", () => {
+      const rates = computeRates(
+        [logAt(0), logAt(0), logAt(3), logAt(1, { service: "payment-service" })],
+        "service"
+      );
+
+      assert.deepStrictEqual(
+        rates.map((series) => [series.key, series.counts, series.total]),
+        [
+          ["auth-service", [2, 0, 0, 1], 3],
+          ["payment-service", [0, 1, 0, 0], 1],
+        ]
+      );
+      assert.strictEqual(rates[0].start, "2024-12-10T08:00:00.000Z");
+      assert.strictEqual(rates[0].ratePerMinute, 0.75);
+    });
+
+    it("should leave timestamp outliers out of a bounded series", () => {
+      // ts=1733817600 в секундах, прочитанный как миллисекунды, — январь 1970
+      const outlier = logAt(0, { timestamp: new Date(1733817600).toISOString() });
+      const rates = computeRates([outlier, logAt(0), logAt(2)], "service");
+
+      assert.deepStrictEqual(
+        rates.map((series) => [series.key, series.counts, series.total]),
+        [["auth-service", [1, 0, 1], 2]]
+      );
+
+      const spread = computeRates([logAt(0), logAt(MAX_RATE_BUCKETS * 2)], "service");
+      assert.ok(spread[0].counts.length <= MAX_RATE_BUCKETS);
+    });
+
+    it("should ignore records without a valid timestamp", () => {
+      assert.deepStrictEqual(computeRates([logAt(0, { timestamp: "soon" })], "service"), []);
+    });
+  });
+
+  describe("detectSpikes", () => {
+    it("should flag a burst far above the EWMA baseline", () => {
+      const logs = [
+        ...background(30),
+        ...Array.from({ length: 8 }, () => logAt(20)),
+      ];
+      const [series] = computeRates(logs, "service");
+      const spikes = detectSpikes(series, 60000);
+
+      assert.strictEqual(spikes.length, 1);
+      assert.strictEqual(spikes[0].bucket, "2024-12-10T08:20:00.000Z");
+      assert.strictEqual(spikes[0].count, 9);
+      assert.ok(spikes[0].zScore >= 3);
+    });
+
+    it("should ignore steady traffic and small bursts", () => {
+      const logs = [...background(30), logAt(20), logAt(21)];
+      const [series] = computeRates(logs, "service");
+      assert.deepStrictEqual(detectSpikes(series, 60000), []);
+    });
+  });
+
+  describe("detectNewErrorTypes", () => {
+    it("should flag error types first seen in the recent window", () => {
+      const logs = [
+        ...background(60),
+        logAt(50, { service: "payment-service", error_type: "FraudCheckFailed" }),
+        logAt(55, { service: "payment-service", error_type: "FraudCheckFailed" }),
+        logAt(10, { error_type: "TokenExpired" }),
+      ];
+
+      assert.deepStrictEqual(detectNewErrorTypes(logs), [
+        {
+          error_type: "FraudCheckFailed",
+          services: ["payment-service"],
+          firstSeen: "2024-12-10T08:50:00.000Z",
+          count: 2,
+        },
+      ]);
+    });
+
+    it("should need a baseline at least as long as the recent window", () => {
+      const logs = [...background(20), logAt(19, { error_type: "FraudCheckFailed" })];
+      assert.deepStrictEqual(detectNewErrorTypes(logs), []);
+    });
+  });
+
+  describe("detectLatencyRegressions", () => {
+    it("should compare recent and baseline medians per service", () => {
+      const logs = [
+        logAt(0, { metadata: { response_time_ms: 100 } }),
+        logAt(10, { metadata: { response_time_ms: 120 } }),
+        logAt(50, { metadata: { response_time_ms: 400 } }),
+        logAt(55, { metadata: { response_time_ms: 500 } }),
+        logAt(1, { service: "api-gateway", metadata: { response_time_ms: 50 } }),
+        logAt(2, { service: "api-gateway", metadata: { response_time_ms: 50 } }),
+        logAt(52, { service: "api-gateway", metadata: { response_time_ms: 55 } }),
+        logAt(53, { service: "api-gateway", metadata: { response_time_ms: 60 } }),
+      ];
+
+      assert.deepStrictEqual(detectLatencyRegressions(logs), [
+        { service: "auth-service", baselineMs: 110, recentMs: 450, ratio: 4.09, samples: 2 },
+      ]);
+    });
+
+    it("should take medians of samples that arrive out of order", () => {
+      const logs = [
+        ...[1000, 100, 1000, 100, 100].map((ms, minute) =>
+          logAt(minute, { metadata: { response_time_ms: ms } })
+        ),
+        logAt(50, { metadata: { response_time_ms: 300 } }),
+        logAt(55, { metadata: { response_time_ms: 300 } }),
+      ];
+
+      assert.deepStrictEqual(detectLatencyRegressions(logs), [
+        { service: "auth-service", baselineMs: 100, recentMs: 300, ratio: 3, samples: 2 },
+      ]);
+    });
+  });
+
+  describe("formatAnomalies", () => {
+    it("should report nothing for quiet logs", () => {
+      const report = detectAnomalies(background(30));
+      assert.strictEqual(formatAnomalies(report), "АНОМАЛИИ:\n  не обнаружено");
+    });
+
+    it("should list every kind of finding", () => {
+      const logs = [
+        ...background(60),
+        ...Array.from({ length: 8 }, () => logAt(40)),
+        logAt(50, { service: "payment-service", error_type: "FraudCheckFailed" }),
+      ];
+      const text = formatAnomalies(detectAnomalies(logs));
+
+      assert.match(text, /📈 Всплеск auth-service: 9 записей в 08:40/);
+      assert.match(text, /📈 Всплеск DatabaseConnectionError: 9 записей в 08:40/);
+      assert.match(text, /🆕 Новый тип ошибки FraudCheckFailed \(payment-service\): впервые в 08:50/);
+    });
+  });
+});
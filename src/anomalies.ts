@@ -0,0 +1,313 @@
+import { groupBy } from "./collections";
+import { getField, RESPONSE_TIME_FIELD, percentile } from "./query";
+import { ErrorLog } from "./types";
+
+export interface AnomalyOptions {
+  bucketMs: number; // Размер временного окна для подсчёта частоты
+  alpha: number; // Коэффициент сглаживания EWMA
+  zThreshold: number; // Насколько стандартных отклонений выше базы считается всплеском
+  minCount: number; // Минимум записей в окне, чтобы считать его всплеском
+  warmupBuckets: number; // Сколько окон нужно для базовой линии
+  recentWindowMs: number; // «Недавний» период для новых типов и задержки
+  latencyRatio: number; // Во сколько раз должна вырасти медиана задержки
+  minLatencySamples: number; // Минимум замеров в каждом периоде
+}
+
+const DEFAULT_ANOMALY_OPTIONS: AnomalyOptions = {
+  bucketMs: 60 * 1000,
+  alpha: 0.3,
+  zThreshold: 3,
+  minCount: 3,
+  warmupBuckets: 5,
+  recentWindowMs: 15 * 60 * 1000,
+  latencyRatio: 1.5,
+  minLatencySamples: 2,
+};
+
+export type SeriesField = "service" | "error_type";
+
+// Частота записей во времени для одного значения поля
+export interface RateSeries {
+  field: SeriesField;
+  key: string;
+  start: string; // Начало первого окна
+  counts: number[]; // Записей в каждом окне подряд, включая пустые
+  total: number;
+  ratePerMinute: number; // Средняя частота за весь период
+}
+
+export interface Spike {
+  field: SeriesField;
+  key: string;
+  bucket: string; // Начало окна со всплеском
+  count: number;
+  baseline: number; // Ожидаемое количество по EWMA
+  zScore: number;
+}
+
+export interface NewErrorType {
+  error_type: string;
+  services: string[];
+  firstSeen: string;
+  count: number;
+}
+
+export interface LatencyRegression {
+  service: string;
+  baselineMs: number; // Медиана до недавнего периода
+  recentMs: number; // Медиана за недавний период
+  ratio: number;
+  samples: number; // Замеров в недавнем периоде
+}
+
+export interface AnomalyReport {
+  from: string | null;
+  to: string | null;
+  bucketMs: number;
+  spikes: Spike[];
+  newErrorTypes: NewErrorType[];
+  latencyRegressions: LatencyRegression[];
+}
+
+function timeOf(log: ErrorLog): number {
+  return Date.parse(log.timestamp);
+}
+
+// Записи с корректным временем в хронологическом порядке
+function timedLogs(logs: ErrorLog[]): ErrorLog[] {
+  return logs
+    .filter((log) => Number.isFinite(timeOf(log)))
+    .sort((a, b) => timeOf(a) - timeOf(b));
+}
+
+// Больше окон в ряду не строится: запись с ошибочным временем (секунды
+// эпохи, прочитанные как миллисекунды) растянула бы ряд на десятилетия
+export const MAX_RATE_BUCKETS = 10_000;
+
+// Отрезок отсортированных записей длиной не больше spanMs, в который
+// попадает больше всего записей; выбросы по времени остаются за его краями
+function densestSpan(sorted: ErrorLog[], spanMs: number): ErrorLog[] {
+  let best = { from: 0, to: 0 };
+  let from = 0;
+  for (let to = 0; to < sorted.length; to++) {
+    while (timeOf(sorted[to]) - timeOf(sorted[from]) >= spanMs) from++;
+    if (to - from > best.to - best.from) best = { from, to };
+  }
+  return sorted.slice(best.from, best.to + 1);
+}
+
+// Частота по окнам для каждого сервиса или типа ошибки. Ряд покрывает не
+// больше MAX_RATE_BUCKETS окон: при большем разбросе времени берётся
+// отрезок с наибольшим числом записей
+export function computeRates(
+  logs: ErrorLog[],
+  field: SeriesField,
+  bucketMs: number = DEFAULT_ANOMALY_OPTIONS.bucketMs
+): RateSeries[] {
+  let sorted = timedLogs(logs);
+  if (sorted.length === 0) return [];
+
+  const span = timeOf(sorted[sorted.length - 1]) - timeOf(sorted[0]);
+  if (span >= (MAX_RATE_BUCKETS - 1) * bucketMs) {
+    sorted = densestSpan(sorted, (MAX_RATE_BUCKETS - 1) * bucketMs);
+  }
+
+  const first = Math.floor(timeOf(sorted[0]) / bucketMs) * bucketMs;
+  const last = Math.floor(timeOf(sorted[sorted.length - 1]) / bucketMs) * bucketMs;
+  const bucketCount = (last - first) / bucketMs + 1;
+  const minutes = (bucketCount * bucketMs) / 60000;
+
+  const series = new Map<string, number[]>();
+  for (const log of sorted) {
+    const key = String(log[field]);
+    const counts = series.get(key) ?? new Array<number>(bucketCount).fill(0);
+    counts[Math.floor((timeOf(log) - first) / bucketMs)]++;
+    series.set(key, counts);
+  }
+
+  return [...series.entries()]
+    .map(([key, counts]) => {
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      return {
+        field,
+        key,
+        start: new Date(first).toISOString(),
+        counts,
+        total,
+        ratePerMinute: total / minutes,
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+// Всплески: окно, где количество выше EWMA-базы на zThreshold отклонений
+export function detectSpikes(
+  series: RateSeries,
+  bucketMs: number,
+  options: Partial<AnomalyOptions> = {}
+): Spike[] {
+  const { alpha, zThreshold, minCount, warmupBuckets } = {
+    ...DEFAULT_ANOMALY_OPTIONS,
+    ...options,
+  };
+  const spikes: Spike[] = [];
+  const start = Date.parse(series.start);
+
+  let mean = series.counts[0] ?? 0;
+  let variance = 0;
+
+  series.counts.forEach((count, idx) => {
+    if (idx === 0) return;
+
+    if (idx >= warmupBuckets) {
+      // Отклонение не меньше 1, чтобы редкие ошибки не давали огромный z
+      const zScore = (count - mean) / Math.max(Math.sqrt(variance), 1);
+      if (count >= minCount && zScore >= zThreshold) {
+        spikes.push({
+          field: series.field,
+          key: series.key,
+          bucket: new Date(start + idx * bucketMs).toISOString(),
+          count,
+          baseline: Number(mean.toFixed(2)),
+          zScore: Number(zScore.toFixed(1)),
+        });
+      }
+    }
+
+    const diff = count - mean;
+    mean += alpha * diff;
+    variance = (1 - alpha) * (variance + alpha * diff * diff);
+  });
+
+  return spikes;
+}
+
+// Новые типы ошибок: впервые появились в недавнем периоде. Нужна база не
+// короче самого периода, иначе «новым» окажется всё
+export function detectNewErrorTypes(
+  logs: ErrorLog[],
+  options: Partial<AnomalyOptions> = {}
+): NewErrorType[] {
+  const { recentWindowMs } = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const sorted = timedLogs(logs);
+  if (sorted.length === 0) return [];
+
+  const cutoff = timeOf(sorted[sorted.length - 1]) - recentWindowMs;
+  if (cutoff - timeOf(sorted[0]) < recentWindowMs) return [];
+
+  const byType = groupBy(sorted, (log) => log.error_type);
+
+  return [...byType.entries()]
+    .filter(([, typeLogs]) => timeOf(typeLogs[0]) > cutoff)
+    .map(([errorType, typeLogs]) => ({
+      error_type: errorType,
+      services: [...new Set(typeLogs.map((log) => log.service))],
+      firstSeen: typeLogs[0].timestamp,
+      count: typeLogs.length,
+    }));
+}
+
+// Рост задержки: медиана response_time_ms за недавний период против базы
+export function detectLatencyRegressions(
+  logs: ErrorLog[],
+  options: Partial<AnomalyOptions> = {}
+): LatencyRegression[] {
+  const { recentWindowMs, latencyRatio, minLatencySamples } = {
+    ...DEFAULT_ANOMALY_OPTIONS,
+    ...options,
+  };
+  const sorted = timedLogs(logs);
+  if (sorted.length === 0) return [];
+
+  const cutoff = timeOf(sorted[sorted.length - 1]) - recentWindowMs;
+  const samples = new Map<string, { baseline: number[]; recent: number[] }>();
+
+  for (const log of sorted) {
+    const value = getField(log, RESPONSE_TIME_FIELD);
+    if (typeof value !== "number" || !Number.isFinite(value)) continue;
+    const entry = samples.get(log.service) ?? { baseline: [], recent: [] };
+    (timeOf(log) > cutoff ? entry.recent : entry.baseline).push(value);
+    samples.set(log.service, entry);
+  }
+
+  const regressions: LatencyRegression[] = [];
+  for (const [service, { baseline, recent }] of samples) {
+    if (baseline.length < minLatencySamples || recent.length < minLatencySamples) continue;
+
+    // percentile ожидает отсортированные значения, замеры идут по времени
+    const baselineMs = percentile([...baseline].sort((a, b) => a - b), 50)!;
+    const recentMs = percentile([...recent].sort((a, b) => a - b), 50)!;
+    if (baselineMs > 0 && recentMs / baselineMs >= latencyRatio) {
+      regressions.push({
+        service,
+        baselineMs,
+        recentMs,
+        ratio: Number((recentMs / baselineMs).toFixed(2)),
+        samples: recent.length,
+      });
+    }
+  }
+
+  return regressions.sort((a, b) => b.ratio - a.ratio);
+}
+
+export function detectAnomalies(
+  logs: ErrorLog[],
+  options: Partial<AnomalyOptions> = {}
+): AnomalyReport {
+  const settings = { ...DEFAULT_ANOMALY_OPTIONS, ...options };
+  const sorted = timedLogs(logs);
+
+  const spikes = (["service", "error_type"] as const)
+    .flatMap((field) => computeRates(sorted, field, settings.bucketMs))
+    .flatMap((series) => detectSpikes(series, settings.bucketMs, settings))
+    .sort((a, b) => b.zScore - a.zScore);
+
+  return {
+    from: sorted[0]?.timestamp ?? null,
+    to: sorted[sorted.length - 1]?.timestamp ?? null,
+    bucketMs: settings.bucketMs,
+    spikes,
+    newErrorTypes: detectNewErrorTypes(sorted, settings),
+    latencyRegressions: detectLatencyRegressions(sorted, settings),
+  };
+}
+
+export function hasAnomalies(report: AnomalyReport): boolean {
+  return (
+    report.spikes.length > 0 ||
+    report.newErrorTypes.length > 0 ||
+    report.latencyRegressions.length > 0
+  );
+}
+
+// Текстовое представление находок (для старта CLI и промпта)
+export function formatAnomalies(report: AnomalyReport): string {
+  if (!hasAnomalies(report)) {
+    return "АНОМАЛИИ:\n  не обнаружено";
+  }
+
+  const time = (iso: string) => iso.slice(11, 16);
+  const lines = [
+    ...report.spikes.map(
+      (spike) =>
+        `  📈 Всплеск ${spike.key}: ${spike.count} записей в ${time(spike.bucket)} (обычно ~${
+          spike.baseline
+        }, z=${spike.zScore})`
+    ),
+    ...report.newErrorTypes.map(
+      (type) =>
+        `  🆕 Новый тип ошибки ${type.error_type} (${type.services.join(", ")}): впервые в ${time(
+          type.firstSeen
+        )}, записей: ${type.count}`
+    ),
+    ...report.latencyRegressions.map(
+      (regression) =>
+        `  🐢 Рост задержки ${regression.service}: медиана ${regression.baselineMs} мс → ${
+          regression.recentMs
+        } мс (×${regression.ratio})`
+    ),
+  ];
+
+  return `АНОМАЛИИ:\n${lines.join("\n")}`;
+}
@@ -0,0 +1,138 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  chunk,
+  formatDuration,
+  formatProgress,
+  isTransientError,
+  runWithConcurrency,
+  withRetry,
+} from "./batching.js";
+
+describe("batching", () => {
+  describe("chunk", () => {
+    it("should split items into batches of given size", () => {
+      assert.deepStrictEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+      assert.deepStrictEqual(chunk([], 3), []);
+    });
+  });
+
+  describe("isTransientError", () => {
+    it("should retry network errors, 429 and 5xx only", () => {
+      assert.strictEqual(isTransientError(new Error("fetch failed")), true);
+      assert.strictEqual(isTransientError({ status_code: 429 }), true);
+      assert.strictEqual(isTransientError({ status_code: 503 }), true);
+      assert.strictEqual(isTransientError({ status_code: 404 }), false);
+      assert.strictEqual(
+        isTransientError(
+          new TypeError("fetch failed", { cause: Object.assign(new Error(), { code: "ECONNREFUSED" }) })
+        ),
+        true
+      );
+      assert.strictEqual(isTransientError(new DOMException("aborted", "AbortError")), true);
+    });
+
+    it("should not retry programming errors", () => {
+      assert.strictEqual(
+        isTransientError(new TypeError("Cannot read properties of undefined (reading 'embeddings')")),
+        false
+      );
+      assert.strictEqual(isTransientError(new Error("model returned no embeddings")), false);
+      assert.strictEqual(isTransientError("ECONNRESET"), false);
+    });
+  });
+
+  describe("withRetry", () => {
+    it("should retry transient failures until success", async () => {
+      let calls = 0;
+      const retries: number[] = [];
+
+      const result = await withRetry(
+        async () => {
+          calls++;
+          if (calls < 3) throw new Error("ECONNRESET");
+          return "ok";
+        },
+        {
+          baseDelayMs: 1,
+          onRetry: (_error, attempt) => retries.push(attempt),
+        }
+      );
+
+      assert.strictEqual(result, "ok");
+      assert.strictEqual(calls, 3);
+      assert.deepStrictEqual(retries, [1, 2]);
+    });
+
+    it("should give up after the configured number of retries", async () => {
+      let calls = 0;
+
+      await assert.rejects(
+        withRetry(
+          async () => {
+            calls++;
+            throw Object.assign(new Error("connect ECONNREFUSED 127.0.0.1:11434"), {
+              code: "ECONNREFUSED",
+            });
+          },
+          { retries: 2, baseDelayMs: 1 }
+        ),
+        { code: "ECONNREFUSED" }
+      );
+      assert.strictEqual(calls, 3);
+    });
+
+    it("should not retry permanent errors", async () => {
+      let calls = 0;
+      const error = Object.assign(new Error("model not found"), {
+        status_code: 404,
+      });
+
+      await assert.rejects(
+        withRetry(
+          async () => {
+            calls++;
+            throw error;
+          },
+          { baseDelayMs: 1 }
+        )
+      );
+      assert.strictEqual(calls, 1);
+    });
+  });
+
+  describe("runWithConcurrency", () => {
+    it("should process all items without exceeding the limit", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const processed: number[] = [];
+
+      await runWithConcurrency([1, 2, 3, 4, 5], 2, async (item) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        processed.push(item);
+        active--;
+      });
+
+      assert.strictEqual(maxActive, 2);
+      assert.deepStrictEqual(processed.sort(), [1, 2, 3, 4, 5]);
+    });
+  });
+
+  describe("formatProgress", () => {
+    it("should format durations", () => {
+      assert.strictEqual(formatDuration(45_000), "45с");
+      assert.strictEqual(formatDuration(185_000), "3м 05с");
+      assert.strictEqual(formatDuration(3_720_000), "1ч 02м");
+    });
+
+    it("should include ETA while in progress", () => {
+      assert.strictEqual(
+        formatProgress(25, 100, 10_000),
+        "25/100 записей (25%) · осталось ~30с"
+      );
+      assert.strictEqual(formatProgress(100, 100, 10_000), "100/100 записей (100%)");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+export interface RetryOptions {
+  retries: number; // Количество повторов после первой попытки
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+// Разбиение массива на пачки фиксированного размера
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += Math.max(1, size)) {
+    chunks.push(items.slice(i, i + Math.max(1, size)));
+  }
+  return chunks;
+}
+
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"];
+
+const NETWORK_ERROR_MESSAGE = new RegExp(`fetch failed|${NETWORK_ERROR_CODES.join("|")}`);
+
+// Временная ли ошибка: сетевые сбои (в том числе TypeError "fetch failed"
+// с кодом в cause), таймауты, 429 и 5xx повторяем. Остальные ошибки,
+// включая ошибки в коде, повторять бессмысленно
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { status_code?: number })?.status_code;
+  if (typeof status === "number") {
+    return status === 429 || status >= 500;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (error.name === "AbortError" || error.name === "TimeoutError") {
+    return true;
+  }
+
+  const code =
+    (error as { code?: unknown }).code ?? (error.cause as { code?: unknown } | undefined)?.code;
+  if (typeof code === "string" && NETWORK_ERROR_CODES.includes(code)) {
+    return true;
+  }
+  return NETWORK_ERROR_MESSAGE.test(error.message);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Выполнение с повторами и экспоненциальной задержкой (с небольшим jitter)
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: Partial<RetryOptions> = {}
+): Promise<T> {
+  const { retries, baseDelayMs, maxDelayMs, onRetry } = {
+    ...DEFAULT_RETRY,
+    ...options,
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+
+      const delay = Math.min(
+        maxDelayMs,
+        baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.2)
+      );
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+// Обработка элементов не более чем `concurrency` задачами одновременно
+export async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+
+  const runners = Array.from(
+    { length: Math.min(Math.max(1, concurrency), items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        await worker(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(runners);
+}
+
+// Форматирование оставшегося времени: "45с", "3м 05с", "1ч 02м"
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}ч ${String(minutes).padStart(2, "0")}м`;
+  if (minutes > 0) return `${minutes}м ${String(seconds).padStart(2, "0")}с`;
+  return `${seconds}с`;
+}
+
+// Строка прогресса с процентом и оценкой оставшегося времени
+export function formatProgress(
+  done: number,
+  total: number,
+  elapsedMs: number
+): string {
+  const percent = total > 0 ? Math.floor((done / total) * 100) : 100;
+  const eta =
+    done > 0 && done < total
+      ? ` · осталось ~${formatDuration((elapsedMs / done) * (total - done))}`
+      : "";
+  return `${done}/${total} записей (${percent}%)${eta}`;
+}
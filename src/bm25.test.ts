@@ -0,0 +1,107 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { BM25Index, isIdentifier, reciprocalRankFusion, tokenize } from "./bm25.js";
+
+describe("bm25", () => {
+  describe("tokenize", () => {
+    it("should keep identifiers whole and add their parts", () => {
+      const terms = tokenize("Request ID: req_a1b2c3 at Database.connect (db.js:45)");
+
+      assert.ok(terms.includes("req_a1b2c3"));
+      assert.ok(terms.includes("a1b2c3"));
+      assert.ok(terms.includes("db.js:45"));
+      assert.ok(terms.includes("db.js"));
+      assert.ok(terms.includes("database.connect"));
+    });
+
+    it("should keep IP addresses and emails", () => {
+      const terms = tokenize('{"ip_address":"192.168.1.100","username":"john.doe@example.com"}');
+
+      assert.ok(terms.includes("192.168.1.100"));
+      assert.ok(terms.includes("john.doe@example.com"));
+    });
+
+    it("should lowercase and handle cyrillic", () => {
+      assert.deepStrictEqual(tokenize("Ошибка БД"), ["ошибка", "бд"]);
+    });
+
+    it("should recognize identifier-like terms", () => {
+      assert.ok(isIdentifier("req_m3n4o5"));
+      assert.ok(isIdentifier("192.168.1.100"));
+      assert.ok(isIdentifier("db.js:45"));
+      assert.ok(!isIdentifier("auth-service"));
+      assert.ok(!isIdentifier("m3n4o5"));
+    });
+  });
+
+  describe("BM25Index", () => {
+    function buildIndex(): BM25Index {
+      const index = new BM25Index();
+      index.add(0, "auth-service DatabaseConnectionError req_a1b2c3 user_1234");
+      index.add(1, "auth-service DatabaseConnectionError req_m3n4o5 user_3456");
+      index.add(2, "payment-service PaymentGatewayTimeout req_d4e5f6 user_5678");
+      return index;
+    }
+
+    it("should rank exact identifier matches first", () => {
+      const results = buildIndex().search("what happened with req_m3n4o5?", 3);
+
+      assert.strictEqual(results[0].id, 1);
+      assert.ok(results[0].score > results[1].score * 2);
+    });
+
+    it("should list documents containing an exact term", () => {
+      const index = buildIndex();
+      assert.deepStrictEqual(index.documentsWithTerm("REQ_M3N4O5"), [1]);
+      assert.deepStrictEqual(index.documentsWithTerm("req_zzz"), []);
+    });
+
+    it("should prefer rarer terms", () => {
+      const results = buildIndex().search("auth-service PaymentGatewayTimeout", 3);
+      assert.strictEqual(results[0].id, 2);
+    });
+
+    it("should support re-adding and removing documents", () => {
+      const index = buildIndex();
+      index.add(2, "cache-service RedisConnectionError");
+      index.remove(0);
+
+      assert.strictEqual(index.size, 2);
+      assert.deepStrictEqual(index.search("d4e5f6", 3), []);
+      assert.deepStrictEqual(index.search("a1b2c3", 3), []);
+      assert.strictEqual(index.search("redisconnectionerror", 3)[0].id, 2);
+    });
+
+    it("should return nothing for an empty index", () => {
+      assert.deepStrictEqual(new BM25Index().search("anything", 5), []);
+    });
+  });
+
+  describe("reciprocalRankFusion", () => {
+    it("should combine rankings by weight", () => {
+      const fused = reciprocalRankFusion(
+        [
+          { ids: [1, 2, 3], weight: 0.5 },
+          { ids: [3, 1], weight: 0.5 },
+        ],
+        60
+      );
+
+      assert.deepStrictEqual(
+        fused.map((doc) => doc.id),
+        [1, 3, 2]
+      );
+    });
+
+    it("should ignore a ranking with zero weight", () => {
+      const fused = reciprocalRankFusion([
+        { ids: [1, 2], weight: 1 },
+        { ids: [2, 1], weight: 0 },
+      ]);
+      assert.deepStrictEqual(
+        fused.map((doc) => doc.id),
+        [1, 2]
+      );
+    });
+  });
+});
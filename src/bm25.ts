@@ -0,0 +1,141 @@
+// Составной токен: идентификаторы вида req_a1b2c3, 192.168.1.100, db.js:45, john@x.com
+const TOKEN = /[\p{L}\p{N}](?:[\p{L}\p{N}_.:@/-]*[\p{L}\p{N}])?/gu;
+const TOKEN_PARTS = /[_.:@/-]+/;
+
+// Разбиение текста на термы: составной токен целиком плюс его части,
+// чтобы "db.js:45" находился и по точному совпадению, и по "db.js"
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+
+  for (const match of text.toLowerCase().matchAll(TOKEN)) {
+    const token = match[0];
+    terms.push(token);
+
+    if (TOKEN_PARTS.test(token)) {
+      const parts = token.split(TOKEN_PARTS).filter(Boolean);
+      terms.push(...parts);
+      // Промежуточные префиксы: "db.js:45" → "db.js"
+      const separators = [...token.matchAll(/[_.:@/-]+/g)];
+      for (const separator of separators.slice(1)) {
+        terms.push(token.slice(0, separator.index));
+      }
+    }
+  }
+
+  return terms;
+}
+
+// Похож ли терм на идентификатор: есть цифры и разделители (req_a1b2c3, 10.0.0.1, db.js:45)
+export function isIdentifier(term: string): boolean {
+  return /\d/.test(term) && /[_.:@/-]/.test(term);
+}
+
+export interface ScoredDocument {
+  id: number;
+  score: number;
+}
+
+// Инвертированный индекс с ранжированием Okapi BM25
+export class BM25Index {
+  private postings = new Map<string, Map<number, number>>();
+  private lengths = new Map<number, number>();
+  private totalLength = 0;
+
+  constructor(
+    private k1: number = 1.2,
+    private b: number = 0.75
+  ) {}
+
+  get size(): number {
+    return this.lengths.size;
+  }
+
+  // Документы, содержащие терм (точное совпадение)
+  documentsWithTerm(term: string): number[] {
+    return [...(this.postings.get(term.toLowerCase())?.keys() ?? [])];
+  }
+
+  add(id: number, text: string): void {
+    if (this.lengths.has(id)) {
+      this.remove(id);
+    }
+
+    const terms = tokenize(text);
+    this.lengths.set(id, terms.length);
+    this.totalLength += terms.length;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term) ?? new Map<number, number>();
+      posting.set(id, (posting.get(id) ?? 0) + 1);
+      this.postings.set(term, posting);
+    }
+  }
+
+  remove(id: number): void {
+    const length = this.lengths.get(id);
+    if (length === undefined) return;
+
+    this.totalLength -= length;
+    this.lengths.delete(id);
+    for (const [term, posting] of this.postings) {
+      posting.delete(id);
+      if (posting.size === 0) this.postings.delete(term);
+    }
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.lengths.clear();
+    this.totalLength = 0;
+  }
+
+  // allowed — ограничить поиск подмножеством документов (предварительный фильтр)
+  search(query: string, limit: number, allowed?: Set<number>): ScoredDocument[] {
+    const docCount = this.lengths.size;
+    if (docCount === 0) return [];
+
+    const avgLength = this.totalLength / docCount;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (docCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, tf] of posting) {
+        if (allowed && !allowed.has(id)) continue;
+        const length = this.lengths.get(id) ?? 0;
+        const norm = tf + this.k1 * (1 - this.b + (this.b * length) / avgLength);
+        scores.set(id, (scores.get(id) ?? 0) + (idf * tf * (this.k1 + 1)) / norm);
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score || a.id - b.id)
+      .slice(0, limit);
+  }
+}
+
+export interface Ranking {
+  ids: number[]; // Документы в порядке убывания релевантности
+  weight: number;
+}
+
+// Reciprocal rank fusion: score = Σ weight / (k + rank)
+export function reciprocalRankFusion(
+  rankings: Ranking[],
+  k: number = 60
+): ScoredDocument[] {
+  const scores = new Map<number, number>();
+
+  for (const { ids, weight } of rankings) {
+    ids.forEach((id, rank) => {
+      scores.set(id, (scores.get(id) ?? 0) + weight / (k + rank + 1));
+    });
+  }
+
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score || a.id - b.id);
+}
@@ -0,0 +1,92 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { extractCitationMarkers, formatSources, resolveCitations } from "./citations.js";
+import { makeLog } from "./test-fixtures.js";
+
+const records = [
+  makeLog({ source: { file: "data/error-logs.json", line: 3 } }),
+  makeLog({
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    request_id: "req_d4e5f6",
+    source: { file: "data/error-logs.json", line: 17 },
+  }),
+  makeLog({ request_id: "req_m3n4o5" }),
+];
+
+describe("citations", () => {
+  describe("extractCitationMarkers", () => {
+    it("should read single, grouped and labelled markers in order", () => {
+      assert.deepStrictEqual(
+        extractCitationMarkers("Таймауты [2], БД [1, 3]. Повтор [Запись 2] и [записи 3; 1]"),
+        [2, 1, 3]
+      );
+    });
+
+    it("should ignore brackets without numbers", () => {
+      assert.deepStrictEqual(extractCitationMarkers("[ERROR] [payment] [] [1a]"), []);
+    });
+
+    it("should accept bare markers only within the records sent", () => {
+      assert.deepStrictEqual(
+        extractCitationMarkers("В [2024] году код [500] и [0], см. [2] и [2, 9]", 3),
+        [2]
+      );
+      assert.deepStrictEqual(extractCitationMarkers("[Запись 7] и [записи 1; 9]", 3), [7, 1, 9]);
+    });
+  });
+
+  describe("resolveCitations", () => {
+    it("should map markers to records and report unknown ones", () => {
+      const result = resolveCitations("Платежи падают [2], см. также [Запись 7] и [2024]", records);
+
+      assert.deepStrictEqual(result, {
+        citations: [
+          {
+            marker: 2,
+            request_id: "req_d4e5f6",
+            service: "payment-service",
+            error_type: "PaymentGatewayTimeout",
+            timestamp: "2024-12-10T08:15:23.456Z",
+            source: { file: "data/error-logs.json", line: 17 },
+          },
+        ],
+        unresolved: [7],
+      });
+    });
+
+    it("should include the top stack frame", () => {
+      const withStack = [makeLog({ stack_trace: "at Database.connect (db.js:45)" })];
+      const { citations } = resolveCitations("[1]", withStack);
+
+      assert.strictEqual(citations[0].frame, "Database.connect (db.js:45)");
+      assert.match(
+        formatSources({ citations, unresolved: [] }),
+        /\[1\] req_a1b2c3 · auth-service DatabaseConnectionError · Database\.connect \(db\.js:45\) · источник неизвестен/
+      );
+    });
+
+    it("should treat [Запись 0] as unresolved", () => {
+      assert.deepStrictEqual(resolveCitations("[Запись 0] [0]", records).unresolved, [0]);
+    });
+  });
+
+  describe("formatSources", () => {
+    it("should print file:line references", () => {
+      const footer = formatSources(resolveCitations("[1] [3] [Запись 9]", records));
+      assert.strictEqual(
+        footer,
+        [
+          "📎 Источники:",
+          "  [1] req_a1b2c3 · auth-service DatabaseConnectionError · data/error-logs.json:3",
+          "  [3] req_m3n4o5 · auth-service DatabaseConnectionError · источник неизвестен",
+          "  ⚠️  Нет записей для ссылок: [9]",
+        ].join("\n")
+      );
+    });
+
+    it("should be empty without citations", () => {
+      assert.strictEqual(formatSources(resolveCitations("Ответ без ссылок", records)), "");
+    });
+  });
+});
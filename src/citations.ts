@@ -0,0 +1,88 @@
+import { topFrameLabel } from "./stacktrace";
+import { ErrorLog, LogSource } from "./types";
+
+// Ссылка [N] из ответа, сопоставленная с записью контекста
+export interface Citation {
+  marker: number; // N из [N] / [Запись N]
+  request_id: string;
+  service: string;
+  error_type: string;
+  timestamp: string;
+  frame?: string; // Место в коде по stack trace: "Database.connect (db.js:45)"
+  source?: LogSource;
+}
+
+export interface ResolvedCitations {
+  citations: Citation[]; // В порядке первого упоминания
+  unresolved: number[]; // Номера, которых нет в контексте
+}
+
+// [1], [1, 3], [Запись 2], [записи 2; 4]
+const CITATION = /\[\s*(?:запис\p{L}*\s*)?(\d+(?:\s*[,;]\s*(?:запис\p{L}*\s*)?\d+)*)\s*\]/giu;
+const LABELLED = /запис/iu;
+
+// Номера записей, на которые ссылается ответ (без повторов). Голые [N]
+// принимаются только в пределах 1..count, иначе [2024] или [500] из текста
+// ответа стали бы ссылками; с префиксом «запись» — любые, чтобы ссылка на
+// несуществующую запись была видна как неразрешённая
+export function extractCitationMarkers(answer: string, count = Infinity): number[] {
+  const markers: number[] = [];
+  for (const match of answer.matchAll(CITATION)) {
+    const numbers = (match[1].match(/\d+/g) ?? []).map(Number);
+    if (!LABELLED.test(match[0]) && numbers.some((n) => n < 1 || n > count)) {
+      continue;
+    }
+    for (const marker of numbers) {
+      if (!markers.includes(marker)) markers.push(marker);
+    }
+  }
+  return markers;
+}
+
+// Сопоставление [N] с записями контекста: [N] — records[N - 1]
+export function resolveCitations(answer: string, records: ErrorLog[]): ResolvedCitations {
+  const citations: Citation[] = [];
+  const unresolved: number[] = [];
+
+  for (const marker of extractCitationMarkers(answer, records.length)) {
+    const log = records[marker - 1];
+    if (!log) {
+      unresolved.push(marker);
+      continue;
+    }
+    const frame = topFrameLabel(log);
+    citations.push({
+      marker,
+      request_id: log.request_id,
+      service: log.service,
+      error_type: log.error_type,
+      timestamp: log.timestamp,
+      ...(frame ? { frame } : {}),
+      ...(log.source ? { source: log.source } : {}),
+    });
+  }
+
+  return { citations, unresolved };
+}
+
+// Подвал ответа со ссылками вида file:line, которые открываются в редакторе
+export function formatSources({ citations, unresolved }: ResolvedCitations): string {
+  if (citations.length === 0 && unresolved.length === 0) {
+    return "";
+  }
+
+  const lines = citations.map((citation) => {
+    const location = citation.source
+      ? `${citation.source.file}:${citation.source.line}`
+      : "источник неизвестен";
+    const frame = citation.frame ? ` · ${citation.frame}` : "";
+    return `  [${citation.marker}] ${citation.request_id || "-"} · ${citation.service} ${
+      citation.error_type
+    }${frame} · ${location}`;
+  });
+  if (unresolved.length > 0) {
+    lines.push(`  ⚠️  Нет записей для ссылок: ${unresolved.map((n) => `[${n}]`).join(", ")}`);
+  }
+
+  return `📎 Источники:\n${lines.join("\n")}`;
+}
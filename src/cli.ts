@@ -1,15 +1,58 @@
 import * as readline from 'readline';
+import { AlertEngine, DEFAULT_ALERTS, formatAlertLine } from './alerts';
+import { formatAnomalies } from './anomalies';
+import { formatSources } from './citations';
+import { Conversation } from './conversation';
+import { formatIncidents } from './incidents';
 import { RAGSystem } from './rag';
-import { OllamaClient } from './ollama';
+import { formatRedactionAudit } from './redaction';
+import { formatSecuritySignals } from './security';
+import { AlertSink, createSink, deliverAlerts } from './sinks';
+import { formatTrace } from './trace';
+import { OllamaClient, ToolCallRecord } from './ollama';
 import { PersonalizationManager } from './personalization';
+import { AnalyzerConfig, DEFAULT_CONFIG } from './config';
+import {
+  createSession,
+  Session,
+  SessionEntry,
+  SessionStore,
+  toSessionEntry,
+} from './sessions';
+import { formatAlert, formatWatchUpdate, LogWatcher, WatchUpdate } from './watcher';
+
+export interface CLIOptions {
+  watch?: boolean; // Следить за файлами логов и дочитывать новые записи
+}
 
 export class CLI {
   private rag: RAGSystem;
+  private ollama: OllamaClient;
   private rl: readline.Interface;
   private personalization: PersonalizationManager;
+  private config: AnalyzerConfig;
+  private conversation: Conversation;
+  private sessions: SessionStore;
+  private session?: Session;
+  private watcher?: LogWatcher;
+  private alertEngine?: AlertEngine; // Правила оповещений (alerts.rules) в режиме --watch
+  private alertSinks: AlertSink[] = [];
+  private deliveringAlerts = false; // Идёт отправка оповещений прошлого опроса
+  private answering = false; // Во время ответа оповещения откладываются
+  private pendingNotices: string[] = [];
 
-  constructor() {
-    this.rag = new RAGSystem();
+  constructor(config: AnalyzerConfig = DEFAULT_CONFIG) {
+    this.config = config;
+    this.ollama = new OllamaClient(config);
+    this.rag = new RAGSystem(this.ollama, config.indexing);
+    this.rag.setToolsEnabled(config.tools);
+    this.rag.setRetrievalOptions(config.retrieval);
+    this.rag.setAnomalyOptions(config.anomalies);
+    this.rag.setIncidentOptions(config.incidents);
+    this.rag.setSecurityOptions(config.security);
+    this.rag.setRedactionOptions(config.redaction);
+    this.conversation = this.rag.createConversation(config.conversation);
+    this.sessions = new SessionStore(config.sessionsDir);
     this.personalization = new PersonalizationManager();
     this.rl = readline.createInterface({
       input: process.stdin,
@@ -40,10 +83,140 @@ export class CLI {
     console.log('  • Сколько было ошибок DatabaseConnectionError?');
     console.log('  • Какие проблемы есть в payment-service?');
     console.log('  • Есть ли проблемы с одним IP адресом?');
-    console.log('  • Какое среднее время ответа для PaymentGatewayTimeout?\n');
+    console.log('  • Какое среднее время ответа для PaymentGatewayTimeout?');
+    console.log('  • Какое место в коде падает чаще всего?');
+    console.log('  • А за последние 10 минут? (уточнение предыдущего вопроса)');
+    console.log('\n💡 Команда "reset" начинает диалог заново.');
+    console.log('💡 "incidents" — список инцидентов, "incident INC-1" — разбор инцидента моделью.');
+    console.log('💡 "trace <id>" — все записи запроса или пользователя по времени и связи сервисов.');
+    console.log('💡 "stats" — текущая статистика и аномалии (обновляются в режиме --watch).');
+    console.log('💡 "redactions" — какие персональные данные замаскированы перед отправкой модели.\n');
+  }
+
+  // Вызов инструмента моделью — показываем в транскрипте
+  private printToolCall(call: ToolCallRecord): void {
+    const [firstLine] = call.result.split('\n');
+    const preview = firstLine.length > 100 ? `${firstLine.slice(0, 100)}…` : firstLine;
+    console.log(`\n🔧 ${call.name}(${JSON.stringify(call.arguments)})`);
+    console.log(`   → ${preview}${call.result.includes('\n') ? ' …' : ''}\n`);
+  }
+
+  // Сохранение вопроса в файл сессии; ошибка записи не прерывает диалог
+  private async recordEntry(entry: SessionEntry): Promise<void> {
+    if (!this.session) return;
+    this.session.entries.push(entry);
+    try {
+      await this.sessions.save(this.session);
+    } catch (error) {
+      console.warn(`\n⚠️  Не удалось сохранить сессию: ${error}`);
+    }
+  }
+
+  // Разбор инцидента моделью (вне истории диалога)
+  private async explainIncident(id: string): Promise<void> {
+    console.log('\n' + '─'.repeat(60));
+    this.answering = true;
+    try {
+      await this.rag.explainIncident(id, (token) => {
+        process.stdout.write(token);
+      });
+    } catch (error) {
+      console.error(`\n❌ ${error instanceof Error ? error.message : error}`);
+    }
+    console.log('\n' + '─'.repeat(60) + '\n');
+    this.answering = false;
+    this.flushNotices();
+  }
+
+  // Новые записи в режиме наблюдения
+  private handleWatchUpdate(update: WatchUpdate): void {
+    const total = this.rag.getStatisticsData().total;
+    this.showNotice([formatWatchUpdate(update, total), ...update.alerts.map(formatAlert)]);
+  }
+
+  // Правила оповещений проверяются после каждого опроса: «тишина» в логах
+  // тоже повод для оповещения. Пока идёт отправка прошлого опроса, новый
+  // пропускается, чтобы проверки не пересекались
+  private checkRuleAlerts(): void {
+    if (this.alertEngine && !this.deliveringAlerts) {
+      this.deliveringAlerts = true;
+      this.sendRuleAlerts(this.alertEngine)
+        .catch((error) => this.showNotice([`⚠️  Ошибка оповещений: ${error}`]))
+        .finally(() => {
+          this.deliveringAlerts = false;
+        });
+    }
+  }
+
+  // Сработавшие правила оповещений: получателям и на экран
+  private async sendRuleAlerts(engine: AlertEngine): Promise<void> {
+    const { delivered, failed } = await deliverAlerts(
+      this.rag.evaluateAlerts(engine, { now: Date.now() }),
+      engine.getRules(),
+      this.alertSinks,
+      {
+        summarize: this.config.alerts.summarize ?? DEFAULT_ALERTS.summarize,
+        summarizeAlert: (alert) => this.rag.summarizeAlert(alert),
+      }
+    );
+    engine.rollback(failed);
+    if (delivered.length > 0) {
+      this.showNotice(delivered.map(formatAlertLine));
+    }
+  }
+
+  // Оповещение печатаем над строкой ввода, а во время ответа модели —
+  // откладываем до его завершения
+  private showNotice(lines: string[]): void {
+    if (this.answering) {
+      this.pendingNotices.push(...lines);
+      return;
+    }
+    readline.clearLine(process.stdout, 0);
+    readline.cursorTo(process.stdout, 0);
+    console.log(lines.join('\n'));
+    this.rl.prompt(true);
+  }
+
+  private flushNotices(): void {
+    if (this.pendingNotices.length === 0) return;
+    console.log(this.pendingNotices.join('\n') + '\n');
+    this.pendingNotices = [];
   }
 
-  async start(): Promise<void> {
+  private startWatching(): void {
+    // Правила оповещений срабатывают только на записи, пришедшие после запуска
+    const rules = this.config.alerts.rules ?? [];
+    if (rules.length > 0) {
+      this.alertEngine = new AlertEngine(rules);
+      this.alertSinks = (this.config.alerts.sinks ?? []).map(createSink);
+      this.rag.evaluateAlerts(this.alertEngine, { prime: true, now: Date.now() });
+    }
+
+    this.watcher = new LogWatcher(
+      this.rag,
+      {
+        onUpdate: (update) => this.handleWatchUpdate(update),
+        onPoll: () => this.checkRuleAlerts(),
+        onError: (error) => console.warn(`\n⚠️  Ошибка чтения логов: ${error}`),
+      },
+      this.config.watch,
+      this.personalization
+    );
+    this.watcher.start();
+
+    const seconds = this.watcher.getIntervalMs() / 1000;
+    const alerts = this.personalization.getProfile()
+      ? ', важные для вас записи будут отмечены 🚨'
+      : '';
+    const ruleCount = this.alertEngine ? `, правил оповещений: ${rules.length}` : '';
+    console.log(`👀 Наблюдение за логами: проверка каждые ${seconds} с${alerts}${ruleCount}`);
+  }
+
+  async start(
+    logPattern: string = this.config.logs,
+    options: CLIOptions = {}
+  ): Promise<void> {
     this.printHeader();
 
     // Загружаем профиль персонализации
@@ -59,35 +232,45 @@ export class CLI {
     }
 
     // Проверяем доступность моделей
-    console.log('🔍 Проверка доступности моделей Ollama...');
-    const ollama = new OllamaClient();
-    const modelsAvailable = await ollama.checkModels();
+    console.log(`🔍 Проверка доступности моделей Ollama (${this.ollama.getHost()})...`);
+    const modelsAvailable = await this.ollama.checkModels();
+    const chatModel = this.ollama.getChatModel();
+    const embeddingModel = this.ollama.getEmbeddingModel();
 
     if (!modelsAvailable.chat) {
-      console.error('❌ Модель qwen2.5-coder:7b не найдена!');
-      console.error('   Установите её: ollama pull qwen2.5-coder:7b');
+      console.error(`❌ Модель ${chatModel} не найдена!`);
+      console.error(`   Установите её: ollama pull ${chatModel}`);
       process.exit(1);
     }
 
     if (!modelsAvailable.embedding) {
-      console.error('❌ Модель nomic-embed-text не найдена!');
-      console.error('   Установите её: ollama pull nomic-embed-text');
+      console.error(`❌ Модель ${embeddingModel} не найдена!`);
+      console.error(`   Установите её: ollama pull ${embeddingModel}`);
       process.exit(1);
     }
 
     console.log('✅ Все модели доступны\n');
 
-    // Загружаем и индексируем логи
-    const logFilePath = './data/error-logs.json';
+    // Загружаем и индексируем логи (файл, директория или glob)
     try {
-      await this.rag.loadAndIndexLogs(logFilePath);
+      await this.rag.loadAndIndexLogs(logPattern);
     } catch (error) {
-      console.error(`❌ Ошибка загрузки файла ${logFilePath}:`, error);
+      console.error(`❌ Ошибка загрузки логов ${logPattern}:`, error);
       process.exit(1);
     }
 
-    // Показываем статистику
+    // Все вопросы и ответы сохраняются в файл сессии
+    this.session = createSession({
+      model: chatModel,
+      embeddingModel,
+      logs: logPattern,
+    });
+
+    // Показываем статистику, найденные аномалии и инциденты
     console.log(this.rag.getStatistics());
+    console.log('\n' + formatAnomalies(this.rag.getAnomalies()));
+    console.log('\n' + formatSecuritySignals(this.rag.getSecuritySignals()));
+    console.log('\n' + formatIncidents(this.rag.getIncidents()));
 
     // Показываем персонализированную сводку
     const personalizedSummary = this.rag.getPersonalizedSummary();
@@ -97,6 +280,10 @@ export class CLI {
 
     this.printHelp();
 
+    if (options.watch) {
+      this.startWatching();
+    }
+
     // Интерактивный цикл вопрос-ответ
     await this.interactiveMode();
   }
@@ -112,7 +299,12 @@ export class CLI {
         const profile = this.personalization.getProfile();
         const emoji = profile?.preferences.useEmoji ? '👋 ' : '';
         const name = profile?.name ? `, ${profile.name}` : '';
+        if (this.session?.entries.length) {
+          console.log(`\n💾 Сессия сохранена: ${this.session.id}`);
+          console.log(`   Экспорт: qwen-analyzer export ${this.session.id} --format md`);
+        }
         console.log(`\n${emoji}До свидания${name}!`);
+        await this.watcher?.stop();
         this.rl.close();
         break;
       }
@@ -121,18 +313,83 @@ export class CLI {
         continue;
       }
 
+      if (question.trim().toLowerCase() === 'reset') {
+        this.conversation.clear();
+        console.log('\n🧹 История диалога очищена\n');
+        continue;
+      }
+
+      if (question.trim().toLowerCase() === 'stats') {
+        console.log('\n' + this.rag.getStatistics());
+        console.log('\n' + formatAnomalies(this.rag.getAnomalies()));
+        console.log('\n' + formatSecuritySignals(this.rag.getSecuritySignals()) + '\n');
+        continue;
+      }
+
+      if (question.trim().toLowerCase() === 'redactions') {
+        console.log(
+          '\n' +
+            formatRedactionAudit(this.rag.getRedactionAudit(), this.rag.isRedactionEnabled()) +
+            '\n'
+        );
+        continue;
+      }
+
+      if (question.trim().toLowerCase() === 'incidents') {
+        console.log('\n' + formatIncidents(this.rag.getIncidents()) + '\n');
+        continue;
+      }
+
+      const traceMatch = question.trim().match(/^trace\s+(\S+)$/i);
+      if (traceMatch) {
+        const trace = this.rag.getTrace(traceMatch[1]);
+        console.log(
+          trace
+            ? '\n' + formatTrace(trace) + '\n'
+            : `\n❓ Записи с request_id или user_id ${traceMatch[1]} не найдены\n`
+        );
+        continue;
+      }
+
+      const incidentMatch = question.trim().match(/^incident\s+(\S+)$/i);
+      if (incidentMatch) {
+        await this.explainIncident(incidentMatch[1]);
+        continue;
+      }
+
       console.log('\n' + '─'.repeat(60));
 
       // Задаем вопрос с streaming ответом
+      this.answering = true;
       try {
-        await this.rag.askQuestion(question, (token) => {
-          process.stdout.write(token);
+        const askedAt = new Date();
+        const result = await this.rag.askQuestion(
+          question,
+          (token) => {
+            process.stdout.write(token);
+          },
+          (call) => this.printToolCall(call),
+          this.conversation
+        );
+
+        // Подвал со ссылками на записи, использованные в ответе
+        const sources = formatSources({
+          citations: result.citations,
+          unresolved: result.unresolvedCitations,
         });
+        if (sources) {
+          console.log('\n\n' + sources);
+        }
+
+        await this.recordEntry(toSessionEntry(question, result, askedAt));
 
         console.log('\n' + '─'.repeat(60) + '\n');
       } catch (error) {
         console.error('\n❌ Ошибка при обработке вопроса:', error);
         console.log('─'.repeat(60) + '\n');
+      } finally {
+        this.answering = false;
+        this.flushNotices();
       }
     }
   }
@@ -0,0 +1,21 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { groupBy } from "./collections.js";
+
+describe("groupBy", () => {
+  it("should group items in order and skip undefined keys", () => {
+    const groups = groupBy(["a1", "b1", "a2", "c", "b2"], (item) =>
+      item.length > 1 ? item[0] : undefined
+    );
+    assert.deepStrictEqual([...groups.entries()], [
+      ["a", ["a1", "a2"]],
+      ["b", ["b1", "b2"]],
+    ]);
+  });
+
+  it("should pass the item index to the key function", () => {
+    const groups = groupBy(["x", "y", "z"], (_, index) => index % 2);
+    assert.deepStrictEqual(groups.get(0), ["x", "z"]);
+    assert.deepStrictEqual(groups.get(1), ["y"]);
+  });
+});
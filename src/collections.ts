@@ -0,0 +1,17 @@
+// Группировка элементов по ключу с сохранением порядка. Элементы с ключом
+// undefined пропускаются; массив группы дополняется на месте, поэтому
+// группировка линейна по числу элементов
+export function groupBy<T, K>(
+  items: T[],
+  key: (item: T, index: number) => K | undefined
+): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  items.forEach((item, index) => {
+    const value = key(item, index);
+    if (value === undefined) return;
+    const group = groups.get(value);
+    if (group) group.push(item);
+    else groups.set(value, [item]);
+  });
+  return groups;
+}
@@ -0,0 +1,165 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { EXIT_CODES, runCommand } from "./commands.js";
+import { DEFAULT_CONFIG } from "./config.js";
+import { serviceError } from "./test-fixtures.js";
+
+// Запуск команды с перехватом stdout и сообщений об ошибках. Команды
+// пишут строки; двоичные данные — отчёт самого test runner, они проходят
+async function run(argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const write = process.stdout.write;
+  const error = console.error;
+  process.stdout.write = ((chunk: string | Uint8Array, ...rest: any[]) => {
+    if (typeof chunk !== "string") return write.call(process.stdout, chunk, ...rest);
+    stdout.push(chunk);
+    return true;
+  }) as typeof process.stdout.write;
+  console.error = (...args: unknown[]) => stderr.push(args.join(" "));
+  try {
+    const code = await runCommand(argv);
+    return { code, stdout: stdout.join(""), stderr: stderr.join("\n") };
+  } finally {
+    process.stdout.write = write;
+    console.error = error;
+  }
+}
+
+describe("runCommand", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "commands");
+  const logFile = join(testDir, "logs.json");
+  const configPath = join(testDir, "analyzer.json");
+
+  // Сервер с API Ollama: список моделей и embed, который отклоняет
+  // тексты с InvalidCredentials
+  let installed: string[] = [];
+  let host = "";
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    res.setHeader("Content-Type", "application/json");
+
+    if (req.url === "/api/tags") {
+      res.end(JSON.stringify({ models: installed.map((name) => ({ name })) }));
+      return;
+    }
+    const { input } = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    if ((input as string[]).some((text) => text.includes("InvalidCredentials"))) {
+      res.writeHead(400).end(JSON.stringify({ error: "invalid input" }));
+      return;
+    }
+    res.end(JSON.stringify({ embeddings: (input as string[]).map(() => [1, 0]) }));
+  });
+
+  before(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      logFile,
+      JSON.stringify([
+        serviceError("payment-service", "PaymentGatewayTimeout"),
+        serviceError("auth-service", "InvalidCredentials"),
+        serviceError("cache-service", "RedisConnectionError"),
+      ])
+    );
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        logs: logFile,
+        indexing: { cacheDir: join(testDir, "cache"), batchSize: 1, retries: 0 },
+      })
+    );
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    host = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should exit with USAGE on invalid arguments", async () => {
+    const unknownFlag = await run(["stats", "--verbose"]);
+    assert.strictEqual(unknownFlag.code, EXIT_CODES.USAGE);
+    assert.match(unknownFlag.stderr, /Unknown option '--verbose'/);
+
+    const noQuestion = await run(["ask", "--config", configPath, "-q"]);
+    assert.strictEqual(noQuestion.code, EXIT_CODES.USAGE);
+    assert.match(noQuestion.stderr, /Не указан вопрос/);
+
+    const badTime = await run(["alerts", "yesterday", "--config", configPath]);
+    assert.strictEqual(badTime.code, EXIT_CODES.USAGE);
+    assert.match(badTime.stderr, /Некорректное время проверки: yesterday/);
+
+    const badConfig = await run(["stats", "--config", configPath, "--temperature", "hot"]);
+    assert.strictEqual(badConfig.code, EXIT_CODES.USAGE);
+    assert.match(badConfig.stderr, /--temperature must be a number, got: hot/);
+  });
+
+  it("should exit with USAGE on an unknown output format", async () => {
+    const stats = await run(["stats", "--config", configPath, "--format", "xml"]);
+    assert.strictEqual(stats.code, EXIT_CODES.USAGE);
+    assert.match(stats.stderr, /Неизвестный формат вывода: xml/);
+
+    // У export свои форматы: json для него не подходит
+    const exported = await run(["export", "last", "--format", "json"]);
+    assert.strictEqual(exported.code, EXIT_CODES.USAGE);
+    assert.match(exported.stderr, /Неизвестный формат вывода: json/);
+  });
+
+  it("should exit with LOGS_UNAVAILABLE when logs are missing", async () => {
+    const missing = join(testDir, "missing", "*.json");
+    const result = await run(["stats", "--config", configPath, "--logs", missing, "-q"]);
+    assert.strictEqual(result.code, EXIT_CODES.LOGS_UNAVAILABLE);
+    assert.match(result.stderr, /Логи недоступны: No log files matched/);
+  });
+
+  it("should exit with MODELS_UNAVAILABLE when the embedding model is not installed", async () => {
+    installed = [DEFAULT_CONFIG.chatModel];
+    const result = await run(["index", "--config", configPath, "--host", host, "-q"]);
+    assert.strictEqual(result.code, EXIT_CODES.MODELS_UNAVAILABLE);
+    assert.match(result.stderr, new RegExp(`Модель ${DEFAULT_CONFIG.embeddingModel} не найдена`));
+  });
+
+  it("should exit with PARTIAL when some records are not indexed", async () => {
+    installed = [DEFAULT_CONFIG.chatModel, DEFAULT_CONFIG.embeddingModel];
+    const result = await run([
+      "index",
+      "--config",
+      configPath,
+      "--host",
+      host,
+      "--format",
+      "json",
+      "-q",
+    ]);
+
+    assert.strictEqual(result.code, EXIT_CODES.PARTIAL);
+    const summary = JSON.parse(result.stdout);
+    assert.strictEqual(summary.records, 3);
+    assert.strictEqual(summary.created, 2);
+    assert.strictEqual(summary.failed, 1);
+  });
+
+  it("should exit with NOT_FOUND for an unknown trace or incident", async () => {
+    const trace = await run(["trace", "req_missing", "--config", configPath, "-q"]);
+    assert.strictEqual(trace.code, EXIT_CODES.NOT_FOUND);
+    assert.match(trace.stderr, /Записи с request_id или user_id req_missing не найдены/);
+
+    installed = [DEFAULT_CONFIG.chatModel];
+    const incident = await run(["incidents", "INC-99", "--config", configPath, "--host", host, "-q"]);
+    assert.strictEqual(incident.code, EXIT_CODES.NOT_FOUND);
+    assert.match(incident.stderr, /Инцидент INC-99 не найден/);
+  });
+
+  it("should print stats for loaded logs", async () => {
+    const result = await run(["stats", "--config", configPath, "--format", "json", "-q"]);
+    assert.strictEqual(result.code, EXIT_CODES.OK);
+    assert.strictEqual(JSON.parse(result.stdout).parseIssues.length, 0);
+  });
+});
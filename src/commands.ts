@@ -0,0 +1,860 @@
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { parseArgs } from "util";
+import {
+  Alert,
+  AlertEngine,
+  AlertState,
+  DEFAULT_ALERTS,
+  formatAlertLine,
+  formatAlerts,
+  loadAlertState,
+  saveAlertState,
+} from "./alerts";
+import { formatAnomalies } from "./anomalies";
+import { formatSources } from "./citations";
+import { CLI } from "./cli";
+import { AnalyzerConfig, CONFIG_FLAGS, loadConfig } from "./config";
+import {
+  DEFAULT_DIGEST,
+  DIGEST_FORMATS,
+  DIGEST_PERIODS,
+  DigestPeriod,
+  digestFileName,
+  postDigest,
+  renderDigest,
+  validateDigestProfile,
+} from "./digest";
+import { findIncident, formatIncidents } from "./incidents";
+import { Logger, silentLogger, stderrLogger } from "./logger";
+import { OllamaClient } from "./ollama";
+import { PersonalizationManager } from "./personalization";
+import { RAGSystem } from "./rag";
+import { formatRedactionAudit } from "./redaction";
+import { formatSecuritySignals } from "./security";
+import { ApiServer } from "./server";
+import { AlertSink, createSink, deliverAlerts } from "./sinks";
+import { formatTrace } from "./trace";
+import {
+  createSession,
+  formatReplayComparison,
+  Session,
+  sessionToHtml,
+  sessionToMarkdown,
+  SessionStore,
+  toSessionEntry,
+} from "./sessions";
+import { formatAlert, formatWatchUpdate, LogWatcher } from "./watcher";
+
+// Коды выхода для скриптов и CI
+export const EXIT_CODES = {
+  OK: 0,
+  ERROR: 1, // Непредвиденная ошибка
+  USAGE: 2, // Неверные аргументы
+  MODELS_UNAVAILABLE: 3, // Ollama недоступна или модели не установлены
+  LOGS_UNAVAILABLE: 4, // Логи не найдены или не читаются
+  PARTIAL: 5, // Индексация завершена, но часть записей не проиндексирована
+  NOT_FOUND: 6, // Запрошенный инцидент или трасса не найдены в логах
+} as const;
+
+const COMMAND_FLAGS = {
+  ...CONFIG_FLAGS,
+  format: { type: "string" },
+  output: { type: "string", short: "o" },
+  profile: { type: "string" },
+  quiet: { type: "boolean", short: "q" },
+  watch: { type: "boolean", short: "w" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+const COMMANDS = [
+  "ask",
+  "stats",
+  "incidents",
+  "redactions",
+  "trace",
+  "alerts",
+  "digest",
+  "watch",
+  "serve",
+  "index",
+  "interactive",
+  "sessions",
+  "export",
+  "replay",
+];
+
+type OutputFormat = "text" | "json";
+type ExportFormat = "md" | "html" | "json"; // json — только для digest
+
+// Команды, которые выводят документ, и их форматы; первый — по умолчанию
+const DOCUMENT_FORMATS: Record<string, ExportFormat[]> = {
+  export: ["md", "html"],
+  digest: DIGEST_FORMATS,
+};
+
+interface CommandContext {
+  config: AnalyzerConfig;
+  format: OutputFormat;
+  exportFormat: ExportFormat;
+  logger: Logger;
+  args: string[];
+  watch: boolean;
+  profilePath?: string;
+  outputPath?: string;
+}
+
+class UsageError extends Error {}
+
+// Аргументы верные, но в логах нет того, что запрошено
+class NotFoundError extends Error {}
+
+export const USAGE = `Использование: qwen-analyzer [команда] [аргументы] [флаги]
+
+Команды:
+  interactive [логи]     Интерактивный режим вопросов-ответов (по умолчанию)
+  ask "<вопрос>"         Задать один вопрос и вывести ответ
+  stats                  Вывести статистику по логам (без обращения к модели)
+  incidents [id]         Список вероятных инцидентов или объяснение одного инцидента моделью
+  trace <id>             Все записи запроса (request_id) или пользователя (user_id) по времени и связи сервисов
+  redactions             Какие персональные данные замаскированы перед отправкой модели
+  alerts [время|last]    Проверить правила оповещений и отправить сработавшие получателям (для cron)
+  digest [day|shift] [время]  Отчёт за сутки или смену по профилю (--format md|html|json, -o, digest.webhook)
+  watch                  Следить за логами: новые записи, оповещения по профилю и правилам (до Ctrl+C)
+  serve                  HTTP API: /ask (SSE), /search, /stats, /logs, /health (до Ctrl+C)
+  index                  Создать или обновить embeddings в кеше
+  sessions               Список сохранённых сессий интерактивного режима
+  export <id|last>       Экспорт сессии в Markdown или HTML (--format md|html)
+  replay <id|last>       Повторить вопросы сессии на текущих логах и модели и сравнить ответы
+
+Флаги:
+  --logs <путь|glob>     Файл, директория или glob с логами
+  --format text|json     Формат вывода команд (по умолчанию text; для export — md|html, для digest — md|html|json)
+  -o, --output <файл>    Записать результат export или digest в файл
+  --profile <путь>       Профиль персонализации (по умолчанию ./config/profile.json)
+  --config <путь>        Файл конфигурации (по умолчанию ./config/analyzer.json)
+  --host, --chat-model, --embedding-model, --temperature, --num-ctx, --seed
+  -w, --watch            interactive и serve: дочитывать новые записи логов на лету
+  --port <порт>          Порт HTTP API (по умолчанию 8787)
+  -q, --quiet            Не выводить служебные сообщения в stderr
+  -h, --help             Показать эту справку
+
+Коды выхода:
+  0 успех, 1 ошибка, 2 неверные аргументы, 3 модели недоступны,
+  4 логи не найдены, 5 индексация выполнена частично`;
+
+// Вывод результата команды: JSON одной строкой или текст
+function output(format: OutputFormat, text: string, data: unknown): void {
+  if (format === "json") {
+    process.stdout.write(`${JSON.stringify(data)}\n`);
+  } else {
+    process.stdout.write(`${text}\n`);
+  }
+}
+
+function isLogsError(error: unknown): boolean {
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return (
+    code === "ENOENT" ||
+    code === "EACCES" ||
+    (error instanceof Error && error.message.startsWith("No log files matched"))
+  );
+}
+
+// Проверка моделей, нужных команде
+async function ensureModels(
+  ollama: OllamaClient,
+  needChat: boolean,
+  needEmbedding: boolean = true
+): Promise<string | null> {
+  const available = await ollama.checkModels();
+  if (needChat && !available.chat) {
+    return `Модель ${ollama.getChatModel()} не найдена на ${ollama.getHost()}`;
+  }
+  if (needEmbedding && !available.embedding) {
+    return `Модель ${ollama.getEmbeddingModel()} не найдена на ${ollama.getHost()}`;
+  }
+  return null;
+}
+
+// RAG-система с настройками из конфигурации команды
+function createRag(ctx: CommandContext, ollama: OllamaClient): RAGSystem {
+  const rag = new RAGSystem(ollama, ctx.config.indexing, ctx.logger);
+  rag.setToolsEnabled(ctx.config.tools);
+  rag.setRetrievalOptions(ctx.config.retrieval);
+  rag.setAnomalyOptions(ctx.config.anomalies);
+  rag.setIncidentOptions(ctx.config.incidents);
+  rag.setSecurityOptions(ctx.config.security);
+  rag.setRedactionOptions(ctx.config.redaction);
+  return rag;
+}
+
+async function loadPersonalization(
+  rag: RAGSystem,
+  profilePath?: string
+): Promise<PersonalizationManager | undefined> {
+  const personalization = new PersonalizationManager();
+  try {
+    await personalization.loadProfile(profilePath);
+    rag.setPersonalization(personalization);
+    return personalization;
+  } catch (error) {
+    // Без явно указанного профиля работаем в стандартном режиме
+    if (profilePath) {
+      throw error;
+    }
+    return undefined;
+  }
+}
+
+async function askCommand(ctx: CommandContext): Promise<number> {
+  const question = ctx.args.join(" ").trim();
+  if (!question) {
+    throw new UsageError("Не указан вопрос: qwen-analyzer ask \"<вопрос>\"");
+  }
+
+  const ollama = new OllamaClient(ctx.config);
+  const rag = createRag(ctx, ollama);
+
+  const modelsError = await ensureModels(ollama, true);
+  if (modelsError) {
+    console.error(`❌ ${modelsError}`);
+    return EXIT_CODES.MODELS_UNAVAILABLE;
+  }
+
+  await loadPersonalization(rag, ctx.profilePath);
+  await rag.loadAndIndexLogs(ctx.config.logs);
+
+  // В текстовом режиме ответ выводится по мере генерации
+  const streamToken =
+    ctx.format === "text"
+      ? (token: string) => process.stdout.write(token)
+      : undefined;
+  // Вызовы инструментов попадают в транскрипт (stderr) и в JSON результат
+  const result = await rag.askQuestion(question, streamToken, (call) => {
+    ctx.logger.info(`🔧 ${call.name}(${JSON.stringify(call.arguments)})`);
+  });
+
+  if (ctx.format === "json") {
+    output(ctx.format, result.answer, {
+      question,
+      answer: result.answer,
+      model: ollama.getChatModel(),
+      logs: ctx.config.logs,
+      citations: result.citations,
+      unresolvedCitations: result.unresolvedCitations,
+      records: result.records,
+      toolCalls: result.toolCalls,
+    });
+  } else {
+    const sources = formatSources({
+      citations: result.citations,
+      unresolved: result.unresolvedCitations,
+    });
+    process.stdout.write(sources ? `\n\n${sources}\n` : "\n");
+  }
+  return EXIT_CODES.OK;
+}
+
+// Сессия по ID, префиксу или "last"; отсутствие сессии — ошибка аргументов
+async function loadSession(store: SessionStore, id?: string): Promise<Session> {
+  if (!id) {
+    throw new UsageError("Не указана сессия: используйте ID из `qwen-analyzer sessions` или last");
+  }
+  try {
+    return await store.load(id);
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function sessionsCommand(ctx: CommandContext): Promise<number> {
+  const sessions = await new SessionStore(ctx.config.sessionsDir).list();
+  const text =
+    sessions.length === 0
+      ? "Сохранённых сессий нет"
+      : sessions
+          .map((session) => {
+            const replay = session.replayOf ? ` (повтор ${session.replayOf})` : "";
+            return `${session.id}  ${session.questions} вопр.  ${session.model}${replay}  ${
+              session.firstQuestion ?? ""
+            }`.trimEnd();
+          })
+          .join("\n");
+
+  output(ctx.format, text, sessions);
+  return EXIT_CODES.OK;
+}
+
+async function exportCommand(ctx: CommandContext): Promise<number> {
+  const session = await loadSession(
+    new SessionStore(ctx.config.sessionsDir),
+    ctx.args[0]
+  );
+  const content =
+    ctx.exportFormat === "html" ? sessionToHtml(session) : sessionToMarkdown(session);
+
+  if (ctx.outputPath) {
+    await writeFile(ctx.outputPath, content);
+    ctx.logger.info(`💾 Сессия ${session.id} сохранена в ${ctx.outputPath}`);
+  } else {
+    process.stdout.write(content);
+  }
+  return EXIT_CODES.OK;
+}
+
+// Повтор вопросов сессии на текущих логах и модели (--logs, --chat-model)
+async function replayCommand(ctx: CommandContext): Promise<number> {
+  const store = new SessionStore(ctx.config.sessionsDir);
+  const original = await loadSession(store, ctx.args[0]);
+
+  const ollama = new OllamaClient(ctx.config);
+  const rag = createRag(ctx, ollama);
+
+  const modelsError = await ensureModels(ollama, true);
+  if (modelsError) {
+    console.error(`❌ ${modelsError}`);
+    return EXIT_CODES.MODELS_UNAVAILABLE;
+  }
+
+  await loadPersonalization(rag, ctx.profilePath);
+  await rag.loadAndIndexLogs(ctx.config.logs);
+
+  // Вопросы задаются в одном диалоге, как в исходной сессии
+  const conversation = rag.createConversation(ctx.config.conversation);
+  const replay = createSession({
+    model: ollama.getChatModel(),
+    embeddingModel: ollama.getEmbeddingModel(),
+    logs: ctx.config.logs,
+    replayOf: original.id,
+  });
+
+  for (const [idx, entry] of original.entries.entries()) {
+    ctx.logger.info(`❓ ${idx + 1}/${original.entries.length}: ${entry.question}`);
+    const askedAt = new Date();
+    const result = await rag.askQuestion(
+      entry.question,
+      undefined,
+      (call) => ctx.logger.info(`🔧 ${call.name}(${JSON.stringify(call.arguments)})`),
+      conversation
+    );
+    const replayed = toSessionEntry(entry.question, result, askedAt);
+    replay.entries.push(replayed);
+    await store.save(replay);
+
+    if (ctx.format === "text") {
+      process.stdout.write(
+        `${idx > 0 ? "\n" + "─".repeat(60) + "\n\n" : ""}${formatReplayComparison(
+          entry,
+          replayed
+        )}\n`
+      );
+    }
+  }
+
+  if (ctx.format === "json") {
+    output(ctx.format, "", {
+      original: original.id,
+      replay: replay.id,
+      comparisons: original.entries.map((entry, idx) => ({
+        question: entry.question,
+        before: entry,
+        after: replay.entries[idx],
+      })),
+    });
+  }
+  ctx.logger.info(`💾 Повтор сохранён как сессия ${replay.id}`);
+  return EXIT_CODES.OK;
+}
+
+async function statsCommand(ctx: CommandContext): Promise<number> {
+  const rag = createRag(ctx, new OllamaClient(ctx.config));
+  await rag.loadLogs(ctx.config.logs);
+
+  const anomalies = rag.getAnomalies();
+  const security = rag.getSecuritySignals();
+  const text = [rag.getStatistics(), formatAnomalies(anomalies), formatSecuritySignals(security)];
+  output(ctx.format, text.join("\n\n"), {
+    ...rag.getStatisticsData(),
+    anomalies,
+    security,
+    parseIssues: rag.getParseIssues(),
+  });
+  return EXIT_CODES.OK;
+}
+
+// Инциденты: без ID — список, с ID — объяснение инцидента моделью
+async function incidentsCommand(ctx: CommandContext): Promise<number> {
+  const [id] = ctx.args;
+  const ollama = new OllamaClient(ctx.config);
+  const rag = createRag(ctx, ollama);
+
+  // Группировка без embeddings (время, stack trace, request_id, user_id):
+  // список не требует индексации, а номера те же, что в интерактивном режиме
+  if (id) {
+    const modelsError = await ensureModels(ollama, true, false);
+    if (modelsError) {
+      console.error(`❌ ${modelsError}`);
+      return EXIT_CODES.MODELS_UNAVAILABLE;
+    }
+  }
+
+  await rag.loadLogs(ctx.config.logs);
+  const incidents = rag.getIncidents();
+
+  if (!id) {
+    output(ctx.format, formatIncidents(incidents), incidents);
+    return EXIT_CODES.OK;
+  }
+
+  const incident = findIncident(incidents, id);
+  if (!incident) {
+    throw new NotFoundError(`Инцидент ${id} не найден, см. qwen-analyzer incidents`);
+  }
+
+  await loadPersonalization(rag, ctx.profilePath);
+  const streamToken =
+    ctx.format === "text"
+      ? (token: string) => process.stdout.write(token)
+      : undefined;
+  const explanation = await rag.explainIncident(incident.id, streamToken);
+
+  if (ctx.format === "json") {
+    output(ctx.format, explanation, {
+      incident,
+      explanation,
+      model: ollama.getChatModel(),
+    });
+  } else {
+    process.stdout.write("\n");
+  }
+  return EXIT_CODES.OK;
+}
+
+// Трасса запроса или пользователя: записи по времени и связи сервисов
+async function traceCommand(ctx: CommandContext): Promise<number> {
+  const [id] = ctx.args;
+  if (!id) {
+    throw new UsageError("Укажите request_id или user_id: qwen-analyzer trace <id>");
+  }
+
+  const rag = createRag(ctx, new OllamaClient(ctx.config));
+  await rag.loadLogs(ctx.config.logs);
+  const trace = rag.getTrace(id);
+  if (!trace) {
+    throw new NotFoundError(`Записи с request_id или user_id ${id} не найдены`);
+  }
+
+  output(ctx.format, formatTrace(trace), trace);
+  return EXIT_CODES.OK;
+}
+
+// Аудит маскирования: какие значения и в каких полях заменены метками
+async function redactionsCommand(ctx: CommandContext): Promise<number> {
+  const rag = createRag(ctx, new OllamaClient(ctx.config));
+  await rag.loadLogs(ctx.config.logs);
+
+  const audit = rag.getRedactionAudit();
+  const enabled = rag.isRedactionEnabled();
+  output(ctx.format, formatRedactionAudit(audit, enabled), { enabled, audit });
+  return EXIT_CODES.OK;
+}
+
+interface Alerting {
+  engine: AlertEngine;
+  sinks: AlertSink[];
+  delivering: boolean; // Идёт отправка оповещений прошлого опроса
+}
+
+// Правила оповещений и получатели из конфигурации; null, если правил нет
+function createAlerting(ctx: CommandContext, state?: AlertState): Alerting | null {
+  const { rules = [], sinks = [] } = ctx.config.alerts;
+  if (rules.length === 0) {
+    return null;
+  }
+  return {
+    engine: new AlertEngine(rules, state),
+    sinks: sinks.map(createSink),
+    delivering: false,
+  };
+}
+
+// Проверка правил на момент now и отправка оповещений получателям, со
+// сводкой модели для правил с summarize. Не доставленные ни одному
+// получателю оповещения откатываются в состоянии правил
+async function sendAlerts(
+  ctx: CommandContext,
+  rag: RAGSystem,
+  alerting: Alerting,
+  now: number | undefined
+): Promise<Alert[]> {
+  const alerts = rag.evaluateAlerts(alerting.engine, { now });
+  const { delivered, failed } = await deliverAlerts(
+    alerts,
+    alerting.engine.getRules(),
+    alerting.sinks,
+    {
+      summarize: ctx.config.alerts.summarize ?? DEFAULT_ALERTS.summarize,
+      summarizeAlert: (alert) => rag.summarizeAlert(alert),
+      logger: ctx.logger,
+    }
+  );
+  alerting.engine.rollback(failed);
+  return delivered;
+}
+
+// Оповещения после опроса логов в режиме наблюдения. Пока идёт отправка
+// прошлого опроса (сводка модели, медленный webhook), новый пропускается:
+// иначе проверки пересекались бы и откат одной затирал бы состояние другой
+function pollAlerts(
+  ctx: CommandContext,
+  rag: RAGSystem,
+  alerting: Alerting,
+  onAlert: (alert: Alert) => void
+): void {
+  if (alerting.delivering) return;
+  alerting.delivering = true;
+  sendAlerts(ctx, rag, alerting, Date.now())
+    .then((alerts) => alerts.forEach(onAlert))
+    .catch((error) => ctx.logger.warn(`⚠️  Ошибка оповещений: ${error}`))
+    .finally(() => {
+      alerting.delivering = false;
+    });
+}
+
+// Проверка правил оповещений по текущим логам, например из cron.
+// Состояние (cooldown, уже встреченные значения) хранится между запусками,
+// поэтому одно и то же событие не отправляется повторно. Время проверки —
+// текущее; для разбора архивных логов — время в ISO или last (последняя
+// запись логов)
+async function alertsCommand(ctx: CommandContext): Promise<number> {
+  const [at] = ctx.args;
+  const now = at === undefined ? Date.now() : at === "last" ? undefined : Date.parse(at);
+  if (now !== undefined && !Number.isFinite(now)) {
+    throw new UsageError(
+      `Некорректное время проверки: ${at} (ожидается ISO, например 2024-12-10T18:00:00Z, или last)`
+    );
+  }
+
+  const statePath = ctx.config.alerts.statePath ?? DEFAULT_ALERTS.statePath;
+  const alerting = createAlerting(ctx, await loadAlertState(statePath));
+  if (!alerting) {
+    throw new UsageError(
+      'Правила оповещений не заданы: добавьте "alerts": { "rules": [...] } в конфигурацию'
+    );
+  }
+
+  const rag = createRag(ctx, new OllamaClient(ctx.config));
+  await rag.loadLogs(ctx.config.logs);
+  const alerts = await sendAlerts(ctx, rag, alerting, now);
+  await saveAlertState(statePath, alerting.engine.getState());
+
+  output(ctx.format, formatAlerts(alerts), alerts);
+  return EXIT_CODES.OK;
+}
+
+// Отчёт за смену или сутки по профилю: частые ошибки в сервисах
+// пользователя, критичные ошибки, тренд и «что проверить» от модели.
+// Пишется в -o или digest.outputDir, отправляется на digest.webhook;
+// без них — в stdout. Время по умолчанию — последняя запись логов
+async function digestCommand(ctx: CommandContext): Promise<number> {
+  const [periodArg, at] = ctx.args;
+  const options = { ...DEFAULT_DIGEST, ...ctx.config.digest };
+  const period = (periodArg ?? options.period) as DigestPeriod;
+  if (!DIGEST_PERIODS.includes(period)) {
+    throw new UsageError(`Неизвестный период отчёта: ${period} (${DIGEST_PERIODS.join(" или ")})`);
+  }
+  const reference = at === undefined ? undefined : Date.parse(at);
+  if (reference !== undefined && !Number.isFinite(reference)) {
+    throw new UsageError(
+      `Некорректное время отчёта: ${at} (ожидается ISO, например 2024-12-10T18:00:00Z)`
+    );
+  }
+
+  const rag = createRag(ctx, new OllamaClient(ctx.config));
+  const personalization = await loadPersonalization(rag, ctx.profilePath);
+  if (!personalization) {
+    throw new UsageError("Для отчёта нужен профиль: config/profile.json или --profile <путь>");
+  }
+  try {
+    validateDigestProfile(personalization.getProfile()!);
+  } catch (error) {
+    throw new UsageError(`Некорректный профиль для отчёта: ${(error as Error).message}`);
+  }
+  await rag.loadLogs(ctx.config.logs);
+
+  const digest = rag.getDigest({ period, topErrors: options.topErrors, reference })!;
+  if (options.summarize) {
+    try {
+      digest.checks = (await rag.suggestDigestChecks(digest)).trim();
+    } catch (error) {
+      ctx.logger.warn(`⚠️  Раздел «Что проверить» не получен: ${error}`);
+    }
+  }
+
+  const content = renderDigest(digest, ctx.exportFormat);
+  const outputPath =
+    ctx.outputPath ??
+    (options.outputDir
+      ? join(options.outputDir, digestFileName(digest, ctx.exportFormat))
+      : undefined);
+  if (outputPath) {
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, content);
+    ctx.logger.info(`💾 Отчёт сохранён в ${outputPath}`);
+  }
+  if (options.webhook) {
+    await postDigest(options.webhook, content, ctx.exportFormat);
+    ctx.logger.info(`📤 Отчёт отправлен на ${new URL(options.webhook).host}`);
+  }
+  if (!outputPath && !options.webhook) {
+    process.stdout.write(content);
+  }
+  return EXIT_CODES.OK;
+}
+
+// Ожидание Ctrl+C или сигнала остановки для долго работающих команд
+function waitForShutdown(): Promise<void> {
+  return new Promise((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+}
+
+// Наблюдение за логами без модели: новые записи и оповещения по профилю
+// выводятся по мере появления, до Ctrl+C. В JSON — строка на каждую запись
+async function watchCommand(ctx: CommandContext): Promise<number> {
+  const rag = createRag(ctx, new OllamaClient(ctx.config));
+  const personalization = await loadPersonalization(rag, ctx.profilePath);
+  await rag.loadLogs(ctx.config.logs);
+
+  // Правила оповещений срабатывают только на записи, пришедшие после запуска
+  const alerting = createAlerting(ctx);
+  if (alerting) rag.evaluateAlerts(alerting.engine, { prime: true, now: Date.now() });
+
+  const watcher = new LogWatcher(
+    rag,
+    {
+      onPoll: () => {
+        if (!alerting) return;
+        pollAlerts(ctx, rag, alerting, (alert) =>
+          output(ctx.format, formatAlertLine(alert), { ruleAlert: alert })
+        );
+      },
+      onUpdate: (update) => {
+        if (ctx.format === "json") {
+          const alerts = new Set(update.alerts);
+          update.added.forEach((log) =>
+            output(ctx.format, "", { record: log, alert: alerts.has(log) })
+          );
+          return;
+        }
+        const total = rag.getStatisticsData().total;
+        output(
+          ctx.format,
+          [formatWatchUpdate(update, total), ...update.alerts.map(formatAlert)].join("\n"),
+          update
+        );
+      },
+      onError: (error) => ctx.logger.warn(`⚠️  Ошибка чтения логов: ${error}`),
+    },
+    ctx.config.watch,
+    personalization
+  );
+
+  watcher.start();
+  ctx.logger.info(`👀 Наблюдение за ${ctx.config.logs} (Ctrl+C — выход)`);
+  await waitForShutdown();
+  await watcher.stop();
+  return EXIT_CODES.OK;
+}
+
+// HTTP API для дашбордов и ботов (src/server.ts); с --watch индекс
+// дополняется новыми записями логов
+async function serveCommand(ctx: CommandContext): Promise<number> {
+  const ollama = new OllamaClient(ctx.config);
+  const rag = createRag(ctx, ollama);
+
+  const modelsError = await ensureModels(ollama, true);
+  if (modelsError) {
+    console.error(`❌ ${modelsError}`);
+    return EXIT_CODES.MODELS_UNAVAILABLE;
+  }
+
+  const personalization = await loadPersonalization(rag, ctx.profilePath);
+  await rag.loadAndIndexLogs(ctx.config.logs);
+
+  const server = new ApiServer(rag, ctx.config.server, ctx.config.conversation, ctx.logger);
+  const address = await server.listen();
+  ctx.logger.info(`🌐 HTTP API: http://${address.address}:${address.port} (Ctrl+C — выход)`);
+
+  const alerting = ctx.watch ? createAlerting(ctx) : null;
+  if (alerting) rag.evaluateAlerts(alerting.engine, { prime: true, now: Date.now() });
+
+  const watcher = ctx.watch
+    ? new LogWatcher(
+        rag,
+        {
+          onPoll: () => {
+            if (!alerting) return;
+            pollAlerts(ctx, rag, alerting, (alert) => ctx.logger.info(formatAlertLine(alert)));
+          },
+          onUpdate: (update) => {
+            const total = rag.getStatisticsData().total;
+            ctx.logger.info(formatWatchUpdate(update, total));
+            update.alerts.forEach((log) => ctx.logger.info(formatAlert(log)));
+          },
+          onError: (error) => ctx.logger.warn(`⚠️  Ошибка чтения логов: ${error}`),
+        },
+        ctx.config.watch,
+        personalization
+      )
+    : null;
+  watcher?.start();
+
+  await waitForShutdown();
+  await watcher?.stop();
+  await server.close();
+  return EXIT_CODES.OK;
+}
+
+async function indexCommand(ctx: CommandContext): Promise<number> {
+  const ollama = new OllamaClient(ctx.config);
+  const rag = createRag(ctx, ollama);
+
+  const modelsError = await ensureModels(ollama, false);
+  if (modelsError) {
+    console.error(`❌ ${modelsError}`);
+    return EXIT_CODES.MODELS_UNAVAILABLE;
+  }
+
+  await rag.loadLogs(ctx.config.logs);
+  const summary = await rag.indexLogs();
+
+  output(
+    ctx.format,
+    `Записей: ${summary.records}, шаблонов: ${summary.templates}, из кеша: ${summary.cached}, создано: ${summary.created}, ошибок: ${summary.failed}`,
+    {
+      ...summary,
+      files: rag
+        .getLoadedFiles()
+        .map(({ file, format, records, issues }) => ({
+          file,
+          format,
+          records,
+          parseIssues: issues.length,
+        })),
+    }
+  );
+  return summary.failed > 0 ? EXIT_CODES.PARTIAL : EXIT_CODES.OK;
+}
+
+function parseCommandArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    options: COMMAND_FLAGS,
+    allowPositionals: true,
+  });
+}
+
+// Разбор аргументов и выполнение команды; возвращает код выхода
+export async function runCommand(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandArgs>;
+
+  try {
+    parsed = parseCommandArgs(argv);
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    console.error(USAGE);
+    return EXIT_CODES.USAGE;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_CODES.OK;
+  }
+
+  // Без команды (или с путём к логам первым аргументом) — интерактивный режим
+  const [first, ...rest] = positionals;
+  const command = COMMANDS.includes(first) ? first : "interactive";
+  const args = command === first ? rest : positionals;
+
+  try {
+    // export и digest пишут документ (md|html|json), остальные команды — text|json
+    const documentFormats = DOCUMENT_FORMATS[command];
+    const formats: string[] = documentFormats ?? ["text", "json"];
+    const format = values.format ?? formats[0];
+    if (!formats.includes(format)) {
+      throw new UsageError(`Неизвестный формат вывода: ${format}`);
+    }
+
+    // Ошибки конфигурации (флаги, файл) считаем ошибками использования
+    const config = await loadConfig(values).catch((error: Error) => {
+      throw new UsageError(error.message);
+    });
+
+    if (command === "interactive") {
+      await new CLI(config).start(args[0] ?? config.logs, { watch: values.watch });
+      return EXIT_CODES.OK;
+    }
+
+    const ctx: CommandContext = {
+      config,
+      format: documentFormats ? "text" : (format as OutputFormat),
+      exportFormat: documentFormats ? (format as ExportFormat) : "md",
+      logger: values.quiet ? silentLogger : stderrLogger,
+      args,
+      watch: Boolean(values.watch),
+      profilePath: values.profile,
+      outputPath: values.output,
+    };
+
+    switch (command) {
+      case "ask":
+        return await askCommand(ctx);
+      case "stats":
+        return await statsCommand(ctx);
+      case "incidents":
+        return await incidentsCommand(ctx);
+      case "trace":
+        return await traceCommand(ctx);
+      case "redactions":
+        return await redactionsCommand(ctx);
+      case "alerts":
+        return await alertsCommand(ctx);
+      case "digest":
+        return await digestCommand(ctx);
+      case "watch":
+        return await watchCommand(ctx);
+      case "serve":
+        return await serveCommand(ctx);
+      case "sessions":
+        return await sessionsCommand(ctx);
+      case "export":
+        return await exportCommand(ctx);
+      case "replay":
+        return await replayCommand(ctx);
+      default:
+        return await indexCommand(ctx);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`❌ ${error.message}`);
+      return EXIT_CODES.USAGE;
+    }
+    if (error instanceof NotFoundError) {
+      console.error(`❌ ${error.message}`);
+      return EXIT_CODES.NOT_FOUND;
+    }
+    if (isLogsError(error)) {
+      console.error(
+        `❌ Логи недоступны: ${error instanceof Error ? error.message : error}`
+      );
+      return EXIT_CODES.LOGS_UNAVAILABLE;
+    }
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return EXIT_CODES.ERROR;
+  }
+}
@@ -0,0 +1,277 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { DEFAULT_CONFIG, loadConfig, normalizeHost } from "./config.js";
+import { modelMatches } from "./ollama.js";
+import { writeFile, unlink, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+
+describe("config", () => {
+  const testDir = join(process.cwd(), ".test-tmp");
+  const testConfigPath = join(testDir, "test-analyzer.json");
+
+  beforeEach(async () => {
+    if (!existsSync(testDir)) {
+      await mkdir(testDir, { recursive: true });
+    }
+    await writeFile(
+      testConfigPath,
+      JSON.stringify({
+        chatModel: "llama3.1:8b",
+        modelOptions: { temperature: 0.1, num_ctx: 4096 },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      if (existsSync(testConfigPath)) {
+        await unlink(testConfigPath);
+      }
+    } catch (err) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe("loadConfig", () => {
+    it("should merge file values over defaults", async () => {
+      const config = await loadConfig({ config: testConfigPath }, {});
+
+      assert.strictEqual(config.chatModel, "llama3.1:8b");
+      assert.strictEqual(config.embeddingModel, DEFAULT_CONFIG.embeddingModel);
+      assert.deepStrictEqual(config.modelOptions, {
+        temperature: 0.1,
+        num_ctx: 4096,
+      });
+    });
+
+    it("should apply env vars over file and flags over env", async () => {
+      const config = await loadConfig(
+        { config: testConfigPath, "chat-model": "qwen2.5-coder:14b", seed: "42" },
+        {
+          OLLAMA_HOST: "gpu-box:11434",
+          QWEN_ANALYZER_CHAT_MODEL: "mistral",
+          QWEN_ANALYZER_EMBEDDING_MODEL: "mxbai-embed-large",
+          QWEN_ANALYZER_TEMPERATURE: "0.7",
+        }
+      );
+
+      assert.strictEqual(config.host, "http://gpu-box:11434");
+      assert.strictEqual(config.chatModel, "qwen2.5-coder:14b");
+      assert.strictEqual(config.embeddingModel, "mxbai-embed-large");
+      assert.deepStrictEqual(config.modelOptions, {
+        temperature: 0.7,
+        num_ctx: 4096,
+        seed: 42,
+      });
+    });
+
+    it("should use the config path from env", async () => {
+      const config = await loadConfig({}, { QWEN_ANALYZER_CONFIG: testConfigPath });
+      assert.strictEqual(config.chatModel, "llama3.1:8b");
+    });
+
+    it("should throw when an explicit config file is missing", async () => {
+      await assert.rejects(
+        () => loadConfig({ config: "./missing-analyzer.json" }, {}),
+        { message: /Config file not found:/ }
+      );
+    });
+
+    it("should throw on invalid JSON", async () => {
+      await writeFile(testConfigPath, "{ nope");
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: /Invalid JSON in config file:/,
+      });
+    });
+
+    it("should reject non-numeric flag values", async () => {
+      await assert.rejects(
+        () => loadConfig({ config: testConfigPath, temperature: "hot" }, {}),
+        { message: "--temperature must be a number, got: hot" }
+      );
+    });
+
+    it("should reject a non-string host and invalid indexing limits", async () => {
+      await writeFile(testConfigPath, JSON.stringify({ host: 123 }));
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "host must be a non-empty string",
+      });
+
+      for (const [indexing, message] of [
+        [{ batchSize: 0 }, "indexing.batchSize must be a positive integer"],
+        [{ concurrency: -1 }, "indexing.concurrency must be a positive integer"],
+        [{ batchSize: 2.5 }, "indexing.batchSize must be a positive integer"],
+        [{ retries: -1 }, "indexing.retries must be a non-negative integer"],
+      ] as const) {
+        await writeFile(testConfigPath, JSON.stringify({ indexing }));
+        await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), { message });
+      }
+    });
+
+    it("should read retrieval options from env", async () => {
+      const config = await loadConfig(
+        {},
+        { QWEN_ANALYZER_LEXICAL_WEIGHT: "0.3", QWEN_ANALYZER_LLM_FILTER: "1" }
+      );
+      assert.deepStrictEqual(config.retrieval, { lexicalWeight: 0.3, llmFilter: true });
+
+      await writeFile(testConfigPath, JSON.stringify({ retrieval: { llmFilter: "yes" } }));
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "retrieval.llmFilter must be a boolean",
+      });
+    });
+
+    it("should merge the server port flag over the file and validate it", async () => {
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({ server: { host: "0.0.0.0", port: 8080 } })
+      );
+      const config = await loadConfig({ config: testConfigPath, port: "9000" }, {});
+      assert.deepStrictEqual(config.server, { host: "0.0.0.0", port: 9000 });
+
+      await assert.rejects(() => loadConfig({ config: testConfigPath, port: "70000" }, {}), {
+        message: "server.port must be an integer from 0 to 65535",
+      });
+    });
+
+    it("should read the redaction salt from env and require it when enabled", async () => {
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({ redaction: { enabled: true, fields: ["user_id"] } })
+      );
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message:
+          "redaction.salt must be set when redaction is enabled (or QWEN_ANALYZER_REDACTION_SALT)",
+      });
+
+      const config = await loadConfig(
+        { config: testConfigPath },
+        { QWEN_ANALYZER_REDACTION_SALT: "pepper" }
+      );
+      assert.deepStrictEqual(config.redaction, {
+        enabled: true,
+        fields: ["user_id"],
+        salt: "pepper",
+      });
+
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({ redaction: { detectors: ["email", "phone"] } })
+      );
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "redaction.detectors must be a subset of: email, ip, card, token",
+      });
+    });
+
+    it("should validate alert rules and their sinks", async () => {
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({
+          alerts: {
+            rules: [{ name: "timeouts", type: "threshold", sinks: ["oncall"] }],
+            sinks: [{ type: "webhook", name: "oncall", url: "http://127.0.0.1:9000/hook" }],
+          },
+        })
+      );
+      const config = await loadConfig({ config: testConfigPath }, {});
+      assert.strictEqual(config.alerts.rules?.[0].name, "timeouts");
+
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({
+          alerts: { rules: [{ name: "timeouts", type: "threshold", sinks: ["pager"] }] },
+        })
+      );
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: 'alerts.rules "timeouts" refers to unknown sink "pager"',
+      });
+
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({
+          alerts: {
+            rules: [
+              { name: "timeouts", type: "threshold" },
+              { name: "timeouts", type: "absence" },
+            ],
+          },
+        })
+      );
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: 'alerts.rules: duplicate rule name "timeouts"',
+      });
+    });
+
+    it("should validate digest options and take the webhook from env", async () => {
+      await writeFile(testConfigPath, JSON.stringify({ digest: { period: "day", topErrors: 3 } }));
+      const config = await loadConfig(
+        { config: testConfigPath },
+        { QWEN_ANALYZER_DIGEST_WEBHOOK: "https://hooks.example.com/digest" }
+      );
+      assert.deepStrictEqual(config.digest, {
+        period: "day",
+        topErrors: 3,
+        webhook: "https://hooks.example.com/digest",
+      });
+
+      await writeFile(testConfigPath, JSON.stringify({ digest: { period: "week" } }));
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "digest.period must be one of: day, shift",
+      });
+
+      await writeFile(testConfigPath, JSON.stringify({ digest: { webhook: "ftp://host/digest" } }));
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "digest.webhook must be an http(s) URL",
+      });
+    });
+
+    it("should reject an EWMA alpha above one", async () => {
+      await writeFile(testConfigPath, JSON.stringify({ anomalies: { alpha: 1.5 } }));
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "anomalies.alpha must be in (0, 1]",
+      });
+    });
+
+    it("should reject an incident similarity threshold above one", async () => {
+      await writeFile(testConfigPath, JSON.stringify({ incidents: { similarityThreshold: 2 } }));
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "incidents.similarityThreshold must be in (0, 1]",
+      });
+    });
+
+    it("should reject unknown and non-integer model options", async () => {
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({ modelOptions: { mirostat: 1 } })
+      );
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "Unknown model option: mirostat",
+      });
+
+      await writeFile(
+        testConfigPath,
+        JSON.stringify({ modelOptions: { num_ctx: 10.5 } })
+      );
+      await assert.rejects(() => loadConfig({ config: testConfigPath }, {}), {
+        message: "modelOptions.num_ctx must be an integer",
+      });
+    });
+  });
+
+  describe("normalizeHost", () => {
+    it("should add a scheme and strip trailing slashes", () => {
+      assert.strictEqual(normalizeHost("localhost:11434"), "http://localhost:11434");
+      assert.strictEqual(normalizeHost("https://ollama.lan/"), "https://ollama.lan");
+    });
+  });
+
+  describe("modelMatches", () => {
+    it("should treat an untagged name as :latest", () => {
+      assert.strictEqual(modelMatches("nomic-embed-text", "nomic-embed-text:latest"), true);
+      assert.strictEqual(modelMatches("qwen2.5-coder:7b", "qwen2.5-coder:7b"), true);
+      assert.strictEqual(modelMatches("qwen2.5-coder:7b", "qwen2.5-coder:14b"), false);
+      assert.strictEqual(modelMatches("qwen2.5-coder", "qwen2.5-coder:7b"), false);
+    });
+  });
+});
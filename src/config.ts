@@ -0,0 +1,468 @@
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import type { ParseArgsConfig } from "util";
+import { type AlertOptions, validateAlertRule } from "./alerts";
+import type { AnomalyOptions } from "./anomalies";
+import type { ConversationOptions } from "./conversation";
+import { DIGEST_PERIODS, type DigestOptions } from "./digest";
+import type { IncidentOptions } from "./incidents";
+import type { IndexingOptions, RetrievalOptions } from "./rag";
+import { DETECTORS, type RedactionOptions } from "./redaction";
+import type { SecurityOptions } from "./security";
+import type { ServerOptions } from "./server";
+import { validateSinkConfig } from "./sinks";
+import type { WatchOptions } from "./watcher";
+
+// Параметры генерации, передаваемые в Ollama (подмножество Options)
+export interface ModelOptions {
+  temperature?: number;
+  num_ctx?: number;
+  seed?: number;
+  top_p?: number;
+  top_k?: number;
+  num_predict?: number;
+}
+
+export interface AnalyzerConfig {
+  host: string;
+  chatModel: string;
+  embeddingModel: string;
+  modelOptions: ModelOptions;
+  logs: string;
+  sessionsDir: string; // Куда сохраняются сессии интерактивного режима
+  indexing: Partial<IndexingOptions>;
+  retrieval: Partial<RetrievalOptions>;
+  conversation: Partial<ConversationOptions>;
+  anomalies: Partial<AnomalyOptions>;
+  incidents: Partial<IncidentOptions>;
+  security: Partial<SecurityOptions>; // Правила сигналов безопасности
+  watch: Partial<WatchOptions>; // Режим наблюдения за логами (--watch)
+  server: Partial<ServerOptions>; // HTTP API (команда serve)
+  redaction: Partial<RedactionOptions>; // Маскирование персональных данных
+  alerts: Partial<AlertOptions>; // Правила оповещений и получатели
+  digest: Partial<DigestOptions>; // Отчёты за смену или сутки (команда digest)
+  tools: boolean; // Разрешить модели вызывать инструменты (tool calling)
+}
+
+export const DEFAULT_CONFIG_PATH = "./config/analyzer.json";
+
+export const DEFAULT_CONFIG: AnalyzerConfig = {
+  host: "http://127.0.0.1:11434",
+  chatModel: "qwen2.5-coder:7b",
+  embeddingModel: "nomic-embed-text:latest",
+  modelOptions: {},
+  logs: "./data/error-logs.json",
+  sessionsDir: "./data/sessions",
+  indexing: {},
+  retrieval: {},
+  conversation: {},
+  anomalies: {},
+  incidents: {},
+  security: {},
+  watch: {},
+  server: {},
+  redaction: {},
+  alerts: {},
+  digest: {},
+  tools: true,
+};
+
+// Флаги командной строки, относящиеся к конфигурации (формат util.parseArgs)
+export const CONFIG_FLAGS = {
+  config: { type: "string" },
+  host: { type: "string" },
+  "chat-model": { type: "string" },
+  "embedding-model": { type: "string" },
+  temperature: { type: "string" },
+  "num-ctx": { type: "string" },
+  seed: { type: "string" },
+  logs: { type: "string" },
+  port: { type: "string" },
+} satisfies NonNullable<ParseArgsConfig["options"]>;
+
+export type ConfigFlags = Partial<Record<keyof typeof CONFIG_FLAGS, string>>;
+
+const NUMERIC_OPTIONS: (keyof ModelOptions)[] = [
+  "temperature",
+  "num_ctx",
+  "seed",
+  "top_p",
+  "top_k",
+  "num_predict",
+];
+
+const INTEGER_OPTIONS: (keyof ModelOptions)[] = [
+  "num_ctx",
+  "seed",
+  "top_k",
+  "num_predict",
+];
+
+function toNumber(value: string, name: string): number {
+  const parsed = Number(value);
+  if (value.trim() === "" || !Number.isFinite(parsed)) {
+    throw new Error(`${name} must be a number, got: ${value}`);
+  }
+  return parsed;
+}
+
+function toBoolean(value: string): boolean {
+  return !["0", "false", "no", "off"].includes(value.toLowerCase());
+}
+
+// Значения из переменных окружения
+function fromEnv(env: NodeJS.ProcessEnv): Partial<AnalyzerConfig> {
+  const config: Partial<AnalyzerConfig> = {};
+  const modelOptions: ModelOptions = {};
+
+  if (env.OLLAMA_HOST) config.host = env.OLLAMA_HOST;
+  if (env.QWEN_ANALYZER_CHAT_MODEL) {
+    config.chatModel = env.QWEN_ANALYZER_CHAT_MODEL;
+  }
+  if (env.QWEN_ANALYZER_EMBEDDING_MODEL) {
+    config.embeddingModel = env.QWEN_ANALYZER_EMBEDDING_MODEL;
+  }
+  if (env.QWEN_ANALYZER_LOGS) config.logs = env.QWEN_ANALYZER_LOGS;
+  if (env.QWEN_ANALYZER_SESSIONS_DIR) {
+    config.sessionsDir = env.QWEN_ANALYZER_SESSIONS_DIR;
+  }
+  if (env.QWEN_ANALYZER_LEXICAL_WEIGHT) {
+    config.retrieval = {
+      lexicalWeight: toNumber(
+        env.QWEN_ANALYZER_LEXICAL_WEIGHT,
+        "QWEN_ANALYZER_LEXICAL_WEIGHT"
+      ),
+    };
+  }
+  if (env.QWEN_ANALYZER_LLM_FILTER) {
+    config.retrieval = {
+      ...config.retrieval,
+      llmFilter: toBoolean(env.QWEN_ANALYZER_LLM_FILTER),
+    };
+  }
+  if (env.QWEN_ANALYZER_REDACTION) {
+    config.redaction = { enabled: toBoolean(env.QWEN_ANALYZER_REDACTION) };
+  }
+  if (env.QWEN_ANALYZER_REDACTION_SALT) {
+    config.redaction = { ...config.redaction, salt: env.QWEN_ANALYZER_REDACTION_SALT };
+  }
+  if (env.QWEN_ANALYZER_DIGEST_WEBHOOK) {
+    config.digest = { webhook: env.QWEN_ANALYZER_DIGEST_WEBHOOK };
+  }
+  if (env.QWEN_ANALYZER_TOOLS) {
+    config.tools = toBoolean(env.QWEN_ANALYZER_TOOLS);
+  }
+  if (env.QWEN_ANALYZER_TEMPERATURE) {
+    modelOptions.temperature = toNumber(
+      env.QWEN_ANALYZER_TEMPERATURE,
+      "QWEN_ANALYZER_TEMPERATURE"
+    );
+  }
+  if (env.QWEN_ANALYZER_NUM_CTX) {
+    modelOptions.num_ctx = toNumber(
+      env.QWEN_ANALYZER_NUM_CTX,
+      "QWEN_ANALYZER_NUM_CTX"
+    );
+  }
+  if (env.QWEN_ANALYZER_SEED) {
+    modelOptions.seed = toNumber(env.QWEN_ANALYZER_SEED, "QWEN_ANALYZER_SEED");
+  }
+
+  if (Object.keys(modelOptions).length > 0) config.modelOptions = modelOptions;
+  return config;
+}
+
+// Значения из флагов командной строки
+function fromFlags(flags: ConfigFlags): Partial<AnalyzerConfig> {
+  const config: Partial<AnalyzerConfig> = {};
+  const modelOptions: ModelOptions = {};
+
+  if (flags.host) config.host = flags.host;
+  if (flags["chat-model"]) config.chatModel = flags["chat-model"];
+  if (flags["embedding-model"]) config.embeddingModel = flags["embedding-model"];
+  if (flags.logs) config.logs = flags.logs;
+  if (flags.temperature) {
+    modelOptions.temperature = toNumber(flags.temperature, "--temperature");
+  }
+  if (flags["num-ctx"]) {
+    modelOptions.num_ctx = toNumber(flags["num-ctx"], "--num-ctx");
+  }
+  if (flags.seed) modelOptions.seed = toNumber(flags.seed, "--seed");
+  if (flags.port) config.server = { port: toNumber(flags.port, "--port") };
+
+  if (Object.keys(modelOptions).length > 0) config.modelOptions = modelOptions;
+  return config;
+}
+
+// Чтение файла конфигурации; отсутствие файла по умолчанию — не ошибка
+async function fromFile(
+  configPath: string,
+  required: boolean
+): Promise<Partial<AnalyzerConfig>> {
+  try {
+    const content = await readFile(resolve(configPath), "utf-8");
+    const parsed = JSON.parse(content);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Config must be an object");
+    }
+    return parsed;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      if (required) {
+        throw new Error(`Config file not found: ${configPath}`);
+      }
+      return {};
+    }
+    if (error instanceof SyntaxError) {
+      throw new Error(`Invalid JSON in config file: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+function mergeConfig(
+  base: AnalyzerConfig,
+  override: Partial<AnalyzerConfig>
+): AnalyzerConfig {
+  return {
+    ...base,
+    ...override,
+    modelOptions: { ...base.modelOptions, ...override.modelOptions },
+    indexing: { ...base.indexing, ...override.indexing },
+    retrieval: { ...base.retrieval, ...override.retrieval },
+    conversation: { ...base.conversation, ...override.conversation },
+    anomalies: { ...base.anomalies, ...override.anomalies },
+    incidents: { ...base.incidents, ...override.incidents },
+    security: { ...base.security, ...override.security },
+    watch: { ...base.watch, ...override.watch },
+    server: { ...base.server, ...override.server },
+    redaction: { ...base.redaction, ...override.redaction },
+    alerts: { ...base.alerts, ...override.alerts },
+    digest: { ...base.digest, ...override.digest },
+  };
+}
+
+// Адрес без схемы (например "localhost:11434", как в OLLAMA_HOST) дополняем http://
+export function normalizeHost(host: string): string {
+  const trimmed = host.trim().replace(/\/+$/, "");
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`;
+}
+
+// Проверка итоговой конфигурации
+export function validateConfig(config: AnalyzerConfig): void {
+  if (typeof config.host !== "string" || config.host.trim() === "") {
+    throw new Error("host must be a non-empty string");
+  }
+  try {
+    new URL(config.host);
+  } catch {
+    throw new Error(`Invalid Ollama host URL: ${config.host}`);
+  }
+
+  const { batchSize, concurrency, retries, saveIntervalMs, cacheDir } = config.indexing;
+  for (const [key, value] of Object.entries({ batchSize, concurrency })) {
+    if (value !== undefined && (!Number.isInteger(value) || value <= 0)) {
+      throw new Error(`indexing.${key} must be a positive integer`);
+    }
+  }
+  if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+    throw new Error("indexing.retries must be a non-negative integer");
+  }
+  if (
+    saveIntervalMs !== undefined &&
+    (typeof saveIntervalMs !== "number" || !Number.isFinite(saveIntervalMs) || saveIntervalMs < 0)
+  ) {
+    throw new Error("indexing.saveIntervalMs must be a non-negative number");
+  }
+  if (cacheDir !== undefined && (typeof cacheDir !== "string" || cacheDir.trim() === "")) {
+    throw new Error("indexing.cacheDir must be a non-empty string");
+  }
+
+  const { lexicalWeight } = config.retrieval;
+  if (
+    lexicalWeight !== undefined &&
+    (typeof lexicalWeight !== "number" || lexicalWeight < 0 || lexicalWeight > 1)
+  ) {
+    throw new Error("retrieval.lexicalWeight must be a number between 0 and 1");
+  }
+  for (const key of ["llmFilter", "dedupe", "ann"] as const) {
+    const value = config.retrieval[key];
+    if (value !== undefined && typeof value !== "boolean") {
+      throw new Error(`retrieval.${key} must be a boolean`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(config.conversation)) {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new Error(`conversation.${key} must be a positive integer`);
+    }
+  }
+
+  for (const section of ["anomalies", "incidents", "security", "watch"] as const) {
+    for (const [key, value] of Object.entries(config[section])) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`${section}.${key} must be a positive number`);
+      }
+    }
+  }
+  if (config.anomalies.alpha !== undefined && config.anomalies.alpha > 1) {
+    throw new Error("anomalies.alpha must be in (0, 1]");
+  }
+  const { similarityThreshold } = config.incidents;
+  if (similarityThreshold !== undefined && similarityThreshold > 1) {
+    throw new Error("incidents.similarityThreshold must be in (0, 1]");
+  }
+
+  const { host, port, maxBodyBytes, maxIngestedRecords } = config.server;
+  if (host !== undefined && (typeof host !== "string" || host.trim() === "")) {
+    throw new Error("server.host must be a non-empty string");
+  }
+  if (port !== undefined && (!Number.isInteger(port) || port < 0 || port > 65535)) {
+    throw new Error("server.port must be an integer from 0 to 65535");
+  }
+  if (maxBodyBytes !== undefined && (!Number.isInteger(maxBodyBytes) || maxBodyBytes <= 0)) {
+    throw new Error("server.maxBodyBytes must be a positive integer");
+  }
+  if (
+    maxIngestedRecords !== undefined &&
+    (!Number.isInteger(maxIngestedRecords) || maxIngestedRecords <= 0)
+  ) {
+    throw new Error("server.maxIngestedRecords must be a positive integer");
+  }
+
+  const { enabled, salt, fields, detectors } = config.redaction;
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    throw new Error("redaction.enabled must be a boolean");
+  }
+  if (salt !== undefined && typeof salt !== "string") {
+    throw new Error("redaction.salt must be a string");
+  }
+  if (enabled && !salt) {
+    throw new Error(
+      "redaction.salt must be set when redaction is enabled (or QWEN_ANALYZER_REDACTION_SALT)"
+    );
+  }
+  if (
+    fields !== undefined &&
+    (!Array.isArray(fields) || fields.some((field) => typeof field !== "string" || !field))
+  ) {
+    throw new Error("redaction.fields must be an array of field paths");
+  }
+  if (
+    detectors !== undefined &&
+    (!Array.isArray(detectors) || detectors.some((name) => !DETECTORS.includes(name)))
+  ) {
+    throw new Error(`redaction.detectors must be a subset of: ${DETECTORS.join(", ")}`);
+  }
+
+  const { rules, sinks, summarize, statePath } = config.alerts;
+  if (rules !== undefined && !Array.isArray(rules)) {
+    throw new Error("alerts.rules must be an array");
+  }
+  if (sinks !== undefined && !Array.isArray(sinks)) {
+    throw new Error("alerts.sinks must be an array");
+  }
+  rules?.forEach(validateAlertRule);
+  sinks?.forEach(validateSinkConfig);
+  const ruleNames = (rules ?? []).map((rule) => rule.name);
+  const duplicateRule = ruleNames.find((name, idx) => ruleNames.indexOf(name) !== idx);
+  if (duplicateRule) {
+    throw new Error(`alerts.rules: duplicate rule name "${duplicateRule}"`);
+  }
+  const sinkNames = (sinks ?? []).map((sink) => sink.name ?? sink.type);
+  const duplicateSink = sinkNames.find((name, idx) => sinkNames.indexOf(name) !== idx);
+  if (duplicateSink) {
+    throw new Error(`alerts.sinks: duplicate sink name "${duplicateSink}"`);
+  }
+  for (const rule of rules ?? []) {
+    const unknown = rule.sinks?.find((name) => !sinkNames.includes(name));
+    if (unknown) {
+      throw new Error(`alerts.rules "${rule.name}" refers to unknown sink "${unknown}"`);
+    }
+  }
+  if (summarize !== undefined && typeof summarize !== "boolean") {
+    throw new Error("alerts.summarize must be a boolean");
+  }
+  if (statePath !== undefined && (typeof statePath !== "string" || statePath.trim() === "")) {
+    throw new Error("alerts.statePath must be a non-empty string");
+  }
+
+  const digest = config.digest;
+  if (digest.period !== undefined && !DIGEST_PERIODS.includes(digest.period)) {
+    throw new Error(`digest.period must be one of: ${DIGEST_PERIODS.join(", ")}`);
+  }
+  if (
+    digest.topErrors !== undefined &&
+    (!Number.isInteger(digest.topErrors) || digest.topErrors <= 0)
+  ) {
+    throw new Error("digest.topErrors must be a positive integer");
+  }
+  if (digest.summarize !== undefined && typeof digest.summarize !== "boolean") {
+    throw new Error("digest.summarize must be a boolean");
+  }
+  if (digest.outputDir !== undefined && typeof digest.outputDir !== "string") {
+    throw new Error("digest.outputDir must be a string");
+  }
+  if (digest.webhook) {
+    try {
+      const url = new URL(digest.webhook);
+      if (!["http:", "https:"].includes(url.protocol)) throw new Error();
+    } catch {
+      throw new Error("digest.webhook must be an http(s) URL");
+    }
+  }
+
+  if (typeof config.tools !== "boolean") {
+    throw new Error("tools must be a boolean");
+  }
+
+  for (const field of ["chatModel", "embeddingModel", "logs", "sessionsDir"] as const) {
+    if (typeof config[field] !== "string" || config[field].trim() === "") {
+      throw new Error(`${field} must be a non-empty string`);
+    }
+  }
+
+  for (const [key, value] of Object.entries(config.modelOptions)) {
+    const option = key as keyof ModelOptions;
+    if (!NUMERIC_OPTIONS.includes(option)) {
+      throw new Error(`Unknown model option: ${key}`);
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`modelOptions.${key} must be a number`);
+    }
+    if (INTEGER_OPTIONS.includes(option) && !Number.isInteger(value)) {
+      throw new Error(`modelOptions.${key} must be an integer`);
+    }
+  }
+
+  if (
+    config.modelOptions.num_ctx !== undefined &&
+    config.modelOptions.num_ctx <= 0
+  ) {
+    throw new Error("modelOptions.num_ctx must be positive");
+  }
+}
+
+// Сборка конфигурации: значения по умолчанию < файл < окружение < флаги
+export async function loadConfig(
+  flags: ConfigFlags = {},
+  env: NodeJS.ProcessEnv = process.env
+): Promise<AnalyzerConfig> {
+  const explicitPath = flags.config ?? env.QWEN_ANALYZER_CONFIG;
+  const fileConfig = await fromFile(
+    explicitPath ?? DEFAULT_CONFIG_PATH,
+    explicitPath !== undefined
+  );
+
+  const config = [fileConfig, fromEnv(env), fromFlags(flags)].reduce(
+    mergeConfig,
+    DEFAULT_CONFIG
+  );
+  // Нестроковый host из файла не нормализуется, а отклоняется проверкой
+  if (typeof config.host === "string") {
+    config.host = normalizeHost(config.host);
+  }
+
+  validateConfig(config);
+  return config;
+}
@@ -0,0 +1,118 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  Conversation,
+  ConversationTurn,
+  estimateTokens,
+  fallbackSummary,
+  isFollowUp,
+} from "./conversation.js";
+
+function makeTurn(question: string, answer: string = "x".repeat(400)): ConversationTurn {
+  return { question, answer, records: [], filter: {} };
+}
+
+describe("conversation", () => {
+  describe("isFollowUp", () => {
+    it("should detect follow-ups in russian and english", () => {
+      assert.strictEqual(isFollowUp("А вчера?"), true);
+      assert.strictEqual(isFollowUp("покажи эти request ID"), true);
+      assert.strictEqual(isFollowUp("what about yesterday?"), true);
+      assert.strictEqual(isFollowUp("show me those request IDs"), true);
+      assert.strictEqual(isFollowUp("А за прошлую неделю?"), true);
+      assert.strictEqual(isFollowUp("Что было там же час назад?"), true);
+      assert.strictEqual(isFollowUp("which of them are critical?"), true);
+    });
+
+    it("should not treat standalone questions as follow-ups", () => {
+      assert.strictEqual(isFollowUp("Какая ошибка встречается чаще всего?"), false);
+      assert.strictEqual(isFollowUp("Что с payment-service?"), false);
+      assert.strictEqual(isFollowUp("Аутентификация падает?"), false);
+      assert.strictEqual(isFollowUp("Что это за ошибка PaymentGatewayTimeout?"), false);
+      assert.strictEqual(isFollowUp("И сколько всего ошибок за сутки?"), false);
+      assert.strictEqual(isFollowUp("Какие сервисы падают там, где есть таймауты?"), false);
+      assert.strictEqual(isFollowUp("Is there a spike in auth-service?"), false);
+      assert.strictEqual(isFollowUp("What does it mean when the cache fails?"), false);
+      assert.strictEqual(isFollowUp("Then which service fails most?"), false);
+    });
+  });
+
+  describe("Conversation", () => {
+    it("should expose turns as chat messages", async () => {
+      const conversation = new Conversation();
+      await conversation.addTurn(makeTurn("Сколько ошибок?", "20"));
+
+      assert.deepStrictEqual(conversation.toMessages(), [
+        { role: "user", content: "Сколько ошибок?" },
+        { role: "assistant", content: "20" },
+      ]);
+      assert.strictEqual(conversation.lastTurn()?.answer, "20");
+    });
+
+    it("should summarize turns that exceed the token budget", async () => {
+      const summarized: string[][] = [];
+      const conversation = new Conversation({ maxTokens: 150 }, async (summary, turns) => {
+        summarized.push(turns.map((turn) => turn.question));
+        return `${summary}|${turns.map((turn) => turn.question).join(",")}`;
+      });
+
+      await conversation.addTurn(makeTurn("q1"));
+      await conversation.addTurn(makeTurn("q2"));
+      await conversation.addTurn(makeTurn("q3"));
+
+      assert.deepStrictEqual(summarized, [["q1"], ["q2"]]);
+      assert.strictEqual(conversation.getSummary(), "|q1|q2");
+      assert.deepStrictEqual(
+        conversation.getTurns().map((turn) => turn.question),
+        ["q3"]
+      );
+      assert.match(conversation.toMessages()[0].content, /^CONVERSATION SUMMARY/);
+    });
+
+    it("should keep the last turn even if it alone exceeds the budget", async () => {
+      const conversation = new Conversation({ maxTokens: 10 });
+      await conversation.addTurn(makeTurn("q1"));
+      assert.strictEqual(conversation.length, 1);
+      assert.strictEqual(conversation.getSummary(), "");
+    });
+
+    it("should fall back to a plain summary when the summarizer fails", async () => {
+      const conversation = new Conversation({ maxTokens: 50 }, async () => {
+        throw new Error("model unavailable");
+      });
+      await conversation.addTurn(makeTurn("Что с auth?", "Таймауты БД"));
+      await conversation.addTurn(makeTurn("q2"));
+
+      assert.strictEqual(conversation.getSummary(), "- Что с auth? → Таймауты БД");
+    });
+
+    it("should cap the summary size", async () => {
+      const conversation = new Conversation({ maxTokens: 150, summaryTokens: 10 });
+      await conversation.addTurn(makeTurn("q1"));
+      await conversation.addTurn(makeTurn("q2"));
+
+      assert.ok(estimateTokens(conversation.getSummary()) <= 10);
+    });
+
+    it("should clear history and summary", async () => {
+      const conversation = new Conversation({ maxTokens: 150 });
+      await conversation.addTurn(makeTurn("q1"));
+      await conversation.addTurn(makeTurn("q2"));
+      conversation.clear();
+
+      assert.strictEqual(conversation.length, 0);
+      assert.deepStrictEqual(conversation.toMessages(), []);
+    });
+  });
+
+  describe("fallbackSummary", () => {
+    it("should append to the previous summary and shorten long answers", () => {
+      const summary = fallbackSummary("- раньше", [makeTurn("q", "a ".repeat(150))]);
+      const [first, second] = summary.split("\n");
+
+      assert.strictEqual(first, "- раньше");
+      assert.ok(second.startsWith("- q → a a"));
+      assert.ok(second.endsWith("…"));
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import type { Message } from "ollama";
+import { LogFilter } from "./query";
+import { ErrorLog } from "./types";
+
+// Один обмен вопрос-ответ вместе с записями, на которых строился ответ
+export interface ConversationTurn {
+  question: string;
+  answer: string;
+  records: ErrorLog[];
+  filter: LogFilter;
+}
+
+export interface ConversationOptions {
+  maxTokens: number; // Бюджет истории в промпте (резюме + последние обмены)
+  summaryTokens: number; // Предельный размер резюме старых обменов
+}
+
+const DEFAULT_CONVERSATION: ConversationOptions = {
+  maxTokens: 3000,
+  summaryTokens: 400,
+};
+
+// Сжатие старых обменов: (предыдущее резюме, вытесняемые обмены) → новое резюме
+export type Summarizer = (
+  summary: string,
+  turns: ConversationTurn[]
+) => Promise<string>;
+
+// Грубая оценка числа токенов (~4 символа на токен), без токенизатора модели
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const limit = tokens * 4;
+  return text.length > limit ? `${text.slice(0, limit - 1)}…` : text;
+}
+
+// Резюме без модели: вопрос и начало ответа для каждого обмена
+export function fallbackSummary(summary: string, turns: ConversationTurn[]): string {
+  const lines = turns.map((turn) => {
+    const answer = turn.answer.replace(/\s+/g, " ").trim();
+    return `- ${turn.question.trim()} → ${answer.slice(0, 200)}${answer.length > 200 ? "…" : ""}`;
+  });
+  return [summary, ...lines].filter(Boolean).join("\n");
+}
+
+// Уточняющий вопрос ссылается на предыдущий ответ: «а вчера?», «покажи эти
+// request ID». Учитывается только явная отсылка: «это», «там», «it» и
+// «that» слишком часто встречаются в новых вопросах, которые не должны
+// наследовать фильтр предыдущего
+const FOLLOW_UP_START =
+  /^\s*(а|ещё|еще|а что|что насч[её]т|подробнее|what about|how about|and what about)(?=$|[^\p{L}])/iu;
+const FOLLOW_UP_REFERENCE =
+  /(^|[^\p{L}])(эти|этих|этими|тех же|них|ними|там же|тогда же|those|these|them|the same)(?=$|[^\p{L}])/iu;
+
+export function isFollowUp(question: string): boolean {
+  return FOLLOW_UP_START.test(question) || FOLLOW_UP_REFERENCE.test(question);
+}
+
+// История диалога интерактивной сессии: последние обмены целиком,
+// вытесненные из бюджета — в виде резюме
+export class Conversation {
+  private turns: ConversationTurn[] = [];
+  private summary = "";
+  private options: ConversationOptions;
+
+  constructor(
+    options: Partial<ConversationOptions> = {},
+    private summarize?: Summarizer
+  ) {
+    this.options = { ...DEFAULT_CONVERSATION, ...options };
+  }
+
+  get length(): number {
+    return this.turns.length;
+  }
+
+  getSummary(): string {
+    return this.summary;
+  }
+
+  getTurns(): ConversationTurn[] {
+    return [...this.turns];
+  }
+
+  lastTurn(): ConversationTurn | undefined {
+    return this.turns[this.turns.length - 1];
+  }
+
+  clear(): void {
+    this.turns = [];
+    this.summary = "";
+  }
+
+  // Добавление обмена; при превышении бюджета старые обмены сжимаются в резюме
+  async addTurn(turn: ConversationTurn): Promise<void> {
+    this.turns.push(turn);
+
+    const evicted: ConversationTurn[] = [];
+    // Последний обмен остаётся целиком — на него ссылаются уточняющие вопросы
+    while (this.turns.length > 1 && this.historyTokens() > this.options.maxTokens) {
+      evicted.push(this.turns.shift()!);
+    }
+    if (evicted.length === 0) return;
+
+    let summary: string;
+    try {
+      summary = this.summarize
+        ? await this.summarize(this.summary, evicted)
+        : fallbackSummary(this.summary, evicted);
+    } catch {
+      summary = fallbackSummary(this.summary, evicted);
+    }
+    this.summary = truncateToTokens(summary.trim(), this.options.summaryTokens);
+  }
+
+  // История в формате сообщений чата (между системным промптом и новым вопросом)
+  toMessages(): Message[] {
+    const messages: Message[] = [];
+    if (this.summary) {
+      messages.push({
+        role: "system",
+        content: `CONVERSATION SUMMARY (ранее в диалоге):\n${this.summary}`,
+      });
+    }
+    for (const turn of this.turns) {
+      messages.push(
+        { role: "user", content: turn.question },
+        { role: "assistant", content: turn.answer }
+      );
+    }
+    return messages;
+  }
+
+  private historyTokens(): number {
+    return this.toMessages().reduce(
+      (total, message) => total + estimateTokens(message.content),
+      0
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { collapseDuplicates, recordTemplate, templateFingerprint } from "./dedupe.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+// Таймаут платёжного шлюза из примера data/error-logs.json
+const paymentTimeout = (overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    timestamp: "2024-12-10T08:16:11.234Z",
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    message: "Payment gateway timeout after 30000ms",
+    user_id: "user_5678",
+    request_id: "req_d4e5f6",
+    stack_trace: "at PaymentGateway.charge (payment.js:78)",
+    metadata: { gateway: "stripe", amount: 99.99, currency: "USD" },
+    ...overrides,
+  });
+
+describe("dedupe", () => {
+  describe("recordTemplate", () => {
+    it("should leave out ids, time and variable values", () => {
+      assert.strictEqual(
+        recordTemplate(paymentTimeout()),
+        [
+          "Service: payment-service",
+          "Error Type: PaymentGatewayTimeout",
+          "Message: Payment gateway timeout after <num>ms",
+          "Top Frame: PaymentGateway.charge (payment.js:78)",
+          'Metadata: {"gateway":"stripe","amount":"<num>","currency":"USD"}',
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("templateFingerprint", () => {
+    it("should match records that differ only by ids, amounts and time", () => {
+      const repeat = paymentTimeout({
+        timestamp: "2024-12-10T08:25:33.012Z",
+        user_id: "user_8901",
+        request_id: "req_e1f2g3",
+        message: "Payment gateway timeout after 31000ms",
+        metadata: { gateway: "stripe", amount: 149.99, currency: "USD" },
+      });
+
+      assert.strictEqual(templateFingerprint(paymentTimeout()), templateFingerprint(repeat));
+      assert.match(templateFingerprint(repeat), /^[0-9a-f]{12}$/);
+    });
+
+    it("should differ for another gateway, service or code location", () => {
+      const base = templateFingerprint(paymentTimeout());
+      assert.notStrictEqual(
+        base,
+        templateFingerprint(paymentTimeout({ metadata: { gateway: "paypal", amount: 1, currency: "USD" } }))
+      );
+      assert.notStrictEqual(base, templateFingerprint(paymentTimeout({ service: "order-service" })));
+      assert.notStrictEqual(
+        base,
+        templateFingerprint(paymentTimeout({ stack_trace: "at Checkout.pay (checkout.js:12)" }))
+      );
+    });
+  });
+
+  describe("collapseDuplicates", () => {
+    it("should keep the first record of each fingerprint and collect the rest", () => {
+      const first = paymentTimeout();
+      const other = paymentTimeout({ error_type: "CardDeclined", request_id: "req_t6u7v8" });
+      const repeat = paymentTimeout({ request_id: "req_f8g9h0", metadata: { gateway: "stripe", amount: 5, currency: "USD" } });
+
+      const groups = collapseDuplicates([first, other, repeat], (log) => log);
+
+      assert.deepStrictEqual(
+        groups.map((group) => [group.representative.request_id, group.duplicates.map((log) => log.request_id)]),
+        [
+          ["req_d4e5f6", ["req_f8g9h0"]],
+          ["req_t6u7v8", []],
+        ]
+      );
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import * as crypto from "crypto";
+import { topFrameLabel } from "./stacktrace";
+import { maskValues, messageTemplate } from "./templates";
+import { ErrorLog } from "./types";
+
+// Metadata с теми же ключами, но замаскированными значениями
+function metadataTemplate(metadata: Record<string, any>): string {
+  return JSON.stringify(metadata ?? {}, (_key, value) => {
+    if (typeof value === "number") return "<num>";
+    if (typeof value === "string") return maskValues(value);
+    return value;
+  });
+}
+
+// Текст записи без изменчивых значений: одинаков у повторяющихся ошибок,
+// поэтому по нему создаётся один embedding на отпечаток
+export function recordTemplate(log: ErrorLog): string {
+  const frame = topFrameLabel(log);
+  return `
+Service: ${log.service}
+Error Type: ${log.error_type}
+Message: ${messageTemplate(log.message)}${frame ? `\nTop Frame: ${frame}` : ""}
+Metadata: ${metadataTemplate(log.metadata)}
+  `.trim();
+}
+
+const fingerprints = new WeakMap<ErrorLog, string>();
+
+// Отпечаток записи по её шаблону (кешируется на время жизни записи)
+export function templateFingerprint(log: ErrorLog): string {
+  const cached = fingerprints.get(log);
+  if (cached) return cached;
+
+  const fingerprint = crypto
+    .createHash("sha1")
+    .update(recordTemplate(log))
+    .digest("hex")
+    .slice(0, 12);
+  fingerprints.set(log, fingerprint);
+  return fingerprint;
+}
+
+// Группа повторяющихся записей: представитель и остальные в порядке следования
+export interface DuplicateGroup<T> {
+  fingerprint: string;
+  representative: T;
+  duplicates: T[];
+}
+
+// Схлопывание повторов: первая запись каждого отпечатка остаётся
+// представителем, порядок групп — по первому появлению
+export function collapseDuplicates<T>(
+  items: T[],
+  getLog: (item: T) => ErrorLog
+): DuplicateGroup<T>[] {
+  const groups = new Map<string, DuplicateGroup<T>>();
+  for (const item of items) {
+    const fingerprint = templateFingerprint(getLog(item));
+    const group = groups.get(fingerprint);
+    if (group) {
+      group.duplicates.push(item);
+    } else {
+      groups.set(fingerprint, { fingerprint, representative: item, duplicates: [] });
+    }
+  }
+  return [...groups.values()];
+}
@@ -0,0 +1,287 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  buildDigest,
+  digestToHtml,
+  digestFileName,
+  digestToMarkdown,
+  digestWindows,
+  formatTrend,
+  postDigest,
+  validateDigestProfile,
+} from "./digest.js";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { PersonalizationManager, UserProfile } from "./personalization.js";
+import { RAGSystem } from "./rag.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+const profile: UserProfile = {
+  name: "Никита",
+  role: "Backend Developer",
+  experience: "Middle+",
+  timezone: "Europe/Moscow",
+  preferences: {
+    answerStyle: "краткий",
+    includeRecommendations: true,
+    technicalLevel: "advanced",
+    useEmoji: true,
+  },
+  responsibilities: {
+    services: ["auth-service", "payment-service"],
+    criticalErrors: ["DatabaseConnectionError", "PaymentGatewayTimeout"],
+  },
+  workingHours: { start: "09:00", end: "18:00" },
+};
+
+// Таймаут платёжного шлюза в момент timestamp
+const paymentTimeout = (timestamp: string, overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    timestamp,
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    message: "Payment gateway did not respond",
+    user_id: null,
+    ...overrides,
+  });
+
+// Смена 10.12 09:00–18:00 MSK = 06:00–15:00 UTC, прошлая — 09.12
+const logs = [
+  paymentTimeout("2024-12-09T07:00:00.000Z"),
+  paymentTimeout("2024-12-09T08:00:00.000Z", { service: "auth-service", error_type: "InvalidCredentials" }),
+  paymentTimeout("2024-12-10T06:30:00.000Z"),
+  paymentTimeout("2024-12-10T07:00:00.000Z"),
+  paymentTimeout("2024-12-10T08:00:00.000Z"),
+  paymentTimeout("2024-12-10T09:00:00.000Z", {
+    service: "auth-service",
+    error_type: "DatabaseConnectionError",
+  }),
+  paymentTimeout("2024-12-10T09:30:00.000Z", {
+    service: "cache-service",
+    error_type: "DatabaseConnectionError",
+  }),
+  paymentTimeout("2024-12-10T10:00:00.000Z", { service: "cache-service", error_type: "RedisConnectionError" }),
+  // До начала смены — не входит в отчёт
+  paymentTimeout("2024-12-10T05:00:00.000Z"),
+];
+
+describe("digest", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "digest");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("digestWindows", () => {
+    it("should use the latest started shift in the profile timezone", () => {
+      const during = digestWindows("shift", Date.parse("2024-12-10T10:00:00Z"), profile);
+      assert.deepStrictEqual(during, {
+        window: { from: "2024-12-10T06:00:00.000Z", to: "2024-12-10T15:00:00.000Z" },
+        previous: { from: "2024-12-09T06:00:00.000Z", to: "2024-12-09T15:00:00.000Z" },
+      });
+
+      // 05:00 UTC = 08:00 MSK: смена ещё не началась — берётся вчерашняя
+      const before = digestWindows("shift", Date.parse("2024-12-10T05:00:00Z"), profile);
+      assert.strictEqual(before.window.from, "2024-12-09T06:00:00.000Z");
+    });
+
+    it("should end overnight shifts on the next day", () => {
+      const night = { timezone: "UTC", workingHours: { start: "22:00", end: "06:00" } };
+      const { window } = digestWindows("shift", Date.parse("2024-12-11T03:00:00Z"), night);
+      assert.deepStrictEqual(window, {
+        from: "2024-12-10T22:00:00.000Z",
+        to: "2024-12-11T06:00:00.000Z",
+      });
+    });
+
+    it("should take the previous shift from the previous local day across DST", () => {
+      // 30.03.2025 Берлин переходит на летнее время: вчерашняя смена ещё по CET
+      const berlin = { timezone: "Europe/Berlin", workingHours: { start: "09:00", end: "18:00" } };
+      const { window, previous } = digestWindows(
+        "shift",
+        Date.parse("2025-03-30T10:00:00Z"),
+        berlin
+      );
+      assert.deepStrictEqual(window, {
+        from: "2025-03-30T07:00:00.000Z",
+        to: "2025-03-30T16:00:00.000Z",
+      });
+      assert.deepStrictEqual(previous, {
+        from: "2025-03-29T08:00:00.000Z",
+        to: "2025-03-29T17:00:00.000Z",
+      });
+    });
+
+    it("should reject invalid working hours and timezone", () => {
+      assert.throws(
+        () => validateDigestProfile({ timezone: "UTC", workingHours: { start: "9", end: "18:00" } }),
+        { message: "workingHours.start must be a time in HH:MM format, got: 9" }
+      );
+      assert.throws(
+        () =>
+          validateDigestProfile({
+            timezone: "Mars/Olympus",
+            workingHours: { start: "09:00", end: "18:00" },
+          }),
+        { message: "Unknown timezone: Mars/Olympus" }
+      );
+      assert.doesNotThrow(() => validateDigestProfile(profile));
+    });
+
+    it("should cover 24 hours up to the end of the current hour for day", () => {
+      const { window, previous } = digestWindows("day", Date.parse("2024-12-10T08:34:19Z"), profile);
+      assert.deepStrictEqual(window, {
+        from: "2024-12-09T09:00:00.000Z",
+        to: "2024-12-10T09:00:00.000Z",
+      });
+      assert.strictEqual(previous.to, window.from);
+    });
+  });
+
+  describe("buildDigest", () => {
+    it("should summarize the user's services, critical errors and trend", () => {
+      const digest = buildDigest(logs, profile, { period: "shift" });
+
+      assert.deepStrictEqual(digest.window, {
+        from: "2024-12-10T06:00:00.000Z",
+        to: "2024-12-10T15:00:00.000Z",
+      });
+      assert.strictEqual(digest.records, 6);
+      assert.strictEqual(digest.relevant, 5);
+      assert.strictEqual(digest.previousRelevant, 2);
+      assert.deepStrictEqual(
+        digest.topErrors.map((row) => [row.service, row.error_type, row.count, row.previous]),
+        [
+          ["payment-service", "PaymentGatewayTimeout", 3, 1],
+          ["auth-service", "DatabaseConnectionError", 1, 0],
+        ]
+      );
+      assert.deepStrictEqual(digest.critical[0], {
+        error_type: "DatabaseConnectionError",
+        count: 2,
+        previous: 0,
+        services: ["auth-service", "cache-service"],
+        first: "2024-12-10T09:00:00.000Z",
+        last: "2024-12-10T09:30:00.000Z",
+      });
+      assert.deepStrictEqual(digest.newErrors, ["auth-service/DatabaseConnectionError"]);
+    });
+
+    it("should limit top errors", () => {
+      const digest = buildDigest(logs, profile, { period: "shift", topErrors: 1 });
+      assert.strictEqual(digest.topErrors.length, 1);
+    });
+  });
+
+  describe("formatting", () => {
+    it("should describe the trend", () => {
+      assert.strictEqual(formatTrend(5, 2), "↑ +3 (было 2)");
+      assert.strictEqual(formatTrend(1, 4), "↓ −3 (было 4)");
+      assert.strictEqual(formatTrend(2, 2), "= (было 2)");
+    });
+
+    it("should render Markdown and escaped HTML", () => {
+      const digest = {
+        ...buildDigest(logs, profile, { period: "shift" }),
+        checks: "- Проверить пул соединений <db>",
+      };
+
+      const markdown = digestToMarkdown(digest);
+      assert.match(markdown, /^# Отчёт за смену: Никита/);
+      assert.match(markdown, /Период: 10\.12\.2024, 09:00 — 10\.12\.2024, 18:00 \(Europe\/Moscow\)/);
+      assert.match(markdown, /\| payment-service \| PaymentGatewayTimeout \| 3 \| ↑ \+2 \(было 1\) \|/);
+      assert.match(markdown, /## Что проверить\n\n- Проверить пул соединений <db>/);
+
+      const html = digestToHtml(digest);
+      assert.match(html, /<title>Отчёт за смену: Никита<\/title>/);
+      assert.match(html, /<td>PaymentGatewayTimeout<\/td><td>3<\/td>/);
+      assert.match(html, /пул соединений &lt;db&gt;/);
+    });
+
+    it("should name the report file by the local start date", () => {
+      // 08:00 в Токио — ещё 23:00 предыдущего дня по UTC
+      const tokyo = {
+        ...profile,
+        timezone: "Asia/Tokyo",
+        workingHours: { start: "08:00", end: "17:00" },
+      };
+      const digest = buildDigest(logs, tokyo, {
+        period: "shift",
+        reference: Date.parse("2024-12-10T01:00:00Z"),
+      });
+      assert.strictEqual(digest.window.from, "2024-12-09T23:00:00.000Z");
+      assert.strictEqual(digestFileName(digest, "md"), "digest-shift-2024-12-10.md");
+    });
+  });
+
+  describe("postDigest", () => {
+    it("should POST the report with its content type", async () => {
+      const received: { type?: string; body: string }[] = [];
+      let status = 200;
+      const server = http.createServer(async (req, res) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk);
+        received.push({
+          type: req.headers["content-type"],
+          body: Buffer.concat(chunks).toString("utf-8"),
+        });
+        res.writeHead(status).end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+
+      try {
+        await postDigest(`http://127.0.0.1:${port}/digest`, "# Отчёт", "md");
+        assert.deepStrictEqual(received, [{ type: "text/markdown; charset=utf-8", body: "# Отчёт" }]);
+
+        status = 502;
+        await assert.rejects(
+          () => postDigest(`http://127.0.0.1:${port}/digest`, "{}", "json"),
+          /Webhook responded with 502/
+        );
+      } finally {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe("RAGSystem", () => {
+    it("should build the digest for the loaded profile and ask the model what to check", async () => {
+      await mkdir(testDir, { recursive: true });
+      const logFile = join(testDir, "logs.json");
+      const profileFile = join(testDir, "profile.json");
+      await writeFile(logFile, JSON.stringify(logs));
+      await writeFile(profileFile, JSON.stringify(profile));
+
+      const ollama = new OllamaClient();
+      const prompts: string[] = [];
+      ollama.chat = async (system: string, user: string) => {
+        prompts.push(system, user);
+        return "- Проверить таймауты платёжного шлюза";
+      };
+      const rag = new RAGSystem(ollama, { cacheDir: join(testDir, "cache") }, silentLogger);
+      await rag.loadLogs(logFile);
+      assert.strictEqual(rag.getDigest(), null);
+
+      const personalization = new PersonalizationManager();
+      await personalization.loadProfile(profileFile);
+      rag.setPersonalization(personalization);
+
+      const digest = rag.getDigest({ period: "shift" })!;
+      assert.strictEqual(digest.relevant, 5);
+
+      const checks = await rag.suggestDigestChecks(digest);
+      assert.strictEqual(checks, "- Проверить таймауты платёжного шлюза");
+      assert.match(prompts[0], /итогам смены/);
+      assert.match(prompts[0], /Ответственность: auth-service, payment-service/);
+      assert.match(prompts[1], /payment-service PaymentGatewayTimeout: 3, ↑ \+2 \(было 1\)/);
+      assert.match(prompts[1], /2024-12-10T08:00:00\.000Z ERROR payment-service PaymentGatewayTimeout/);
+    });
+  });
+});
@@ -0,0 +1,467 @@
+import { groupBy } from "./collections";
+import { UserProfile } from "./personalization";
+import { escapeHtml } from "./sessions";
+import { ErrorLog } from "./types";
+
+// day   — последние 24 часа до конца часа с опорным временем
+// shift — последняя начавшаяся смена по workingHours профиля (в его timezone)
+export type DigestPeriod = "day" | "shift";
+export type DigestFormat = "md" | "html" | "json";
+
+export const DIGEST_PERIODS: DigestPeriod[] = ["day", "shift"];
+export const DIGEST_FORMATS: DigestFormat[] = ["md", "html", "json"];
+
+export interface DigestOptions {
+  period: DigestPeriod;
+  topErrors: number; // Сколько строк в «частых ошибках»
+  summarize: boolean; // Раздел «что проверить» от модели
+  outputDir: string; // Куда сохранять отчёты ("" — в stdout или -o)
+  webhook: string; // Куда отправлять POST с отчётом ("" — не отправлять)
+}
+
+export const DEFAULT_DIGEST: DigestOptions = {
+  period: "shift",
+  topErrors: 5,
+  summarize: true,
+  outputDir: "",
+  webhook: "",
+};
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const HOUR = 60 * 60 * 1000;
+
+export interface DigestWindow {
+  from: string; // ISO, включительно
+  to: string; // ISO, не включительно
+}
+
+export interface DigestErrorRow {
+  service: string;
+  error_type: string;
+  count: number;
+  previous: number; // За предыдущий такой же период
+  last: string;
+}
+
+export interface DigestCriticalRow {
+  error_type: string;
+  count: number;
+  previous: number;
+  services: string[];
+  first?: string;
+  last?: string;
+}
+
+export interface Digest {
+  profile: {
+    name: string;
+    role: string;
+    timezone: string;
+    services: string[];
+    criticalErrors: string[];
+  };
+  period: DigestPeriod;
+  window: DigestWindow;
+  previousWindow: DigestWindow;
+  generatedAt: string;
+  records: number; // Все записи за период
+  relevant: number; // Записи в сервисах пользователя и критичные для него
+  previousRelevant: number;
+  topErrors: DigestErrorRow[];
+  critical: DigestCriticalRow[];
+  newErrors: string[]; // "service/error_type", которых не было в прошлом периоде
+  checks?: string; // Что проверить — ответ модели
+}
+
+// Смещение часового пояса (мс) в момент instant: местное время − UTC
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const local = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+// Момент UTC для местных даты и времени "HH:MM" в часовом поясе
+function zonedTime(date: Date, time: string, timeZone: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  const guess = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    hours,
+    minutes
+  );
+  const offset = timeZoneOffset(guess - timeZoneOffset(guess, timeZone), timeZone);
+  return guess - offset;
+}
+
+// Местная дата "YYYY-MM-DD" момента instant в часовом поясе
+function localDate(instant: number, timeZone: string): string {
+  return new Date(instant + timeZoneOffset(instant, timeZone)).toISOString().slice(0, 10);
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Проверка рабочих часов и часового пояса профиля для отчёта за смену:
+// иначе Intl бросил бы RangeError посреди расчёта окна
+export function validateDigestProfile(
+  profile: Pick<UserProfile, "timezone" | "workingHours">
+): void {
+  for (const key of ["start", "end"] as const) {
+    const value = profile.workingHours?.[key];
+    if (typeof value !== "string" || !TIME_PATTERN.test(value)) {
+      throw new Error(`workingHours.${key} must be a time in HH:MM format, got: ${value}`);
+    }
+  }
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: profile.timezone || "UTC" });
+  } catch {
+    throw new Error(`Unknown timezone: ${profile.timezone}`);
+  }
+}
+
+function toWindow(from: number, to: number): DigestWindow {
+  return { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+}
+
+// Период отчёта и предыдущий такой же период. Смена через полночь
+// (22:00–06:00) заканчивается на следующий день; предыдущая смена —
+// по рабочим часам предыдущего местного дня, а не ровно на 24 часа раньше,
+// иначе при переходе на летнее время она сдвинулась бы на час
+export function digestWindows(
+  period: DigestPeriod,
+  reference: number,
+  profile: Pick<UserProfile, "timezone" | "workingHours">
+): { window: DigestWindow; previous: DigestWindow } {
+  if (period === "day") {
+    const end = Math.ceil(reference / HOUR) * HOUR;
+    return {
+      window: toWindow(end - 24 * HOUR, end),
+      previous: toWindow(end - 48 * HOUR, end - 24 * HOUR),
+    };
+  }
+
+  const { start, end } = profile.workingHours;
+  const timeZone = profile.timezone || "UTC";
+  // Даты — местные дни в полях UTC, сдвиг на день не зависит от DST
+  const dayBefore = (day: Date) => new Date(day.getTime() - 24 * HOUR);
+  const shiftOn = (day: Date): DigestWindow => {
+    const shiftStart = zonedTime(day, start, timeZone);
+    let shiftEnd = zonedTime(day, end, timeZone);
+    if (shiftEnd <= shiftStart) {
+      shiftEnd = zonedTime(new Date(day.getTime() + 24 * HOUR), end, timeZone);
+    }
+    return toWindow(shiftStart, shiftEnd);
+  };
+
+  let day = new Date(reference + timeZoneOffset(reference, timeZone));
+  if (zonedTime(day, start, timeZone) > reference) {
+    day = dayBefore(day);
+  }
+  return { window: shiftOn(day), previous: shiftOn(dayBefore(day)) };
+}
+
+function inWindow(log: ErrorLog, window: DigestWindow): boolean {
+  const time = Date.parse(log.timestamp);
+  return time >= Date.parse(window.from) && time < Date.parse(window.to);
+}
+
+const lower = (values: string[]) => new Set(values.map((value) => value.toLowerCase()));
+
+// Отчёт за период по профилю: частые ошибки в сервисах пользователя,
+// критичные для него ошибки и сравнение с предыдущим периодом.
+// reference — опорное время (по умолчанию последняя запись логов)
+export function buildDigest(
+  logs: ErrorLog[],
+  profile: UserProfile,
+  options: { period?: DigestPeriod; topErrors?: number; reference?: number } = {}
+): Digest {
+  const period = options.period ?? DEFAULT_DIGEST.period;
+  const topErrors = options.topErrors ?? DEFAULT_DIGEST.topErrors;
+  const sorted = logs
+    .filter((log) => Number.isFinite(Date.parse(log.timestamp)))
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+  const reference =
+    options.reference ??
+    (sorted.length > 0 ? Date.parse(sorted[sorted.length - 1].timestamp) : Date.now());
+  const { window, previous } = digestWindows(period, reference, profile);
+
+  const services = lower(profile.responsibilities.services);
+  const critical = lower(profile.responsibilities.criticalErrors);
+  const isRelevant = (log: ErrorLog) =>
+    services.has(log.service.toLowerCase()) || critical.has(log.error_type.toLowerCase());
+
+  const current = sorted.filter((log) => inWindow(log, window));
+  const before = sorted.filter((log) => inWindow(log, previous));
+
+  const key = (log: ErrorLog) => `${log.service}/${log.error_type}`;
+  const countBy = (records: ErrorLog[]) => groupBy(records, key);
+
+  const ownCurrent = countBy(current.filter((log) => services.has(log.service.toLowerCase())));
+  const ownPrevious = countBy(before.filter((log) => services.has(log.service.toLowerCase())));
+  const rows = [...ownCurrent.values()]
+    .map((records) => ({
+      service: records[0].service,
+      error_type: records[0].error_type,
+      count: records.length,
+      previous: ownPrevious.get(key(records[0]))?.length ?? 0,
+      last: records[records.length - 1].timestamp,
+    }))
+    .sort((a, b) => b.count - a.count || a.service.localeCompare(b.service));
+
+  const criticalRows = profile.responsibilities.criticalErrors.map((errorType) => {
+    const matches = (log: ErrorLog) => log.error_type.toLowerCase() === errorType.toLowerCase();
+    const records = current.filter(matches);
+    return {
+      error_type: errorType,
+      count: records.length,
+      previous: before.filter(matches).length,
+      services: [...new Set(records.map((log) => log.service))],
+      first: records[0]?.timestamp,
+      last: records[records.length - 1]?.timestamp,
+    };
+  });
+
+  return {
+    profile: {
+      name: profile.name,
+      role: profile.role,
+      timezone: profile.timezone,
+      services: profile.responsibilities.services,
+      criticalErrors: profile.responsibilities.criticalErrors,
+    },
+    period,
+    window,
+    previousWindow: previous,
+    generatedAt: new Date().toISOString(),
+    records: current.length,
+    relevant: current.filter(isRelevant).length,
+    previousRelevant: before.filter(isRelevant).length,
+    topErrors: rows.slice(0, topErrors),
+    critical: criticalRows,
+    newErrors: rows
+      .filter((row) => row.previous === 0)
+      .map((row) => `${row.service}/${row.error_type}`),
+  };
+}
+
+// "↑ +3 (было 2)", "↓ −1 (было 4)", "= (было 2)"
+export function formatTrend(count: number, previous: number): string {
+  if (count === previous) return `= (было ${previous})`;
+  const diff = count - previous;
+  return diff > 0 ? `↑ +${diff} (было ${previous})` : `↓ −${-diff} (было ${previous})`;
+}
+
+const PERIOD_TITLES: Record<DigestPeriod, string> = { day: "сутки", shift: "смену" };
+
+function localTime(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat("ru-RU", {
+    timeZone: timeZone || "UTC",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(iso));
+}
+
+function criticalDetails(row: DigestCriticalRow): string {
+  return row.count > 0 ? `, сервисы: ${row.services.join(", ")}, ${row.first} — ${row.last}` : "";
+}
+
+function periodLabel(digest: Digest): string {
+  const { timezone } = digest.profile;
+  return `${localTime(digest.window.from, timezone)} — ${localTime(digest.window.to, timezone)} (${
+    timezone || "UTC"
+  })`;
+}
+
+// Данные отчёта для промпта модели
+export function formatDigestContext(digest: Digest): string {
+  const rows = digest.topErrors.map(
+    (row) => `- ${row.service} ${row.error_type}: ${row.count}, ${formatTrend(row.count, row.previous)}`
+  );
+  const critical = digest.critical.map(
+    (row) =>
+      `- ${row.error_type}: ${row.count}, ${formatTrend(row.count, row.previous)}` +
+      (row.services.length > 0 ? `, сервисы: ${row.services.join(", ")}` : "")
+  );
+  return [
+    `PERIOD: ${digest.window.from} — ${digest.window.to} (${digest.period})`,
+    `USER SERVICES: ${digest.profile.services.join(", ") || "-"}`,
+    `RECORDS: ${digest.records}, relevant to user: ${digest.relevant}, ${formatTrend(
+      digest.relevant,
+      digest.previousRelevant
+    )}`,
+    "TOP ERRORS IN USER SERVICES:",
+    ...(rows.length > 0 ? rows : ["- нет"]),
+    "CRITICAL ERRORS:",
+    ...(critical.length > 0 ? critical : ["- не заданы"]),
+    `NEW IN THIS PERIOD: ${digest.newErrors.join(", ") || "нет"}`,
+  ].join("\n");
+}
+
+export function digestToMarkdown(digest: Digest): string {
+  const lines = [
+    `# Отчёт за ${PERIOD_TITLES[digest.period]}: ${digest.profile.name}`,
+    "",
+    `- Период: ${periodLabel(digest)}`,
+    `- Сервисы: ${digest.profile.services.join(", ") || "не указаны"}`,
+    `- Записей за период: ${digest.records}, важных для вас: ${digest.relevant} ${formatTrend(
+      digest.relevant,
+      digest.previousRelevant
+    )}`,
+    "",
+    "## Частые ошибки в ваших сервисах",
+    "",
+  ];
+
+  if (digest.topErrors.length === 0) {
+    lines.push("Ошибок нет.");
+  } else {
+    lines.push("| Сервис | Тип ошибки | Записей | Тренд | Последняя |", "|---|---|---|---|---|");
+    for (const row of digest.topErrors) {
+      lines.push(
+        `| ${row.service} | ${row.error_type} | ${row.count} | ${formatTrend(row.count, row.previous)} | ${row.last} |`
+      );
+    }
+  }
+
+  lines.push("", "## Критичные ошибки", "");
+  if (digest.critical.length === 0) {
+    lines.push("Критичные ошибки в профиле не заданы.");
+  }
+  for (const row of digest.critical) {
+    lines.push(
+      `- **${row.error_type}**: ${row.count} ${formatTrend(row.count, row.previous)}${criticalDetails(row)}`
+    );
+  }
+
+  if (digest.newErrors.length > 0) {
+    lines.push("", "## Новое за период", "", ...digest.newErrors.map((item) => `- ${item}`));
+  }
+  if (digest.checks) {
+    lines.push("", "## Что проверить", "", digest.checks.trim());
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// Отчёт в самодостаточном HTML
+export function digestToHtml(digest: Digest): string {
+  const title = `Отчёт за ${PERIOD_TITLES[digest.period]}: ${digest.profile.name}`;
+  const rows = digest.topErrors
+    .map(
+      (row) =>
+        `<tr><td>${escapeHtml(row.service)}</td><td>${escapeHtml(row.error_type)}</td><td>${
+          row.count
+        }</td><td>${escapeHtml(formatTrend(row.count, row.previous))}</td><td>${escapeHtml(
+          row.last
+        )}</td></tr>`
+    )
+    .join("\n");
+  const topErrors = digest.topErrors.length
+    ? `<table>
+<tr><th>Сервис</th><th>Тип ошибки</th><th>Записей</th><th>Тренд</th><th>Последняя</th></tr>
+${rows}
+</table>`
+    : "<p>Ошибок нет.</p>";
+  const critical = digest.critical.length
+    ? `<ul>${digest.critical
+        .map(
+          (row) =>
+            `<li><strong>${escapeHtml(row.error_type)}</strong>: ${row.count} ${escapeHtml(
+              `${formatTrend(row.count, row.previous)}${criticalDetails(row)}`
+            )}</li>`
+        )
+        .join("")}</ul>`
+    : "<p>Критичные ошибки в профиле не заданы.</p>";
+  const newErrors = digest.newErrors.length
+    ? `<h2>Новое за период</h2><ul>${digest.newErrors
+        .map((item) => `<li>${escapeHtml(item)}</li>`)
+        .join("")}</ul>`
+    : "";
+  const checks = digest.checks
+    ? `<h2>Что проверить</h2><pre>${escapeHtml(digest.checks.trim())}</pre>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; }
+pre { white-space: pre-wrap; background: #f6f8fa; padding: 0.75rem; border-radius: 6px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<ul>
+<li>Период: ${escapeHtml(periodLabel(digest))}</li>
+<li>Сервисы: ${escapeHtml(digest.profile.services.join(", ") || "не указаны")}</li>
+<li>Записей за период: ${digest.records}, важных для вас: ${digest.relevant} ${escapeHtml(
+    formatTrend(digest.relevant, digest.previousRelevant)
+  )}</li>
+</ul>
+<h2>Частые ошибки в ваших сервисах</h2>
+${topErrors}
+<h2>Критичные ошибки</h2>
+${critical}
+${newErrors}${checks}
+</body>
+</html>
+`;
+}
+
+export function renderDigest(digest: Digest, format: DigestFormat): string {
+  if (format === "html") return digestToHtml(digest);
+  if (format === "json") return `${JSON.stringify(digest, null, 2)}\n`;
+  return digestToMarkdown(digest);
+}
+
+// Имя файла отчёта: "digest-shift-2024-12-10.md", дата начала периода —
+// местная, в часовом поясе профиля
+export function digestFileName(digest: Digest, format: DigestFormat): string {
+  const date = localDate(Date.parse(digest.window.from), digest.profile.timezone || "UTC");
+  return `digest-${digest.period}-${date}.${format}`;
+}
+
+const CONTENT_TYPES: Record<DigestFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  json: "application/json",
+};
+
+// Отправка отчёта POST-запросом; ответ не 2xx считается ошибкой
+export async function postDigest(url: string, content: string, format: DigestFormat): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": CONTENT_TYPES[format] },
+    body: content,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { HNSWIndex } from "./hnsw.js";
+
+// Детерминированные векторы для теста
+function randomVectors(count: number, dimensions: number, seed: number): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, next));
+}
+
+function exactTop(vectors: number[][], query: number[], k: number): number[] {
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  return vectors
+    .map((vector, id) => ({
+      id,
+      similarity: vector.reduce((sum, x, i) => sum + x * query[i], 0) / (norm(vector) * norm(query)),
+    }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map((item) => item.id);
+}
+
+describe("HNSWIndex", () => {
+  const vectors = randomVectors(600, 12, 7);
+  const queries = randomVectors(20, 12, 99);
+  const index = new HNSWIndex();
+  vectors.forEach((vector) => index.add(vector));
+
+  it("should find nearly all exact nearest neighbours", () => {
+    let found = 0;
+    for (const query of queries) {
+      const exact = new Set(exactTop(vectors, query, 10));
+      found += index.search(query, 10).filter((item) => exact.has(item.id)).length;
+    }
+    assert.strictEqual(index.size, 600);
+    assert.ok(found / (queries.length * 10) >= 0.9, `recall ${found / 200}`);
+  });
+
+  it("should return neighbours by descending cosine similarity", () => {
+    const result = index.search(vectors[42], 5);
+
+    assert.strictEqual(result.length, 5);
+    assert.strictEqual(result[0].id, 42);
+    assert.ok(Math.abs(result[0].similarity - 1) < 1e-6);
+    for (let i = 1; i < result.length; i++) {
+      assert.ok(result[i - 1].similarity >= result[i].similarity);
+    }
+  });
+
+  it("should only return accepted nodes", () => {
+    const result = index.search(queries[0], 10, (id) => id % 3 === 0);
+    const accepted = vectors.filter((_, id) => id % 3 === 0);
+    const exact = exactTop(accepted, queries[0], 10).map((id) => id * 3);
+
+    assert.strictEqual(result.length, 10);
+    assert.ok(result.every((item) => item.id % 3 === 0));
+    assert.ok(result.filter((item) => exact.includes(item.id)).length >= 8);
+  });
+
+  it("should handle an empty index and build the same graph for the same seed", () => {
+    assert.deepStrictEqual(new HNSWIndex().search([1, 0], 3), []);
+
+    const again = new HNSWIndex();
+    vectors.forEach((vector) => again.add(vector));
+    assert.deepStrictEqual(again.search(queries[1], 10), index.search(queries[1], 10));
+  });
+});
@@ -0,0 +1,289 @@
+// Приближённый поиск ближайших соседей: Hierarchical Navigable Small World
+// (Malkov, Yashunin). Узлы — нормализованные векторы, сходство — косинусное
+
+export interface HNSWOptions {
+  m: number; // Связей узла на верхних слоях (на нижнем — 2m)
+  efConstruction: number; // Ширина поиска соседей при вставке
+  efSearch: number; // Ширина поиска при запросе: больше — точнее и медленнее
+  seed: number; // Зерно выбора уровней: одинаковые вставки дают одинаковый граф
+}
+
+export const DEFAULT_HNSW: HNSWOptions = {
+  m: 16,
+  efConstruction: 100,
+  efSearch: 64,
+  seed: 42,
+};
+
+export interface Neighbor {
+  id: number;
+  similarity: number;
+}
+
+// Двоичная куча: на вершине элемент, для которого compare(a, b) < 0
+class Heap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+
+    items[0] = last;
+    let i = 0;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let best = i;
+      if (left < items.length && this.compare(items[left], items[best]) < 0) best = left;
+      if (right < items.length && this.compare(items[right], items[best]) < 0) best = right;
+      if (best === i) break;
+      [items[i], items[best]] = [items[best], items[i]];
+      i = best;
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) norm += result[i] * result[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) result[i] /= norm;
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Детерминированный генератор случайных чисел (mulberry32)
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const bySimilarityDesc = (a: Neighbor, b: Neighbor) => b.similarity - a.similarity;
+const bySimilarityAsc = (a: Neighbor, b: Neighbor) => a.similarity - b.similarity;
+
+// Граф строится в памяти по мере добавления векторов; узлы нумеруются
+// по порядку добавления. Удаление не поддерживается — индекс пересоздаётся
+export class HNSWIndex {
+  private options: HNSWOptions;
+  private vectors: Float32Array[] = [];
+  private links: number[][][] = []; // links[узел][слой] — соседи
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private random: () => number;
+  private levelFactor: number;
+
+  constructor(options: Partial<HNSWOptions> = {}) {
+    this.options = { ...DEFAULT_HNSW, ...options };
+    this.random = seededRandom(this.options.seed);
+    this.levelFactor = 1 / Math.log(this.options.m);
+  }
+
+  get size(): number {
+    return this.vectors.length;
+  }
+
+  // Добавление вектора; возвращает номер узла
+  add(vector: ArrayLike<number>): number {
+    const id = this.vectors.length;
+    const normalized = normalize(vector);
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+    this.vectors.push(normalized);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return id;
+    }
+
+    // Спуск по верхним слоям к ближайшему узлу, затем поиск соседей на
+    // каждом слое от уровня узла до нижнего
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.greedyClosest(normalized, entry, layer);
+    }
+    let entries = [entry];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(
+        normalized,
+        entries,
+        this.options.efConstruction,
+        layer
+      );
+      const neighbors = this.selectNeighbors(candidates, this.options.m);
+      this.links[id][layer] = neighbors.map((neighbor) => neighbor.id);
+      for (const neighbor of neighbors) {
+        this.connect(neighbor.id, id, layer);
+      }
+      entries = candidates.map((candidate) => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+    return id;
+  }
+
+  // k ближайших узлов по убыванию сходства. accept ограничивает результат
+  // (фильтр), но не обход графа, поэтому отфильтрованные узлы не рвут связи
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    accept?: (id: number) => boolean,
+    ef: number = this.options.efSearch
+  ): Neighbor[] {
+    if (this.entryPoint < 0 || k <= 0) {
+      return [];
+    }
+
+    const normalized = normalize(query);
+    let entry = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.greedyClosest(normalized, entry, layer);
+    }
+    return this.searchLayer(normalized, [entry], Math.max(ef, k), 0, accept).slice(0, k);
+  }
+
+  private greedyClosest(query: Float32Array, entry: number, layer: number): number {
+    let best = entry;
+    let bestSimilarity = dot(query, this.vectors[entry]);
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.links[best][layer]) {
+        const similarity = dot(query, this.vectors[neighbor]);
+        if (similarity > bestSimilarity) {
+          best = neighbor;
+          bestSimilarity = similarity;
+          improved = true;
+        }
+      }
+    }
+    return best;
+  }
+
+  // Поиск ef ближайших на слое: кандидаты — от ближайшего, результаты —
+  // с худшим на вершине, чтобы его можно было вытеснить
+  private searchLayer(
+    query: Float32Array,
+    entries: number[],
+    ef: number,
+    layer: number,
+    accept?: (id: number) => boolean
+  ): Neighbor[] {
+    const visited = new Set(entries);
+    const candidates = new Heap<Neighbor>(bySimilarityDesc);
+    const results = new Heap<Neighbor>(bySimilarityAsc);
+
+    for (const id of entries) {
+      const neighbor = { id, similarity: dot(query, this.vectors[id]) };
+      candidates.push(neighbor);
+      if (!accept || accept(id)) results.push(neighbor);
+      if (results.size > ef) results.pop();
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.similarity < results.peek()!.similarity) {
+        break;
+      }
+
+      for (const id of this.links[current.id][layer]) {
+        if (visited.has(id)) continue;
+        visited.add(id);
+
+        const similarity = dot(query, this.vectors[id]);
+        if (results.size < ef || similarity > results.peek()!.similarity) {
+          candidates.push({ id, similarity });
+          if (!accept || accept(id)) {
+            results.push({ id, similarity });
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort(bySimilarityDesc);
+  }
+
+  // Эвристика выбора соседей: кандидат берётся, если он ближе к узлу, чем к
+  // уже выбранным соседям, — так связи ведут в разные стороны, а не в один
+  // кластер. Недобор дополняется ближайшими из отброшенных
+  private selectNeighbors(candidates: Neighbor[], m: number): Neighbor[] {
+    const selected: Neighbor[] = [];
+    const skipped: Neighbor[] = [];
+
+    for (const candidate of [...candidates].sort(bySimilarityDesc)) {
+      if (selected.length >= m) break;
+      const diverse = selected.every(
+        (chosen) =>
+          dot(this.vectors[candidate.id], this.vectors[chosen.id]) < candidate.similarity
+      );
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    return [...selected, ...skipped.slice(0, m - selected.length)];
+  }
+
+  // Обратная связь; переполненный список соседей прореживается
+  private connect(node: number, id: number, layer: number): void {
+    const links = this.links[node][layer];
+    links.push(id);
+
+    const maxLinks = layer === 0 ? 2 * this.options.m : this.options.m;
+    if (links.length <= maxLinks) {
+      return;
+    }
+    const candidates = links.map((neighbor) => ({
+      id: neighbor,
+      similarity: dot(this.vectors[node], this.vectors[neighbor]),
+    }));
+    this.links[node][layer] = this.selectNeighbors(candidates, maxLinks).map(
+      (neighbor) => neighbor.id
+    );
+  }
+}
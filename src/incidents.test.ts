@@ -0,0 +1,185 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  clusterIncidents,
+  findIncident,
+  formatIncidentDetails,
+  formatIncidents,
+} from "./incidents.js";
+import { logAt } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+const DB_STACK = "at Database.connect (db.js:45)\n  at AuthService.login (auth.js:12)";
+const PAYMENT_STACK = "at PaymentGateway.charge (payment.js:78)";
+
+// Ошибка базы через minute минут после 08:00, request_id — по минуте
+const dbError = (minute: number, overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  logAt(minute, {
+    request_id: `req_${minute}`,
+    stack_trace: DB_STACK,
+    ...overrides,
+  });
+
+describe("incidents", () => {
+  describe("clusterIncidents", () => {
+    it("should group records with the same stack trace that are close in time", () => {
+      const logs = [dbError(0), dbError(3), dbError(5), dbError(40)];
+      const incidents = clusterIncidents(logs.map((log) => ({ log })));
+
+      assert.strictEqual(incidents.length, 1);
+      assert.strictEqual(incidents[0].id, "INC-1");
+      assert.deepStrictEqual(incidents[0].records, logs.slice(0, 3));
+      assert.strictEqual(incidents[0].durationMs, 5 * 60000);
+    });
+
+    it("should not link unrelated records by time alone", () => {
+      const logs = [
+        dbError(0),
+        dbError(1, { service: "payment-service", error_type: "CardDeclined", stack_trace: PAYMENT_STACK }),
+      ];
+      assert.deepStrictEqual(clusterIncidents(logs.map((log) => ({ log }))), []);
+    });
+
+    it("should link a shared request_id regardless of time and a shared user_id nearby", () => {
+      const cascade = [
+        dbError(0, { request_id: "req_a1" }),
+        dbError(1, {
+          service: "payment-service",
+          error_type: "PaymentGatewayTimeout",
+          stack_trace: PAYMENT_STACK,
+          user_id: "user_1",
+        }),
+        dbError(2, {
+          service: "notification-service",
+          error_type: "EmailDeliveryFailed",
+          stack_trace: "",
+          user_id: "user_1",
+        }),
+        dbError(30, { service: "api-gateway", error_type: "ServiceUnavailable", request_id: "req_a1" }),
+      ];
+      const incidents = clusterIncidents(cascade.map((log) => ({ log })));
+
+      assert.deepStrictEqual(
+        incidents.map((incident) => incident.records.map((log) => log.request_id)),
+        [
+          ["req_a1", "req_a1"],
+          ["req_1", "req_2"],
+        ]
+      );
+    });
+
+    it("should use embedding similarity as an extra signal", () => {
+      const logs = [
+        dbError(0, { stack_trace: "" }),
+        dbError(2, { stack_trace: "", service: "payment-service" }),
+      ];
+      const similar = clusterIncidents([
+        { log: logs[0], embedding: [1, 0, 0] },
+        { log: logs[1], embedding: [0.99, 0.05, 0] },
+      ]);
+      const different = clusterIncidents([
+        { log: logs[0], embedding: [1, 0, 0] },
+        { log: logs[1], embedding: [0, 1, 0] },
+      ]);
+
+      assert.strictEqual(similar.length, 1);
+      assert.deepStrictEqual(similar[0].services, ["auth-service", "payment-service"]);
+      assert.deepStrictEqual(different, []);
+
+      // Длина вектора не важна: сравнивается направление
+      const scaled = clusterIncidents([
+        { log: logs[0], embedding: [10, 0, 0] },
+        { log: logs[1], embedding: [0.099, 0.005, 0] },
+      ]);
+      assert.strictEqual(scaled.length, 1);
+    });
+
+    it("should compare each record with at most maxCandidates following ones", () => {
+      const unrelated = (minute: number, service: string) =>
+        dbError(minute, { service, error_type: "Unrelated", stack_trace: "" });
+      const logs = [
+        dbError(0, { user_id: "user_1", stack_trace: "" }),
+        unrelated(0.1, "billing-service"),
+        unrelated(0.2, "search-service"),
+        dbError(0.3, { user_id: "user_1", stack_trace: "", service: "payment-service" }),
+      ].map((log) => ({ log }));
+
+      assert.strictEqual(clusterIncidents(logs).length, 1);
+      assert.deepStrictEqual(clusterIncidents(logs, { maxCandidates: 2 }), []);
+    });
+
+    it("should prefer an upstream service, then an infrastructure error as the root cause", () => {
+      const upstream = clusterIncidents(
+        [
+          dbError(0, { service: "api-gateway", error_type: "BadGateway", user_id: "user_1", stack_trace: "" }),
+          dbError(1, { service: "inventory-service", error_type: "OutOfMemory", user_id: "user_1", stack_trace: "" }),
+          dbError(2, {
+            service: "api-gateway",
+            error_type: "ServiceUnavailable",
+            user_id: "user_1",
+            stack_trace: "",
+            metadata: { upstream_service: "inventory-service" },
+          }),
+        ].map((log) => ({ log }))
+      );
+      assert.strictEqual(upstream[0].rootCause.service, "inventory-service");
+
+      const infrastructure = clusterIncidents(
+        [
+          dbError(0, { error_type: "InvalidCredentials", user_id: "user_1", stack_trace: "" }),
+          dbError(1, { error_type: "RedisConnectionError", user_id: "user_1", stack_trace: "" }),
+        ].map((log) => ({ log }))
+      );
+      assert.strictEqual(infrastructure[0].rootCause.error_type, "RedisConnectionError");
+      assert.strictEqual(infrastructure[0].rootCauseReason, "первый сбой инфраструктуры в инциденте");
+    });
+
+    it("should respect minRecords and windowMs", () => {
+      const logs = [dbError(0), dbError(3)].map((log) => ({ log }));
+      assert.deepStrictEqual(clusterIncidents(logs, { minRecords: 3 }), []);
+      assert.deepStrictEqual(clusterIncidents(logs, { windowMs: 2 * 60000 }), []);
+    });
+  });
+
+  describe("findIncident", () => {
+    it("should accept full, lowercase and numeric ids", () => {
+      const incidents = clusterIncidents([dbError(0), dbError(1)].map((log) => ({ log })));
+
+      assert.strictEqual(findIncident(incidents, "INC-1"), incidents[0]);
+      assert.strictEqual(findIncident(incidents, "inc-1"), incidents[0]);
+      assert.strictEqual(findIncident(incidents, "1"), incidents[0]);
+      assert.strictEqual(findIncident(incidents, "2"), undefined);
+    });
+  });
+
+  describe("formatIncidents", () => {
+    it("should report nothing without incidents", () => {
+      assert.strictEqual(formatIncidents([]), "ИНЦИДЕНТЫ:\n  не обнаружено");
+    });
+
+    it("should show the time range, services and root cause", () => {
+      const incidents = clusterIncidents([dbError(15), dbError(19)].map((log) => ({ log })));
+
+      assert.strictEqual(
+        formatIncidents(incidents),
+        [
+          "ИНЦИДЕНТЫ:",
+          "  🧩 INC-1 08:15–08:19 (4 мин), записей: 2, auth-service — DatabaseConnectionError",
+          "     Вероятная причина: req_15 auth-service DatabaseConnectionError (первая ошибка инцидента, сбой инфраструктуры)",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe("formatIncidentDetails", () => {
+    it("should number records and mark the root cause", () => {
+      const [incident] = clusterIncidents([dbError(0), dbError(1)].map((log) => ({ log })));
+      const details = formatIncidentDetails(incident);
+
+      assert.match(details, /^INCIDENT INC-1: /);
+      assert.match(details, /Suggested root cause: \[1\]/);
+      assert.match(details, /\[1\] 2024-12-10T08:00:00\.000Z auth-service DatabaseConnectionError ← вероятная причина/);
+      assert.match(details, /Stack: Database\.connect \(db\.js:45\) ← AuthService\.login \(auth\.js:12\)/);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import { groupBy } from "./collections";
+import { frameLabel, parseLogStack } from "./stacktrace";
+import { ErrorLog } from "./types";
+
+export interface IncidentOptions {
+  windowMs: number; // Максимальный разрыв во времени между связанными записями
+  linkThreshold: number; // Минимальная сила связи, чтобы объединить две записи
+  similarityThreshold: number; // Cosine similarity, начиная с которой embeddings считаются похожими
+  minRecords: number; // Минимум записей в инциденте
+  maxCandidates: number; // С каким числом следующих записей окна сравнивается каждая
+}
+
+const DEFAULT_INCIDENT_OPTIONS: IncidentOptions = {
+  windowMs: 10 * 60 * 1000,
+  linkThreshold: 0.5,
+  similarityThreshold: 0.85,
+  minRecords: 2,
+  maxCandidates: 50,
+};
+
+// Вклад каждого признака в силу связи двух записей
+const LINK_WEIGHTS = {
+  time: 0.25,
+  stack: 0.4,
+  embedding: 0.35,
+  user: 0.4,
+};
+
+// Типы ошибок инфраструктуры — чаще причина каскада, чем его следствие
+const INFRASTRUCTURE_ERROR = /database|connection|redis|timeout|unavailable|network|dns|refused/i;
+
+export interface ClusterInput {
+  log: ErrorLog;
+  embedding?: ArrayLike<number>;
+}
+
+export interface Incident {
+  id: string; // INC-1, INC-2, ... в порядке начала
+  start: string;
+  end: string;
+  durationMs: number;
+  services: string[]; // В порядке первого появления
+  errorTypes: string[];
+  records: ErrorLog[]; // В хронологическом порядке
+  rootCause: ErrorLog;
+  rootCauseReason: string;
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const item of a) {
+    if (b.has(item)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+interface Node {
+  log: ErrorLog;
+  time: number;
+  frames: Set<string>;
+  embedding?: Float32Array; // Нормированный: cosine similarity — скалярное произведение
+}
+
+// Нормирование embeddings; повторы одного шаблона делят массив, поэтому
+// каждый вектор нормируется один раз
+function unitVectors(inputs: ClusterInput[]): Map<ArrayLike<number>, Float32Array> {
+  const units = new Map<ArrayLike<number>, Float32Array>();
+  for (const { embedding } of inputs) {
+    if (!embedding || units.has(embedding)) continue;
+    let norm = 0;
+    for (let i = 0; i < embedding.length; i++) norm += embedding[i] * embedding[i];
+    norm = Math.sqrt(norm);
+    units.set(embedding, Float32Array.from(embedding, (value) => (norm === 0 ? 0 : value / norm)));
+  }
+  return units;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+// Сила связи двух записей, близких по времени: 0 — не связаны
+function linkStrength(a: Node, b: Node, settings: IncidentOptions): number {
+  const gap = Math.abs(b.time - a.time);
+  let strength = LINK_WEIGHTS.time * (1 - gap / settings.windowMs);
+
+  strength += LINK_WEIGHTS.stack * jaccard(a.frames, b.frames);
+
+  if (a.embedding && b.embedding) {
+    const similarity = dot(a.embedding, b.embedding);
+    if (similarity >= settings.similarityThreshold && settings.similarityThreshold < 1) {
+      strength +=
+        (LINK_WEIGHTS.embedding * (similarity - settings.similarityThreshold)) /
+        (1 - settings.similarityThreshold);
+    }
+  }
+
+  if (a.log.user_id && a.log.user_id === b.log.user_id) {
+    strength += LINK_WEIGHTS.user;
+  }
+  return strength;
+}
+
+// Сервисы, на которые ссылаются другие записи как на upstream
+function upstreamServices(records: ErrorLog[]): Set<string> {
+  const services = new Set<string>();
+  for (const log of records) {
+    const upstream = log.metadata.upstream_service;
+    if (typeof upstream === "string") services.add(upstream);
+  }
+  return services;
+}
+
+// Вероятная причина: сервис, на который жалуются другие, затем сбой
+// инфраструктуры, затем просто первая ошибка инцидента
+function findRootCause(records: ErrorLog[]): { log: ErrorLog; reason: string } {
+  const upstream = upstreamServices(records);
+  const blamed = records.find((log) => upstream.has(log.service));
+  if (blamed) {
+    return { log: blamed, reason: `другие сервисы ссылаются на ${blamed.service} как на upstream` };
+  }
+
+  const infrastructure = records.find((log) => INFRASTRUCTURE_ERROR.test(log.error_type));
+  if (infrastructure) {
+    return {
+      log: infrastructure,
+      reason:
+        infrastructure === records[0]
+          ? "первая ошибка инцидента, сбой инфраструктуры"
+          : "первый сбой инфраструктуры в инциденте",
+    };
+  }
+
+  return { log: records[0], reason: "первая ошибка инцидента" };
+}
+
+// Группировка записей в вероятные инциденты: записи с общим request_id
+// связаны всегда, остальные — если близки по времени и похожи по stack
+// trace, embeddings или user_id. Каждая запись сравнивается не больше чем
+// с maxCandidates следующими: при плотном потоке связь всё равно
+// проходит по цепочке соседей, а число сравнений остаётся линейным
+export function clusterIncidents(
+  inputs: ClusterInput[],
+  options: Partial<IncidentOptions> = {}
+): Incident[] {
+  const settings = { ...DEFAULT_INCIDENT_OPTIONS, ...options };
+  const units = unitVectors(inputs);
+  const nodes: Node[] = inputs
+    .map(({ log, embedding }) => ({
+      log,
+      time: Date.parse(log.timestamp),
+      frames: new Set(parseLogStack(log).frames.map(frameLabel)),
+      embedding: embedding && units.get(embedding),
+    }))
+    .filter((node) => Number.isFinite(node.time))
+    .sort((a, b) => a.time - b.time);
+
+  // Union-find по индексам nodes
+  const parent = nodes.map((_, idx) => idx);
+  const find = (idx: number): number => {
+    while (parent[idx] !== idx) {
+      parent[idx] = parent[parent[idx]];
+      idx = parent[idx];
+    }
+    return idx;
+  };
+  const union = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    // Корень — более ранняя запись, чтобы порядок групп был стабильным
+    if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  };
+
+  const byRequest = new Map<string, number>();
+  nodes.forEach((node, idx) => {
+    const requestId = node.log.request_id;
+    if (!requestId) return;
+    const first = byRequest.get(requestId);
+    if (first === undefined) {
+      byRequest.set(requestId, idx);
+    } else {
+      union(first, idx);
+    }
+  });
+
+  for (let i = 0; i < nodes.length; i++) {
+    const last = Math.min(nodes.length - 1, i + settings.maxCandidates);
+    for (let j = i + 1; j <= last; j++) {
+      if (nodes[j].time - nodes[i].time > settings.windowMs) break;
+      if (linkStrength(nodes[i], nodes[j], settings) >= settings.linkThreshold) {
+        union(i, j);
+      }
+    }
+  }
+
+  const groups = groupBy(nodes, (_, idx) => find(idx));
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.length >= settings.minRecords)
+    .sort(([a], [b]) => a - b)
+    .map(([, group], idx) => {
+      const records = group.map((node) => node.log);
+      const start = records[0].timestamp;
+      const end = records[records.length - 1].timestamp;
+      const rootCause = findRootCause(records);
+      return {
+        id: `INC-${idx + 1}`,
+        start,
+        end,
+        durationMs: Date.parse(end) - Date.parse(start),
+        services: [...new Set(records.map((log) => log.service))],
+        errorTypes: [...new Set(records.map((log) => log.error_type))],
+        records,
+        rootCause: rootCause.log,
+        rootCauseReason: rootCause.reason,
+      };
+    });
+}
+
+// Поиск по ID: "INC-2", "inc-2" или просто "2"
+export function findIncident(incidents: Incident[], id: string): Incident | undefined {
+  const normalized = id.trim().toUpperCase();
+  const wanted = /^\d+$/.test(normalized) ? `INC-${normalized}` : normalized;
+  return incidents.find((incident) => incident.id === wanted);
+}
+
+function formatMinutes(ms: number): string {
+  return `${Math.round(ms / 60000)} мин`;
+}
+
+// Краткий список инцидентов (для старта CLI, команды incidents и промпта)
+export function formatIncidents(incidents: Incident[]): string {
+  if (incidents.length === 0) {
+    return "ИНЦИДЕНТЫ:\n  не обнаружено";
+  }
+
+  const time = (iso: string) => iso.slice(11, 16);
+  const lines = incidents.map(
+    (incident) =>
+      `  🧩 ${incident.id} ${time(incident.start)}–${time(incident.end)} (${formatMinutes(
+        incident.durationMs
+      )}), записей: ${incident.records.length}, ${incident.services.join(
+        ", "
+      )} — ${incident.errorTypes.join(", ")}\n     Вероятная причина: ${incident.rootCause.request_id || "-"} ${
+        incident.rootCause.service
+      } ${incident.rootCause.error_type} (${incident.rootCauseReason})`
+  );
+
+  return `ИНЦИДЕНТЫ:\n${lines.join("\n")}`;
+}
+
+// Подробности инцидента для промпта модели: все записи по порядку
+export function formatIncidentDetails(incident: Incident): string {
+  const records = incident.records.map((log, idx) => {
+    const marker = log === incident.rootCause ? " ← вероятная причина" : "";
+    return [
+      `[${idx + 1}] ${log.timestamp} ${log.service} ${log.error_type}${marker}`,
+      `Request ID: ${log.request_id || "-"}, User: ${log.user_id ?? "-"}`,
+      `Message: ${log.message}`,
+      `Stack: ${parseLogStack(log).frames.map(frameLabel).join(" ← ") || "-"}`,
+      `Metadata: ${JSON.stringify(log.metadata)}`,
+    ].join("\n");
+  });
+
+  return [
+    `INCIDENT ${incident.id}: ${incident.start} — ${incident.end} (${formatMinutes(
+      incident.durationMs
+    )})`,
+    `Services: ${incident.services.join(", ")}`,
+    `Error types: ${incident.errorTypes.join(", ")}`,
+    `Suggested root cause: [${incident.records.indexOf(incident.rootCause) + 1}] (${
+      incident.rootCauseReason
+    })`,
+    "",
+    records.join("\n\n"),
+  ].join("\n");
+}
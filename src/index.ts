@@ -1,8 +1,8 @@
-import { CLI } from './cli';
+#!/usr/bin/env node
+import { runCommand } from './commands';
 
 async function main() {
-  const cli = new CLI();
-  await cli.start();
+  process.exitCode = await runCommand(process.argv.slice(2));
 }
 
 main().catch((error) => {
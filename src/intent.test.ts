@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  collectKnownValues,
+  extractFilter,
+  extractTimeRange,
+  latestTimestamp,
+  mergeFilters,
+  sanitizeFilter,
+} from "./intent.js";
+import { makeLog } from "./test-fixtures.js";
+
+const logs = [
+  makeLog({}),
+  makeLog({
+    timestamp: "2024-12-10T08:16:11.234Z",
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    user_id: "user_5678",
+    request_id: "req_d4e5f6",
+  }),
+  makeLog({
+    timestamp: "2024-12-10T08:34:00.000Z",
+    level: "WARN",
+    service: "api-gateway",
+    error_type: "RateLimitExceeded",
+    user_id: null,
+    request_id: "req_p7q8r9",
+  }),
+];
+
+const known = collectKnownValues(logs);
+const reference = latestTimestamp(logs);
+
+describe("intent", () => {
+  describe("collectKnownValues", () => {
+    it("should collect unique non-empty values", () => {
+      assert.deepStrictEqual(known.levels, ["ERROR", "WARN"]);
+      assert.deepStrictEqual(known.userIds, ["user_1234", "user_5678"]);
+      assert.strictEqual(reference?.toISOString(), "2024-12-10T08:34:00.000Z");
+    });
+  });
+
+  describe("extractFilter", () => {
+    it("should find services by full and short name", () => {
+      assert.deepStrictEqual(extractFilter("Что с payment-service?", known), {
+        service: ["payment-service"],
+      });
+      assert.deepStrictEqual(extractFilter("Почему падает auth?", known), {
+        service: ["auth-service"],
+      });
+    });
+
+    it("should not match a short name inside another word", () => {
+      assert.deepStrictEqual(extractFilter("Сколько PaymentGatewayTimeout?", known), {
+        error_type: ["PaymentGatewayTimeout"],
+      });
+    });
+
+    it("should find levels only when written explicitly", () => {
+      assert.deepStrictEqual(extractFilter("Покажи WARN записи", known), {
+        level: ["WARN"],
+      });
+      assert.deepStrictEqual(extractFilter("Какая error самая частая?", known), {});
+    });
+
+    it("should find user and request ids", () => {
+      assert.deepStrictEqual(extractFilter("Что случилось с user_5678 в req_d4e5f6?", known), {
+        user_id: ["user_5678"],
+        request_id: ["req_d4e5f6"],
+      });
+    });
+
+    it("should add a time range relative to the latest record", () => {
+      assert.deepStrictEqual(
+        extractFilter("Ошибки auth-service за последний час", known, reference),
+        {
+          service: ["auth-service"],
+          from: "2024-12-10T07:34:00.000Z",
+          to: "2024-12-10T08:34:00.000Z",
+        }
+      );
+    });
+  });
+
+  describe("extractTimeRange", () => {
+    const ref = new Date("2024-12-10T08:34:00.000Z");
+
+    it("should parse amounts and units", () => {
+      assert.deepStrictEqual(extractTimeRange("за последние 15 минут", ref), {
+        from: "2024-12-10T08:19:00.000Z",
+        to: "2024-12-10T08:34:00.000Z",
+      });
+      assert.deepStrictEqual(extractTimeRange("errors in the last 2 hours", ref), {
+        from: "2024-12-10T06:34:00.000Z",
+        to: "2024-12-10T08:34:00.000Z",
+      });
+    });
+
+    it("should parse yesterday and today as calendar days", () => {
+      assert.deepStrictEqual(extractTimeRange("что было вчера?", ref), {
+        from: "2024-12-09T00:00:00.000Z",
+        to: "2024-12-10T00:00:00.000Z",
+      });
+      assert.deepStrictEqual(extractTimeRange("today", ref), {
+        from: "2024-12-10T00:00:00.000Z",
+        to: "2024-12-10T08:34:00.000Z",
+      });
+    });
+
+    it("should ignore questions without time", () => {
+      assert.deepStrictEqual(extractTimeRange("последние ошибки платежей", ref), {});
+    });
+  });
+
+  describe("sanitizeFilter", () => {
+    it("should keep only known values and valid dates", () => {
+      const filter = sanitizeFilter(
+        {
+          service: "PAYMENT-SERVICE",
+          error_type: ["PaymentGatewayTimeout", "MadeUpError"],
+          level: 42,
+          from: "2024-12-10T08:00:00Z",
+          to: "not a date",
+        },
+        known
+      );
+
+      assert.deepStrictEqual(filter, {
+        service: ["payment-service"],
+        error_type: ["PaymentGatewayTimeout"],
+        from: "2024-12-10T08:00:00.000Z",
+      });
+    });
+
+    it("should ignore non-object answers", () => {
+      assert.deepStrictEqual(sanitizeFilter("payment", known), {});
+      assert.deepStrictEqual(sanitizeFilter(null, known), {});
+    });
+  });
+
+  describe("mergeFilters", () => {
+    it("should prefer rule-based fields", () => {
+      assert.deepStrictEqual(
+        mergeFilters({ service: ["auth-service"] }, { service: ["api-gateway"], level: ["WARN"] }),
+        { service: ["auth-service"], level: ["WARN"] }
+      );
+    });
+  });
+});
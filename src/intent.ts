@@ -0,0 +1,190 @@
+import { LogFilter } from "./query";
+import { ErrorLog } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Значения полей, которые встречаются в загруженных логах
+export interface KnownValues {
+  services: string[];
+  errorTypes: string[];
+  levels: string[];
+  userIds: string[];
+  requestIds: string[];
+}
+
+export function collectKnownValues(logs: ErrorLog[]): KnownValues {
+  const unique = (values: (string | null | undefined)[]) =>
+    [...new Set(values.filter((value): value is string => !!value))];
+
+  return {
+    services: unique(logs.map((log) => log.service)),
+    errorTypes: unique(logs.map((log) => log.error_type)),
+    levels: unique(logs.map((log) => log.level)),
+    userIds: unique(logs.map((log) => log.user_id)),
+    requestIds: unique(logs.map((log) => log.request_id)),
+  };
+}
+
+// Опорный момент для «последний час» / «вчера» — самая поздняя запись,
+// а не текущее время: логи обычно анализируют уже после инцидента
+export function latestTimestamp(logs: ErrorLog[]): Date | null {
+  let latest = -Infinity;
+  for (const log of logs) {
+    const time = Date.parse(log.timestamp);
+    if (time > latest) latest = time;
+  }
+  return Number.isFinite(latest) ? new Date(latest) : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Упоминание значения целым словом (payment-service, но не payment-service-v2)
+function mentions(question: string, value: string): boolean {
+  return new RegExp(`(^|[^\\p{L}\\p{N}_-])${escapeRegExp(value)}($|[^\\p{L}\\p{N}_-])`, "iu").test(
+    question
+  );
+}
+
+// Сервис упомянут полностью или по короткому имени: "payment" → payment-service
+function mentionedServices(question: string, services: string[]): string[] {
+  return services.filter((service) => {
+    const short = service.replace(/[-_]?service$/i, "");
+    return mentions(question, service) || (short.length >= 3 && mentions(question, short));
+  });
+}
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// Относительный интервал времени из вопроса
+export function extractTimeRange(
+  question: string,
+  reference: Date
+): Pick<LogFilter, "from" | "to"> {
+  const ref = reference.getTime();
+  const iso = (time: number) => new Date(time).toISOString();
+
+  const last = question.match(
+    /(?:^|\s)(?:последн\S*|за|last|past)\s+(?:(\d+)\s*)?(минут\S*|час\S*|дн\S*|сутки|minutes?|mins?|hours?|days?)/i
+  );
+  if (last) {
+    const amount = last[1] ? Number(last[1]) : 1;
+    const unit = last[2].toLowerCase();
+    const unitMs = /^(минут|min)/.test(unit)
+      ? MINUTE_MS
+      : /^(час|hour)/.test(unit)
+        ? HOUR_MS
+        : DAY_MS;
+    return { from: iso(ref - amount * unitMs), to: iso(ref) };
+  }
+
+  if (/вчера|yesterday/i.test(question)) {
+    const today = startOfDay(reference);
+    return { from: iso(today - DAY_MS), to: iso(today) };
+  }
+
+  if (/сегодня|today/i.test(question)) {
+    return { from: iso(startOfDay(reference)), to: iso(ref) };
+  }
+
+  return {};
+}
+
+// Фильтр по правилам: упомянутые сервисы, типы ошибок, уровни, ID и время
+export function extractFilter(
+  question: string,
+  known: KnownValues,
+  reference: Date | null = null
+): LogFilter {
+  const filter: LogFilter = {};
+
+  const services = mentionedServices(question, known.services);
+  const errorTypes = known.errorTypes.filter((value) => mentions(question, value));
+  // Уровень — только явным написанием (ERROR, WARN), иначе «error» в любом вопросе сузит поиск
+  const levels = known.levels.filter((level) =>
+    new RegExp(`\\b${escapeRegExp(level)}\\b`).test(question)
+  );
+  const userIds = known.userIds.filter((value) => mentions(question, value));
+  const requestIds = known.requestIds.filter((value) => mentions(question, value));
+
+  if (services.length > 0) filter.service = services;
+  if (errorTypes.length > 0) filter.error_type = errorTypes;
+  // Если в логах один уровень, фильтр по нему ничего не сужает
+  if (levels.length > 0 && known.levels.length > 1) filter.level = levels;
+  if (userIds.length > 0) filter.user_id = userIds;
+  if (requestIds.length > 0) filter.request_id = requestIds;
+
+  if (reference) {
+    Object.assign(filter, extractTimeRange(question, reference));
+  }
+
+  return filter;
+}
+
+export function isEmptyFilter(filter: LogFilter): boolean {
+  return Object.keys(filter).length === 0;
+}
+
+// Инструкция для разбора вопроса моделью
+export function buildFilterPrompt(known: KnownValues, reference: Date | null): string {
+  return `
+Ты извлекаешь фильтр для поиска по логам из вопроса пользователя.
+Верни ТОЛЬКО JSON-объект с необязательными полями:
+service, error_type, level, user_id, request_id — строка или массив строк;
+from, to — время в ISO 8601.
+Используй только значения из списков ниже. Если вопрос не ограничивает поле — не указывай его.
+
+Сервисы: ${known.services.join(", ")}
+Типы ошибок: ${known.errorTypes.join(", ")}
+Уровни: ${known.levels.join(", ")}
+Текущий момент (последняя запись в логах): ${reference?.toISOString() ?? "неизвестен"}
+`.trim();
+}
+
+// Проверка ответа модели: только известные значения и корректные даты
+export function sanitizeFilter(raw: unknown, known: KnownValues): LogFilter {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+  const input = raw as Record<string, unknown>;
+  const filter: LogFilter = {};
+
+  const pick = (value: unknown, allowed: string[]): string[] => {
+    const values = Array.isArray(value) ? value : [value];
+    return allowed.filter((item) =>
+      values.some(
+        (candidate) =>
+          typeof candidate === "string" && candidate.toLowerCase() === item.toLowerCase()
+      )
+    );
+  };
+
+  const fields = [
+    ["service", known.services],
+    ["error_type", known.errorTypes],
+    ["level", known.levels],
+    ["user_id", known.userIds],
+    ["request_id", known.requestIds],
+  ] as const;
+  for (const [field, allowed] of fields) {
+    const values = pick(input[field], allowed);
+    if (values.length > 0) filter[field] = values;
+  }
+
+  for (const field of ["from", "to"] as const) {
+    const value = input[field];
+    if (typeof value === "string" && Number.isFinite(Date.parse(value))) {
+      filter[field] = new Date(value).toISOString();
+    }
+  }
+
+  return filter;
+}
+
+// Объединение фильтров: поля, найденные правилами, важнее разбора модели
+export function mergeFilters(primary: LogFilter, secondary: LogFilter): LogFilter {
+  return { ...secondary, ...primary };
+}
@@ -0,0 +1,26 @@
+// Вывод служебных сообщений (загрузка, индексация, предупреждения)
+export interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+  progress(message: string): void; // Строка прогресса, перерисовывается на месте
+}
+
+// Интерактивный режим: всё в терминал
+export const consoleLogger: Logger = {
+  info: (message) => console.log(message),
+  warn: (message) => console.warn(message),
+  progress: (message) => process.stdout.write(`\r${message}`),
+};
+
+// Командный режим: служебный вывод в stderr, чтобы stdout оставался для результата
+export const stderrLogger: Logger = {
+  info: (message) => console.error(message),
+  warn: (message) => console.error(message),
+  progress: (message) => process.stderr.write(`\r${message}`),
+};
+
+export const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {},
+  progress: () => {},
+};
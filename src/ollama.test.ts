@@ -0,0 +1,43 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { DEFAULT_CONFIG } from "./config.js";
+import { OllamaClient } from "./ollama.js";
+
+describe("OllamaClient", () => {
+  // embed теряет последний вектор, если текстов больше двух
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    const { input } = JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    const count = input.length > 2 ? input.length - 1 : input.length;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify({ embeddings: Array.from({ length: count }, () => [1, 0]) }));
+  });
+  let client: OllamaClient;
+
+  before(async () => {
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    client = new OllamaClient({ ...DEFAULT_CONFIG, host: `http://127.0.0.1:${port}` });
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("should return one embedding per text", async () => {
+    assert.deepStrictEqual(await client.createEmbeddings(["a", "b"]), [
+      [1, 0],
+      [1, 0],
+    ]);
+  });
+
+  it("should reject a response with fewer embeddings than texts", async () => {
+    await assert.rejects(() => client.createEmbeddings(["a", "b", "c"]), {
+      message: "Embedding count mismatch: expected 3, got 2",
+    });
+  });
+});
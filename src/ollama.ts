@@ -1,12 +1,76 @@
-import { Ollama } from 'ollama';
+import { AbortableAsyncIterator, Message, Ollama, Tool, ToolCall } from 'ollama';
+import { DEFAULT_CONFIG, ModelOptions } from './config';
+
+// Вызов инструмента моделью вместе с результатом (для транскрипта)
+export interface ToolCallRecord {
+  name: string;
+  arguments: Record<string, any>;
+  result: string;
+}
+
+export interface ToolChatResult {
+  content: string;
+  toolCalls: ToolCallRecord[];
+}
+
+export interface ModelConfig {
+  host: string;
+  chatModel: string;
+  embeddingModel: string;
+  modelOptions: ModelOptions;
+}
+
+// Совпадает ли настроенное имя модели с установленной (без тега = :latest)
+export function modelMatches(configured: string, installed: string): boolean {
+  if (configured === installed) {
+    return true;
+  }
+  return !configured.includes(':') && installed === `${configured}:latest`;
+}
+
+// Поток ответа, который обрывается по signal: запрос к Ollama закрывается,
+// и генерация не продолжается впустую
+async function* abortable<T extends object>(
+  response: AbortableAsyncIterator<T>,
+  signal?: AbortSignal
+): AsyncGenerator<T> {
+  const abort = () => response.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  try {
+    yield* response;
+  } finally {
+    signal?.removeEventListener('abort', abort);
+  }
+}
 
 export class OllamaClient {
   private ollama: Ollama;
-  private chatModel = 'qwen2.5-coder:7b';
-  private embeddingModel = 'nomic-embed-text:latest';
+  private chatModel: string;
+  private embeddingModel: string;
+  private modelOptions: ModelOptions;
+  private host: string;
+
+  constructor(config: ModelConfig = DEFAULT_CONFIG) {
+    this.host = config.host;
+    this.chatModel = config.chatModel;
+    this.embeddingModel = config.embeddingModel;
+    this.modelOptions = config.modelOptions;
+    this.ollama = new Ollama({ host: config.host });
+  }
 
-  constructor() {
-    this.ollama = new Ollama();
+  // Адрес сервера Ollama
+  getHost(): string {
+    return this.host;
+  }
+
+  // Имя модели для генерации ответов
+  getChatModel(): string {
+    return this.chatModel;
+  }
+
+  // Имя модели embeddings (входит в ключ кеша)
+  getEmbeddingModel(): string {
+    return this.embeddingModel;
   }
 
   // Создание embedding для текста
@@ -23,25 +87,63 @@ export class OllamaClient {
     }
   }
 
-  // Streaming ответ от Qwen с отображением прогресса
+  // Создание embeddings для пачки текстов одним запросом (порядок сохраняется)
+  async createEmbeddings(texts: string[]): Promise<number[][]> {
+    const response = await this.ollama.embed({
+      model: this.embeddingModel,
+      input: texts,
+    });
+    // Векторы сопоставляются с текстами по порядку: при неполном ответе
+    // embeddings достались бы чужим записям
+    if (response.embeddings.length !== texts.length) {
+      throw new Error(
+        `Embedding count mismatch: expected ${texts.length}, got ${response.embeddings.length}`
+      );
+    }
+    return response.embeddings;
+  }
+
+  // Ответ модели в виде JSON (без streaming, для разбора вопросов)
+  async chatJson(systemPrompt: string, userMessage: string): Promise<unknown> {
+    const response = await this.ollama.chat({
+      model: this.chatModel,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userMessage },
+      ],
+      format: 'json',
+      stream: false,
+      options: { ...this.modelOptions, temperature: 0 },
+    });
+    return JSON.parse(response.message.content);
+  }
+
+  // Streaming ответ от Qwen с отображением прогресса; history — предыдущие
+  // сообщения диалога, которые идут между системным промптом и вопросом.
+  // signal прерывает генерацию (клиент HTTP API отключился)
   async chat(
     systemPrompt: string,
     userMessage: string,
-    onToken?: (token: string) => void
+    onToken?: (token: string) => void,
+    history: Message[] = [],
+    signal?: AbortSignal
   ): Promise<string> {
     try {
+      signal?.throwIfAborted();
       const response = await this.ollama.chat({
         model: this.chatModel,
         messages: [
           { role: 'system', content: systemPrompt },
+          ...history,
           { role: 'user', content: userMessage },
         ],
         stream: true,
+        options: this.modelOptions,
       });
 
       let fullResponse = '';
 
-      for await (const part of response) {
+      for await (const part of abortable(response, signal)) {
         const token = part.message.content;
         fullResponse += token;
 
@@ -52,20 +154,86 @@ export class OllamaClient {
 
       return fullResponse;
     } catch (error) {
-      console.error('Error during chat:', error);
+      if (!signal?.aborted) {
+        console.error('Error during chat:', error);
+      }
       throw error;
     }
   }
 
-  // Проверка доступности моделей
+  // Диалог с вызовом инструментов: модель может сделать несколько запросов
+  // к инструментам, прежде чем ответить. После maxRounds раундов ответ
+  // запрашивается без инструментов.
+  async chatWithTools(
+    messages: Message[],
+    tools: Tool[],
+    executeTool: (call: ToolCall) => Promise<string>,
+    onToken?: (token: string) => void,
+    onToolCall?: (record: ToolCallRecord) => void,
+    signal?: AbortSignal,
+    maxRounds: number = 5
+  ): Promise<ToolChatResult> {
+    const history = [...messages];
+    const toolCalls: ToolCallRecord[] = [];
+
+    for (let round = 0; round <= maxRounds; round++) {
+      signal?.throwIfAborted();
+      const response = await this.ollama.chat({
+        model: this.chatModel,
+        messages: history,
+        tools: round < maxRounds ? tools : undefined,
+        stream: true,
+        options: this.modelOptions,
+      });
+
+      let content = '';
+      const calls: ToolCall[] = [];
+
+      for await (const part of abortable(response, signal)) {
+        content += part.message.content;
+        if (part.message.tool_calls) {
+          calls.push(...part.message.tool_calls);
+        }
+
+        if (onToken && part.message.content) {
+          onToken(part.message.content);
+        }
+      }
+
+      if (calls.length === 0) {
+        return { content, toolCalls };
+      }
+
+      history.push({ role: 'assistant', content, tool_calls: calls });
+
+      for (const call of calls) {
+        const result = await executeTool(call);
+        const record = {
+          name: call.function.name,
+          arguments: call.function.arguments,
+          result,
+        };
+        toolCalls.push(record);
+        onToolCall?.(record);
+        history.push({ role: 'tool', content: result, tool_name: call.function.name });
+      }
+    }
+
+    // Недостижимо: последний раунд выполняется без инструментов
+    return { content: '', toolCalls };
+  }
+
+  // Проверка доступности настроенных моделей
   async checkModels(): Promise<{ chat: boolean; embedding: boolean }> {
     try {
       const models = await this.ollama.list();
       const modelNames = models.models.map(m => m.name);
 
       return {
-        chat: modelNames.some(name => name.includes('qwen2.5-coder')),
-        embedding: modelNames.some(name => name.includes('nomic-embed-text')),
+        chat: modelNames.some(name => modelMatches(this.chatModel, name)),
+        embedding: modelNames.some(name =>
+          modelMatches(this.embeddingModel, name)
+        ),
       };
     } catch (error) {
       console.error('Error checking models:', error);
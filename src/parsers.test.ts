@@ -0,0 +1,231 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  detectFormat,
+  parseLogfmt,
+  parseLogs,
+  registerParser,
+  toErrorLog,
+} from "./parsers.js";
+
+describe("parsers", () => {
+  describe("detectFormat", () => {
+    it("should detect format by file extension", () => {
+      assert.strictEqual(detectFormat("", "logs/app.ndjson"), "ndjson");
+      assert.strictEqual(detectFormat("", "logs/app.jsonl"), "ndjson");
+      assert.strictEqual(detectFormat("", "logs/app.json"), "json");
+    });
+
+    it("should detect format by content", () => {
+      assert.strictEqual(detectFormat('[{"a":1}]'), "json");
+      assert.strictEqual(detectFormat('{"a":1}\n{"a":2}'), "ndjson");
+      assert.strictEqual(
+        detectFormat("<11>Dec 10 08:15:23 host auth-service[12]: failed"),
+        "syslog"
+      );
+      assert.strictEqual(detectFormat("ts=2024-12-10T08:15:23Z msg=hi"), "logfmt");
+    });
+
+    it("should treat a pretty-printed object as JSON, not NDJSON", () => {
+      const content = JSON.stringify(
+        { timestamp: "2024-12-10T08:15:23.456Z", message: "Failed to connect" },
+        null,
+        2
+      );
+      assert.strictEqual(detectFormat(content), "json");
+
+      const result = parseLogs(`\n${content}`);
+      assert.strictEqual(result.format, "json");
+      assert.strictEqual(result.entries.length, 1);
+      assert.strictEqual(result.entries[0].line, 2);
+    });
+
+    it("should throw when format cannot be detected", () => {
+      assert.throws(() => detectFormat("just some text"), {
+        message: /Unable to detect log format/,
+      });
+    });
+  });
+
+  describe("parseLogfmt", () => {
+    it("should parse quoted values and coerce scalars", () => {
+      const { pairs, rest } = parseLogfmt(
+        'msg="Payment \\"gateway\\" timed out" retry_count=2 ok=false tail'
+      );
+
+      assert.deepStrictEqual(pairs, {
+        msg: 'Payment "gateway" timed out',
+        retry_count: 2,
+        ok: false,
+      });
+      assert.strictEqual(rest, "tail");
+    });
+  });
+
+  describe("toErrorLog", () => {
+    it("should map aliased fields and keep the rest in metadata", () => {
+      const log = toErrorLog(
+        {
+          time: "2024-12-10T08:15:23.456Z",
+          svc: "auth-service",
+          error: "DatabaseConnectionError",
+          msg: "Failed to connect",
+          req_id: "req_1",
+          retry_count: 3,
+        },
+        {}
+      );
+
+      assert.strictEqual(log.service, "auth-service");
+      assert.strictEqual(log.error_type, "DatabaseConnectionError");
+      assert.strictEqual(log.message, "Failed to connect");
+      assert.strictEqual(log.request_id, "req_1");
+      assert.strictEqual(log.level, "ERROR");
+      assert.strictEqual(log.user_id, null);
+      assert.deepStrictEqual(log.metadata, { retry_count: 3 });
+    });
+
+    it("should use a custom mapping", () => {
+      const log = toErrorLog(
+        { when: "2024-12-10T08:15:23Z", text: "boom", kind: "Oops" },
+        { timestamp: ["when"], message: ["text"], error_type: ["kind"] }
+      );
+
+      assert.strictEqual(log.message, "boom");
+      assert.strictEqual(log.error_type, "Oops");
+    });
+
+    it("should read numeric epoch seconds and milliseconds", () => {
+      const seconds = toErrorLog({ timestamp: 1733818523, message: "x" }, {});
+      assert.strictEqual(seconds.timestamp, "2024-12-10T08:15:23.000Z");
+      const millis = toErrorLog({ timestamp: 1733818523456, message: "x" }, {});
+      assert.strictEqual(millis.timestamp, "2024-12-10T08:15:23.456Z");
+      const text = toErrorLog({ timestamp: "1733818523", message: "x" }, {});
+      assert.strictEqual(text.timestamp, "2024-12-10T08:15:23.000Z");
+    });
+
+    it("should reject records without message or timestamp", () => {
+      assert.throws(() => toErrorLog({ timestamp: "2024-12-10" }, {}), {
+        message: "Missing message field",
+      });
+      assert.throws(() => toErrorLog({ message: "x", ts: "nope" }, {}), {
+        message: "Missing or invalid timestamp",
+      });
+    });
+  });
+
+  describe("parseLogs", () => {
+    it("should parse a JSON array and report element lines", () => {
+      const content = `[
+  {
+    "timestamp": "2024-12-10T08:15:23.456Z",
+    "service": "auth-service",
+    "error_type": "DatabaseConnectionError",
+    "message": "Failed"
+  },
+  { "message": "no timestamp" }
+]`;
+      const result = parseLogs(content);
+
+      assert.strictEqual(result.format, "json");
+      assert.strictEqual(result.entries.length, 1);
+      assert.strictEqual(result.entries[0].line, 2);
+      assert.strictEqual(result.issues.length, 1);
+      assert.strictEqual(result.issues[0].line, 8);
+    });
+
+    it("should report invalid JSON instead of throwing", () => {
+      const result = parseLogs("[\n{ broken", { format: "json" });
+
+      assert.strictEqual(result.entries.length, 0);
+      assert.match(result.issues[0].reason, /Invalid JSON/);
+    });
+
+    it("should parse NDJSON and skip malformed lines", () => {
+      const content = [
+        '{"timestamp":"2024-12-10T08:15:23Z","message":"one"}',
+        "not json",
+        "",
+        '{"timestamp":"2024-12-10T08:16:23Z","message":"two"}',
+      ].join("\n");
+      const result = parseLogs(content);
+
+      assert.strictEqual(result.format, "ndjson");
+      assert.deepStrictEqual(
+        result.entries.map((e) => [e.log.message, e.line]),
+        [
+          ["one", 1],
+          ["two", 4],
+        ]
+      );
+      assert.strictEqual(result.issues[0].line, 2);
+    });
+
+    it("should parse logfmt lines", () => {
+      const result = parseLogs(
+        'ts=2024-12-10T08:15:23Z level=warn service=api-gateway error_type=RateLimitExceeded msg="Rate limit" current_count=156'
+      );
+
+      assert.strictEqual(result.format, "logfmt");
+      const log = result.entries[0].log;
+      assert.strictEqual(log.level, "WARN");
+      assert.strictEqual(log.service, "api-gateway");
+      assert.strictEqual(log.metadata.current_count, 156);
+    });
+
+    it("should parse RFC 5424 syslog with key=value pairs in the body", () => {
+      const result = parseLogs(
+        '<11>1 2024-12-10T08:15:23.456Z prod-01 auth-service 42 - [meta retry_count="3"] Failed to connect error_type=DatabaseConnectionError request_id=req_a1'
+      );
+
+      const log = result.entries[0].log;
+      assert.strictEqual(result.format, "syslog");
+      assert.strictEqual(log.level, "ERROR");
+      assert.strictEqual(log.service, "auth-service");
+      assert.strictEqual(log.error_type, "DatabaseConnectionError");
+      assert.strictEqual(log.request_id, "req_a1");
+      assert.strictEqual(log.message, "Failed to connect");
+      assert.strictEqual(log.metadata.host, "prod-01");
+      assert.strictEqual(log.metadata.retry_count, "3");
+    });
+
+    it("should parse RFC 3164 syslog", () => {
+      const result = parseLogs(
+        "<12>2024-12-10T08:15:23Z web-01 payment-service[7]: Payment gateway request timed out"
+      );
+
+      const log = result.entries[0].log;
+      assert.strictEqual(log.level, "WARNING");
+      assert.strictEqual(log.service, "payment-service");
+      assert.strictEqual(log.metadata.pid, 7);
+    });
+
+    it("should throw on unknown explicit format", () => {
+      assert.throws(() => parseLogs("", { format: "xml" }), {
+        message: /Unknown log format: xml/,
+      });
+    });
+
+    it("should use registered custom parsers", () => {
+      registerParser({
+        format: "csv-test",
+        extensions: [".csvtest"],
+        defaultMapping: {},
+        detect: () => false,
+        parse: (content, mapping) => ({
+          entries: content.split("\n").map((line, idx) => {
+            const [timestamp, message] = line.split(",");
+            return { log: toErrorLog({ timestamp, message }, mapping), line: idx + 1 };
+          }),
+          issues: [],
+        }),
+      });
+
+      const result = parseLogs("2024-12-10T08:15:23Z,hello", {
+        fileName: "a.csvtest",
+      });
+      assert.strictEqual(result.format, "csv-test");
+      assert.strictEqual(result.entries[0].log.message, "hello");
+    });
+  });
+});
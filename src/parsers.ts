@@ -0,0 +1,552 @@
+import * as path from "path";
+import { ErrorLog } from "./types";
+
+// Поля ErrorLog, которые заполняются из исходной записи по маппингу
+export type MappedField =
+  | "timestamp"
+  | "level"
+  | "service"
+  | "error_type"
+  | "message"
+  | "user_id"
+  | "request_id"
+  | "stack_trace";
+
+// Для каждого поля ErrorLog — список имён полей в исходной записи (по приоритету)
+export type FieldMapping = Partial<Record<MappedField, string[]>>;
+
+export interface ParsedEntry {
+  log: ErrorLog;
+  line: number; // Номер строки в файле (с 1), где начинается запись
+}
+
+export interface ParseIssue {
+  line: number;
+  reason: string;
+  raw: string;
+}
+
+export interface ParseResult {
+  format: string;
+  entries: ParsedEntry[];
+  issues: ParseIssue[];
+}
+
+export interface ParseOptions {
+  format?: string; // Явно заданный формат, иначе определяется автоматически
+  fileName?: string; // Используется для определения формата по расширению
+  mapping?: FieldMapping; // Переопределение маппинга полей для формата
+}
+
+export interface LogParser {
+  format: string;
+  extensions: string[];
+  defaultMapping: FieldMapping;
+  // Каждая строка — отдельная запись: дописанный файл можно дочитывать
+  // с места остановки, а не разбирать заново
+  lineBased?: boolean;
+  detect(sample: string): boolean;
+  parse(content: string, mapping: FieldMapping): Omit<ParseResult, "format">;
+}
+
+const BASE_MAPPING: Required<FieldMapping> = {
+  timestamp: ["timestamp", "time", "ts", "@timestamp", "date"],
+  level: ["level", "severity", "lvl"],
+  service: ["service", "svc", "app", "component"],
+  error_type: ["error_type", "errorType", "error", "err", "type"],
+  message: ["message", "msg"],
+  user_id: ["user_id", "userId", "user"],
+  request_id: ["request_id", "requestId", "req_id", "trace_id"],
+  stack_trace: ["stack_trace", "stack", "stacktrace"],
+};
+
+const SYSLOG_SEVERITIES = [
+  "EMERGENCY",
+  "ALERT",
+  "CRITICAL",
+  "ERROR",
+  "WARNING",
+  "NOTICE",
+  "INFO",
+  "DEBUG",
+];
+
+const MAX_RAW_LENGTH = 200;
+
+// Объединение маппинга по умолчанию с пользовательским
+function mergeMapping(
+  base: FieldMapping,
+  override?: FieldMapping
+): Required<FieldMapping> {
+  return { ...BASE_MAPPING, ...base, ...(override ?? {}) };
+}
+
+function truncateRaw(raw: string): string {
+  return raw.length > MAX_RAW_LENGTH
+    ? `${raw.slice(0, MAX_RAW_LENGTH)}…`
+    : raw;
+}
+
+function pickField(
+  record: Record<string, unknown>,
+  names: string[],
+  used: Set<string>
+): unknown {
+  for (const name of names) {
+    if (record[name] !== undefined && record[name] !== null) {
+      used.add(name);
+      return record[name];
+    }
+  }
+  return undefined;
+}
+
+// Числовое время (Unix epoch) в миллисекундах. Значения меньше 1e11 —
+// секунды: в миллисекундах это был бы 1973 год
+const EPOCH_SECONDS_LIMIT = 1e11;
+
+function epochMs(value: unknown): number | undefined {
+  const epoch =
+    typeof value === "number"
+      ? value
+      : typeof value === "string" && /^\d+(\.\d+)?$/.test(value)
+        ? Number(value)
+        : undefined;
+  if (epoch === undefined) return undefined;
+  return Math.abs(epoch) < EPOCH_SECONDS_LIMIT ? epoch * 1000 : epoch;
+}
+
+// Приведение произвольной записи к форме ErrorLog по маппингу полей
+export function toErrorLog(
+  record: Record<string, unknown>,
+  mapping: FieldMapping
+): ErrorLog {
+  const fields = mergeMapping({}, mapping);
+  const used = new Set<string>();
+
+  const message = pickField(record, fields.message, used);
+  if (typeof message !== "string" || message.trim() === "") {
+    throw new Error("Missing message field");
+  }
+
+  const rawTimestamp = pickField(record, fields.timestamp, used);
+  const epoch = epochMs(rawTimestamp);
+  const time =
+    epoch !== undefined ? new Date(epoch) : new Date(String(rawTimestamp ?? ""));
+  if (rawTimestamp === undefined || isNaN(time.getTime())) {
+    throw new Error("Missing or invalid timestamp");
+  }
+
+  const userId = pickField(record, fields.user_id, used);
+  const metadata: Record<string, unknown> = {};
+
+  if (record.metadata && typeof record.metadata === "object") {
+    used.add("metadata");
+    Object.assign(metadata, record.metadata);
+  }
+
+  // Всё, что не попало в известные поля, сохраняем в metadata
+  const level = pickField(record, fields.level, used);
+  const service = pickField(record, fields.service, used);
+  const errorType = pickField(record, fields.error_type, used);
+  const requestId = pickField(record, fields.request_id, used);
+  const stackTrace = pickField(record, fields.stack_trace, used);
+
+  for (const [key, value] of Object.entries(record)) {
+    if (!used.has(key)) {
+      metadata[key] = value;
+    }
+  }
+
+  return {
+    // Исходную строку времени сохраняем как есть, если она уже в ISO формате
+    timestamp:
+      typeof rawTimestamp === "string" && rawTimestamp.includes("T")
+        ? rawTimestamp
+        : time.toISOString(),
+    level: String(level ?? "ERROR").toUpperCase(),
+    service: String(service ?? "unknown"),
+    error_type: String(errorType ?? "Unknown"),
+    message,
+    user_id: userId === undefined ? null : String(userId),
+    request_id: String(requestId ?? ""),
+    stack_trace: String(stackTrace ?? ""),
+    metadata,
+  };
+}
+
+// Приведение строкового значения logfmt к числу/boolean/null
+function coerceValue(value: string): string | number | boolean | null {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value === "null") return null;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+const LOGFMT_PAIR = /([^\s="]+)=("(?:[^"\\]|\\.)*"|[^\s"]*)/g;
+
+// Разбор пар key=value; возвращает пары и остаток строки без них
+export function parseLogfmt(line: string): {
+  pairs: Record<string, unknown>;
+  rest: string;
+} {
+  const pairs: Record<string, unknown> = {};
+
+  const rest = line.replace(LOGFMT_PAIR, (_match, key: string, raw: string) => {
+    pairs[key] = raw.startsWith('"')
+      ? raw.slice(1, -1).replace(/\\(.)/g, (_m, ch: string) =>
+          ch === "n" ? "\n" : ch
+        )
+      : coerceValue(raw);
+    return "";
+  });
+
+  return { pairs, rest: rest.replace(/\s+/g, " ").trim() };
+}
+
+// Номера строк, на которых начинаются элементы верхнего уровня JSON массива
+function arrayElementLines(content: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let expectElement = false;
+
+  for (const ch of content) {
+    if (ch === "\n") line++;
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (/\s/.test(ch)) continue;
+
+    if (depth === 1 && expectElement && ch !== "]") {
+      lines.push(line);
+      expectElement = false;
+    }
+
+    if (ch === '"') inString = true;
+    else if (ch === "[" || ch === "{") {
+      depth++;
+      if (depth === 1) expectElement = true;
+    } else if (ch === "]" || ch === "}") depth--;
+    else if (ch === "," && depth === 1) expectElement = true;
+  }
+
+  return lines;
+}
+
+function lineAtPosition(content: string, position: number): number {
+  return content.slice(0, position).split("\n").length;
+}
+
+// Разбор построчных форматов: каждая непустая строка — одна запись
+function parseLines(
+  content: string,
+  toRecord: (line: string) => Record<string, unknown>,
+  mapping: FieldMapping
+): Omit<ParseResult, "format"> {
+  const entries: ParsedEntry[] = [];
+  const issues: ParseIssue[] = [];
+
+  content.split(/\r?\n/).forEach((raw, idx) => {
+    if (!raw.trim()) return;
+
+    try {
+      entries.push({ log: toErrorLog(toRecord(raw), mapping), line: idx + 1 });
+    } catch (error) {
+      issues.push({
+        line: idx + 1,
+        reason: error instanceof Error ? error.message : String(error),
+        raw: truncateRaw(raw),
+      });
+    }
+  });
+
+  return { entries, issues };
+}
+
+const jsonParser: LogParser = {
+  format: "json",
+  extensions: [".json"],
+  defaultMapping: {},
+  // Массив или один объект на несколько строк (первая строка не разбирается
+  // сама по себе — иначе это NDJSON)
+  detect: (sample) => {
+    const start = sample.trimStart();
+    return start.startsWith("[") || (start.startsWith("{") && !isJsonObjectLine(firstLine(sample)));
+  },
+  parse(content, mapping) {
+    let records: unknown;
+    try {
+      records = JSON.parse(content);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const position = /position (\d+)/.exec(message);
+      return {
+        entries: [],
+        issues: [
+          {
+            line: position ? lineAtPosition(content, Number(position[1])) : 1,
+            reason: `Invalid JSON: ${message}`,
+            raw: "",
+          },
+        ],
+      };
+    }
+
+    // Один объект — одна запись
+    if (records && typeof records === "object" && !Array.isArray(records)) {
+      const line = content.slice(0, content.indexOf("{")).split("\n").length;
+      try {
+        const log = toErrorLog(records as Record<string, unknown>, mapping);
+        return { entries: [{ log, line }], issues: [] };
+      } catch (error) {
+        return {
+          entries: [],
+          issues: [
+            {
+              line,
+              reason: error instanceof Error ? error.message : String(error),
+              raw: truncateRaw(JSON.stringify(records)),
+            },
+          ],
+        };
+      }
+    }
+
+    if (!Array.isArray(records)) {
+      return {
+        entries: [],
+        issues: [{ line: 1, reason: "Expected a JSON array", raw: "" }],
+      };
+    }
+
+    const lines = arrayElementLines(content);
+    const entries: ParsedEntry[] = [];
+    const issues: ParseIssue[] = [];
+
+    records.forEach((record, idx) => {
+      const line = lines[idx] ?? 1;
+      try {
+        if (!record || typeof record !== "object" || Array.isArray(record)) {
+          throw new Error("Record is not an object");
+        }
+        entries.push({ log: toErrorLog(record, mapping), line });
+      } catch (error) {
+        issues.push({
+          line,
+          reason: error instanceof Error ? error.message : String(error),
+          raw: truncateRaw(JSON.stringify(record) ?? ""),
+        });
+      }
+    });
+
+    return { entries, issues };
+  },
+};
+
+const ndjsonParser: LogParser = {
+  format: "ndjson",
+  lineBased: true,
+  extensions: [".ndjson", ".jsonl"],
+  defaultMapping: {},
+  detect: (sample) => isJsonObjectLine(firstLine(sample)),
+  parse(content, mapping) {
+    return parseLines(
+      content,
+      (line) => {
+        const record = JSON.parse(line);
+        if (!record || typeof record !== "object" || Array.isArray(record)) {
+          throw new Error("Record is not an object");
+        }
+        return record;
+      },
+      mapping
+    );
+  },
+};
+
+// RFC 5424: <PRI>1 TIMESTAMP HOST APP PROCID MSGID [SD] MSG
+const SYSLOG_5424 =
+  /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[(?:[^\]\\]|\\.)*\])+)(?: (.*))?$/;
+// RFC 3164: <PRI>Mmm dd hh:mm:ss HOST APP[PID]: MSG (PRI и ISO время допускаются)
+const SYSLOG_3164 =
+  /^(?:<(\d{1,3})>)?([A-Z][a-z]{2} [ \d]\d \d{2}:\d{2}:\d{2}|\d{4}-\d{2}-\d{2}T\S+) (\S+) ([^\s:[]+)(?:\[(\d+)\])?: (.*)$/;
+
+function syslogSeverity(pri: string | undefined): string | undefined {
+  return pri === undefined ? undefined : SYSLOG_SEVERITIES[Number(pri) % 8];
+}
+
+function bsdTimestamp(value: string): string {
+  if (value.includes("T")) return value;
+  // В RFC 3164 нет года — берём текущий
+  const date = new Date(`${value} ${new Date().getFullYear()} UTC`);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+function syslogRecord(line: string): Record<string, unknown> {
+  let header: Record<string, unknown>;
+  let body: string;
+
+  const rfc5424 = SYSLOG_5424.exec(line);
+  const rfc3164 = rfc5424 ? null : SYSLOG_3164.exec(line);
+
+  if (rfc5424) {
+    const [, pri, timestamp, host, app, procId, msgId, sd, msg] = rfc5424;
+    header = { level: syslogSeverity(pri), timestamp, host, service: app };
+    if (procId !== "-") header.pid = coerceValue(procId);
+    if (msgId !== "-") header.msgid = msgId;
+    if (sd !== "-") {
+      for (const element of sd.match(/\[[^\]]*\]/g) ?? []) {
+        Object.assign(header, parseLogfmt(element.slice(1, -1)).pairs);
+      }
+    }
+    body = msg ?? "";
+  } else if (rfc3164) {
+    const [, pri, timestamp, host, app, pid, msg] = rfc3164;
+    header = {
+      level: syslogSeverity(pri),
+      timestamp: bsdTimestamp(timestamp),
+      host,
+      service: app,
+    };
+    if (pid) header.pid = Number(pid);
+    body = msg;
+  } else {
+    throw new Error("Line does not match syslog format");
+  }
+
+  // Пары key=value из тела сообщения переопределяют поля заголовка
+  const { pairs, rest } = parseLogfmt(body);
+  const record: Record<string, unknown> = { ...header, ...pairs };
+  if (record.level === undefined) delete record.level;
+  if (!("message" in pairs) && !("msg" in pairs)) {
+    record.message = rest || body;
+  }
+  return record;
+}
+
+const syslogParser: LogParser = {
+  format: "syslog",
+  lineBased: true,
+  extensions: [".syslog"],
+  defaultMapping: {},
+  detect: (sample) => {
+    const first = firstLine(sample);
+    return SYSLOG_5424.test(first) || SYSLOG_3164.test(first);
+  },
+  parse(content, mapping) {
+    return parseLines(content, syslogRecord, mapping);
+  },
+};
+
+const logfmtParser: LogParser = {
+  format: "logfmt",
+  lineBased: true,
+  extensions: [".logfmt"],
+  defaultMapping: {},
+  detect: (sample) => /^\S+=/.test(firstLine(sample)),
+  parse(content, mapping) {
+    return parseLines(
+      content,
+      (line) => {
+        const { pairs } = parseLogfmt(line);
+        if (Object.keys(pairs).length === 0) {
+          throw new Error("Line has no key=value pairs");
+        }
+        return pairs;
+      },
+      mapping
+    );
+  },
+};
+
+function firstLine(content: string): string {
+  return content.split(/\r?\n/).find((line) => line.trim()) ?? "";
+}
+
+// Строка — законченный JSON объект (запись NDJSON)
+function isJsonObjectLine(line: string): boolean {
+  if (!line.trimStart().startsWith("{")) return false;
+  try {
+    const value = JSON.parse(line);
+    return !!value && typeof value === "object" && !Array.isArray(value);
+  } catch {
+    return false;
+  }
+}
+
+// Реестр парсеров; порядок важен для автоопределения формата
+const registry = new Map<string, LogParser>();
+[jsonParser, ndjsonParser, syslogParser, logfmtParser].forEach((parser) =>
+  registry.set(parser.format, parser)
+);
+
+// Регистрация собственного парсера (заменяет парсер с тем же форматом)
+export function registerParser(parser: LogParser): void {
+  registry.set(parser.format, parser);
+}
+
+export function getSupportedFormats(): string[] {
+  return [...registry.keys()];
+}
+
+export function isLineBased(format: string): boolean {
+  return registry.get(format)?.lineBased === true;
+}
+
+export function getSupportedExtensions(): string[] {
+  return [...registry.values()].flatMap((parser) => parser.extensions);
+}
+
+// Формат файла не определился ни по расширению, ни по содержимому
+export class FormatDetectionError extends Error {}
+
+// Определение формата: сначала по расширению файла, затем по содержимому
+export function detectFormat(content: string, fileName?: string): string {
+  if (fileName) {
+    const ext = path.extname(fileName).toLowerCase();
+    for (const parser of registry.values()) {
+      if (parser.extensions.includes(ext)) {
+        return parser.format;
+      }
+    }
+  }
+
+  for (const parser of registry.values()) {
+    if (parser.detect(content)) {
+      return parser.format;
+    }
+  }
+
+  throw new FormatDetectionError(
+    `Unable to detect log format${fileName ? ` for ${fileName}` : ""}`
+  );
+}
+
+// Разбор содержимого файла логов в записи ErrorLog
+export function parseLogs(
+  content: string,
+  options: ParseOptions = {}
+): ParseResult {
+  const format = options.format ?? detectFormat(content, options.fileName);
+  const parser = registry.get(format);
+
+  if (!parser) {
+    throw new Error(
+      `Unknown log format: ${format}. Supported: ${getSupportedFormats().join(
+        ", "
+      )}`
+    );
+  }
+
+  const mapping = mergeMapping(parser.defaultMapping, options.mapping);
+  return { format, ...parser.parse(content, mapping) };
+}
@@ -1,7 +1,7 @@
 import { readFile } from "fs/promises";
 import { resolve } from "path";
 
-interface UserProfile {
+export interface UserProfile {
   name: string;
   role: string;
   experience: string;
@@ -0,0 +1,203 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  Aggregate,
+  filterLogs,
+  formatQueryResult,
+  getField,
+  percentile,
+  runQuery,
+} from "./query.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+const logs: ErrorLog[] = [
+  makeLog({ metadata: { response_time_ms: 5000 } }),
+  makeLog({
+    timestamp: "2024-12-10T08:16:11.234Z",
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    metadata: { response_time_ms: 30000, gateway: "stripe" },
+  }),
+  makeLog({
+    timestamp: "2024-12-10T08:25:33.012Z",
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    metadata: { response_time_ms: 20000, gateway: "paypal" },
+  }),
+  makeLog({
+    timestamp: "2024-12-10T09:05:00.000Z",
+    level: "WARN",
+    service: "api-gateway",
+    error_type: "RateLimitExceeded",
+    user_id: "user_9012",
+    metadata: { response_time_ms: 5, current_count: 156 },
+  }),
+];
+
+describe("query", () => {
+  describe("getField", () => {
+    it("should read nested metadata and time buckets", () => {
+      assert.strictEqual(getField(logs[1], "metadata.gateway"), "stripe");
+      assert.strictEqual(getField(logs[0], "minute"), "2024-12-10T08:15");
+      assert.strictEqual(getField(logs[0], "hour"), "2024-12-10T08:00");
+      assert.strictEqual(getField(logs[0], "metadata.missing.deep"), undefined);
+    });
+  });
+
+  describe("filterLogs", () => {
+    it("should filter by service and error type case-insensitively", () => {
+      const result = filterLogs(logs, {
+        service: "PAYMENT-SERVICE",
+        error_type: ["PaymentGatewayTimeout"],
+      });
+      assert.strictEqual(result.length, 2);
+    });
+
+    it("should filter by level, user and time range", () => {
+      assert.strictEqual(filterLogs(logs, { level: "warn" }).length, 1);
+      assert.strictEqual(filterLogs(logs, { user_id: "user_9012" }).length, 1);
+      assert.strictEqual(
+        filterLogs(logs, {
+          from: "2024-12-10T08:16:00Z",
+          to: "2024-12-10T09:00:00Z",
+        }).length,
+        2
+      );
+    });
+
+    it("should reject an unparseable time range", () => {
+      assert.throws(() => filterLogs(logs, { from: "вчера" }), {
+        message: 'Invalid "from" time: вчера',
+      });
+      assert.throws(() => runQuery([], { filter: { to: "2024-13-45" } }), {
+        message: 'Invalid "to" time: 2024-13-45',
+      });
+    });
+
+    it("should filter by metadata equality and ranges", () => {
+      assert.strictEqual(
+        filterLogs(logs, { metadata: { gateway: "paypal" } }).length,
+        1
+      );
+      assert.strictEqual(
+        filterLogs(logs, { metadata: { response_time_ms: { gte: 5000, lt: 30000 } } })
+          .length,
+        2
+      );
+      assert.strictEqual(
+        filterLogs(logs, { metadata: { current_count: { exists: true } } }).length,
+        1
+      );
+    });
+  });
+
+  describe("percentile", () => {
+    it("should interpolate between values", () => {
+      assert.strictEqual(percentile([10, 20, 30, 40], 50), 25);
+      assert.strictEqual(percentile([10, 20, 30, 40], 100), 40);
+      assert.strictEqual(percentile([], 95), null);
+    });
+  });
+
+  describe("runQuery", () => {
+    it("should count all records by default", () => {
+      const result = runQuery(logs);
+      assert.deepStrictEqual(result, {
+        matched: 4,
+        rows: [{ group: null, count: 4, value: 4 }],
+      });
+    });
+
+    it("should compute the exact average for a filter", () => {
+      const result = runQuery(logs, {
+        filter: { error_type: "PaymentGatewayTimeout" },
+        aggregate: "avg",
+        field: "metadata.response_time_ms",
+      });
+      assert.strictEqual(result.rows[0].value, 25000);
+    });
+
+    it("should group, sort and take top-N", () => {
+      const result = runQuery(logs, { groupBy: "service", top: 2 });
+      assert.deepStrictEqual(result.rows, [
+        { group: "payment-service", count: 2, value: 2 },
+        { group: "api-gateway", count: 1, value: 1 },
+      ]);
+    });
+
+    it("should compute percentiles per group", () => {
+      const result = runQuery(logs, {
+        groupBy: "error_type",
+        aggregate: "percentile",
+        percentile: 50,
+        field: "metadata.response_time_ms",
+        order: "asc",
+      });
+      assert.deepStrictEqual(
+        result.rows.map((row) => [row.group, row.value]),
+        [
+          ["RateLimitExceeded", 5],
+          ["DatabaseConnectionError", 5000],
+          ["PaymentGatewayTimeout", 25000],
+        ]
+      );
+    });
+
+    it("should group and filter by stack trace fields", () => {
+      const stackLogs = [
+        makeLog({ stack_trace: "at Database.connect (db.js:45)" }),
+        makeLog({ stack_trace: "at Database.connect (db.js:45)\n  at AuthService.login (auth.js:12)" }),
+        makeLog({ stack_trace: "at PaymentGateway.charge (payment.js:78)" }),
+        makeLog({}),
+      ];
+
+      assert.deepStrictEqual(
+        runQuery(stackLogs, { groupBy: "top_frame" }).rows.map((row) => [row.group, row.count]),
+        [
+          ["Database.connect (db.js:45)", 2],
+          ["(нет значения)", 1],
+          ["PaymentGateway.charge (payment.js:78)", 1],
+        ]
+      );
+
+      const fingerprint = getField(stackLogs[0], "fingerprint") as string;
+      assert.strictEqual(filterLogs(stackLogs, { fingerprint }).length, 1);
+      assert.strictEqual(getField(stackLogs[2], "top_file"), "payment.js");
+    });
+
+    it("should require a field for numeric aggregates", () => {
+      assert.throws(() => runQuery(logs, { aggregate: "avg" }), {
+        message: 'Aggregate "avg" requires a field',
+      });
+    });
+
+    it("should reject unknown aggregates and fields", () => {
+      assert.throws(
+        () => runQuery(logs, { aggregate: "median" as Aggregate, field: "metadata.response_time_ms" }),
+        { message: "Unknown aggregate: median" }
+      );
+      assert.throws(() => runQuery(logs, { groupBy: "servise" }), {
+        message: "Unknown field: servise",
+      });
+      assert.throws(() => runQuery(logs, { aggregate: "avg", field: "metadata." }), {
+        message: "Unknown field: metadata.",
+      });
+      assert.strictEqual(runQuery(logs, { groupBy: "metadata.region" }).matched, logs.length);
+    });
+  });
+
+  describe("formatQueryResult", () => {
+    it("should describe the filter and the aggregate", () => {
+      const query = {
+        filter: { error_type: "PaymentGatewayTimeout" },
+        aggregate: "avg" as const,
+        field: "metadata.response_time_ms",
+      };
+      assert.strictEqual(
+        formatQueryResult(query, runQuery(logs, query)),
+        "[error_type=PaymentGatewayTimeout] avg(metadata.response_time_ms) — записей: 2; avg(metadata.response_time_ms) = 25000"
+      );
+    });
+  });
+});
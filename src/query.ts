@@ -0,0 +1,351 @@
+import { groupBy } from "./collections";
+import { frameLabel, parseLogStack } from "./stacktrace";
+import { ErrorLog } from "./types";
+
+type Scalar = string | number | boolean | null;
+
+// Условие по полю metadata: точное значение или диапазон
+export type MetadataCondition =
+  | Scalar
+  | { gt?: number; gte?: number; lt?: number; lte?: number; exists?: boolean };
+
+export interface LogFilter {
+  service?: string | string[];
+  error_type?: string | string[];
+  level?: string | string[];
+  user_id?: string | string[];
+  request_id?: string | string[];
+  fingerprint?: string | string[]; // Отпечаток stack trace (src/stacktrace.ts)
+  from?: string; // ISO время, включительно
+  to?: string; // ISO время, включительно
+  metadata?: Record<string, MetadataCondition>;
+}
+
+export const AGGREGATES = ["count", "avg", "sum", "min", "max", "percentile"] as const;
+
+export type Aggregate = (typeof AGGREGATES)[number];
+
+export interface LogQuery {
+  filter?: LogFilter;
+  groupBy?: string; // Поле ErrorLog, "metadata.<ключ>", "minute", "hour" или поле stack trace
+  aggregate?: Aggregate; // По умолчанию count
+  field?: string; // Числовое поле для avg/sum/min/max/percentile
+  percentile?: number; // 0..100, для aggregate = "percentile"
+  top?: number; // Ограничение числа групп (top-N)
+  order?: "desc" | "asc";
+}
+
+export interface QueryRow {
+  group: string | null; // null — без группировки
+  count: number; // Количество записей в группе
+  value: number | null; // Значение агрегата (для count совпадает с count)
+}
+
+export interface QueryResult {
+  matched: number; // Сколько записей прошло фильтр
+  rows: QueryRow[];
+}
+
+export const RESPONSE_TIME_FIELD = "metadata.response_time_ms";
+
+// Вычисляемые поля stack trace: место ошибки в коде, его файл и отпечаток
+export const STACK_FIELDS = ["top_frame", "top_file", "fingerprint"];
+
+// Поля записи, по которым можно группировать и агрегировать
+const LOG_FIELDS = [
+  "timestamp",
+  "level",
+  "service",
+  "error_type",
+  "message",
+  "user_id",
+  "request_id",
+  "stack_trace",
+  "source.file",
+  "source.line",
+];
+
+// Известно ли поле запросу: поле записи, "metadata.<ключ>", "minute",
+// "hour" или одно из STACK_FIELDS
+export function isQueryField(field: string): boolean {
+  return (
+    LOG_FIELDS.includes(field) ||
+    STACK_FIELDS.includes(field) ||
+    field === "minute" ||
+    field === "hour" ||
+    /^metadata\.[^.]+(\.[^.]+)*$/.test(field)
+  );
+}
+
+// Значение поля по пути: "service", "metadata.response_time_ms", "minute",
+// "hour" или одно из STACK_FIELDS
+export function getField(log: ErrorLog, field: string): unknown {
+  if (STACK_FIELDS.includes(field)) {
+    const stack = parseLogStack(log);
+    if (field === "fingerprint") return stack.fingerprint;
+    if (!stack.topFrame) return undefined;
+    return field === "top_frame" ? frameLabel(stack.topFrame) : stack.topFrame.file;
+  }
+
+  if (field === "minute" || field === "hour") {
+    const time = new Date(log.timestamp);
+    if (isNaN(time.getTime())) return undefined;
+    const iso = time.toISOString();
+    return field === "minute" ? iso.slice(0, 16) : `${iso.slice(0, 13)}:00`;
+  }
+
+  return field.split(".").reduce<unknown>((value, key) => {
+    if (value && typeof value === "object") {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, log);
+}
+
+function matchesAny(
+  value: string | null,
+  expected: string | string[] | undefined
+): boolean {
+  if (expected === undefined) return true;
+  const list = Array.isArray(expected) ? expected : [expected];
+  if (list.length === 0) return true;
+  return (
+    value !== null &&
+    list.some((item) => item.toLowerCase() === value.toLowerCase())
+  );
+}
+
+function matchesCondition(value: unknown, condition: MetadataCondition): boolean {
+  if (condition === null || typeof condition !== "object") {
+    return value !== undefined && String(value) === String(condition);
+  }
+
+  if (condition.exists !== undefined && (value !== undefined) !== condition.exists) {
+    return false;
+  }
+
+  const hasRange = ["gt", "gte", "lt", "lte"].some(
+    (key) => condition[key as keyof typeof condition] !== undefined
+  );
+  if (!hasRange) return true;
+
+  const num = typeof value === "number" ? value : Number(value);
+  if (value === undefined || value === null || !Number.isFinite(num)) {
+    return false;
+  }
+
+  return (
+    (condition.gt === undefined || num > condition.gt) &&
+    (condition.gte === undefined || num >= condition.gte) &&
+    (condition.lt === undefined || num < condition.lt) &&
+    (condition.lte === undefined || num <= condition.lte)
+  );
+}
+
+// Граница интервала фильтра в мс; нераспознанное время — ошибка, иначе
+// запрос молча выполнился бы без ограничения по времени
+function filterTime(filter: LogFilter, field: "from" | "to"): number | null {
+  const value = filter[field];
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid "${field}" time: ${value}`);
+  }
+  return time;
+}
+
+// Проверка границ интервала фильтра (для фильтров из аргументов)
+export function validateFilter(filter: LogFilter): void {
+  filterTime(filter, "from");
+  filterTime(filter, "to");
+}
+
+// Проверка запроса: неизвестный агрегат или поле — ошибка, иначе запрос
+// молча вернул бы пустые группы или «нет данных»
+export function validateQuery(query: LogQuery): void {
+  validateFilter(query.filter ?? {});
+  if (query.aggregate !== undefined && !AGGREGATES.includes(query.aggregate)) {
+    throw new Error(`Unknown aggregate: ${query.aggregate}`);
+  }
+  for (const field of [query.field, query.groupBy]) {
+    if (field !== undefined && !isQueryField(field)) {
+      throw new Error(`Unknown field: ${field}`);
+    }
+  }
+}
+
+// Проверка записи на соответствие фильтру
+export function matchesFilter(log: ErrorLog, filter: LogFilter = {}): boolean {
+  if (!matchesAny(log.service, filter.service)) return false;
+  if (!matchesAny(log.error_type, filter.error_type)) return false;
+  if (!matchesAny(log.level, filter.level)) return false;
+  if (!matchesAny(log.user_id, filter.user_id)) return false;
+  if (!matchesAny(log.request_id, filter.request_id)) return false;
+  if (
+    filter.fingerprint !== undefined &&
+    !matchesAny(parseLogStack(log).fingerprint, filter.fingerprint)
+  ) {
+    return false;
+  }
+
+  if (filter.from || filter.to) {
+    const from = filterTime(filter, "from");
+    const to = filterTime(filter, "to");
+    const time = Date.parse(log.timestamp);
+    if (isNaN(time)) return false;
+    if (from !== null && time < from) return false;
+    if (to !== null && time > to) return false;
+  }
+
+  for (const [key, condition] of Object.entries(filter.metadata ?? {})) {
+    if (!matchesCondition(log.metadata?.[key], condition)) return false;
+  }
+
+  return true;
+}
+
+export function filterLogs(logs: ErrorLog[], filter: LogFilter = {}): ErrorLog[] {
+  return logs.filter((log) => matchesFilter(log, filter));
+}
+
+// Перцентиль с линейной интерполяцией (values должны быть отсортированы)
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (values.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return values[lower] + (values[upper] - values[lower]) * (rank - lower);
+}
+
+function aggregateValues(
+  logs: ErrorLog[],
+  query: LogQuery
+): number | null {
+  const aggregate = query.aggregate ?? "count";
+  if (aggregate === "count") return logs.length;
+
+  if (!query.field) {
+    throw new Error(`Aggregate "${aggregate}" requires a field`);
+  }
+
+  const values = logs
+    .map((log) => getField(log, query.field!))
+    .filter((value) => value !== undefined && value !== null && value !== "")
+    .map(Number)
+    .filter(Number.isFinite)
+    .sort((a, b) => a - b);
+
+  if (values.length === 0) return null;
+
+  switch (aggregate) {
+    case "sum":
+      return values.reduce((sum, value) => sum + value, 0);
+    case "avg":
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case "min":
+      return values[0];
+    case "max":
+      return values[values.length - 1];
+    case "percentile":
+      return percentile(values, query.percentile ?? 50);
+    default:
+      throw new Error(`Unknown aggregate: ${aggregate}`);
+  }
+}
+
+// Выполнение запроса: фильтр → группировка → агрегат → сортировка → top-N
+export function runQuery(logs: ErrorLog[], query: LogQuery = {}): QueryResult {
+  validateQuery(query);
+  const matched = filterLogs(logs, query.filter);
+
+  if (!query.groupBy) {
+    return {
+      matched: matched.length,
+      rows: [
+        { group: null, count: matched.length, value: aggregateValues(matched, query) },
+      ],
+    };
+  }
+
+  const field = query.groupBy;
+  const groups = groupBy(matched, (log) => {
+    const raw = getField(log, field);
+    return raw === undefined || raw === null ? "(нет значения)" : String(raw);
+  });
+
+  const direction = query.order === "asc" ? 1 : -1;
+  const rows = [...groups.entries()]
+    .map(([group, groupLogs]) => ({
+      group,
+      count: groupLogs.length,
+      value: aggregateValues(groupLogs, query),
+    }))
+    .sort((a, b) => {
+      // Группы без значения агрегата всегда в конце
+      if (a.value === null) return 1;
+      if (b.value === null) return -1;
+      return (a.value - b.value) * direction || a.group.localeCompare(b.group);
+    });
+
+  return {
+    matched: matched.length,
+    rows: query.top ? rows.slice(0, query.top) : rows,
+  };
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) return "нет данных";
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+// Описание фильтра для промпта и вывода
+export function describeFilter(filter: LogFilter = {}): string {
+  const parts: string[] = [];
+  const list = (value: string | string[]) =>
+    Array.isArray(value) ? value.join(" | ") : value;
+
+  if (filter.service) parts.push(`service=${list(filter.service)}`);
+  if (filter.error_type) parts.push(`error_type=${list(filter.error_type)}`);
+  if (filter.level) parts.push(`level=${list(filter.level)}`);
+  if (filter.user_id) parts.push(`user_id=${list(filter.user_id)}`);
+  if (filter.request_id) parts.push(`request_id=${list(filter.request_id)}`);
+  if (filter.fingerprint) parts.push(`fingerprint=${list(filter.fingerprint)}`);
+  if (filter.from) parts.push(`from=${filter.from}`);
+  if (filter.to) parts.push(`to=${filter.to}`);
+  for (const [key, condition] of Object.entries(filter.metadata ?? {})) {
+    parts.push(`metadata.${key}=${JSON.stringify(condition)}`);
+  }
+
+  return parts.length > 0 ? parts.join(", ") : "все записи";
+}
+
+// Текстовое представление результата запроса
+export function formatQueryResult(query: LogQuery, result: QueryResult): string {
+  const aggregate = query.aggregate ?? "count";
+  const label =
+    aggregate === "count"
+      ? "count"
+      : aggregate === "percentile"
+      ? `p${query.percentile ?? 50}(${query.field})`
+      : `${aggregate}(${query.field})`;
+
+  const header = `[${describeFilter(query.filter)}] ${label}${
+    query.groupBy ? ` по ${query.groupBy}` : ""
+  } — записей: ${result.matched}`;
+
+  if (!query.groupBy) {
+    return aggregate === "count"
+      ? header
+      : `${header}; ${label} = ${formatNumber(result.rows[0].value)}`;
+  }
+
+  const rows = result.rows
+    .map((row) =>
+      aggregate === "count"
+        ? `  - ${row.group}: ${row.count}`
+        : `  - ${row.group}: ${formatNumber(row.value)} (записей: ${row.count})`
+    )
+    .join("\n");
+
+  return `${header}\n${rows}`;
+}
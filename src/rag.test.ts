@@ -0,0 +1,270 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import { appendFile, mkdir, readdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { DEFAULT_CONFIG } from "./config.js";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { RAGSystem } from "./rag.js";
+import { logAt, serviceError } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+const logs = [
+  serviceError("payment-service", "PaymentGatewayTimeout"),
+  serviceError("auth-service", "InvalidCredentials"),
+  serviceError("cache-service", "RedisConnectionError"),
+];
+
+// Клиент, который считает тексты, отправленные на embed
+function countingClient(embedded: string[], embeddingModel = DEFAULT_CONFIG.embeddingModel) {
+  const ollama = new OllamaClient({ ...DEFAULT_CONFIG, embeddingModel });
+  ollama.createEmbeddings = async (texts) => {
+    embedded.push(...texts);
+    return texts.map(() => [1, 0]);
+  };
+  return ollama;
+}
+
+async function waitForFile(dir: string, suffix: string): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const files = await readdir(dir).catch(() => [] as string[]);
+    if (files.some((file) => file.endsWith(suffix))) return;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`No ${suffix} file in ${dir}`);
+}
+
+describe("RAGSystem embeddings cache", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "rag-cache");
+  const logFile = join(testDir, "logs.json");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function index(ollama: OllamaClient, cacheDir: string, options = {}) {
+    const rag = new RAGSystem(ollama, { cacheDir, ...options }, silentLogger);
+    await rag.loadLogs(logFile);
+    return rag.indexLogs();
+  }
+
+  it("should reuse unchanged records and prune removed ones", async () => {
+    const cacheDir = join(testDir, "reuse");
+    await mkdir(testDir, { recursive: true });
+    await writeFile(logFile, JSON.stringify(logs));
+
+    const first: string[] = [];
+    assert.deepStrictEqual(await index(countingClient(first), cacheDir), {
+      records: 3,
+      templates: 3,
+      cached: 0,
+      created: 3,
+      failed: 0,
+    });
+    assert.strictEqual(first.length, 3);
+
+    const second: string[] = [];
+    const summary = await index(countingClient(second), cacheDir);
+    assert.strictEqual(summary.cached, 3);
+    assert.deepStrictEqual(second, []);
+
+    // Запись удалена из файла — её embedding удаляется из кеша
+    await writeFile(logFile, JSON.stringify(logs.slice(0, 2)));
+    assert.strictEqual((await index(countingClient([]), cacheDir)).cached, 2);
+
+    await writeFile(logFile, JSON.stringify(logs));
+    const restored: string[] = [];
+    const afterPrune = await index(countingClient(restored), cacheDir);
+    assert.strictEqual(afterPrune.cached, 2);
+    assert.strictEqual(afterPrune.created, 1);
+    assert.strictEqual(restored.length, 1);
+    assert.match(restored[0], /RedisConnectionError/);
+  });
+
+  it("should recreate embeddings when the embedding model changes", async () => {
+    const cacheDir = join(testDir, "model");
+    await writeFile(logFile, JSON.stringify(logs));
+    await index(countingClient([]), cacheDir);
+
+    const embedded: string[] = [];
+    const summary = await index(countingClient(embedded, "mxbai-embed-large"), cacheDir);
+    assert.strictEqual(summary.cached, 0);
+    assert.strictEqual(summary.created, 3);
+    assert.strictEqual(embedded.length, 3);
+  });
+
+  it("should resume from the progress saved before an interruption", async () => {
+    const cacheDir = join(testDir, "resume");
+    await writeFile(logFile, JSON.stringify(logs));
+
+    // Первая пачка создаётся, на второй индексация «зависает» до release
+    const interrupted = new OllamaClient();
+    let calls = 0;
+    let stalled!: () => void;
+    let release!: () => void;
+    const stalledAt = new Promise<void>((resolve) => (stalled = resolve));
+    const released = new Promise<void>((resolve) => (release = resolve));
+    interrupted.createEmbeddings = async (texts) => {
+      if (++calls > 1) {
+        stalled();
+        await released;
+      }
+      return texts.map(() => [1, 0]);
+    };
+    const options = { batchSize: 1, concurrency: 1, saveIntervalMs: 0 };
+    const first = index(interrupted, cacheDir, options);
+    try {
+      await stalledAt;
+      await waitForFile(cacheDir, ".vectors.bin");
+
+      const embedded: string[] = [];
+      const summary = await index(countingClient(embedded), cacheDir, options);
+      assert.strictEqual(summary.cached, 1);
+      assert.strictEqual(summary.created, 2);
+      assert.strictEqual(embedded.length, 2);
+    } finally {
+      // Прерванная индексация завершается, чтобы тест не оставлял висящих промисов
+      release();
+      await first;
+    }
+  });
+
+  it("should keep failed records out of the cache so a rerun retries them", async () => {
+    const cacheDir = join(testDir, "failed");
+    await writeFile(logFile, JSON.stringify(logs));
+
+    const flaky = new OllamaClient();
+    flaky.createEmbeddings = async (texts) => {
+      if (texts.some((text) => text.includes("InvalidCredentials"))) {
+        throw Object.assign(new Error("bad request"), { status_code: 400 });
+      }
+      return texts.map(() => [1, 0]);
+    };
+    const first = await index(flaky, cacheDir, { batchSize: 1 });
+    assert.strictEqual(first.failed, 1);
+    assert.strictEqual(first.created, 2);
+
+    const embedded: string[] = [];
+    const second = await index(countingClient(embedded), cacheDir, { batchSize: 1 });
+    assert.strictEqual(second.cached, 2);
+    assert.strictEqual(embedded.length, 1);
+    assert.match(embedded[0], /InvalidCredentials/);
+  });
+});
+
+describe("RAGSystem.loadLogs", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "rag-load");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should skip text files of unknown format with a parse issue", async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, "logs.json"), JSON.stringify(logs));
+    await writeFile(join(testDir, "notes.txt"), "just some text");
+
+    const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+    await rag.loadLogs(testDir);
+    assert.strictEqual(rag.getStatisticsData().total, 3);
+    assert.deepStrictEqual(
+      rag.getParseIssues().map((issue) => [issue.file.endsWith("notes.txt"), issue.reason]),
+      [[true, `Unable to detect log format for ${join(testDir, "notes.txt")}`]]
+    );
+
+    await rm(join(testDir, "logs.json"));
+    await assert.rejects(() => rag.loadLogs(testDir), {
+      message: `No log files matched a supported format: ${testDir}`,
+    });
+  });
+});
+
+describe("RAGSystem.getIncidents", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "rag-incidents");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should number incidents the same before and after indexing", async () => {
+    await mkdir(testDir, { recursive: true });
+    const logFile = join(testDir, "logs.json");
+    // Близкие по времени записи без общих признаков: одинаковые embeddings
+    // связали бы их, но группировка embeddings не учитывает
+    await writeFile(logFile, JSON.stringify([logAt(0), logAt(1), logAt(2)]));
+
+    const rag = new RAGSystem(countingClient([]), { cacheDir: testDir }, silentLogger);
+    await rag.loadLogs(logFile);
+    assert.deepStrictEqual(rag.getIncidents(), []);
+
+    await rag.indexLogs();
+    assert.deepStrictEqual(rag.getIncidents(), []);
+  });
+});
+
+describe("RAGSystem.refreshLogs", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "rag-refresh");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should drop background embeddings of records removed by a reload", async () => {
+    await mkdir(testDir, { recursive: true });
+    const logFile = join(testDir, "logs.jsonl");
+    const jsonl = (...records: ErrorLog[]) =>
+      records.map((log) => JSON.stringify(log) + "\n").join("");
+    await writeFile(logFile, jsonl(logAt(0, { request_id: "req_1" })));
+
+    const ollama = countingClient([]);
+    const rag = new RAGSystem(ollama, { cacheDir: testDir }, silentLogger);
+    await rag.loadLogs(logFile);
+    await rag.indexLogs();
+
+    // Embedding дописанной записи создаётся, пока файл перезаписывают
+    let release = () => {};
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const embed = ollama.createEmbeddings;
+    ollama.createEmbeddings = async (texts) => {
+      await released;
+      return embed(texts);
+    };
+
+    await appendFile(logFile, jsonl(logAt(1, { request_id: "req_2", message: "Stale record" })));
+    await rag.refreshLogs();
+    await writeFile(logFile, jsonl(logAt(2, { request_id: "req_3" })));
+    assert.strictEqual((await rag.refreshLogs()).reloaded.length, 1);
+
+    release();
+    await rag.waitForIndexing();
+    const records = await rag.retrieve("req_2 req_3", 10, {
+      filter: {},
+      lexicalWeight: 1,
+      dedupe: false,
+    });
+    assert.deepStrictEqual(
+      records.map((record) => record.log.request_id),
+      ["req_3"]
+    );
+  });
+});
+
+describe("RAGSystem.ingestLogs", () => {
+  it("should keep at most maxRecords ingested records, evicting the oldest", () => {
+    const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+    const ndjson = (count: number, from: number) =>
+      Array.from({ length: count }, (_, idx) =>
+        JSON.stringify(logAt(from + idx, { request_id: `req_in_${from + idx}` }))
+      ).join("\n");
+
+    const first = rag.ingestLogs(ndjson(12, 0), { maxRecords: 10 });
+    assert.strictEqual(first.added.length, 12);
+    assert.strictEqual(rag.getStatisticsData().total, 9);
+    assert.strictEqual(rag.getLoadedFiles()[0].records, 9);
+
+    // Номера строк продолжаются после вытесненных записей
+    const next = rag.ingestLogs(ndjson(1, 12), { maxRecords: 10 });
+    assert.strictEqual(next.added[0].source?.line, 13);
+    assert.strictEqual(rag.getStatisticsData().total, 10);
+  });
+});
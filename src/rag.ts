@@ -1,42 +1,383 @@
 import * as crypto from "crypto";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { OllamaClient } from "./ollama";
+import { Alert, AlertEngine } from "./alerts";
+import {
+  AnomalyOptions,
+  AnomalyReport,
+  detectAnomalies,
+  formatAnomalies,
+} from "./anomalies";
+import {
+  chunk,
+  formatDuration,
+  formatProgress,
+  runWithConcurrency,
+  withRetry,
+} from "./batching";
+import {
+  BM25Index,
+  isIdentifier,
+  reciprocalRankFusion,
+  tokenize,
+} from "./bm25";
+import { Citation, resolveCitations } from "./citations";
+import { groupBy } from "./collections";
+import {
+  collapseDuplicates,
+  recordTemplate,
+  templateFingerprint,
+} from "./dedupe";
+import {
+  Conversation,
+  ConversationOptions,
+  ConversationTurn,
+  isFollowUp,
+} from "./conversation";
+import { buildDigest, Digest, DigestPeriod, formatDigestContext } from "./digest";
+import { HNSWIndex } from "./hnsw";
+import {
+  clusterIncidents,
+  findIncident,
+  formatIncidentDetails,
+  formatIncidents,
+  Incident,
+  IncidentOptions,
+} from "./incidents";
+import {
+  buildFilterPrompt,
+  collectKnownValues,
+  extractFilter,
+  isEmptyFilter,
+  latestTimestamp,
+  mergeFilters,
+  sanitizeFilter,
+} from "./intent";
+import { consoleLogger, Logger } from "./logger";
+import { OllamaClient, ToolCallRecord } from "./ollama";
+import {
+  FormatDetectionError,
+  isLineBased,
+  ParseIssue,
+  ParseOptions,
+  ParseResult,
+  parseLogs,
+} from "./parsers";
 import { PersonalizationManager } from "./personalization";
+import {
+  describeFilter,
+  formatQueryResult,
+  LogFilter,
+  LogQuery,
+  matchesFilter,
+  QueryResult,
+  RESPONSE_TIME_FIELD,
+  runQuery,
+} from "./query";
+import {
+  auditRedactions,
+  RedactionAudit,
+  RedactionOptions,
+  Redactor,
+} from "./redaction";
+import {
+  detectSecuritySignals,
+  formatSecurityDetails,
+  formatSecuritySignals,
+  SecurityOptions,
+  SecuritySignal,
+} from "./security";
+import { resolveLogFiles } from "./sources";
+import { topFrameLabel } from "./stacktrace";
+import { buildTrace, formatTraceContext, Trace } from "./trace";
+import { messageTemplate } from "./templates";
+import { executeToolCall, formatLogLine, LOG_TOOLS, ToolContext } from "./tools";
+import { ErrorLog } from "./types";
+import {
+  BinaryVectorStore,
+  cosineSimilarity,
+  JsonVectorStore,
+  StoredVectors,
+  VectorStore,
+} from "./vectorstore";
 
-interface ErrorLog {
-  timestamp: string;
-  level: string;
-  service: string;
-  error_type: string;
-  message: string;
-  user_id: string | null;
-  request_id: string;
-  stack_trace: string;
-  metadata: Record<string, any>;
+interface EmbeddedLog {
+  log: ErrorLog;
+  embedding: Float32Array; // У повторов одного шаблона — один и тот же массив
+  text: string; // Полный текст записи для лексического поиска
 }
 
-interface EmbeddedLog {
+// Граф HNSW: узел — уникальный вектор, nodeIds — записи с этим вектором
+interface AnnIndex {
+  graph: HNSWIndex;
+  nodeIds: number[][];
+  nodeByVector: Map<Float32Array, number>;
+  indexed: number; // Сколько embeddedLogs уже в графе
+}
+
+// Сводка по загруженному файлу логов
+export interface LoadedFile {
+  file: string; // Путь относительно рабочей директории (для вывода)
+  path: string; // Путь, по которому файл был прочитан
+  format: string;
+  records: number;
+  issues: ParseIssue[];
+}
+
+// Формат файла, пропущенного из-за неопознанного содержимого
+const UNKNOWN_FORMAT = "unknown";
+
+export interface FileParseIssue extends ParseIssue {
+  file: string;
+}
+
+// Что известно о прочитанном файле: по размеру и времени изменения
+// видно, что он изменился, а offset и lines позволяют дочитать только
+// дописанные строки
+interface FileState {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  offset: number; // Сколько байт уже разобрано: до последнего перевода строки
+  lines: number; // Сколько строк в разобранной части
+  head: string; // Хеш первых HEAD_BYTES байт разобранной части
+  partial: boolean; // Недописанная последняя строка уже загружена как запись
+  format: string;
+}
+
+// Сколько первых байт файла сверяется перед дочитыванием: усечённый и
+// снова выросший файл с тем же inode иначе выглядел бы дописанным
+const HEAD_BYTES = 4096;
+
+// Параметры создания embeddings
+export interface IndexingOptions {
+  batchSize: number; // Сколько текстов отправляется в одном запросе embed
+  concurrency: number; // Сколько запросов выполняется параллельно
+  retries: number; // Повторы при временных ошибках
+  saveIntervalMs: number; // Как часто сохранять промежуточный прогресс в кеш
+  cacheDir: string; // Каталог кеша embeddings
+}
+
+const DEFAULT_INDEXING: IndexingOptions = {
+  batchSize: 32,
+  concurrency: 2,
+  retries: 3,
+  saveIntervalMs: 5000,
+  cacheDir: "./data/.cache",
+};
+
+// Параметры гибридного поиска
+export interface RetrievalOptions {
+  lexicalWeight: number; // 0 — только векторы, 1 — только BM25
+  rrfK: number; // Константа reciprocal rank fusion
+  candidates: number; // Сколько кандидатов берётся из каждого ретривера
+  llmFilter: boolean; // Дополнять фильтр из вопроса разбором через модель
+  dedupe: boolean; // Показывать одну запись на отпечаток шаблона вместо повторов
+  ann: boolean; // Приближённый поиск по графу HNSW (только в памяти, для долгоживущих процессов)
+}
+
+const DEFAULT_RETRIEVAL: RetrievalOptions = {
+  lexicalWeight: 0.5,
+  rrfK: 60,
+  candidates: 50,
+  llmFilter: false,
+  dedupe: true,
+  ann: false,
+};
+
+// Меньше векторов-кандидатов — точный перебор быстрее поиска по графу,
+// а при узком фильтре ещё и не теряет записи
+const ANN_MIN_CANDIDATES = 2000;
+
+// Сколько ID из вопроса получают трассу в промпте
+const MAX_TRACES_IN_PROMPT = 3;
+
+// Найденная запись с оценками релевантности
+export interface RetrievedRecord {
   log: ErrorLog;
-  embedding: number[];
-  text: string; // Текстовое представление для поиска
+  score: number; // Итоговая оценка reciprocal rank fusion
+  similarity: number | null; // Косинусное сходство с вопросом (null — без векторов)
+  exactMatch: boolean; // Запись содержит идентификатор из вопроса дословно
+  occurrences: number; // Записей с тем же отпечатком шаблона среди кандидатов
+  duplicates: ErrorLog[]; // Остальные записи с тем же отпечатком
+}
+
+// Длительность этапов ответа, мс
+export interface AskTimings {
+  retrievalMs: number; // Фильтр, точные запросы и поиск записей
+  generationMs: number; // Ответ модели, включая вызовы инструментов
+  totalMs: number;
+}
+
+// Результат вопроса: ответ, записи контекста и ссылки [N] на них
+export interface AskResult {
+  answer: string;
+  model: string;
+  records: RetrievedRecord[]; // [Запись N] в контексте — records[N - 1]
+  citations: Citation[];
+  unresolvedCitations: number[]; // [N], для которых нет записи в контексте
+  toolCalls: ToolCallRecord[];
+  prompt?: { system: string; user: string }; // Нет для ответов без модели
+  timings: AskTimings;
 }
 
-interface EmbeddingCache {
-  fileHash: string;
-  embeddedLogs: EmbeddedLog[];
-  createdAt: string;
+export interface SearchOptions extends Partial<RetrievalOptions> {
+  // Явный фильтр записей; без него фильтр извлекается из вопроса
+  filter?: LogFilter;
+}
+
+// Инструкция для модели о доступных инструментах (src/tools.ts)
+const TOOLS_PROMPT = `
+TOOLS:
+У тебя есть инструменты для работы со ВСЕМИ загруженными логами: count_logs, aggregate_logs, search_logs, get_log_by_request_id, timeline.
+- Для любых чисел (количество, среднее, перцентили, top-N) вызывай count_logs / aggregate_logs, а не считай сам.
+- Для конкретных request_id используй get_log_by_request_id, для хронологии и всплесков — timeline.
+- Можно делать несколько вызовов подряд; отвечай, когда данных достаточно.
+`.trim();
+
+// Итог индексации: сколько embeddings взято из кеша, создано и не удалось создать
+export interface IndexSummary {
+  records: number;
+  templates: number; // Уникальных шаблонов — столько embeddings нужно на самом деле
+  cached: number;
+  created: number;
+  failed: number;
+}
+
+// Источник записей, принятых через ingestLogs
+export const INGEST_SOURCE = "api";
+
+// Итог приёма записей через ingestLogs
+export interface IngestResult {
+  format: string;
+  added: ErrorLog[];
+  issues: ParseIssue[]; // Некорректные строки, они не приняты
+}
+
+// Итог обновления логов в режиме наблюдения
+export interface RefreshResult {
+  added: ErrorLog[]; // Новые записи в порядке появления в файлах
+  newFiles: string[]; // Файлы, появившиеся после загрузки
+  reloaded: string[]; // Файлы, перезаписанные целиком (ротация, усечение)
+}
+
+export interface LogStatistics {
+  total: number;
+  byErrorType: Record<string, number>;
+  byService: Record<string, number>;
+  byFile: Record<string, number>;
+  byTopFrame: Record<string, number>; // Место в коде по stack trace
+}
+
+// Число переводов строки в прочитанных байтах
+function headHash(buffer: Buffer): string {
+  return crypto.createHash("sha256").update(buffer.subarray(0, HEAD_BYTES)).digest("hex");
+}
+
+function countLines(buffer: Buffer): number {
+  let lines = 0;
+  for (let idx = buffer.indexOf(0x0a); idx !== -1; idx = buffer.indexOf(0x0a, idx + 1)) {
+    lines++;
+  }
+  return lines;
+}
+
+// Файл только дописан: все ранее загруженные записи остались на месте
+// (проверяется последняя из них — дешевле, чем сравнивать все)
+function isAppended(previous: ErrorLog[], current: ErrorLog[]): boolean {
+  if (current.length < previous.length) return false;
+  if (previous.length === 0) return true;
+  const last = previous[previous.length - 1];
+  const same = current[previous.length - 1];
+  return (
+    last.timestamp === same.timestamp &&
+    last.request_id === same.request_id &&
+    last.message === same.message
+  );
 }
 
 export class RAGSystem {
   private ollama: OllamaClient;
   private embeddedLogs: EmbeddedLog[] = [];
   private allLogs: ErrorLog[] = [];
-  private cacheDir = "./data/.cache";
+  // Записи перезаписанных файлов и прежней загрузки: фоновая индексация,
+  // начатая до их удаления, не возвращает их в поиск
+  private removedLogs = new WeakSet<ErrorLog>();
+  private loadedFiles: LoadedFile[] = [];
+  private logsByFile = new Map<string, ErrorLog[]>();
+  private fileStats = new Map<string, FileState>();
+  private source: { pattern: string; options: ParseOptions } | null = null;
+  private backgroundIndexing: Promise<void> = Promise.resolve();
+  private indexed = false; // Были ли созданы embeddings (indexLogs)
+  // Кеш embeddings по файлам логов: ключ — хеш текста записи вместе с моделью
+  private vectorStore: VectorStore;
+  private legacyStore: VectorStore;
   private personalization?: PersonalizationManager;
+  private redactor: Redactor | null = null;
+  private indexing: IndexingOptions;
+  private logger: Logger;
+  private toolsEnabled = true;
+  private retrieval: RetrievalOptions = { ...DEFAULT_RETRIEVAL };
+  private anomalyOptions: Partial<AnomalyOptions> = {};
+  private anomalyCache: {
+    logs: ErrorLog[];
+    size: number;
+    report: AnomalyReport;
+  } | null = null;
+  private securityOptions: Partial<SecurityOptions> = {};
+  private securityCache: {
+    logs: ErrorLog[];
+    size: number;
+    signals: SecuritySignal[];
+  } | null = null;
+  private incidentOptions: Partial<IncidentOptions> = {};
+  private incidentCache: {
+    logs: ErrorLog[];
+    size: number;
+    incidents: Incident[];
+  } | null = null;
+  private lexicalIndex = new BM25Index();
+  private lexicalIndexed = 0; // Сколько embeddedLogs уже в лексическом индексе
+  private annIndex: AnnIndex | null = null;
+
+  constructor(
+    ollama: OllamaClient = new OllamaClient(),
+    indexing: Partial<IndexingOptions> = {},
+    logger: Logger = consoleLogger
+  ) {
+    this.ollama = ollama;
+    this.logger = logger;
+    this.indexing = { ...DEFAULT_INDEXING, ...indexing };
+    this.vectorStore = new BinaryVectorStore(this.indexing.cacheDir);
+    this.legacyStore = new JsonVectorStore(this.indexing.cacheDir);
+  }
+
+  // Включить или выключить вызов инструментов моделью
+  setToolsEnabled(enabled: boolean): void {
+    this.toolsEnabled = enabled;
+  }
+
+  // Настройка гибридного поиска (вес BM25 и параметры fusion)
+  setRetrievalOptions(options: Partial<RetrievalOptions>): void {
+    this.retrieval = { ...this.retrieval, ...options };
+  }
 
-  constructor() {
-    this.ollama = new OllamaClient();
+  // Настройка детектора аномалий (окно, пороги всплесков и задержки)
+  setAnomalyOptions(options: Partial<AnomalyOptions>): void {
+    this.anomalyOptions = { ...this.anomalyOptions, ...options };
+    this.anomalyCache = null;
+  }
+
+  // Настройка правил безопасности (окно и пороги)
+  setSecurityOptions(options: Partial<SecurityOptions>): void {
+    this.securityOptions = { ...this.securityOptions, ...options };
+    this.securityCache = null;
+  }
+
+  // Настройка группировки ошибок в инциденты
+  setIncidentOptions(options: Partial<IncidentOptions>): void {
+    this.incidentOptions = { ...this.incidentOptions, ...options };
+    this.incidentCache = null;
   }
 
   // Установить менеджер персонализации
@@ -44,174 +385,1251 @@ export class RAGSystem {
     this.personalization = personalization;
   }
 
-  // Вычисление хеша файла для валидации кеша
-  private async getFileHash(filePath: string): Promise<string> {
-    const content = await fs.readFile(filePath, "utf-8");
-    return crypto.createHash("md5").update(content).digest("hex");
+  // Маскирование персональных данных в загружаемых записях; действует на
+  // записи, загруженные после вызова
+  setRedactionOptions(options: Partial<RedactionOptions>): void {
+    this.redactor = options.enabled ? new Redactor(options) : null;
+  }
+
+  isRedactionEnabled(): boolean {
+    return this.redactor !== null;
+  }
+
+  // Что замаскировано в загруженных записях
+  getRedactionAudit(): RedactionAudit[] {
+    return auditRedactions(this.allLogs);
+  }
+
+  // Запись в том виде, в котором она индексируется и попадает к модели
+  private prepareLog(log: ErrorLog): ErrorLog {
+    return this.redactor ? this.redactor.redactLog(log) : log;
+  }
+
+  // Ключ кеша записи: хеш текста для embedding и имени модели
+  private getRecordKey(text: string): string {
+    return crypto
+      .createHash("sha256")
+      .update(`${this.ollama.getEmbeddingModel()}\n${text}`)
+      .digest("hex");
   }
 
-  // Получение пути к файлу кеша
-  private getCachePath(filePath: string): string {
+  // Имя набора в кеше (хеш пути исключает коллизии одинаковых имён)
+  private getCacheName(filePath: string): string {
     const fileName = path.basename(filePath, path.extname(filePath));
-    return path.join(this.cacheDir, `${fileName}.embeddings.json`);
+    const pathHash = crypto
+      .createHash("md5")
+      .update(path.resolve(filePath))
+      .digest("hex")
+      .slice(0, 8);
+    return `${fileName}.${pathHash}`;
   }
 
-  // Загрузка кеша embeddings
-  private async loadCache(filePath: string): Promise<EmbeddingCache | null> {
+  // Загрузка кеша embeddings; кеш прежнего JSON формата переносится в
+  // бинарный при первом чтении
+  private async loadCache(filePath: string): Promise<StoredVectors | null> {
+    const name = this.getCacheName(filePath);
     try {
-      const cachePath = this.getCachePath(filePath);
-      const cacheContent = await fs.readFile(cachePath, "utf-8");
-      return JSON.parse(cacheContent);
-    } catch {
+      const cache = await this.vectorStore.load(name);
+      if (cache) return cache;
+
+      const legacy = await this.legacyStore.load(name);
+      if (legacy) {
+        await this.saveCache(filePath, legacy.entries, true);
+      }
+      return legacy;
+    } catch (error) {
+      this.logger.warn(`⚠️  Кеш embeddings повреждён и будет пересоздан: ${error}`);
       return null;
     }
   }
 
   // Сохранение кеша embeddings
-  private async saveCache(filePath: string, fileHash: string): Promise<void> {
+  private async saveCache(
+    filePath: string,
+    entries: Record<string, Float32Array>,
+    silent: boolean = false
+  ): Promise<void> {
     try {
-      await fs.mkdir(this.cacheDir, { recursive: true });
-
-      const cache: EmbeddingCache = {
-        fileHash,
-        embeddedLogs: this.embeddedLogs,
+      const name = this.getCacheName(filePath);
+      await this.vectorStore.save(name, {
+        model: this.ollama.getEmbeddingModel(),
+        entries,
         createdAt: new Date().toISOString(),
-      };
+      });
+      await this.legacyStore.remove(name);
+      if (!silent) {
+        this.logger.info("💾 Embeddings сохранены в кеш\n");
+      }
+    } catch (error) {
+      this.logger.warn(`⚠️  Не удалось сохранить кеш: ${error}`);
+    }
+  }
+
+  // Некорректные строки, пропущенные при последней загрузке
+  getParseIssues(): FileParseIssue[] {
+    return this.loadedFiles.flatMap((loaded) =>
+      loaded.issues.map((issue) => ({ ...issue, file: loaded.file }))
+    );
+  }
+
+  // Файлы, загруженные при последней индексации
+  getLoadedFiles(): LoadedFile[] {
+    return this.loadedFiles;
+  }
+
+  // Загрузка и индексация логов из файла, директории или glob шаблона
+  async loadAndIndexLogs(
+    pattern: string,
+    options: ParseOptions = {}
+  ): Promise<void> {
+    await this.loadLogs(pattern, options);
+    await this.indexLogs();
+  }
+
+  // Загрузка логов без создания embeddings (достаточно для статистики)
+  async loadLogs(pattern: string, options: ParseOptions = {}): Promise<void> {
+    const files = await resolveLogFiles(pattern);
+    if (files.length === 0) {
+      throw new Error(`No log files matched: ${pattern}`);
+    }
+
+    this.allLogs.forEach((log) => this.removedLogs.add(log));
+    this.allLogs = [];
+    this.resetSearchIndex();
+    this.loadedFiles = [];
+    this.logsByFile.clear();
+    this.fileStats.clear();
+    this.source = { pattern, options };
+    this.indexed = false;
+
+    this.logger.info(`📂 Загрузка логов: найдено файлов — ${files.length}`);
+
+    for (const filePath of files) {
+      await this.loadFile(filePath, options);
+    }
+
+    if (this.loadedFiles.every((loaded) => loaded.format === UNKNOWN_FORMAT)) {
+      throw new Error(`No log files matched a supported format: ${pattern}`);
+    }
+
+    if (files.length > 1) {
+      this.logger.info(`✅ Всего загружено ${this.allLogs.length} записей\n`);
+    }
+    this.reportParseIssues();
+  }
+
+  // Создание embeddings для загруженных логов (по файлу на запись в кеше)
+  async indexLogs(): Promise<IndexSummary> {
+    this.resetSearchIndex();
+    this.indexed = true;
+    const summary: IndexSummary = {
+      records: this.allLogs.length,
+      templates: 0,
+      cached: 0,
+      created: 0,
+      failed: 0,
+    };
+
+    for (const loaded of this.loadedFiles) {
+      const result = await this.indexFile(
+        loaded.path,
+        this.logsByFile.get(loaded.path) ?? []
+      );
+      summary.templates += result.templates;
+      summary.cached += result.cached;
+      summary.created += result.created;
+      summary.failed += result.failed;
+    }
+
+    return summary;
+  }
 
-      const cachePath = this.getCachePath(filePath);
-      await fs.writeFile(cachePath, JSON.stringify(cache, null, 2));
-      console.log("💾 Embeddings сохранены в кеш\n");
+  // Загрузка одного файла
+  private async loadFile(
+    filePath: string,
+    options: ParseOptions
+  ): Promise<void> {
+    const loaded = await this.readLogFile(filePath, options);
+    this.allLogs.push(...loaded.logs);
+    this.logsByFile.set(filePath, loaded.logs);
+    this.loadedFiles.push(loaded.file);
+    if (loaded.file.format === UNKNOWN_FORMAT) return;
+
+    this.logger.info(
+      `✅ ${loaded.file.file}: загружено ${loaded.logs.length} записей (формат: ${loaded.file.format})`
+    );
+  }
+
+  // Чтение и разбор файла; размер и время изменения запоминаются, чтобы
+  // при наблюдении перечитывать только изменившиеся файлы
+  private async readLogFile(
+    filePath: string,
+    options: ParseOptions
+  ): Promise<{ file: LoadedFile; logs: ErrorLog[] }> {
+    const file = path.relative(process.cwd(), filePath) || filePath;
+    const stat = await fs.stat(filePath);
+    const buffer = await fs.readFile(filePath);
+    const fileContent = buffer.toString("utf-8");
+    let result: ParseResult;
+    try {
+      result = parseLogs(fileContent, { fileName: filePath, ...options });
     } catch (error) {
-      console.warn("⚠️  Не удалось сохранить кеш:", error);
+      if (!(error instanceof FormatDetectionError)) throw error;
+      // Посторонний текстовый файл в директории не прерывает загрузку
+      // остальных: он пропускается с предупреждением, как плохая строка
+      result = {
+        format: UNKNOWN_FORMAT,
+        entries: [],
+        issues: [{ line: 1, reason: error.message, raw: "" }],
+      };
+    }
+    // Построчный файл дочитывается после последнего перевода строки, как
+    // в readAppended; недописанная строка уже разобрана, поэтому после её
+    // завершения файл перечитывается целиком
+    const complete = isLineBased(result.format)
+      ? buffer.subarray(0, buffer.lastIndexOf(0x0a) + 1)
+      : buffer;
+    this.fileStats.set(filePath, {
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      ino: stat.ino,
+      offset: complete.length,
+      lines: countLines(complete),
+      head: headHash(complete),
+      partial: complete.length < buffer.length,
+      format: result.format,
+    });
+
+    // Помечаем каждую запись файлом и строкой, откуда она загружена
+    const logs = result.entries.map(({ log, line }) =>
+      this.prepareLog({ ...log, source: { file, line } })
+    );
+    return {
+      file: {
+        file,
+        path: filePath,
+        format: result.format,
+        records: logs.length,
+        issues: result.issues,
+      },
+      logs,
+    };
+  }
+
+  // Дочитывание строк, дописанных в конец файла построчного формата:
+  // читаются только байты после offset и только до последнего перевода
+  // строки — недописанная строка разбирается при следующем опросе. null —
+  // начало файла изменилось (усечён и снова вырос), дочитывать нельзя
+  private async readAppended(
+    filePath: string,
+    known: FileState,
+    stat: { size: number; mtimeMs: number },
+    options: ParseOptions
+  ): Promise<{ logs: ErrorLog[]; issues: ParseIssue[] } | null> {
+    const handle = await fs.open(filePath, "r");
+    let head: Buffer;
+    let chunk: Buffer;
+    try {
+      head = Buffer.alloc(Math.min(HEAD_BYTES, known.offset));
+      const headRead = await handle.read(head, 0, head.length, 0);
+      head = head.subarray(0, headRead.bytesRead);
+      if (headHash(head) !== known.head) return null;
+
+      chunk = Buffer.alloc(stat.size - known.offset);
+      const { bytesRead } = await handle.read(chunk, 0, chunk.length, known.offset);
+      chunk = chunk.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+
+    const complete = chunk.subarray(0, chunk.lastIndexOf(0x0a) + 1);
+    const state: FileState = {
+      ...known,
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      offset: known.offset + complete.length,
+      lines: known.lines + countLines(complete),
+      // Пока разобрано меньше HEAD_BYTES, сверяемое начало растёт вместе с файлом
+      head: known.offset < HEAD_BYTES ? headHash(Buffer.concat([head, complete])) : known.head,
+    };
+    this.fileStats.set(filePath, state);
+    if (complete.length === 0) return { logs: [], issues: [] };
+
+    const file = path.relative(process.cwd(), filePath) || filePath;
+    const result = parseLogs(complete.toString("utf-8"), { ...options, format: known.format });
+    return {
+      logs: result.entries.map(({ log, line }) =>
+        this.prepareLog({ ...log, source: { file, line: known.lines + line } })
+      ),
+      issues: result.issues.map((issue) => ({ ...issue, line: known.lines + issue.line })),
+    };
+  }
+
+  // Дочитывание логов в режиме наблюдения: новые записи в конце файлов
+  // и новые файлы по тому же шаблону. Файлы построчных форматов
+  // дочитываются с места остановки; JSON массив и перезаписанный файл
+  // (ротация, усечение) перечитываются целиком. Записи сразу попадают в
+  // статистику, embeddings для них (если логи проиндексированы) создаются
+  // в фоне (см. waitForIndexing)
+  async refreshLogs(): Promise<RefreshResult> {
+    if (!this.source) {
+      throw new Error("Logs are not loaded. Call loadLogs() first.");
+    }
+
+    const { pattern, options } = this.source;
+    const result: RefreshResult = { added: [], newFiles: [], reloaded: [] };
+    const toIndex: { filePath: string; logs: ErrorLog[] }[] = [];
+    let files: string[];
+    try {
+      files = await resolveLogFiles(pattern);
+    } catch {
+      return result; // Файл или директория временно недоступны (ротация)
+    }
+
+    for (const filePath of files) {
+      const known = this.fileStats.get(filePath);
+      const previous = this.logsByFile.get(filePath);
+      let loaded: { file: LoadedFile; logs: ErrorLog[] };
+      try {
+        const stat = await fs.stat(filePath);
+        if (known && known.size === stat.size && known.mtimeMs === stat.mtimeMs) {
+          continue;
+        }
+
+        // Тот же файл (inode) с тем же началом, только вырос — дочитываем хвост
+        const appended =
+          known &&
+          previous &&
+          stat.ino === known.ino &&
+          stat.size > known.size &&
+          !known.partial &&
+          isLineBased(known.format)
+            ? await this.readAppended(filePath, known, stat, options)
+            : null;
+        if (previous && appended) {
+          const loadedFile = this.loadedFiles.find((file) => file.path === filePath);
+          if (loadedFile) {
+            loadedFile.records += appended.logs.length;
+            loadedFile.issues.push(...appended.issues);
+          }
+          if (appended.logs.length > 0) {
+            this.appendFileLogs(filePath, previous, appended.logs);
+            toIndex.push({ filePath, logs: appended.logs });
+          }
+          continue;
+        }
+
+        loaded = await this.readLogFile(filePath, options);
+      } catch {
+        continue; // Файл удалён между поиском и чтением
+      }
+
+      const index = this.loadedFiles.findIndex((file) => file.path === filePath);
+      if (index >= 0) {
+        this.loadedFiles[index] = loaded.file;
+      } else {
+        this.loadedFiles.push(loaded.file);
+      }
+
+      if (!previous) {
+        result.newFiles.push(loaded.file.file);
+        this.appendFileLogs(filePath, [], loaded.logs);
+        toIndex.push({ filePath, logs: loaded.logs });
+      } else if (isAppended(previous, loaded.logs)) {
+        // Уже загруженные записи остаются теми же объектами (на них
+        // ссылаются embeddings), добавляются только новые
+        const fresh = loaded.logs.slice(previous.length);
+        if (fresh.length === 0) continue;
+        this.appendFileLogs(filePath, previous, fresh);
+        toIndex.push({ filePath, logs: fresh });
+      } else {
+        result.reloaded.push(loaded.file.file);
+        this.removeFileLogs(previous);
+        this.appendFileLogs(filePath, [], loaded.logs);
+        toIndex.push({ filePath, logs: loaded.logs });
+      }
     }
+
+    for (const { logs } of toIndex) {
+      result.added.push(...logs);
+    }
+    this.scheduleIndexing(toIndex);
+    return result;
   }
 
-  // Загрузка и индексация логов
-  async loadAndIndexLogs(filePath: string): Promise<void> {
-    console.log("📂 Загрузка логов из файла...");
-    const fileContent = await fs.readFile(filePath, "utf-8");
-    this.allLogs = JSON.parse(fileContent);
+  // Приём записей извне (HTTP API): текст в любом поддерживаемом формате.
+  // Записи хранятся в памяти как отдельный источник source и, как и
+  // дочитанные, сразу попадают в статистику, а embeddings создаются в фоне.
+  // Сверх maxRecords самые старые записи источника вытесняются
+  ingestLogs(
+    content: string,
+    options: ParseOptions & { source?: string; maxRecords?: number } = {}
+  ): IngestResult {
+    const { source = INGEST_SOURCE, maxRecords, ...parseOptions } = options;
+    const result = parseLogs(content, parseOptions);
+    const previous = this.logsByFile.get(source) ?? [];
+
+    // Номер строки — сквозной по всем записям источника, в том числе вытесненным
+    const lastLine = previous[previous.length - 1]?.source?.line ?? 0;
+    const logs = result.entries.map(({ log }, idx) =>
+      this.prepareLog({
+        ...log,
+        source: { file: source, line: lastLine + idx + 1 },
+      })
+    );
+    this.appendFileLogs(source, previous, logs);
+
+    let kept = this.logsByFile.get(source) ?? [];
+    if (maxRecords !== undefined && kept.length > maxRecords) {
+      // Вытесняем с запасом в десятую часть лимита, чтобы поисковый индекс
+      // не перестраивался на каждом приёме
+      const evicted = kept.length - (maxRecords - Math.floor(maxRecords / 10));
+      this.removeFileLogs(kept.slice(0, evicted));
+      kept = kept.slice(evicted);
+      this.logsByFile.set(source, kept);
+    }
+
+    const loaded = this.loadedFiles.find((file) => file.path === source);
+    if (loaded) {
+      loaded.records = kept.length;
+    } else {
+      this.loadedFiles.push({
+        file: source,
+        path: source,
+        format: result.format,
+        records: kept.length,
+        issues: [],
+      });
+    }
 
-    console.log(`✅ Загружено ${this.allLogs.length} записей`);
+    this.scheduleIndexing([{ filePath: source, logs }]);
+    return { format: result.format, added: logs, issues: result.issues };
+  }
 
-    // Вычисляем хеш файла
-    const currentHash = await this.getFileHash(filePath);
+  // Embeddings для новых записей создаются в фоне, если логи уже
+  // проиндексированы (иначе их создаст indexLogs)
+  private scheduleIndexing(batches: { filePath: string; logs: ErrorLog[] }[]): void {
+    const pending = batches.filter(({ logs }) => logs.length > 0);
+    if (this.indexed && pending.length > 0) {
+      this.backgroundIndexing = this.backgroundIndexing.then(() =>
+        this.indexAppended(pending)
+      );
+    }
+  }
+
+  // Дождаться создания embeddings для записей, добавленных refreshLogs
+  async waitForIndexing(): Promise<void> {
+    await this.backgroundIndexing;
+  }
 
+  private appendFileLogs(
+    filePath: string,
+    previous: ErrorLog[],
+    fresh: ErrorLog[]
+  ): void {
+    this.allLogs.push(...fresh);
+    this.logsByFile.set(filePath, [...previous, ...fresh]);
+  }
+
+  // Удаление записей перезаписанного файла из логов и поискового индекса
+  private removeFileLogs(logs: ErrorLog[]): void {
+    const removed = new Set(logs);
+    logs.forEach((log) => this.removedLogs.add(log));
+    this.allLogs = this.allLogs.filter((log) => !removed.has(log));
+    this.embeddedLogs = this.embeddedLogs.filter(
+      (embeddedLog) => !removed.has(embeddedLog.log)
+    );
+    this.lexicalIndex.clear();
+    this.lexicalIndexed = 0;
+    this.annIndex = null;
+  }
+
+  // Embeddings для дочитанных записей: кеш файла дополняется, без вывода
+  // прогресса, чтобы не мешать интерактивному режиму
+  private async indexAppended(
+    batches: { filePath: string; logs: ErrorLog[] }[]
+  ): Promise<void> {
+    for (const { filePath, logs } of batches) {
+      try {
+        const entries = { ...((await this.loadCache(filePath))?.entries ?? {}) };
+        const pending: { log: ErrorLog; text: string; key: string }[] = [];
+
+        for (const log of logs) {
+          const text = recordTemplate(log);
+          const key = this.getRecordKey(text);
+          const embedding = entries[key];
+          if (embedding) {
+            this.addEmbedded(log, embedding);
+          } else {
+            pending.push({ log, text, key });
+          }
+        }
+
+        if (pending.length === 0) continue;
+        const failed = await this.embedPending(filePath, pending, entries, false);
+        if (failed > 0) {
+          this.logger.warn(
+            `⚠️  Не удалось создать embeddings для ${failed} новых записей — они не участвуют в поиске`
+          );
+        }
+        await this.saveCache(filePath, entries, true);
+      } catch (error) {
+        this.logger.warn(
+          `⚠️  Ошибка индексации новых записей: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    }
+  }
+
+  // Индексация одного файла с отдельной записью в кеше
+  private async indexFile(
+    filePath: string,
+    logs: ErrorLog[]
+  ): Promise<Omit<IndexSummary, "records">> {
     // Пытаемся загрузить кеш
-    console.log("🔍 Проверка кеша embeddings...");
+    this.logger.info("🔍 Проверка кеша embeddings...");
     const cache = await this.loadCache(filePath);
+    const cachedEntries = cache?.entries ?? {};
+
+    // Переиспользуем embeddings неизменившихся записей. Embedding строится
+    // по шаблону записи, поэтому повторы одной ошибки делят один вектор
+    const entries: Record<string, Float32Array> = {};
+    const pending: { log: ErrorLog; text: string; key: string }[] = [];
+    const templates = new Set<string>();
+
+    for (const log of logs) {
+      const text = recordTemplate(log);
+      const key = this.getRecordKey(text);
+      const embedding = entries[key] ?? cachedEntries[key];
+      templates.add(key);
+
+      if (embedding) {
+        entries[key] = embedding;
+        this.addEmbedded(log, embedding);
+      } else {
+        pending.push({ log, text, key });
+      }
+    }
 
-    if (cache && cache.fileHash === currentHash) {
-      console.log("✅ Найден валидный кеш! Загружаем embeddings из кеша...");
-      this.embeddedLogs = cache.embeddedLogs;
-      console.log(
-        `✅ Загружено ${this.embeddedLogs.length} embeddings из кеша\n`
+    if (templates.size < logs.length) {
+      this.logger.info(
+        `🧬 Уникальных шаблонов: ${templates.size} на ${logs.length} записей`
       );
-      return;
     }
 
-    // Кеш невалидный или отсутствует - создаем embeddings
-    console.log("🔄 Создание embeddings (может занять минуту)...\n");
+    // Записи, которых больше нет в файле, удаляются из кеша
+    const pruned = Object.keys(cachedEntries).filter(
+      (key) => !(key in entries)
+    ).length;
 
-    for (let i = 0; i < this.allLogs.length; i++) {
-      const log = this.allLogs[i];
-      const text = this.logToText(log);
+    if (pending.length === 0) {
+      this.logger.info(
+        `✅ Все ${logs.length} embeddings загружены из кеша${
+          pruned > 0 ? ` (удалено устаревших: ${pruned})` : ""
+        }\n`
+      );
+      if (pruned > 0) {
+        await this.saveCache(filePath, entries);
+      }
+      return { templates: templates.size, cached: logs.length, created: 0, failed: 0 };
+    }
 
-      // Показываем прогресс
-      process.stdout.write(
-        `\r   ${i + 1}/${this.allLogs.length} записей обработано...`
+    this.logger.info(
+      `🔄 Создание embeddings: новых или изменённых записей — ${
+        pending.length
+      }, из кеша — ${logs.length - pending.length}\n`
+    );
+
+    const failed = await this.embedPending(filePath, pending, entries);
+
+    this.logger.info("\n✅ Индексация завершена!");
+    if (failed > 0) {
+      this.logger.warn(
+        `⚠️  Не удалось создать embeddings для ${failed} записей — они не участвуют в поиске. Перезапустите индексацию для повтора.`
       );
+    }
 
-      const embedding = await this.ollama.createEmbedding(text);
+    // Сохраняем кеш
+    await this.saveCache(filePath, entries);
+
+    return {
+      templates: templates.size,
+      cached: logs.length - pending.length,
+      created: pending.length - failed,
+      failed,
+    };
+  }
 
-      this.embeddedLogs.push({
-        log,
-        embedding,
-        text,
-      });
+  // Создание embeddings пачками с ограниченной параллельностью и повторами.
+  // Промежуточный прогресс периодически сохраняется в кеш, поэтому после
+  // падения индексация продолжается с места остановки. Возвращает число
+  // записей, для которых embeddings создать не удалось.
+  private async embedPending(
+    filePath: string,
+    pending: { log: ErrorLog; text: string; key: string }[],
+    entries: Record<string, Float32Array>,
+    showProgress: boolean = true
+  ): Promise<number> {
+    // Одинаковые записи создают embedding один раз
+    const byKey = new Map<string, { text: string; logs: ErrorLog[] }>();
+    for (const { log, text, key } of pending) {
+      const group = byKey.get(key) ?? { text, logs: [] };
+      group.logs.push(log);
+      byKey.set(key, group);
     }
 
-    console.log("\n✅ Индексация завершена!");
+    const { batchSize, concurrency, retries, saveIntervalMs } = this.indexing;
+    const batches = chunk([...byKey.entries()], batchSize);
+    const startedAt = Date.now();
+    let done = 0;
+    let failed = 0;
+    let lastSaveAt = startedAt;
+    let saving = Promise.resolve();
+
+    const total = pending.length;
+    const progress = (message: string) => {
+      if (showProgress) this.logger.progress(message);
+    };
+    progress(`   ${formatProgress(0, total, 0)}`);
+
+    await runWithConcurrency(batches, concurrency, async (batch) => {
+      const texts = batch.map(([, group]) => group.text);
+      const batchRecords = batch.reduce(
+        (sum, [, group]) => sum + group.logs.length,
+        0
+      );
 
-    // Сохраняем кеш
-    await this.saveCache(filePath, currentHash);
+      try {
+        const embeddings = await withRetry(
+          () => this.ollama.createEmbeddings(texts),
+          {
+            retries,
+            onRetry: (error, attempt, delayMs) =>
+              this.logger.warn(
+                `\n⚠️  Ошибка embed (попытка ${attempt}/${retries}), повтор через ${formatDuration(
+                  delayMs
+                )}: ${error instanceof Error ? error.message : error}`
+              ),
+          }
+        );
+
+        batch.forEach(([key, group], idx) => {
+          const embedding = Float32Array.from(embeddings[idx]);
+          entries[key] = embedding;
+          group.logs.forEach((log) => this.addEmbedded(log, embedding));
+        });
+      } catch (error) {
+        failed += batchRecords;
+        this.logger.warn(
+          `\n⚠️  Пачка из ${batchRecords} записей пропущена: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+
+      done += batchRecords;
+      progress(
+        `   ${formatProgress(done, total, Date.now() - startedAt)}   `
+      );
+
+      // Сохраняем промежуточный прогресс (записи в кеш идут последовательно)
+      if (Date.now() - lastSaveAt >= saveIntervalMs) {
+        lastSaveAt = Date.now();
+        const snapshot = { ...entries };
+        saving = saving.then(() => this.saveCache(filePath, snapshot, true));
+      }
+    });
+
+    await saving;
+    return failed;
+  }
+
+  // Вывод предупреждения о некорректных строках (первые несколько)
+  private reportParseIssues(): void {
+    const issues = this.getParseIssues();
+    if (issues.length === 0) {
+      return;
+    }
+
+    this.logger.warn(`⚠️  Пропущено некорректных записей: ${issues.length}`);
+    issues.slice(0, 5).forEach((issue) => {
+      this.logger.warn(`   ${issue.file}:${issue.line}: ${issue.reason}`);
+    });
+    if (issues.length > 5) {
+      this.logger.warn(`   ... и ещё ${issues.length - 5}`);
+    }
   }
 
   // Преобразование лога в текст для embedding
   private logToText(log: ErrorLog): string {
+    const frame = topFrameLabel(log);
     return `
 Service: ${log.service}
 Error Type: ${log.error_type}
 Message: ${log.message}
-Timestamp: ${log.timestamp}
+Timestamp: ${log.timestamp}${frame ? `\nTop Frame: ${frame}` : ""}
 Metadata: ${JSON.stringify(log.metadata)}
     `.trim();
   }
 
-  // Cosine similarity между двумя векторами
-  private cosineSimilarity(a: number[], b: number[]): number {
-    const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-    const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-    const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-    return dotProduct / (magnitudeA * magnitudeB);
+  // Текст для лексического индекса: текст embedding плюс идентификаторы,
+  // которые в embedding не попадают (request_id, user_id, stack trace)
+  private lexicalText(embeddedLog: EmbeddedLog): string {
+    const { log } = embeddedLog;
+    return `${embeddedLog.text}
+Request ID: ${log.request_id}
+User ID: ${log.user_id ?? ""}
+Stack: ${log.stack_trace}`;
+  }
+
+  // Запись в поиск; удалённую, пока создавался её embedding, пропускаем
+  private addEmbedded(log: ErrorLog, embedding: Float32Array): void {
+    if (this.removedLogs.has(log)) return;
+    this.embeddedLogs.push({ log, embedding, text: this.logToText(log) });
+  }
+
+  // Досинхронизация лексического индекса с embeddedLogs (новые записи)
+  private syncLexicalIndex(): void {
+    for (; this.lexicalIndexed < this.embeddedLogs.length; this.lexicalIndexed++) {
+      this.lexicalIndex.add(
+        this.lexicalIndexed,
+        this.lexicalText(this.embeddedLogs[this.lexicalIndexed])
+      );
+    }
+  }
+
+  // Досинхронизация графа HNSW с embeddedLogs. Повторы одного шаблона
+  // делят массив embedding и попадают в один узел. Граф живёт только в
+  // памяти процесса и не сохраняется с кешем embeddings: построение
+  // окупается в интерактивном режиме, watch и serve, но не в разовом ask
+  private syncAnnIndex(): AnnIndex {
+    if (!this.annIndex) {
+      this.annIndex = {
+        graph: new HNSWIndex(),
+        nodeIds: [],
+        nodeByVector: new Map(),
+        indexed: 0,
+      };
+    }
+    const ann = this.annIndex;
+    for (; ann.indexed < this.embeddedLogs.length; ann.indexed++) {
+      const { embedding } = this.embeddedLogs[ann.indexed];
+      let node = ann.nodeByVector.get(embedding);
+      if (node === undefined) {
+        node = ann.graph.add(embedding);
+        ann.nodeByVector.set(embedding, node);
+        ann.nodeIds.push([]);
+      }
+      ann.nodeIds[node].push(ann.indexed);
+    }
+    return ann;
+  }
+
+  private resetSearchIndex(): void {
+    this.embeddedLogs = [];
+    this.lexicalIndex.clear();
+    this.lexicalIndexed = 0;
+    this.annIndex = null;
+  }
+
+  // Фильтр из вопроса: правила по известным значениям и времени, при
+  // включённом llmFilter — дополненные разбором вопроса моделью
+  async extractFilter(question: string): Promise<LogFilter> {
+    const known = collectKnownValues(this.allLogs);
+    const reference = latestTimestamp(this.allLogs);
+    const filter = extractFilter(question, known, reference);
+
+    if (!this.retrieval.llmFilter) {
+      return filter;
+    }
+
+    try {
+      const parsed = await this.ollama.chatJson(
+        buildFilterPrompt(known, reference),
+        question
+      );
+      return mergeFilters(filter, sanitizeFilter(parsed, known));
+    } catch (error) {
+      this.logger.warn(
+        `⚠️  Не удалось разобрать вопрос моделью, использую только правила: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+      return filter;
+    }
+  }
+
+  // Индексы embeddedLogs, подходящие под фильтр (null — без ограничений)
+  private matchingIds(filter: LogFilter): Set<number> | null {
+    if (isEmptyFilter(filter)) {
+      return null;
+    }
+    const ids = new Set<number>();
+    this.embeddedLogs.forEach((embeddedLog, id) => {
+      if (matchesFilter(embeddedLog.log, filter)) ids.add(id);
+    });
+    return ids;
   }
 
   // Поиск наиболее релевантных логов для вопроса
   async findRelevantLogs(
     question: string,
-    topK: number = 5
+    topK: number = 5,
+    options: SearchOptions = {}
   ): Promise<ErrorLog[]> {
-    // Создаем embedding для вопроса
-    const questionEmbedding = await this.ollama.createEmbedding(question);
-
-    // Вычисляем similarity для всех логов
-    const similarities = this.embeddedLogs.map((embeddedLog) => ({
-      log: embeddedLog.log,
-      similarity: this.cosineSimilarity(
-        questionEmbedding,
-        embeddedLog.embedding
-      ),
-    }));
+    const records = await this.retrieve(question, topK, options);
+    return records.map((record) => record.log);
+  }
+
+  // Поиск с оценками: сначала записи сужаются фильтром, затем ранжируются
+  // векторным сходством и BM25, объединёнными через reciprocal rank fusion
+  // с весом lexicalWeight. Повторы одного шаблона схлопываются в одну
+  // запись с количеством (dedupe)
+  async retrieve(
+    question: string,
+    topK: number = 5,
+    options: SearchOptions = {}
+  ): Promise<RetrievedRecord[]> {
+    const { lexicalWeight, rrfK, candidates, dedupe, ann } = {
+      ...this.retrieval,
+      ...options,
+    };
+    const limit = Math.max(candidates, topK);
+    if (this.redactor) {
+      question = this.redactor.redactQuestion(question);
+    }
+
+    const filter = options.filter ?? (await this.extractFilter(question));
+
+    // Embedding вопроса создаётся до обращения к embeddedLogs: после
+    // последнего await номера записей не меняются, даже если refreshLogs
+    // тем временем перезагрузил файл
+    const questionEmbedding =
+      lexicalWeight < 1 ? await this.ollama.createEmbedding(question) : null;
+
+    let allowed = this.matchingIds(filter);
+    if (allowed?.size === 0) {
+      // Явный фильтр соблюдается строго, извлечённый из вопроса — лишь подсказка
+      if (options.filter) {
+        return [];
+      }
+      this.logger.info(
+        `🔎 Под фильтр [${describeFilter(filter)}] не подошла ни одна запись, ищу по всем`
+      );
+      allowed = null;
+    }
+
+    // Записи-кандидаты по отпечаткам шаблона
+    const byFingerprint = groupBy(
+      this.embeddedLogs.map((_, id) => id).filter((id) => !allowed || allowed.has(id)),
+      (id) => templateFingerprint(this.embeddedLogs[id].log)
+    );
+
+    // Вычисляем similarity; у повторов один embedding, поэтому при dedupe
+    // достаточно первой записи каждого отпечатка
+    const similarities = new Map<number, number>();
+    const vectorCandidates = dedupe
+      ? byFingerprint.size
+      : [...byFingerprint.values()].reduce((sum, ids) => sum + ids.length, 0);
+    if (questionEmbedding && ann && vectorCandidates >= ANN_MIN_CANDIDATES) {
+      // Приближённый поиск: ближайшие узлы графа, среди записей узла —
+      // подходящие под фильтр
+      const { graph, nodeIds } = this.syncAnnIndex();
+      const accept = allowed
+        ? (node: number) => nodeIds[node].some((id) => allowed!.has(id))
+        : undefined;
+      for (const { id: node, similarity } of graph.search(questionEmbedding, limit, accept)) {
+        for (const id of nodeIds[node]) {
+          if (allowed && !allowed.has(id)) continue;
+          const representative = dedupe
+            ? byFingerprint.get(templateFingerprint(this.embeddedLogs[id].log))![0]
+            : id;
+          if (!similarities.has(representative)) {
+            similarities.set(representative, similarity);
+          }
+        }
+      }
+    } else if (questionEmbedding) {
+      for (const ids of byFingerprint.values()) {
+        for (const id of dedupe ? ids.slice(0, 1) : ids) {
+          similarities.set(
+            id,
+            cosineSimilarity(questionEmbedding, this.embeddedLogs[id].embedding)
+          );
+        }
+      }
+    }
+    const vectorRanking = [...similarities.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, limit)
+      .map(([id]) => id);
+
+    // Лексический поиск находит точные идентификаторы (req_..., IP, db.js:45)
+    this.syncLexicalIndex();
+    const lexicalRanking =
+      lexicalWeight > 0
+        ? this.lexicalIndex
+            .search(question, limit, allowed ?? undefined)
+            .map((item) => item.id)
+        : [];
+
+    const fused = reciprocalRankFusion(
+      [
+        { ids: vectorRanking, weight: 1 - lexicalWeight },
+        { ids: lexicalRanking, weight: lexicalWeight },
+      ],
+      rrfK
+    );
+
+    // Записи с точным совпадением идентификатора из вопроса идут первыми
+    const exactIds = new Set(
+      tokenize(question)
+        .filter(isIdentifier)
+        .flatMap((term) => this.lexicalIndex.documentsWithTerm(term))
+        .filter((id) => !allowed || allowed.has(id))
+    );
+    const ranked = [
+      ...fused.filter((item) => exactIds.has(item.id)),
+      ...[...exactIds]
+        .filter((id) => !fused.some((item) => item.id === id))
+        .map((id) => ({ id, score: 0 })),
+      ...fused.filter((item) => !exactIds.has(item.id)),
+    ];
+
+    const unique = dedupe
+      ? collapseDuplicates(ranked, (item) => this.embeddedLogs[item.id].log).map(
+          (group) => group.representative
+        )
+      : ranked;
+
+    return unique.slice(0, topK).map((item) => {
+      const log = this.embeddedLogs[item.id].log;
+      const group = byFingerprint.get(templateFingerprint(log)) ?? [item.id];
+      return {
+        log,
+        score: item.score,
+        similarity: similarities.get(item.id) ?? null,
+        exactMatch: exactIds.has(item.id),
+        occurrences: group.length,
+        duplicates: group
+          .filter((id) => id !== item.id)
+          .map((id) => this.embeddedLogs[id].log),
+      };
+    });
+  }
 
-    // Сортируем по similarity и берем top K
-    similarities.sort((a, b) => b.similarity - a.similarity);
+  // Строка контекста о повторах записи: сколько, за какой период, чьи ID
+  private describeRepeats(log: ErrorLog, duplicates: ErrorLog[]): string {
+    const all = [log, ...duplicates];
+    const times = all.map((item) => item.timestamp).sort();
+    const others = duplicates.map((item) => item.request_id).filter(Boolean);
+    const shown = others.slice(0, 5).join(", ");
+    const more = others.length > 5 ? ` и ещё ${others.length - 5}` : "";
+
+    return `Повторений: ${all.length} (шаблон «${messageTemplate(log.message)}», с ${
+      times[0]
+    } по ${times[times.length - 1]}${shown ? `; другие request_id: ${shown}${more}` : ""})`;
+  }
 
-    return similarities.slice(0, topK).map((item) => item.log);
+  // Общая статистика в структурированном виде (счётчики по убыванию)
+  getStatisticsData(): LogStatistics {
+    const count = (key: (log: ErrorLog) => string | null): Record<string, number> => {
+      const counts: Record<string, number> = {};
+      this.allLogs.forEach((log) => {
+        const value = key(log);
+        if (value === null) return;
+        counts[value] = (counts[value] || 0) + 1;
+      });
+      return Object.fromEntries(
+        Object.entries(counts).sort(([, a], [, b]) => b - a)
+      );
+    };
+
+    return {
+      total: this.allLogs.length,
+      byErrorType: count((log) => log.error_type),
+      byService: count((log) => log.service),
+      byTopFrame: count(topFrameLabel),
+      byFile: Object.fromEntries(
+        this.loadedFiles.map((loaded) => [loaded.file, loaded.records])
+      ),
+    };
   }
 
   // Получить общую статистику по логам
   getStatistics(): string {
-    const errorTypes: Record<string, number> = {};
-    const services: Record<string, number> = {};
+    const stats = this.getStatisticsData();
 
-    this.allLogs.forEach((log) => {
-      errorTypes[log.error_type] = (errorTypes[log.error_type] || 0) + 1;
-      services[log.service] = (services[log.service] || 0) + 1;
-    });
-
-    const sortedErrors = Object.entries(errorTypes)
-      .sort(([, a], [, b]) => b - a)
+    const sortedErrors = Object.entries(stats.byErrorType)
       .map(([type, count]) => `  - ${type}: ${count}`)
       .join("\n");
 
-    const sortedServices = Object.entries(services)
-      .sort(([, a], [, b]) => b - a)
+    const sortedServices = Object.entries(stats.byService)
       .map(([service, count]) => `  - ${service}: ${count}`)
       .join("\n");
 
+    const topFrames = Object.entries(stats.byTopFrame)
+      .slice(0, 5)
+      .map(([frame, count]) => `  - ${frame}: ${count}`)
+      .join("\n");
+
     return `
 ОБЩАЯ СТАТИСТИКА ЛОГОВ:
 -----------------------
-Всего записей: ${this.allLogs.length}
+Всего записей: ${stats.total}
 
 Ошибки по типам:
 ${sortedErrors}
 
 Ошибки по сервисам:
 ${sortedServices}
+${topFrames ? `\nМеста в коде (верхний кадр stack trace):\n${topFrames}\n` : ""}${this.getFileStatistics()}
     `.trim();
   }
 
+  // Распределение записей по файлам (только если файлов несколько)
+  private getFileStatistics(): string {
+    if (this.loadedFiles.length <= 1) {
+      return "";
+    }
+
+    const files = this.loadedFiles
+      .map((loaded) => `  - ${loaded.file}: ${loaded.records}`)
+      .join("\n");
+
+    return `\nЗаписи по файлам:\n${files}`;
+  }
+
+  // Всплески, новые типы ошибок и рост задержки по всем записям
+  // (пересчитываются, только если набор записей изменился)
+  getAnomalies(): AnomalyReport {
+    const cache = this.anomalyCache;
+    if (cache && cache.logs === this.allLogs && cache.size === this.allLogs.length) {
+      return cache.report;
+    }
+    const report = detectAnomalies(this.allLogs, this.anomalyOptions);
+    this.anomalyCache = { logs: this.allLogs, size: this.allLogs.length, report };
+    return report;
+  }
+
+  // Подбор паролей, злоупотребление лимитами и веер с одного IP по всем
+  // записям (пересчитываются, только если набор записей изменился)
+  getSecuritySignals(): SecuritySignal[] {
+    const cache = this.securityCache;
+    if (cache && cache.logs === this.allLogs && cache.size === this.allLogs.length) {
+      return cache.signals;
+    }
+    const signals = detectSecuritySignals(this.allLogs, this.securityOptions);
+    this.securityCache = { logs: this.allLogs, size: this.allLogs.length, signals };
+    return signals;
+  }
+
+  // Вероятные инциденты по всем записям. Embeddings не используются:
+  // иначе номера INC-N зависели бы от того, проиндексированы ли логи, и
+  // различались бы у команды incidents, интерактивного режима и промпта
+  getIncidents(): Incident[] {
+    const cache = this.incidentCache;
+    if (cache && cache.logs === this.allLogs && cache.size === this.allLogs.length) {
+      return cache.incidents;
+    }
+
+    const incidents = clusterIncidents(
+      this.allLogs.map((log) => ({ log })),
+      this.incidentOptions
+    );
+    this.incidentCache = { logs: this.allLogs, size: this.allLogs.length, incidents };
+    return incidents;
+  }
+
+  // Объяснение инцидента моделью: цепочка событий, причина, что проверить
+  async explainIncident(
+    id: string,
+    onToken?: (token: string) => void
+  ): Promise<string> {
+    const incident = findIncident(this.getIncidents(), id);
+    if (!incident) {
+      throw new Error(`Incident not found: ${id}`);
+    }
+
+    const userContext = this.personalization
+      ? `USER CONTEXT:\n${this.personalization.getUserContext()}\n`
+      : "";
+    const systemPrompt = `
+ROLE:
+Ты — аналитик инцидентов. Ниже записи логов, которые система сгруппировала в один вероятный инцидент (по близости во времени, общим stack trace, похожести сообщений и общим user_id/request_id).
+
+${userContext}
+
+TASK:
+1) Опиши хронологию: что сломалось первым и как ошибка распространилась по сервисам.
+2) Оцени предложенную первопричину: согласен ли ты и почему. Если записи выглядят несвязанными — скажи об этом.
+3) Дай 2-3 конкретных шага проверки или исправления.
+
+RULES:
+- Опирайся только на записи инцидента, ссылайся на них по номеру: [1], [2, 3].
+- Не выдумывай сервисы, метрики и причины, которых нет в записях.
+- Отвечай на русском, кратко.
+`.trim();
+
+    this.logger.info(`🤖 Qwen разбирает инцидент ${incident.id}...\n`);
+    return this.ollama.chat(systemPrompt, formatIncidentDetails(incident), onToken);
+  }
+
+  // Детерминированный запрос по всем загруженным записям
+  query(query: LogQuery): QueryResult {
+    return runQuery(this.allLogs, query);
+  }
+
+  // Точные ответы на типовые статистические вопросы: количество, среднее и
+  // перцентили времени ответа, top-N — с фильтром, извлечённым из вопроса
+  private getExactFacts(question: string, filter: LogFilter): string {
+    const hasFilter = !isEmptyFilter(filter);
+    const queries: LogQuery[] = [];
+
+    if (hasFilter) {
+      queries.push({ filter });
+    }
+
+    if (/врем.*ответ|response.?time|latency|задержк|средн|перцентил|медиан/i.test(question)) {
+      const field = RESPONSE_TIME_FIELD;
+      if (hasFilter) {
+        queries.push(
+          { filter, aggregate: "avg", field },
+          { filter, aggregate: "percentile", field, percentile: 50 },
+          { filter, aggregate: "percentile", field, percentile: 95 },
+          { filter, aggregate: "max", field }
+        );
+      } else {
+        queries.push({ aggregate: "avg", field, groupBy: "error_type" });
+      }
+    }
+
+    if (/топ|top|чаще|больше|самы[йея]/i.test(question)) {
+      const groupBy = /мест\p{L}* в коде|code location|функци|function|файл|file|frame|кадр|стек|stack/iu.test(
+        question
+      )
+        ? "top_frame"
+        : /сервис|service/i.test(question)
+        ? "service"
+        : "error_type";
+      queries.push({ filter, groupBy, top: 5 });
+    }
+
+    if (queries.length === 0) {
+      return "нет (вопрос не требует точных вычислений)";
+    }
+
+    return queries
+      .map((query) => formatQueryResult(query, this.query(query)))
+      .join("\n");
+  }
+
+  // Трасса запроса или пользователя по ID (request_id или user_id)
+  getTrace(id: string): Trace | null {
+    const traceId = this.redactor ? this.redactor.redactQuestion(id.trim()) : id.trim();
+    return buildTrace(this.allLogs, traceId);
+  }
+
+  // Трассы ID, названных в вопросе, для промпта модели
+  private getTraceContext(filter: LogFilter): string {
+    const ids = [filter.request_id, filter.user_id]
+      .flatMap((value) => value ?? [])
+      .slice(0, MAX_TRACES_IN_PROMPT);
+    return ids
+      .map((id) => buildTrace(this.allLogs, id))
+      .filter((trace): trace is Trace => trace !== null)
+      .map((trace) => formatTraceContext(trace))
+      .join("\n\n");
+  }
+
+  // Оповещения по правилам на текущих записях на момент now (без него —
+  // время последней записи); prime — только запомнить текущее состояние
+  // (при запуске наблюдения), не оповещая
+  evaluateAlerts(
+    engine: AlertEngine,
+    options: { prime?: boolean; now?: number } = {}
+  ): Alert[] {
+    if (options.prime) {
+      engine.prime(this.allLogs, options.now);
+      return [];
+    }
+    return engine.evaluate(this.allLogs, options.now);
+  }
+
+  // Короткая сводка модели по записям, вызвавшим оповещение
+  async summarizeAlert(alert: Alert): Promise<string> {
+    const systemPrompt = `
+ROLE:
+Ты — дежурный инженер. Сработало правило оповещения, ниже его описание и записи логов, которые его вызвали.
+
+TASK:
+В 2-3 предложениях: что происходит, какие сервисы затронуты и что проверить в первую очередь.
+
+RULES:
+- Опирайся только на приведённые записи, не выдумывай причины и метрики.
+- Отвечай на русском, без заголовков и списков.
+`.trim();
+
+    const records = alert.records.map(formatLogLine).join("\n");
+    const user = `ALERT ${alert.rule} [${alert.type}, ${alert.severity}]: ${alert.message}
+Записей: ${alert.count}${alert.count > alert.records.length ? ` (показаны последние ${alert.records.length})` : ""}
+
+RECORDS:
+${records || "нет"}`;
+    return this.ollama.chat(systemPrompt, user);
+  }
+
+  // Отчёт за смену или сутки по профилю пользователя; null без профиля
+  getDigest(
+    options: { period?: DigestPeriod; topErrors?: number; reference?: number } = {}
+  ): Digest | null {
+    const profile = this.personalization?.getProfile();
+    return profile ? buildDigest(this.allLogs, profile, options) : null;
+  }
+
+  // Раздел отчёта «что проверить»: модель по цифрам отчёта и примерам
+  // записей из сервисов пользователя
+  async suggestDigestChecks(digest: Digest): Promise<string> {
+    const userContext = this.personalization
+      ? `USER CONTEXT:\n${this.personalization.getUserContext()}\n`
+      : "";
+    const systemPrompt = `
+ROLE:
+Ты — старший инженер, готовишь сводку для коллеги по итогам ${digest.period === "shift" ? "смены" : "суток"}.
+
+${userContext}
+
+TASK:
+Напиши раздел «Что проверить»: 3-5 пунктов списком, от самого важного. Для каждого — что именно проверить и почему (рост, новая ошибка, критичная ошибка).
+
+RULES:
+- Опирайся только на цифры отчёта и приведённые записи.
+- Если ошибок мало и роста нет — так и скажи одним пунктом.
+- Отвечай на русском, кратко, в Markdown-списке без заголовка.
+`.trim();
+
+    const examples = digest.topErrors
+      .map((row) =>
+        this.allLogs.find(
+          (log) =>
+            log.service === row.service &&
+            log.error_type === row.error_type &&
+            log.timestamp === row.last
+        )
+      )
+      .filter((log): log is ErrorLog => log !== undefined)
+      .map(formatLogLine)
+      .join("\n");
+
+    const user = `${formatDigestContext(digest)}
+
+EXAMPLES (последняя запись каждой частой ошибки):
+${examples || "нет"}`;
+    return this.ollama.chat(systemPrompt, user);
+  }
+
   // Получить персонализированную сводку
   getPersonalizedSummary(): string {
     if (!this.personalization) {
@@ -243,11 +1661,30 @@ ${sortedServices}
     } в твоих сервисах (${userServices.join(", ")})`;
   }
 
-  // Задать вопрос с использованием RAG
+  // Задать вопрос с использованием RAG; signal прерывает генерацию ответа
   async askQuestion(
     question: string,
-    onToken?: (token: string) => void
-  ): Promise<string> {
+    onToken?: (token: string) => void,
+    onToolCall?: (record: ToolCallRecord) => void,
+    conversation?: Conversation,
+    signal?: AbortSignal
+  ): Promise<AskResult> {
+    const startedAt = Date.now();
+    // Ответ без поиска по логам (вопросы о профиле)
+    const plainAnswer = (answer: string): AskResult => ({
+      answer,
+      model: this.ollama.getChatModel(),
+      records: [],
+      citations: [],
+      unresolvedCitations: [],
+      toolCalls: [],
+      timings: {
+        retrievalMs: 0,
+        generationMs: 0,
+        totalMs: Date.now() - startedAt,
+      },
+    });
+
     const raw = question ?? "";
     const q = raw
       .trim()
@@ -267,12 +1704,12 @@ ${sortedServices}
         const emoji = profile.preferences.useEmoji ? "👤 " : "";
         const response = `${emoji}${profile.name}`;
         if (onToken) response.split("").forEach(onToken);
-        return response;
+        return plainAnswer(response);
       }
 
       const response = "Имя в профиле не задано.";
       if (onToken) response.split("").forEach(onToken);
-      return response;
+      return plainAnswer(response);
     }
 
     // Определяем тип вопроса
@@ -300,28 +1737,72 @@ ${this.getPersonalizedSummary()}`;
         if (onToken) {
           response.split("").forEach((char) => onToken(char));
         }
-        return response;
+        return plainAnswer(response);
       }
     }
 
+    // Персональные данные в вопросе заменяются теми же метками, что и в записях
+    if (this.redactor) {
+      question = this.redactor.redactQuestion(question);
+    }
+
     const isStatisticalQuery =
-      /сколько|какая.*чаще|какой.*больше|какая.*самая|топ|статистика/i.test(
+      /сколько|какая.*чаще|какой.*больше|какая.*самая|топ|статистика|средн|перцентил|медиан/i.test(
         question
       );
 
-    // Находим релевантные логи
-    const relevantLogs = await this.findRelevantLogs(question, 8);
+    // Уточняющий вопрос («а вчера?», «покажи эти request ID») продолжает
+    // предыдущий: наследует его фильтр и записи
+    const previous = conversation?.lastTurn();
+    const followUp = previous !== undefined && isFollowUp(question);
+
+    // Фильтр из вопроса: сервисы, типы ошибок, ID, «последний час» и т.п.
+    const questionFilter = await this.extractFilter(question);
+    const filter = followUp
+      ? mergeFilters(questionFilter, previous.filter)
+      : questionFilter;
+    if (!isEmptyFilter(filter)) {
+      this.logger.info(`🔎 Фильтр: ${describeFilter(filter)}`);
+    }
+
+    // Точные значения, посчитанные по всем записям (а не моделью)
+    const exactFacts = this.getExactFacts(question, filter);
+    // Вопрос про конкретный запрос или пользователя: вся цепочка его записей
+    const traceContext = this.getTraceContext(filter);
+
+    // Находим релевантные логи среди подходящих под фильтр; если уточнение
+    // не добавляет условий, берём записи предыдущего ответа
+    const reuseRecords =
+      followUp && isEmptyFilter(questionFilter) && previous.records.length > 0;
+    let retrieved: RetrievedRecord[] = reuseRecords
+      ? previous.records.map((log) => ({
+          log,
+          score: 0,
+          similarity: null,
+          exactMatch: false,
+          occurrences: 1,
+          duplicates: [],
+        }))
+      : await this.retrieve(question, 8, { filter });
+    if (retrieved.length === 0 && !isEmptyFilter(filter)) {
+      this.logger.info("🔎 Под фильтр не подошла ни одна запись, ищу по всем");
+      retrieved = await this.retrieve(question, 8, { filter: {} });
+    }
+    const relevantLogs = retrieved.map((record) => record.log);
 
     // Формируем контекст для модели
-    const context = relevantLogs
-      .map((log, idx) =>
+    const context = retrieved
+      .map(({ log, occurrences, duplicates }, idx) =>
         `
-[Запись ${idx + 1}]
+[Запись ${idx + 1}]${occurrences > 1 ? `\n${this.describeRepeats(log, duplicates)}` : ""}
+Request ID: ${log.request_id || "N/A"}
 Сервис: ${log.service}
 Тип ошибки: ${log.error_type}
 Сообщение: ${log.message}
 Время: ${log.timestamp}
 User ID: ${log.user_id || "N/A"}
+Место в коде: ${topFrameLabel(log) ?? "N/A"}
+Источник: ${log.source ? `${log.source.file}:${log.source.line}` : "N/A"}
 Метаданные: ${JSON.stringify(log.metadata, null, 2)}
       `.trim()
       )
@@ -401,6 +1882,20 @@ ${outputRules}
 ${responseFormat}
 `.trim();
 
+    // Сигналы безопасности; для вопросов про IP, входы и лимиты — с записями
+    const isSecurityQuery =
+      /\bip\b|ip.?адрес|безопасн|подозрит|брутфорс|brute|перебор|подбор|парол|логин|login|credential|rate.?limit|лимит|атак|взлом/i.test(
+        question
+      );
+    const securitySignals = this.getSecuritySignals();
+    const securityContext = `${formatSecuritySignals(securitySignals)}${
+      isSecurityQuery && securitySignals.length > 0
+        ? `\n\nSECURITY EVIDENCE (сигналы и записи, на которых они основаны):\n${formatSecurityDetails(
+            securitySignals
+          )}`
+        : ""
+    }`;
+
     // Системный промпт - разный для статистических и детальных вопросов
     let systemPrompt: string;
     let userMessage: string;
@@ -417,8 +1912,15 @@ AVAILABLE DATA:
 STATISTICS:
 ${this.getStatistics()}
 
+${formatAnomalies(this.getAnomalies())}
+
+${securityContext}
+
+EXACT QUERY RESULTS (посчитаны по всем записям, точные):
+${exactFacts}
+
 RULES FOR THIS MODE:
-1) Все цифры должны быть строго из STATISTICS.
+1) Все цифры должны быть строго из STATISTICS и EXACT QUERY RESULTS. Ничего не пересчитывай сам.
 2) Никаких догадок, никаких "возможно/вероятно".
 3) Если вопрос про сервисы пользователя — упомяни это в ВЫВОДЕ.
 4) Если критичная ошибка встречается — явно пометь "КРИТИЧНО ДЛЯ ТЕБЯ".
@@ -434,26 +1936,143 @@ MODE: ANALYSIS
 GLOBAL STATISTICS (для подсчётов и контекста):
 ${this.getStatistics()}
 
+${formatAnomalies(this.getAnomalies())}
+
+${securityContext}
+
+${formatIncidents(this.getIncidents())}
+
+EXACT QUERY RESULTS (посчитаны по всем записям, точные):
+${exactFacts}
+${
+  traceContext
+    ? `\nTRACES (все записи названных ID по времени, полные; связи сервисов найдены автоматически):\n${traceContext}\n`
+    : ""
+}
 CONTEXT LOGS:
 Ниже приведены примеры (${relevantLogs.length} из ${
         this.allLogs.length
       }). Они НЕ отражают полную картину.
 Используй их ТОЛЬКО для деталей (симптомы, паттерны, примеры сообщений), а не для итоговых подсчётов.
+Запись с «Повторений: N» представляет N однотипных записей, которые отличаются только ID, суммами и временем.
+
+CITATIONS (ОБЯЗАТЕЛЬНО):
+Каждый факт о конкретных записях подкрепляй ссылкой на номер записи из LOG EXAMPLES: [1], [2, 5].
+Не ссылайся на номера, которых нет в LOG EXAMPLES.
 `.trim();
 
       userMessage = `
 QUESTION:
 ${question}
 
-LOG EXAMPLES:
+LOG EXAMPLES${reuseRecords ? " (те же записи, что в предыдущем ответе)" : ""}:
 ${context}
 `.trim();
     }
 
     // Получаем ответ от модели
-    console.log("🤖 Qwen анализирует...\n");
-    const response = await this.ollama.chat(systemPrompt, userMessage, onToken);
+    this.logger.info("🤖 Qwen анализирует...\n");
+
+    const retrievedAt = Date.now();
+    const history = conversation?.toMessages() ?? [];
+    // Запоминаем обмен в истории диалога (вопрос без служебного контекста)
+    // и сопоставляем ссылки [N] из ответа с записями контекста
+    const finish = async (
+      answer: string,
+      system: string,
+      toolCalls: ToolCallRecord[] = []
+    ): Promise<AskResult> => {
+      await conversation?.addTurn({
+        question,
+        answer,
+        records: relevantLogs,
+        filter,
+      });
+      const { citations, unresolved } = resolveCitations(answer, relevantLogs);
+      const finishedAt = Date.now();
+      return {
+        answer,
+        model: this.ollama.getChatModel(),
+        records: retrieved,
+        citations,
+        unresolvedCitations: unresolved,
+        toolCalls,
+        prompt: { system, user: userMessage },
+        timings: {
+          retrievalMs: retrievedAt - startedAt,
+          generationMs: finishedAt - retrievedAt,
+          totalMs: finishedAt - startedAt,
+        },
+      };
+    };
+
+    if (this.toolsEnabled) {
+      const toolsSystemPrompt = `${systemPrompt}\n\n${TOOLS_PROMPT}`;
+      try {
+        const result = await this.ollama.chatWithTools(
+          [
+            { role: "system", content: toolsSystemPrompt },
+            ...history,
+            { role: "user", content: userMessage },
+          ],
+          LOG_TOOLS,
+          (call) => executeToolCall(call, this.getToolContext()),
+          onToken,
+          onToolCall,
+          signal
+        );
+        return finish(result.content, toolsSystemPrompt, result.toolCalls);
+      } catch (error) {
+        // Модель без поддержки tools — отключаем их и отвечаем обычным чатом
+        if (!/does not support tools/i.test(String(error))) {
+          throw error;
+        }
+        this.logger.warn(
+          `⚠️  Модель ${this.ollama.getChatModel()} не поддерживает вызов инструментов, работаю без них`
+        );
+        this.toolsEnabled = false;
+      }
+    }
+
+    const response = await this.ollama.chat(
+      systemPrompt,
+      userMessage,
+      onToken,
+      history,
+      signal
+    );
+
+    return finish(response, systemPrompt);
+  }
+
+  // Новая история диалога; старые обмены сжимает в резюме модель
+  // (если модель недоступна — Conversation строит резюме сам)
+  createConversation(options: Partial<ConversationOptions> = {}): Conversation {
+    return new Conversation(options, (summary, turns) =>
+      this.summarizeTurns(summary, turns)
+    );
+  }
+
+  private async summarizeTurns(
+    summary: string,
+    turns: ConversationTurn[]
+  ): Promise<string> {
+    const dialog = turns
+      .map((turn) => `Вопрос: ${turn.question}\nОтвет: ${turn.answer}`)
+      .join("\n\n");
+
+    return this.ollama.chat(
+      "Сожми диалог об анализе логов в краткое резюме (до 5 пунктов): о чём спрашивали, какие сервисы, ошибки, request ID и числа фигурировали. Только факты, без вступления.",
+      summary ? `Предыдущее резюме:\n${summary}\n\n${dialog}` : dialog
+    );
+  }
 
-    return response;
+  // Доступ инструментов модели к загруженным логам
+  private getToolContext(): ToolContext {
+    return {
+      getLogs: () => this.allLogs,
+      searchLogs: (query, limit, filter) =>
+        this.findRelevantLogs(query, limit, { filter }),
+    };
   }
 }
@@ -0,0 +1,191 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { RAGSystem } from "./rag.js";
+import { auditRedactions, formatRedactionAudit, Redactor } from "./redaction.js";
+import { messageTemplate } from "./templates.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+// Запись с персональными данными в сообщении и metadata
+const emailFailure = (overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    timestamp: "2024-12-10T08:30:00.000Z",
+    service: "notification-service",
+    error_type: "EmailDeliveryFailed",
+    message: "Failed to send email to john.doe@example.com from 10.0.0.7",
+    request_id: "req_1",
+    metadata: {
+      username: "john.doe@example.com",
+      ip_address: "192.168.1.100",
+      amount: 99.99,
+      headers: { authorization: "Bearer abc.def-123" },
+      provider: "sendgrid",
+    },
+    ...overrides,
+  });
+
+describe("redaction", () => {
+  const redactor = new Redactor({ salt: "pepper" });
+
+  describe("Redactor", () => {
+    it("should replace configured fields with salted hashes", () => {
+      const log = emailFailure();
+      const redacted = redactor.redactLog(log);
+
+      assert.match(redacted.user_id!, /^<user_id:[0-9a-f]{8}>$/);
+      assert.match(redacted.metadata.username, /^<username:[0-9a-f]{8}>$/);
+      // Суммы не персональные данные и нужны для агрегатов и правил
+      assert.strictEqual(redacted.metadata.amount, 99.99);
+      assert.strictEqual(redacted.metadata.provider, "sendgrid");
+      // Исходная запись не меняется
+      assert.strictEqual(log.metadata.username, "john.doe@example.com");
+    });
+
+    it("should mask the same value consistently across fields and records", () => {
+      const first = redactor.redactLog(emailFailure());
+      const second = redactor.redactLog(emailFailure({ request_id: "req_2" }));
+      const hash = (placeholder: string) => placeholder.slice(-9, -1);
+
+      assert.strictEqual(first.user_id, second.user_id);
+      assert.strictEqual(hash(first.metadata.username), hash(redactor.placeholder("email", "john.doe@example.com")));
+      assert.ok(first.message.includes(redactor.placeholder("email", "john.doe@example.com")));
+      assert.notStrictEqual(
+        new Redactor({ salt: "other" }).redactLog(emailFailure()).user_id,
+        first.user_id
+      );
+    });
+
+    it("should detect emails, IPs, cards and tokens in text", () => {
+      const text = redactor.redactText(
+        "user a.b@shop.io from 10.0.0.7 paid with 4242 4242 4242 4242, " +
+          "order 1234567890123, token=s3cr3t, key sk_live_abcdef"
+      );
+
+      assert.doesNotMatch(text, /a\.b@shop\.io|10\.0\.0\.7|4242 4242|s3cr3t|sk_live/);
+      assert.match(text, /<email:\w{8}> from <ip:\w{8}> paid with <card:\w{8}>/);
+      // Число, не проходящее проверку Луна, — не номер карты
+      assert.match(text, /order 1234567890123/);
+      assert.match(text, /token=<token:\w{8}>, key <token:\w{8}>/);
+      assert.strictEqual(redactor.redactText(text), text);
+    });
+
+    it("should mask a card number without separators only next to a card keyword", () => {
+      // Время в миллисекундах проходит проверку Луна, но это не номер карты
+      assert.strictEqual(
+        redactor.redactText("retry at 1733818523453 failed"),
+        "retry at 1733818523453 failed"
+      );
+      assert.match(redactor.redactText("card 4111111111111111 declined"), /^card <card:\w{8}> declined$/);
+
+      const redacted = redactor.redactLog(
+        emailFailure({ metadata: { card_number: "4111111111111111", started_at: "1733818523453" } })
+      );
+      assert.match(redacted.metadata.card_number, /^<card:\w{8}>$/);
+      assert.strictEqual(redacted.metadata.started_at, "1733818523453");
+    });
+
+    it("should mask nested metadata and respect the detector list", () => {
+      const redacted = redactor.redactLog(emailFailure());
+      assert.match(redacted.metadata.headers.authorization, /^Bearer <token:\w{8}>$/);
+
+      const emailsOnly = new Redactor({ salt: "pepper", fields: [], detectors: ["email"] });
+      const partial = emailsOnly.redactLog(emailFailure());
+      assert.strictEqual(partial.user_id, "user_1234");
+      assert.match(partial.message, /<email:\w{8}> from 10\.0\.0\.7$/);
+    });
+
+    it("should replace known field values in questions", () => {
+      const questionRedactor = new Redactor({ salt: "pepper" });
+      const redacted = questionRedactor.redactLog(emailFailure());
+
+      assert.strictEqual(
+        questionRedactor.redactQuestion("Что случилось у user_1234?"),
+        `Что случилось у ${redacted.user_id}?`
+      );
+      assert.strictEqual(
+        questionRedactor.redactQuestion("А у user_12345?"),
+        "А у user_12345?"
+      );
+    });
+
+    it("should require a salt", () => {
+      assert.throws(() => new Redactor(), { message: "Redaction salt must be set" });
+    });
+  });
+
+  describe("auditRedactions", () => {
+    it("should count placeholders by kind and field without original values", () => {
+      const logs = [emailFailure(), emailFailure({ user_id: "user_5678" })].map((log) =>
+        redactor.redactLog(log)
+      );
+      const audit = auditRedactions(logs);
+      const userIds = audit.find((entry) => entry.field === "user_id")!;
+
+      assert.deepStrictEqual(
+        { ...userIds, examples: userIds.examples.length },
+        { kind: "user_id", field: "user_id", occurrences: 2, records: 2, values: 2, examples: 2 }
+      );
+      assert.ok(audit.some((entry) => entry.kind === "email" && entry.field === "message"));
+      assert.doesNotMatch(JSON.stringify(audit), /john|user_1234|192\.168/);
+      assert.deepStrictEqual(auditRedactions([emailFailure()]), []);
+    });
+
+    it("should format the audit", () => {
+      assert.match(formatRedactionAudit([], false), /выключено/);
+      assert.match(
+        formatRedactionAudit(auditRedactions([redactor.redactLog(emailFailure())]), true),
+        /user_id в user_id: замен — 1, записей — 1, разных значений — 1/
+      );
+    });
+
+    it("should collapse placeholders in message templates", () => {
+      assert.strictEqual(
+        messageTemplate(redactor.redactLog(emailFailure()).message),
+        "Failed to send email to <email> from <ip>"
+      );
+    });
+  });
+
+  describe("RAGSystem", () => {
+    const testDir = join(process.cwd(), ".test-tmp", "redaction");
+
+    after(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should redact records before they are embedded or sent to the model", async () => {
+      await mkdir(testDir, { recursive: true });
+      await writeFile(join(testDir, "logs.json"), JSON.stringify([emailFailure()]));
+
+      const sent: string[] = [];
+      const ollama = new OllamaClient();
+      ollama.createEmbeddings = async (texts) => {
+        sent.push(...texts);
+        return texts.map(() => [1, 0]);
+      };
+      ollama.createEmbedding = async (text) => {
+        sent.push(text);
+        return [1, 0];
+      };
+      ollama.chat = async (system, user) => {
+        sent.push(system, user);
+        return "Ответ [1]";
+      };
+
+      const rag = new RAGSystem(ollama, { cacheDir: join(testDir, "cache") }, silentLogger);
+      rag.setToolsEnabled(false);
+      rag.setRedactionOptions({ enabled: true, salt: "pepper" });
+      await rag.loadAndIndexLogs(join(testDir, "logs.json"));
+      const result = await rag.askQuestion("Почему у user_1234 не дошло письмо?");
+
+      assert.strictEqual(result.records[0].log.user_id, redactor.redactLog(emailFailure()).user_id);
+      assert.ok(sent.some((text) => text.includes(result.records[0].log.user_id!)));
+      assert.doesNotMatch(sent.join("\n"), /john\.doe|user_1234|192\.168|10\.0\.0\.7/);
+      assert.ok(rag.getRedactionAudit().length > 0);
+    });
+  });
+});
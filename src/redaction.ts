@@ -0,0 +1,275 @@
+import * as crypto from "crypto";
+import { ErrorLog } from "./types";
+
+export type DetectorName = "email" | "ip" | "card" | "token";
+
+export const DETECTORS: DetectorName[] = ["email", "ip", "card", "token"];
+
+export interface RedactionOptions {
+  enabled: boolean;
+  salt: string; // Секрет для хешей: без него значения не восстановить перебором
+  fields: string[]; // Поля записи целиком: "user_id", "metadata.username"
+  detectors: DetectorName[]; // Поиск значений в тексте (message, stack trace, metadata)
+}
+
+export const DEFAULT_REDACTION: RedactionOptions = {
+  enabled: false,
+  salt: "",
+  fields: [
+    "user_id",
+    "metadata.username",
+    "metadata.ip_address",
+    "metadata.recipient",
+    "metadata.card_last4",
+  ],
+  detectors: [...DETECTORS],
+};
+
+// Замаскированное значение: "<email:3f2a9c1b>"
+const PLACEHOLDER = /<([a-z_][\w.]*):([0-9a-f]{8})>/g;
+const IS_PLACEHOLDER = new RegExp(`^${PLACEHOLDER.source}$`);
+
+const IPV4_OCTET = "(?:25[0-5]|2[0-4]\\d|1?\\d?\\d)";
+
+const PATTERNS: Record<DetectorName, RegExp[]> = {
+  email: [/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g],
+  ip: [
+    new RegExp(`\\b(?:${IPV4_OCTET}\\.){3}${IPV4_OCTET}\\b`, "g"),
+    /\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi,
+  ],
+  // 13–19 цифр, допускаются пробелы и дефисы; номер проверяется по Луну
+  card: [/\b\d(?:[ -]?\d){12,18}\b/g],
+  token: [
+    /\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, // JWT
+    /(?<=\bBearer\s+)[\w.~+/-]+=*/g,
+    /\b(?:sk|pk|rk)_(?:live|test)_\w+/g,
+    /\bgh[pousr]_\w{20,}/g,
+    /\bAKIA[0-9A-Z]{16}\b/g,
+    /(?<=(?<!<)\b(?:token|api[_-]?key|secret|password|passwd)["']?\s*[:=]\s*["']?)(?!<)[^\s"'&,;]+/gi,
+  ],
+};
+
+// Слово о карте перед номером или в имени поля metadata: без него слитные
+// 13–19 цифр — скорее время в миллисекундах или ID, чем номер карты
+const CARD_CONTEXT = /(?:card|pan|карт)/i;
+const CARD_CONTEXT_CHARS = 24;
+
+// Проверка номера карты по алгоритму Луна
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Маскирование записей перед индексацией: поля из списка заменяются
+// целиком, в тексте ищутся email, IP, номера карт и токены. Значение
+// заменяется меткой с солёным хешем, одинаковой для одного и того же
+// значения в любом поле, — связь записей одного пользователя сохраняется
+export class Redactor {
+  private options: RedactionOptions;
+  // Исходные значения полей → метки; только в памяти, для вопросов пользователя
+  private known = new Map<string, string>();
+  private knownPattern: RegExp | null = null;
+
+  constructor(options: Partial<RedactionOptions> = {}) {
+    this.options = { ...DEFAULT_REDACTION, ...options };
+    if (!this.options.salt) {
+      throw new Error("Redaction salt must be set");
+    }
+  }
+
+  // Метка значения: вид (поле или детектор) и первые 8 символов HMAC
+  placeholder(kind: string, value: string): string {
+    const hash = crypto
+      .createHmac("sha256", this.options.salt)
+      .update(value)
+      .digest("hex")
+      .slice(0, 8);
+    return `<${kind}:${hash}>`;
+  }
+
+  // Копия записи с замаскированными значениями
+  redactLog(log: ErrorLog): ErrorLog {
+    const redacted: ErrorLog = {
+      ...log,
+      metadata: structuredClone(log.metadata ?? {}),
+    };
+
+    for (const field of this.options.fields) {
+      this.redactPath(redacted, field.split("."));
+    }
+
+    redacted.message = this.redactText(redacted.message);
+    redacted.stack_trace = this.redactText(redacted.stack_trace ?? "");
+    if (redacted.user_id) redacted.user_id = this.redactText(redacted.user_id);
+    redacted.metadata = this.redactValue(redacted.metadata) as ErrorLog["metadata"];
+    return redacted;
+  }
+
+  // Текст с замаскированными email, IP, картами и токенами; context — имя
+  // поля, в котором лежит текст (для номера карты без разделителей)
+  redactText(text: string, context: string = ""): string {
+    let result = text;
+    for (const detector of this.options.detectors) {
+      for (const pattern of PATTERNS[detector]) {
+        result = result.replace(pattern, (match: string, offset: number, source: string) => {
+          if (detector === "card") {
+            const digits = match.replace(/\D/g, "");
+            const before = source.slice(Math.max(0, offset - CARD_CONTEXT_CHARS), offset);
+            const separated = digits.length < match.length;
+            if (!separated && !CARD_CONTEXT.test(context + " " + before)) return match;
+            if (!isLuhnValid(digits)) return match;
+            return this.placeholder(detector, digits);
+          }
+          return this.placeholder(detector, match);
+        });
+      }
+    }
+    return result;
+  }
+
+  // Вопрос пользователя: кроме детекторов заменяются уже встреченные
+  // значения полей ("user_1234" → "<user_id:…>"), чтобы по ним можно было
+  // искать среди замаскированных записей
+  redactQuestion(question: string): string {
+    let result = this.redactText(question);
+    if (this.known.size > 0) {
+      this.knownPattern ??= new RegExp(
+        `(?<![\\w.@-])(?:${[...this.known.keys()]
+          .sort((a, b) => b.length - a.length)
+          .map(escapeRegExp)
+          .join("|")})(?![\\w@-]|\\.\\w)`,
+        "g"
+      );
+      result = result.replace(this.knownPattern, (match) => this.known.get(match) ?? match);
+    }
+    return result;
+  }
+
+  // Замена значения по пути ключей; отсутствующие и null пропускаются
+  private redactPath(target: unknown, keys: string[]): void {
+    const [key, ...rest] = keys;
+    if (!target || typeof target !== "object" || !(key in target)) return;
+    const record = target as Record<string, unknown>;
+    if (rest.length > 0) {
+      this.redactPath(record[key], rest);
+      return;
+    }
+
+    const value = record[key];
+    if (value === null || value === undefined || typeof value === "object") return;
+    if (typeof value === "string" && IS_PLACEHOLDER.test(value)) return;
+
+    const original = String(value);
+    const masked = this.placeholder(key, original);
+    record[key] = masked;
+    if (typeof value === "string" && original.length >= 3 && !this.known.has(original)) {
+      this.known.set(original, masked);
+      this.knownPattern = null;
+    }
+  }
+
+  // Значение metadata; key — имя поля, в котором оно лежит
+  private redactValue(value: unknown, key: string = ""): unknown {
+    if (typeof value === "string") return this.redactText(value, key);
+    if (Array.isArray(value)) return value.map((item) => this.redactValue(item, key));
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.redactValue(item, name)])
+      );
+    }
+    return value;
+  }
+}
+
+// Что замаскировано: вид метки и поле, где она встречается
+export interface RedactionAudit {
+  kind: string; // Поле (user_id, username) или детектор (email, ip, card, token)
+  field: string; // Где найдено: user_id, message, metadata.recipient
+  occurrences: number;
+  records: number;
+  values: number; // Разных исходных значений
+  examples: string[]; // Несколько меток (сами значения не хранятся)
+}
+
+// Строковые значения записи с путями полей
+function* fieldValues(log: ErrorLog): Generator<[string, string]> {
+  yield ["message", log.message];
+  yield ["stack_trace", log.stack_trace ?? ""];
+  if (log.user_id) yield ["user_id", log.user_id];
+
+  function* walk(value: unknown, path: string): Generator<[string, string]> {
+    if (typeof value === "string") {
+      yield [path, value];
+    } else if (value && typeof value === "object") {
+      for (const [key, item] of Object.entries(value)) {
+        yield* walk(item, Array.isArray(value) ? path : `${path}.${key}`);
+      }
+    }
+  }
+  yield* walk(log.metadata, "metadata");
+}
+
+// Сводка замаскированных значений по загруженным записям
+export function auditRedactions(logs: ErrorLog[]): RedactionAudit[] {
+  const groups = new Map<
+    string,
+    { kind: string; field: string; occurrences: number; records: Set<ErrorLog>; values: Set<string> }
+  >();
+
+  for (const log of logs) {
+    for (const [field, value] of fieldValues(log)) {
+      for (const [placeholder, kind] of value.matchAll(PLACEHOLDER)) {
+        const key = `${kind}\n${field}`;
+        let group = groups.get(key);
+        if (!group) {
+          group = { kind, field, occurrences: 0, records: new Set(), values: new Set() };
+          groups.set(key, group);
+        }
+        group.occurrences++;
+        group.records.add(log);
+        group.values.add(placeholder);
+      }
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ kind, field, occurrences, records, values }) => ({
+      kind,
+      field,
+      occurrences,
+      records: records.size,
+      values: values.size,
+      examples: [...values].slice(0, 3),
+    }))
+    .sort((a, b) => b.occurrences - a.occurrences || a.field.localeCompare(b.field));
+}
+
+export function formatRedactionAudit(audit: RedactionAudit[], enabled: boolean): string {
+  if (!enabled) {
+    return '🔓 Маскирование данных выключено (включается в "redaction": { "enabled": true })';
+  }
+  if (audit.length === 0) {
+    return "🔒 Маскирование включено, замаскированных значений нет";
+  }
+
+  const lines = ["🔒 Замаскированные данные:"];
+  for (const entry of audit) {
+    lines.push(
+      `  • ${entry.kind} в ${entry.field}: замен — ${entry.occurrences}, записей — ${entry.records}, ` +
+        `разных значений — ${entry.values} (${entry.examples.join(", ")})`
+    );
+  }
+  return lines.join("\n");
+}
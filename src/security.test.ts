@@ -0,0 +1,213 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { RAGSystem } from "./rag.js";
+import {
+  detectSecuritySignals,
+  formatSecurityDetails,
+  formatSecuritySignals,
+  SecurityRule,
+} from "./security.js";
+import { logAt } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+// Неудачный вход через minute минут после 08:00
+const failedLogin = (minute: number, overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  logAt(minute, {
+    level: "WARN",
+    error_type: "InvalidCredentials",
+    message: "Invalid username or password",
+    ...overrides,
+  });
+
+const login = (minute: number, ip: string, username: string, attempt_count = 1) =>
+  failedLogin(minute, { metadata: { ip_address: ip, username, attempt_count } });
+
+const rateLimited = (minute: number, user_id: string, current_count: number) =>
+  failedLogin(minute, {
+    service: "api-gateway",
+    error_type: "RateLimitExceeded",
+    message: "Rate limit exceeded for API endpoint",
+    user_id,
+    metadata: { endpoint: "/api/v1/users", limit: 100, current_count, window_seconds: 60 },
+  });
+
+describe("security", () => {
+  describe("detectSecuritySignals", () => {
+    it("should detect brute force per IP and per username within the window", () => {
+      const logs = [
+        login(0, "10.0.0.1", "admin"),
+        login(1, "10.0.0.1", "admin"),
+        login(2, "10.0.0.1", "admin"),
+        login(3, "10.0.0.1", "admin"),
+        login(4, "10.0.0.1", "admin"),
+        login(5, "10.0.0.1", "admin"),
+        // Вне окна и ниже порога
+        login(0, "10.0.0.2", "bob"),
+        login(30, "10.0.0.2", "bob"),
+      ];
+      const signals = detectSecuritySignals(logs).filter((item) => item.kind === "brute_force");
+
+      assert.deepStrictEqual(
+        signals.map((item) => [item.subject.field, item.subject.value, item.severity]),
+        [
+          ["ip", "10.0.0.1", "high"],
+          ["username", "admin", "high"],
+        ]
+      );
+      assert.strictEqual(signals[0].evidence.length, 6);
+    });
+
+    it("should count attempt_count reported by the service", () => {
+      const signals = detectSecuritySignals([
+        login(0, "10.0.0.3", "carol", 2),
+        login(1, "10.0.0.3", "carol", 4),
+      ]);
+      assert.ok(
+        signals.some(
+          (item) =>
+            item.kind === "brute_force" &&
+            item.subject.value === "carol" &&
+            item.summary.includes(": 4 ")
+        )
+      );
+    });
+
+    it("should flag credential stuffing across usernames from one IP", () => {
+      const signals = detectSecuritySignals(
+        ["ann", "ben", "cat", "dan"].map((username, idx) => login(idx, "10.0.0.9", username))
+      );
+      const stuffing = signals.find((item) => item.kind === "credential_stuffing")!;
+
+      assert.strictEqual(stuffing.severity, "high");
+      assert.deepStrictEqual(stuffing.subject, { field: "ip", value: "10.0.0.9" });
+      assert.match(stuffing.summary, /разные учётные записи \(4: ann, ben, cat, dan\)/);
+      assert.strictEqual(signals[0], stuffing);
+    });
+
+    it("should detect repeated and excessive rate-limit hits", () => {
+      const signals = detectSecuritySignals([
+        rateLimited(0, "user_1", 156),
+        rateLimited(10, "user_1", 201),
+        rateLimited(0, "user_2", 450),
+        rateLimited(0, "user_3", 120),
+      ]).filter((item) => item.kind === "rate_limit_abuse");
+
+      assert.deepStrictEqual(
+        signals.map((item) => [item.subject.value, item.severity]),
+        [
+          ["user_1", "medium"],
+          ["user_2", "low"],
+        ]
+      );
+      assert.match(signals[0].summary, /срабатываний rate limit: 2 за 10м 00с, лимит превышен до ×2\.0/);
+    });
+
+    it("should flag an IP used by many accounts within the window", () => {
+      const logs = ["u1", "u2", "u3"].map((user_id, idx) =>
+        failedLogin(idx * 5, {
+          service: `service-${idx}`,
+          error_type: "Timeout",
+          message: "Request timed out",
+          user_id,
+          metadata: { ip_address: "10.0.0.5" },
+        })
+      );
+      const [fanOut] = detectSecuritySignals(logs);
+
+      assert.strictEqual(fanOut.kind, "ip_fan_out");
+      assert.strictEqual(fanOut.summary, "с IP 10.0.0.5 — пользователей: 3 за 10м 00с");
+      assert.deepStrictEqual(detectSecuritySignals(logs, { fanOutAccounts: 4 }), []);
+    });
+
+    it("should not flag one account across services or accounts spread over the day", () => {
+      const request = (minute: number, user_id: string, service: string) =>
+        failedLogin(minute, {
+          service,
+          error_type: "Timeout",
+          message: "Request timed out",
+          user_id,
+          metadata: { ip_address: "10.0.0.5" },
+        });
+
+      const oneUser = ["a", "b", "c", "d"].map((name, idx) => request(idx, "u1", `service-${name}`));
+      assert.deepStrictEqual(detectSecuritySignals(oneUser), []);
+
+      const spread = ["u1", "u2", "u3"].map((user_id, idx) => request(idx * 60, user_id, "api"));
+      assert.deepStrictEqual(detectSecuritySignals(spread), []);
+    });
+
+    it("should run custom rules", () => {
+      const rule: SecurityRule = (logs) => [
+        {
+          kind: "ip_fan_out",
+          severity: "low",
+          subject: { field: "client", value: "any" },
+          summary: "custom",
+          first: logs[0].timestamp,
+          last: logs[0].timestamp,
+          evidence: logs,
+        },
+      ];
+      const signals = detectSecuritySignals([login(0, "10.0.0.1", "a")], {}, [rule]);
+      assert.deepStrictEqual(signals.map((item) => item.summary), ["custom"]);
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format signals and their evidence", () => {
+      const signals = detectSecuritySignals([
+        login(0, "10.0.0.1", "admin"),
+        login(1, "10.0.0.1", "root"),
+      ]);
+
+      assert.strictEqual(formatSecuritySignals([]), "СИГНАЛЫ БЕЗОПАСНОСТИ:\n  не обнаружено");
+      assert.match(formatSecuritySignals(signals), /🟠 medium credential_stuffing: .*\(08:00–08:01, записей: 2\)/);
+      assert.match(
+        formatSecurityDetails(signals),
+        /SIGNAL credential_stuffing \[medium\] ip=10\.0\.0\.1: [^\n]+\n  - 2024-12-10T08:00:00\.000Z auth-service InvalidCredentials \(req_\d+\): ip=10\.0\.0\.1, user=admin, attempt_count=1/
+      );
+    });
+  });
+
+  describe("RAGSystem", () => {
+    const testDir = join(process.cwd(), ".test-tmp", "security");
+
+    after(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should add signal evidence to answers about one IP address", async () => {
+      await mkdir(testDir, { recursive: true });
+      await writeFile(
+        join(testDir, "logs.json"),
+        JSON.stringify([login(0, "10.0.0.1", "admin"), login(1, "10.0.0.1", "root")])
+      );
+
+      const prompts: string[] = [];
+      const ollama = new OllamaClient();
+      ollama.createEmbeddings = async (texts) => texts.map(() => [1, 0]);
+      ollama.createEmbedding = async () => [1, 0];
+      ollama.chat = async (system) => {
+        prompts.push(system);
+        return "Ответ";
+      };
+
+      const rag = new RAGSystem(ollama, { cacheDir: join(testDir, "cache") }, silentLogger);
+      rag.setToolsEnabled(false);
+      await rag.loadAndIndexLogs(join(testDir, "logs.json"));
+      assert.strictEqual(rag.getSecuritySignals()[0].kind, "credential_stuffing");
+
+      await rag.askQuestion("Есть ли проблемы с одним IP адресом?");
+      assert.match(prompts[0], /СИГНАЛЫ БЕЗОПАСНОСТИ:\n  🟠 medium credential_stuffing/);
+      assert.match(prompts[0], /SECURITY EVIDENCE[^\n]*\nSIGNAL credential_stuffing/);
+
+      await rag.askQuestion("Что с базой данных?");
+      assert.match(prompts[1], /СИГНАЛЫ БЕЗОПАСНОСТИ/);
+      assert.doesNotMatch(prompts[1], /SECURITY EVIDENCE/);
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { formatDuration } from "./batching";
+import { groupBy } from "./collections";
+import { ErrorLog } from "./types";
+
+export interface SecurityOptions {
+  windowMs: number; // Окно, в котором считаются попытки одного источника
+  failedLogins: number; // Неудачных входов с одного IP или в одну учётную запись
+  stuffingAccounts: number; // Разных учётных записей с неудачным входом с одного IP
+  rateLimitHits: number; // Срабатываний rate limit у одного клиента
+  rateLimitRatio: number; // Во сколько раз превышен лимит (current_count / limit)
+  fanOutAccounts: number; // Разных пользователей у одного IP в окне
+}
+
+export const DEFAULT_SECURITY: SecurityOptions = {
+  windowMs: 15 * 60 * 1000,
+  failedLogins: 3,
+  stuffingAccounts: 2,
+  rateLimitHits: 2,
+  rateLimitRatio: 2,
+  fanOutAccounts: 3,
+};
+
+export type SignalKind =
+  | "brute_force"
+  | "credential_stuffing"
+  | "rate_limit_abuse"
+  | "ip_fan_out";
+
+export type Severity = "low" | "medium" | "high";
+
+export interface SecuritySignal {
+  kind: SignalKind;
+  severity: Severity;
+  subject: { field: "ip" | "username" | "client"; value: string };
+  summary: string;
+  first: string;
+  last: string;
+  evidence: ErrorLog[]; // Записи, на которых основан сигнал, по времени
+}
+
+// Правило: по всем записям возвращает найденные сигналы
+export type SecurityRule = (logs: ErrorLog[], options: SecurityOptions) => SecuritySignal[];
+
+const FAILED_LOGIN_TYPE = /InvalidCredentials|AuthenticationFailed|LoginFailed|InvalidPassword|Unauthorized/i;
+const FAILED_LOGIN_MESSAGE = /invalid (username|password|credentials)|authentication failed|login failed/i;
+const RATE_LIMIT_TYPE = /RateLimit|TooManyRequests|Throttl/i;
+
+const IP_FIELDS = ["ip_address", "ip", "client_ip", "remote_addr"];
+const USERNAME_FIELDS = ["username", "login", "email"];
+
+function firstString(log: ErrorLog, fields: string[]): string | undefined {
+  for (const field of fields) {
+    const value = log.metadata?.[field];
+    if (typeof value === "string" && value) return value;
+  }
+  return undefined;
+}
+
+const ipOf = (log: ErrorLog) => firstString(log, IP_FIELDS);
+const usernameOf = (log: ErrorLog) => firstString(log, USERNAME_FIELDS) ?? (log.user_id || undefined);
+
+function isFailedLogin(log: ErrorLog): boolean {
+  return FAILED_LOGIN_TYPE.test(log.error_type) || FAILED_LOGIN_MESSAGE.test(log.message);
+}
+
+function isRateLimited(log: ErrorLog): boolean {
+  return (
+    RATE_LIMIT_TYPE.test(log.error_type) ||
+    (typeof log.metadata?.limit === "number" && typeof log.metadata?.current_count === "number")
+  );
+}
+
+function timeOf(log: ErrorLog): number {
+  return Date.parse(log.timestamp);
+}
+
+// Окно не длиннее windowMs с наибольшим числом записей (или разных
+// значений distinct); записи уже отсортированы по времени
+function bestWindow(
+  logs: ErrorLog[],
+  windowMs: number,
+  distinct?: (log: ErrorLog) => string | undefined
+): { records: ErrorLog[]; value: number } {
+  const counts = new Map<string, number>();
+  let best = { start: 0, end: 0, value: 0 };
+  let start = 0;
+
+  for (let end = 0; end < logs.length; end++) {
+    const key = distinct?.(logs[end]);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+
+    while (timeOf(logs[end]) - timeOf(logs[start]) > windowMs) {
+      const removed = distinct?.(logs[start]);
+      if (removed) {
+        const left = counts.get(removed)! - 1;
+        if (left === 0) counts.delete(removed);
+        else counts.set(removed, left);
+      }
+      start++;
+    }
+
+    const value = distinct ? counts.size : end - start + 1;
+    if (value > best.value) best = { start, end, value };
+  }
+
+  return { records: logs.slice(best.start, best.end + 1), value: best.value };
+}
+
+// Серьёзность по тому, во сколько раз превышен порог
+function severityOf(value: number, threshold: number): Severity {
+  if (value >= threshold * 2) return "high";
+  if (value >= threshold * 1.5) return "medium";
+  return "low";
+}
+
+function raise(severity: Severity): Severity {
+  return severity === "low" ? "medium" : "high";
+}
+
+function signal(
+  kind: SignalKind,
+  severity: Severity,
+  subject: SecuritySignal["subject"],
+  summary: string,
+  evidence: ErrorLog[]
+): SecuritySignal {
+  return {
+    kind,
+    severity,
+    subject,
+    summary,
+    first: evidence[0].timestamp,
+    last: evidence[evidence.length - 1].timestamp,
+    evidence,
+  };
+}
+
+function span(records: ErrorLog[]): string {
+  return formatDuration(timeOf(records[records.length - 1]) - timeOf(records[0]));
+}
+
+function maxAttempts(records: ErrorLog[]): number {
+  return Math.max(
+    0,
+    ...records.map((log) => Number(log.metadata?.attempt_count)).filter(Number.isFinite)
+  );
+}
+
+// Подбор пароля: много неудачных входов с одного IP или в одну учётную
+// запись. attempt_count учитывает попытки, не попавшие в логи
+const bruteForce: SecurityRule = (logs, options) => {
+  const failed = logs.filter(isFailedLogin);
+  const bySubject: [SecuritySignal["subject"]["field"], Map<string, ErrorLog[]>][] = [
+    ["ip", groupBy(failed, ipOf)],
+    ["username", groupBy(failed, usernameOf)],
+  ];
+
+  return bySubject.flatMap(([field, groups]) =>
+    [...groups.entries()].flatMap(([value, records]) => {
+      const window = bestWindow(records, options.windowMs);
+      const attempts = Math.max(window.value, maxAttempts(window.records));
+      if (attempts < options.failedLogins) return [];
+
+      const target = field === "ip" ? `с IP ${value}` : `в учётную запись ${value}`;
+      return [
+        signal(
+          "brute_force",
+          severityOf(attempts, options.failedLogins),
+          { field, value },
+          `неудачных попыток входа ${target}: ${attempts} за ${span(window.records)}`,
+          window.records
+        ),
+      ];
+    })
+  );
+};
+
+// Credential stuffing: с одного IP неудачные входы в разные учётные записи
+const credentialStuffing: SecurityRule = (logs, options) =>
+  [...groupBy(logs.filter(isFailedLogin), ipOf).entries()].flatMap(([ip, records]) => {
+    const window = bestWindow(records, options.windowMs, usernameOf);
+    if (window.value < options.stuffingAccounts) return [];
+
+    const accounts = [...new Set(window.records.map(usernameOf).filter(Boolean))];
+    return [
+      signal(
+        "credential_stuffing",
+        raise(severityOf(window.value, options.stuffingAccounts)),
+        { field: "ip", value: ip },
+        `неудачные входы с IP ${ip} в разные учётные записи (${accounts.length}: ${accounts.join(
+          ", "
+        )}) за ${span(window.records)}`,
+        window.records
+      ),
+    ];
+  });
+
+// Злоупотребление лимитами: клиент раз за разом упирается в rate limit
+// или превышает лимит в несколько раз
+const rateLimitAbuse: SecurityRule = (logs, options) =>
+  [
+    ...groupBy(
+      logs.filter(isRateLimited),
+      (log) => log.user_id || ipOf(log) || log.metadata?.endpoint || undefined
+    ).entries(),
+  ].flatMap(([client, records]) => {
+    const window = bestWindow(records, options.windowMs);
+    const ratio = Math.max(
+      0,
+      ...records
+        .filter((log) => log.metadata?.limit > 0)
+        .map((log) => log.metadata.current_count / log.metadata.limit)
+        .filter(Number.isFinite)
+    );
+    const repeated = window.value >= options.rateLimitHits;
+    const excessive = ratio >= options.rateLimitRatio;
+    if (!repeated && !excessive) return [];
+
+    const severity = severityOf(window.value, options.rateLimitHits);
+    const parts = [`срабатываний rate limit: ${window.value} за ${span(window.records)}`];
+    if (ratio > 0) parts.push(`лимит превышен до ×${ratio.toFixed(1)}`);
+    return [
+      signal(
+        "rate_limit_abuse",
+        repeated && excessive ? raise(severity) : severity,
+        { field: "client", value: client },
+        `клиент ${client}: ${parts.join(", ")}`,
+        excessive && !repeated ? records : window.records
+      ),
+    ];
+  });
+
+// Веер с одного IP: запросы от имени многих пользователей в одном окне —
+// признак общего прокси, бота или перехваченных сессий. Ошибки одного
+// пользователя в разных сервисах и пользователи, сменявшиеся за день, —
+// обычная работа и сигналом не считаются
+const ipFanOut: SecurityRule = (logs, options) =>
+  [...groupBy(logs, ipOf).entries()].flatMap(([ip, records]) => {
+    const window = bestWindow(records, options.windowMs, usernameOf);
+    if (window.value < options.fanOutAccounts) return [];
+
+    return [
+      signal(
+        "ip_fan_out",
+        severityOf(window.value, options.fanOutAccounts),
+        { field: "ip", value: ip },
+        `с IP ${ip} — пользователей: ${window.value} за ${span(window.records)}`,
+        window.records
+      ),
+    ];
+  });
+
+export const SECURITY_RULES: SecurityRule[] = [
+  credentialStuffing,
+  bruteForce,
+  rateLimitAbuse,
+  ipFanOut,
+];
+
+const SEVERITY_ORDER: Record<Severity, number> = { high: 0, medium: 1, low: 2 };
+
+// Сигналы безопасности по всем записям, от самых серьёзных
+export function detectSecuritySignals(
+  logs: ErrorLog[],
+  options: Partial<SecurityOptions> = {},
+  rules: SecurityRule[] = SECURITY_RULES
+): SecuritySignal[] {
+  const settings = { ...DEFAULT_SECURITY, ...options };
+  const sorted = logs
+    .filter((log) => Number.isFinite(timeOf(log)))
+    .sort((a, b) => timeOf(a) - timeOf(b));
+
+  return rules
+    .flatMap((rule) => rule(sorted, settings))
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+        b.evidence.length - a.evidence.length
+    );
+}
+
+const SEVERITY_ICONS: Record<Severity, string> = { high: "🔴", medium: "🟠", low: "🟡" };
+
+// Текстовое представление сигналов (для статистики и промпта)
+export function formatSecuritySignals(signals: SecuritySignal[]): string {
+  if (signals.length === 0) {
+    return "СИГНАЛЫ БЕЗОПАСНОСТИ:\n  не обнаружено";
+  }
+
+  const time = (iso: string) => iso.slice(11, 16);
+  const lines = signals.map(
+    (item) =>
+      `  ${SEVERITY_ICONS[item.severity]} ${item.severity} ${item.kind}: ${item.summary} ` +
+        `(${time(item.first)}–${time(item.last)}, записей: ${item.evidence.length})`
+  );
+  return `СИГНАЛЫ БЕЗОПАСНОСТИ:\n${lines.join("\n")}`;
+}
+
+// Сигналы с записями-доказательствами — для вопросов о безопасности
+export function formatSecurityDetails(signals: SecuritySignal[], maxEvidence: number = 10): string {
+  if (signals.length === 0) {
+    return formatSecuritySignals(signals);
+  }
+
+  return signals
+    .map((item) => {
+      const evidence = item.evidence.slice(0, maxEvidence).map((log) => {
+        const details = [
+          `ip=${ipOf(log) ?? "-"}`,
+          `user=${usernameOf(log) ?? "-"}`,
+          ...["attempt_count", "current_count", "limit", "endpoint"]
+            .filter((field) => log.metadata?.[field] !== undefined)
+            .map((field) => `${field}=${log.metadata[field]}`),
+        ];
+        return `  - ${log.timestamp} ${log.service} ${log.error_type} (${log.request_id || "-"}): ${details.join(", ")}`;
+      });
+      const more = item.evidence.length - evidence.length;
+      return [
+        `SIGNAL ${item.kind} [${item.severity}] ${item.subject.field}=${item.subject.value}: ${item.summary}`,
+        ...evidence,
+        ...(more > 0 ? [`  - … ещё записей: ${more}`] : []),
+      ].join("\n");
+    })
+    .join("\n\n");
+}
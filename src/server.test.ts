@@ -0,0 +1,240 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, writeFile } from "fs/promises";
+import * as http from "http";
+import { join } from "path";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { RAGSystem } from "./rag.js";
+import { ApiServer } from "./server.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+const dbError = (idx: number, overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    timestamp: `2024-12-10T08:1${idx}:00.000Z`,
+    message: "Failed to connect to PostgreSQL database",
+    user_id: null,
+    request_id: `req_${idx}`,
+    ...overrides,
+  });
+
+// Embedding по частоте букв: похожие тексты дают похожие векторы
+function embed(text: string): number[] {
+  const vector = new Array(26).fill(0);
+  for (const ch of text.toLowerCase()) {
+    const code = ch.charCodeAt(0) - 97;
+    if (code >= 0 && code < 26) vector[code]++;
+  }
+  return vector;
+}
+
+// Тело ответа JSON без проверки типа: структура проверяется в самих тестах
+async function readJson(response: Response): Promise<any> {
+  return response.json();
+}
+
+describe("ApiServer", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "server");
+  let server: ApiServer;
+  let rag: RAGSystem;
+  let ollama: OllamaClient;
+  let baseUrl: string;
+
+  before(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      join(testDir, "logs.json"),
+      JSON.stringify([
+        dbError(1),
+        dbError(2, {
+          service: "payment-service",
+          error_type: "PaymentGatewayTimeout",
+          message: "Payment gateway did not respond",
+        }),
+      ])
+    );
+
+    ollama = new OllamaClient();
+    ollama.createEmbeddings = async (texts) => texts.map(embed);
+    ollama.createEmbedding = async (text) => embed(text);
+    ollama.chat = async (_system, _user, onToken) => {
+      ["Сбой ", "базы [1]"].forEach((token) => onToken?.(token));
+      return "Сбой базы [1]";
+    };
+
+    rag = new RAGSystem(ollama, { cacheDir: join(testDir, "cache") }, silentLogger);
+    rag.setToolsEnabled(false);
+    await rag.loadAndIndexLogs(join(testDir, "logs.json"));
+
+    server = new ApiServer(rag, { port: 0, maxBodyBytes: 4096 }, {}, silentLogger);
+    const address = await server.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  after(async () => {
+    await server.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should report health and statistics", async () => {
+    const health = await readJson(await fetch(`${baseUrl}/health`));
+    assert.strictEqual(health.status, "ok");
+    assert.strictEqual(health.records, 2);
+
+    const stats = await readJson(await fetch(`${baseUrl}/stats`));
+    assert.deepStrictEqual(stats.byService, { "auth-service": 1, "payment-service": 1 });
+    assert.ok(Array.isArray(stats.incidents));
+  });
+
+  it("should search with explicit filters and validate parameters", async () => {
+    const response = await fetch(`${baseUrl}/search?q=${encodeURIComponent("database")}&service=payment-service`);
+    const body = await readJson(response);
+    assert.strictEqual(response.status, 200);
+    assert.deepStrictEqual(body.filter, { service: "payment-service" });
+    assert.deepStrictEqual(
+      body.records.map((record: { log: ErrorLog }) => record.log.request_id),
+      ["req_2"]
+    );
+
+    assert.strictEqual((await fetch(`${baseUrl}/search`)).status, 400);
+    assert.strictEqual((await fetch(`${baseUrl}/search?q=db&k=0`)).status, 400);
+    assert.strictEqual((await fetch(`${baseUrl}/search?q=db&from=yesterday`)).status, 400);
+  });
+
+  it("should answer with JSON or stream tokens over SSE", async () => {
+    const request = (headers: Record<string, string> = {}) =>
+      fetch(`${baseUrl}/ask`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify({ question: "Что с базой данных?", conversationId: "bot-1" }),
+      });
+
+    const json = await readJson(await request());
+    assert.strictEqual(json.answer, "Сбой базы [1]");
+    assert.strictEqual(json.conversationId, "bot-1");
+    assert.strictEqual(json.prompt, undefined);
+
+    const stream = await request({ Accept: "text/event-stream" });
+    assert.match(stream.headers.get("content-type") ?? "", /^text\/event-stream/);
+    const events = (await stream.text())
+      .trim()
+      .split("\n\n")
+      .map((chunk) => chunk.match(/^event: (\w+)\ndata: (.*)$/)!.slice(1));
+    assert.deepStrictEqual(
+      events.map(([event]) => event),
+      ["token", "token", "done"]
+    );
+    assert.deepStrictEqual(JSON.parse(events[0][1]), { token: "Сбой " });
+    assert.strictEqual(JSON.parse(events[2][1]).citations.length, 1);
+  });
+
+  it("should reject invalid ask requests", async () => {
+    const response = await fetch(`${baseUrl}/ask`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "[]",
+    });
+    assert.strictEqual(response.status, 400);
+    assert.deepStrictEqual(await response.json(), { error: "Request body must be a JSON object" });
+
+    // Простой запрос из формы браузера без application/json не принимается
+    const form = await fetch(`${baseUrl}/ask`, {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: JSON.stringify({ question: "Что с базой данных?" }),
+    });
+    assert.strictEqual(form.status, 415);
+  });
+
+  it("should reject requests from non-loopback origins and hosts", async () => {
+    const origin = await fetch(`${baseUrl}/health`, {
+      headers: { Origin: "https://evil.example" },
+    });
+    assert.strictEqual(origin.status, 403);
+    assert.deepStrictEqual(await origin.json(), { error: "Forbidden origin: https://evil.example" });
+
+    // fetch подставляет Host сам, поэтому запрос с чужим Host — через http
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      http
+        .get(`${baseUrl}/health`, { headers: { Host: "evil.example" } }, (response) => {
+          response.resume();
+          resolve(response.statusCode);
+        })
+        .on("error", reject);
+    });
+    assert.strictEqual(status, 403);
+
+    const local = await fetch(`${baseUrl}/health`, {
+      headers: { Origin: "http://localhost:3000" },
+    });
+    assert.strictEqual(local.status, 200);
+  });
+
+  it("should stop generating when the SSE client disconnects", async () => {
+    const chat = ollama.chat;
+    let stopped!: () => void;
+    const aborted = new Promise<void>((resolve) => (stopped = resolve));
+    ollama.chat = async (_system, _user, onToken, _history, signal) => {
+      onToken?.("Сбой ");
+      await new Promise((resolve) => signal?.addEventListener("abort", resolve));
+      stopped();
+      throw signal?.reason;
+    };
+
+    try {
+      const client = new AbortController();
+      const response = await fetch(`${baseUrl}/ask`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+        body: JSON.stringify({ question: "Что с базой данных?" }),
+        signal: client.signal,
+      });
+      await response.body!.getReader().read();
+      client.abort();
+      await aborted;
+    } finally {
+      ollama.chat = chat;
+    }
+  });
+
+  it("should ingest records and index them in the background", async () => {
+    const response = await fetch(`${baseUrl}/logs`, {
+      method: "POST",
+      body: [
+        JSON.stringify(dbError(3, { service: "inventory-service", error_type: "OutOfStock" })),
+        "{broken",
+      ].join("\n"),
+    });
+    const body = await readJson(response);
+    assert.strictEqual(response.status, 202);
+    assert.strictEqual(body.accepted, 1);
+    assert.strictEqual(body.issues.length, 1);
+    assert.strictEqual(body.total, 3);
+
+    await rag.waitForIndexing();
+    const search = await readJson(
+      await fetch(`${baseUrl}/search?q=stock&service=inventory-service`)
+    );
+    assert.deepStrictEqual(search.records[0].log.source, { file: "api", line: 1 });
+
+    assert.strictEqual((await fetch(`${baseUrl}/logs`, { method: "POST", body: "" })).status, 400);
+    const form = await fetch(`${baseUrl}/logs`, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "a=1",
+    });
+    assert.strictEqual(form.status, 415);
+    assert.strictEqual(
+      (await fetch(`${baseUrl}/logs`, { method: "POST", body: "x".repeat(5000) })).status,
+      413
+    );
+  });
+
+  it("should answer unknown routes and methods", async () => {
+    assert.strictEqual((await fetch(`${baseUrl}/nope`)).status, 404);
+    const response = await fetch(`${baseUrl}/ask`);
+    assert.strictEqual(response.status, 405);
+    assert.strictEqual(response.headers.get("allow"), "POST");
+  });
+});
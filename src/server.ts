@@ -0,0 +1,362 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Conversation, ConversationOptions } from "./conversation";
+import { isEmptyFilter } from "./intent";
+import { consoleLogger, Logger } from "./logger";
+import { validateFilter } from "./query";
+import { AskResult, RAGSystem } from "./rag";
+import { filterFromArgs } from "./tools";
+
+export interface ServerOptions {
+  host: string; // По умолчанию только локальные подключения
+  port: number;
+  maxBodyBytes: number; // Ограничение тела запроса (POST /logs)
+  maxIngestedRecords: number; // Сколько записей из POST /logs хранится в памяти
+}
+
+export const DEFAULT_SERVER: ServerOptions = {
+  host: "127.0.0.1",
+  port: 8787,
+  maxBodyBytes: 10 * 1024 * 1024,
+  maxIngestedRecords: 100_000,
+};
+
+// Сколько диалогов (conversationId) хранится одновременно
+const MAX_CONVERSATIONS = 100;
+const MAX_SEARCH_RESULTS = 100;
+
+// Типы тела POST /logs и формат, который из них следует (undefined —
+// определяется по содержимому)
+const LOG_CONTENT_TYPES = new Map<string, string | undefined>([
+  ["application/json", undefined],
+  ["application/x-ndjson", "ndjson"],
+  ["application/jsonl", "ndjson"],
+  ["text/plain", undefined],
+]);
+
+// Ошибка запроса: статус и сообщение уходят клиенту как есть
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => Promise<void>;
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  const body = JSON.stringify(data);
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Length": Buffer.byteLength(body),
+  });
+  res.end(body);
+}
+
+// Событие Server-Sent Events; после разрыва соединения ничего не пишется
+function sendEvent(res: http.ServerResponse, event: string, data: unknown): void {
+  if (res.destroyed) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Тип тела запроса без параметров (charset и т.п.)
+function mediaType(req: http.IncomingMessage): string {
+  return (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+}
+
+function isLoopback(hostname: string): boolean {
+  return (
+    hostname === "localhost" ||
+    hostname === "[::1]" ||
+    /^127\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(hostname)
+  );
+}
+
+// Ответ без промптов: они нужны для сессий, а не клиентам API
+function publicResult(result: AskResult, conversationId?: string) {
+  const { prompt: _prompt, ...rest } = result;
+  return conversationId ? { ...rest, conversationId } : rest;
+}
+
+// HTTP API поверх RAGSystem для дашбордов и ботов:
+//   GET  /health  — состояние и число записей
+//   GET  /stats   — статистика, аномалии, сигналы безопасности и инциденты
+//   GET  /search  — поиск записей (?q=, k, фильтры как у инструментов)
+//   POST /ask     — вопрос модели; с Accept: text/event-stream ответ идёт через SSE
+//   POST /logs    — приём записей в любом поддерживаемом формате
+export class ApiServer {
+  private options: ServerOptions;
+  private server: http.Server;
+  private conversations = new Map<string, Conversation>();
+  private startedAt = Date.now();
+  private routes: Record<string, Record<string, Handler>> = {
+    "/health": { GET: (_req, res) => this.health(res) },
+    "/stats": { GET: (_req, res) => this.stats(res) },
+    "/search": { GET: (_req, res, url) => this.search(res, url) },
+    "/ask": { POST: (req, res) => this.ask(req, res) },
+    "/logs": { POST: (req, res, url) => this.ingest(req, res, url) },
+  };
+
+  constructor(
+    private rag: RAGSystem,
+    options: Partial<ServerOptions> = {},
+    private conversationOptions: Partial<ConversationOptions> = {},
+    private logger: Logger = consoleLogger
+  ) {
+    this.options = { ...DEFAULT_SERVER, ...options };
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res);
+    });
+  }
+
+  // Запуск; возвращает фактический адрес (при port 0 порт выбирает система)
+  async listen(): Promise<AddressInfo> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.options.port, this.options.host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+    return this.server.address() as AddressInfo;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+
+    try {
+      this.checkOrigin(req);
+      const route = this.routes[url.pathname];
+      if (!route) {
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+      }
+      const handler = route[method];
+      if (!handler) {
+        res.setHeader("Allow", Object.keys(route).join(", "));
+        throw new HttpError(405, `Method ${method} is not allowed for ${url.pathname}`);
+      }
+      await handler(req, res, url);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      if (status === 500) {
+        this.logger.warn(`⚠️  ${method} ${url.pathname}: ${message}`);
+      }
+      // Поток SSE уже начат — ошибка отправляется событием
+      if (res.headersSent) {
+        sendEvent(res, "error", { error: message });
+        res.end();
+      } else {
+        sendJson(res, status, { error: message });
+      }
+    }
+    this.logger.info(`🌐 ${method} ${url.pathname} → ${res.statusCode}`);
+  }
+
+  // Запросы только с локальных адресов (или с настроенного host): чужая
+  // страница в браузере не может ни отправить запрос со своим Origin, ни
+  // обойти проверку через DNS rebinding — тогда не совпадёт Host
+  private checkOrigin(req: http.IncomingMessage): void {
+    const allowed = (hostname: string) =>
+      isLoopback(hostname) || hostname === this.options.host;
+    const hostname = (value: string): string => {
+      try {
+        return new URL(value).hostname;
+      } catch {
+        return "";
+      }
+    };
+
+    const host = req.headers.host ?? "";
+    if (!allowed(hostname(`http://${host}`))) {
+      throw new HttpError(403, `Forbidden host: ${host}`);
+    }
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowed(hostname(origin))) {
+      throw new HttpError(403, `Forbidden origin: ${origin}`);
+    }
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.options.maxBodyBytes) {
+        throw new HttpError(413, `Request body exceeds ${this.options.maxBodyBytes} bytes`);
+      }
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString("utf-8");
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    if (mediaType(req) !== "application/json") {
+      throw new HttpError(415, "Content-Type must be application/json");
+    }
+    const body = await this.readBody(req);
+    try {
+      const parsed = JSON.parse(body);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // Ниже — единое сообщение для любого некорректного тела
+    }
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+
+  // Диалог по ID клиента; новый ID начинает диалог, старые вытесняются
+  private getConversation(id: string): Conversation {
+    let conversation = this.conversations.get(id);
+    if (!conversation) {
+      conversation = this.rag.createConversation(this.conversationOptions);
+      this.conversations.set(id, conversation);
+      if (this.conversations.size > MAX_CONVERSATIONS) {
+        const [oldest] = this.conversations.keys();
+        this.conversations.delete(oldest);
+      }
+    }
+    return conversation;
+  }
+
+  private async health(res: http.ServerResponse): Promise<void> {
+    sendJson(res, 200, {
+      status: "ok",
+      records: this.rag.getStatisticsData().total,
+      files: this.rag.getLoadedFiles().map(({ file, records }) => ({ file, records })),
+      uptimeMs: Date.now() - this.startedAt,
+    });
+  }
+
+  private async stats(res: http.ServerResponse): Promise<void> {
+    sendJson(res, 200, {
+      ...this.rag.getStatisticsData(),
+      anomalies: this.rag.getAnomalies(),
+      security: this.rag.getSecuritySignals(),
+      incidents: this.rag.getIncidents(),
+      parseIssues: this.rag.getParseIssues(),
+    });
+  }
+
+  private async search(res: http.ServerResponse, url: URL): Promise<void> {
+    const question = url.searchParams.get("q")?.trim();
+    if (!question) {
+      throw new HttpError(400, "Query parameter q is required");
+    }
+    const k = Number(url.searchParams.get("k") ?? 5);
+    if (!Number.isInteger(k) || k < 1 || k > MAX_SEARCH_RESULTS) {
+      throw new HttpError(400, `k must be an integer from 1 to ${MAX_SEARCH_RESULTS}`);
+    }
+
+    // Явные фильтры из параметров; без них фильтр извлекается из вопроса
+    const filter = filterFromArgs(Object.fromEntries(url.searchParams));
+    try {
+      validateFilter(filter);
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    const records = await this.rag.retrieve(
+      question,
+      k,
+      isEmptyFilter(filter) ? {} : { filter }
+    );
+    sendJson(res, 200, { query: question, filter, records });
+  }
+
+  private async ask(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const body = await this.readJson(req);
+    const { question, conversationId } = body;
+    if (typeof question !== "string" || question.trim() === "") {
+      throw new HttpError(400, "question must be a non-empty string");
+    }
+    if (conversationId !== undefined && (typeof conversationId !== "string" || !conversationId)) {
+      throw new HttpError(400, "conversationId must be a non-empty string");
+    }
+    const conversation = conversationId ? this.getConversation(conversationId) : undefined;
+
+    // Клиент отключился до конца ответа — генерация моделью прерывается
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    const stream = req.headers.accept?.includes("text/event-stream");
+    if (stream) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      });
+    }
+
+    let result: AskResult;
+    try {
+      result = await this.rag.askQuestion(
+        question,
+        stream ? (token) => sendEvent(res, "token", { token }) : undefined,
+        stream ? (call) => sendEvent(res, "tool", call) : undefined,
+        conversation,
+        controller.signal
+      );
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      throw error;
+    }
+
+    if (stream) {
+      sendEvent(res, "done", publicResult(result, conversationId));
+      res.end();
+    } else {
+      sendJson(res, 200, publicResult(result, conversationId));
+    }
+  }
+
+  private async ingest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL
+  ): Promise<void> {
+    const type = mediaType(req);
+    if (!LOG_CONTENT_TYPES.has(type)) {
+      throw new HttpError(
+        415,
+        `Content-Type must be one of: ${[...LOG_CONTENT_TYPES.keys()].join(", ")}`
+      );
+    }
+    const content = await this.readBody(req);
+    if (!content.trim()) {
+      throw new HttpError(400, "Request body is empty");
+    }
+
+    let result;
+    try {
+      result = this.rag.ingestLogs(content, {
+        format: url.searchParams.get("format") ?? LOG_CONTENT_TYPES.get(type),
+        maxRecords: this.options.maxIngestedRecords,
+      });
+    } catch (error) {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    if (result.added.length === 0) {
+      sendJson(res, 400, { error: "No valid records in request body", issues: result.issues });
+      return;
+    }
+
+    // Записи сразу видны в статистике и инструментах модели, в поиск они
+    // попадают после создания embeddings в фоне
+    sendJson(res, 202, {
+      format: result.format,
+      accepted: result.added.length,
+      issues: result.issues,
+      total: this.rag.getStatisticsData().total,
+    });
+  }
+}
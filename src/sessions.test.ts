@@ -0,0 +1,189 @@
+import { describe, it, beforeEach, afterEach } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { AskResult } from "./rag.js";
+import {
+  createSession,
+  formatReplayComparison,
+  sessionToHtml,
+  sessionToMarkdown,
+  SessionStore,
+  toSessionEntry,
+} from "./sessions.js";
+import { ErrorLog } from "./types.js";
+
+const log: ErrorLog = {
+  timestamp: "2024-12-10T08:16:11.234Z",
+  level: "ERROR",
+  service: "payment-service",
+  error_type: "PaymentGatewayTimeout",
+  message: "Payment gateway timeout",
+  user_id: "user_5678",
+  request_id: "req_d4e5f6",
+  stack_trace: "",
+  metadata: {},
+  source: { file: "data/error-logs.json", line: 37 },
+};
+
+function makeResult(answer: string, model: string = "qwen2.5-coder:7b"): AskResult {
+  return {
+    answer,
+    model,
+    records: [
+      { log, score: 0.0164, similarity: 0.812, exactMatch: false, occurrences: 1, duplicates: [] },
+    ],
+    citations: [
+      {
+        marker: 1,
+        request_id: "req_d4e5f6",
+        service: "payment-service",
+        error_type: "PaymentGatewayTimeout",
+        timestamp: log.timestamp,
+        source: log.source,
+      },
+    ],
+    unresolvedCitations: [],
+    toolCalls: [{ name: "count_logs", arguments: { service: "payment-service" }, result: "3" }],
+    prompt: { system: "ROLE: <аналитик>", user: "QUESTION: что с платежами?" },
+    timings: { retrievalMs: 120, generationMs: 2300, totalMs: 2420 },
+  };
+}
+
+const meta = {
+  model: "qwen2.5-coder:7b",
+  embeddingModel: "nomic-embed-text:latest",
+  logs: "./data/error-logs.json",
+};
+
+describe("sessions", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "sessions");
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("toSessionEntry", () => {
+    it("should keep compact records with scores and sources", () => {
+      const entry = toSessionEntry(
+        "Что с платежами?",
+        makeResult("Таймауты шлюза [1]"),
+        new Date("2024-12-10T09:00:00Z")
+      );
+
+      assert.strictEqual(entry.askedAt, "2024-12-10T09:00:00.000Z");
+      assert.deepStrictEqual(entry.records, [
+        {
+          request_id: "req_d4e5f6",
+          service: "payment-service",
+          error_type: "PaymentGatewayTimeout",
+          timestamp: log.timestamp,
+          score: 0.0164,
+          similarity: 0.812,
+          source: { file: "data/error-logs.json", line: 37 },
+        },
+      ]);
+      assert.strictEqual(entry.prompt?.user, "QUESTION: что с платежами?");
+    });
+  });
+
+  describe("SessionStore", () => {
+    it("should save, list newest first and load by prefix", async () => {
+      const store = new SessionStore(testDir);
+      const older = createSession(meta, new Date("2024-12-10T08:00:00Z"));
+      const newer = createSession(meta, new Date("2024-12-11T08:00:00Z"));
+      newer.entries.push(toSessionEntry("Что с платежами?", makeResult("ok"), new Date()));
+      await store.save(older);
+      await store.save(newer);
+
+      const sessions = await store.list();
+      assert.deepStrictEqual(
+        sessions.map((session) => [session.id, session.questions, session.firstQuestion]),
+        [
+          [newer.id, 1, "Что с платежами?"],
+          [older.id, 0, undefined],
+        ]
+      );
+
+      assert.strictEqual((await store.load("last")).id, newer.id);
+      assert.strictEqual((await store.load("2024-12-10")).id, older.id);
+    });
+
+    it("should reject unknown and ambiguous ids", async () => {
+      const store = new SessionStore(testDir);
+      await store.save(createSession(meta, new Date("2024-12-10T08:00:00Z")));
+      await store.save(createSession(meta, new Date("2024-12-10T09:00:00Z")));
+
+      await assert.rejects(() => store.load("2030"), { message: "Session not found: 2030" });
+      await assert.rejects(() => store.load("2024-12-10"), {
+        message: /^Ambiguous session id 2024-12-10:/,
+      });
+    });
+
+    it("should skip damaged files and return nothing for a missing directory", async () => {
+      await writeFile(join(testDir, "broken.json"), "{ nope");
+      assert.deepStrictEqual(await new SessionStore(testDir).list(), []);
+      assert.deepStrictEqual(await new SessionStore(join(testDir, "missing")).list(), []);
+    });
+  });
+
+  describe("export", () => {
+    const session = createSession(meta, new Date("2024-12-10T08:00:00Z"));
+    session.entries.push(
+      toSessionEntry("Что с платежами?", makeResult("Таймауты шлюза [1]"), new Date())
+    );
+
+    it("should render markdown with sources, tools and prompts", () => {
+      const markdown = sessionToMarkdown(session);
+
+      assert.match(markdown, /^# Сессия анализа 2024-12-10T08-00-00-[0-9a-f]{4}\n/);
+      assert.match(markdown, /## 1\. Что с платежами\?/);
+      assert.match(markdown, /поиск 0\.1с, ответ 2\.3с/);
+      assert.match(
+        markdown,
+        /- \[1\] payment-service PaymentGatewayTimeout — req_d4e5f6 \(data\/error-logs\.json:37\)/
+      );
+      assert.match(markdown, /`count_logs\(\{"service":"payment-service"\}\)`/);
+      assert.match(markdown, /<summary>Промпт<\/summary>/);
+    });
+
+    it("should escape html", () => {
+      const html = sessionToHtml(session);
+
+      assert.match(html, /^<!DOCTYPE html>/);
+      assert.match(html, /ROLE: &lt;аналитик&gt;/);
+      assert.doesNotMatch(html, /<аналитик>/);
+    });
+  });
+
+  describe("formatReplayComparison", () => {
+    it("should show both answers and changed sources", () => {
+      const before = toSessionEntry("Что с платежами?", makeResult("Таймауты [1]"), new Date());
+      const after = toSessionEntry(
+        "Что с платежами?",
+        { ...makeResult("Отказы карт", "llama3.1:8b"), citations: [] },
+        new Date()
+      );
+
+      assert.strictEqual(
+        formatReplayComparison(before, after),
+        [
+          "❓ Что с платежами?",
+          "",
+          "— было (qwen2.5-coder:7b, 2.4с):",
+          "Таймауты [1]",
+          "",
+          "— стало (llama3.1:8b, 2.4с):",
+          "Отказы карт",
+          "",
+          "📎 Источники: −req_d4e5f6",
+        ].join("\n")
+      );
+    });
+  });
+});
@@ -0,0 +1,365 @@
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Citation } from "./citations";
+import { ToolCallRecord } from "./ollama";
+import { AskResult, AskTimings } from "./rag";
+import { LogSource } from "./types";
+
+// Запись контекста в сессии — без embeddings и полного текста
+export interface SessionRecord {
+  request_id: string;
+  service: string;
+  error_type: string;
+  timestamp: string;
+  score: number;
+  similarity: number | null;
+  source?: LogSource;
+}
+
+// Один вопрос сессии со всем, что нужно для разбора и повтора
+export interface SessionEntry {
+  question: string;
+  answer: string;
+  model: string;
+  askedAt: string;
+  timings: AskTimings;
+  records: SessionRecord[];
+  citations: Citation[];
+  toolCalls: ToolCallRecord[];
+  prompt?: { system: string; user: string };
+}
+
+export interface Session {
+  id: string;
+  startedAt: string;
+  updatedAt: string;
+  model: string;
+  embeddingModel: string;
+  logs: string; // Путь или glob, по которому загружались логи
+  replayOf?: string; // ID исходной сессии для повтора
+  entries: SessionEntry[];
+}
+
+export interface SessionSummary {
+  id: string;
+  startedAt: string;
+  model: string;
+  logs: string;
+  questions: number;
+  replayOf?: string;
+  firstQuestion?: string;
+}
+
+export function createSession(
+  meta: Pick<Session, "model" | "embeddingModel" | "logs" | "replayOf">,
+  now: Date = new Date()
+): Session {
+  // ID сортируется по времени: 2024-12-10T08-15-23-4f2a
+  const id = `${now.toISOString().slice(0, 19).replace(/:/g, "-")}-${crypto
+    .randomBytes(2)
+    .toString("hex")}`;
+  return {
+    id,
+    startedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    ...meta,
+    entries: [],
+  };
+}
+
+export function toSessionEntry(
+  question: string,
+  result: AskResult,
+  askedAt: Date
+): SessionEntry {
+  return {
+    question,
+    answer: result.answer,
+    model: result.model,
+    askedAt: askedAt.toISOString(),
+    timings: result.timings,
+    records: result.records.map(({ log, score, similarity }) => ({
+      request_id: log.request_id,
+      service: log.service,
+      error_type: log.error_type,
+      timestamp: log.timestamp,
+      score,
+      similarity,
+      ...(log.source ? { source: log.source } : {}),
+    })),
+    citations: result.citations,
+    toolCalls: result.toolCalls,
+    ...(result.prompt ? { prompt: result.prompt } : {}),
+  };
+}
+
+// Хранилище сессий: один JSON-файл на сессию
+export class SessionStore {
+  constructor(private dir: string) {}
+
+  private filePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  // Сохранение после каждого вопроса: прерванная сессия не теряется
+  async save(session: Session): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    session.updatedAt = new Date().toISOString();
+    const filePath = this.filePath(session.id);
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(session, null, 2));
+    await fs.rename(tmpPath, filePath);
+  }
+
+  // Сессии от новых к старым
+  async list(): Promise<SessionSummary[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const file of files.filter((name) => name.endsWith(".json")).sort().reverse()) {
+      try {
+        const session = await this.read(path.join(this.dir, file));
+        summaries.push({
+          id: session.id,
+          startedAt: session.startedAt,
+          model: session.model,
+          logs: session.logs,
+          questions: session.entries.length,
+          ...(session.replayOf ? { replayOf: session.replayOf } : {}),
+          ...(session.entries[0] ? { firstQuestion: session.entries[0].question } : {}),
+        });
+      } catch {
+        // Повреждённые файлы пропускаем, чтобы список оставался доступен
+      }
+    }
+    return summaries;
+  }
+
+  // Загрузка по ID, уникальному префиксу ID или "last"
+  async load(idOrPrefix: string): Promise<Session> {
+    const sessions = await this.list();
+    const matches =
+      idOrPrefix === "last"
+        ? sessions.slice(0, 1)
+        : sessions.filter((session) => session.id.startsWith(idOrPrefix));
+
+    if (matches.length === 0) {
+      throw new Error(`Session not found: ${idOrPrefix}`);
+    }
+    const exact = matches.find((session) => session.id === idOrPrefix);
+    if (!exact && matches.length > 1) {
+      throw new Error(
+        `Ambiguous session id ${idOrPrefix}: ${matches.map((session) => session.id).join(", ")}`
+      );
+    }
+    return this.read(this.filePath((exact ?? matches[0]).id));
+  }
+
+  private async read(filePath: string): Promise<Session> {
+    const session = JSON.parse(await fs.readFile(filePath, "utf-8")) as Session;
+    if (!session.id || !Array.isArray(session.entries)) {
+      throw new Error(`Invalid session file: ${filePath}`);
+    }
+    return session;
+  }
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}с`;
+}
+
+function sourceLabel(record: { request_id: string; source?: LogSource }): string {
+  const location = record.source ? ` (${record.source.file}:${record.source.line})` : "";
+  return `${record.request_id || "-"}${location}`;
+}
+
+// Экспорт сессии в Markdown для разбора инцидента
+export function sessionToMarkdown(session: Session): string {
+  const lines = [
+    `# Сессия анализа ${session.id}`,
+    "",
+    `- Начало: ${session.startedAt}`,
+    `- Модель: ${session.model}, embeddings: ${session.embeddingModel}`,
+    `- Логи: \`${session.logs}\``,
+    ...(session.replayOf ? [`- Повтор сессии: ${session.replayOf}`] : []),
+    `- Вопросов: ${session.entries.length}`,
+  ];
+
+  session.entries.forEach((entry, idx) => {
+    lines.push(
+      "",
+      `## ${idx + 1}. ${entry.question}`,
+      "",
+      `_${entry.askedAt} · ${entry.model} · поиск ${formatSeconds(
+        entry.timings.retrievalMs
+      )}, ответ ${formatSeconds(entry.timings.generationMs)}_`,
+      "",
+      entry.answer.trim()
+    );
+
+    if (entry.citations.length > 0) {
+      lines.push("", "**Источники:**", "");
+      for (const citation of entry.citations) {
+        lines.push(`- [${citation.marker}] ${citation.service} ${citation.error_type} — ${sourceLabel(citation)}`);
+      }
+    }
+
+    if (entry.toolCalls.length > 0) {
+      lines.push("", "**Вызовы инструментов:**", "");
+      for (const call of entry.toolCalls) {
+        lines.push(`- \`${call.name}(${JSON.stringify(call.arguments)})\``);
+      }
+    }
+
+    if (entry.records.length > 0) {
+      lines.push("", "<details><summary>Записи в контексте</summary>", "");
+      entry.records.forEach((record, recordIdx) => {
+        const similarity =
+          record.similarity === null ? "" : `, similarity ${record.similarity.toFixed(3)}`;
+        lines.push(
+          `${recordIdx + 1}. ${record.timestamp} ${record.service} ${record.error_type} — ${sourceLabel(
+            record
+          )} (score ${record.score.toFixed(4)}${similarity})`
+        );
+      });
+      lines.push("", "</details>");
+    }
+
+    if (entry.prompt) {
+      lines.push(
+        "",
+        "<details><summary>Промпт</summary>",
+        "",
+        "```text",
+        entry.prompt.system,
+        "",
+        entry.prompt.user,
+        "```",
+        "",
+        "</details>"
+      );
+    }
+  });
+
+  return `${lines.join("\n")}\n`;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Экспорт сессии в самодостаточный HTML
+export function sessionToHtml(session: Session): string {
+  const entries = session.entries
+    .map((entry, idx) => {
+      const citations = entry.citations.length
+        ? `<h3>Источники</h3><ul>${entry.citations
+            .map(
+              (citation) =>
+                `<li>[${citation.marker}] ${escapeHtml(
+                  `${citation.service} ${citation.error_type} — ${sourceLabel(citation)}`
+                )}</li>`
+            )
+            .join("")}</ul>`
+        : "";
+      const toolCalls = entry.toolCalls.length
+        ? `<h3>Вызовы инструментов</h3><ul>${entry.toolCalls
+            .map(
+              (call) =>
+                `<li><code>${escapeHtml(`${call.name}(${JSON.stringify(call.arguments)})`)}</code></li>`
+            )
+            .join("")}</ul>`
+        : "";
+      const records = entry.records.length
+        ? `<details><summary>Записи в контексте</summary><ol>${entry.records
+            .map(
+              (record) =>
+                `<li>${escapeHtml(
+                  `${record.timestamp} ${record.service} ${record.error_type} — ${sourceLabel(record)}`
+                )}</li>`
+            )
+            .join("")}</ol></details>`
+        : "";
+      const prompt = entry.prompt
+        ? `<details><summary>Промпт</summary><pre>${escapeHtml(
+            `${entry.prompt.system}\n\n${entry.prompt.user}`
+          )}</pre></details>`
+        : "";
+
+      return `<section>
+<h2>${idx + 1}. ${escapeHtml(entry.question)}</h2>
+<p class="meta">${escapeHtml(entry.askedAt)} · ${escapeHtml(entry.model)} · поиск ${formatSeconds(
+        entry.timings.retrievalMs
+      )}, ответ ${formatSeconds(entry.timings.generationMs)}</p>
+<pre class="answer">${escapeHtml(entry.answer.trim())}</pre>
+${citations}${toolCalls}${records}${prompt}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>Сессия анализа ${escapeHtml(session.id)}</title>
+<style>
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+.meta { color: #656d76; font-size: 0.9em; }
+pre { white-space: pre-wrap; background: #f6f8fa; padding: 0.75rem; border-radius: 6px; }
+section { border-top: 1px solid #d0d7de; margin-top: 1.5rem; }
+</style>
+</head>
+<body>
+<h1>Сессия анализа ${escapeHtml(session.id)}</h1>
+<ul>
+<li>Начало: ${escapeHtml(session.startedAt)}</li>
+<li>Модель: ${escapeHtml(session.model)}, embeddings: ${escapeHtml(session.embeddingModel)}</li>
+<li>Логи: <code>${escapeHtml(session.logs)}</code></li>
+${session.replayOf ? `<li>Повтор сессии: ${escapeHtml(session.replayOf)}</li>\n` : ""}<li>Вопросов: ${
+    session.entries.length
+  }</li>
+</ul>
+${entries}
+</body>
+</html>
+`;
+}
+
+// Сравнение исходного ответа и ответа при повторе
+export function formatReplayComparison(original: SessionEntry, replayed: SessionEntry): string {
+  const before = new Set(original.citations.map((citation) => citation.request_id));
+  const after = new Set(replayed.citations.map((citation) => citation.request_id));
+  const added = [...after].filter((id) => !before.has(id));
+  const removed = [...before].filter((id) => !after.has(id));
+
+  const lines = [
+    `❓ ${original.question}`,
+    "",
+    `— было (${original.model}, ${formatSeconds(original.timings.totalMs)}):`,
+    original.answer.trim(),
+    "",
+    `— стало (${replayed.model}, ${formatSeconds(replayed.timings.totalMs)}):`,
+    replayed.answer.trim(),
+  ];
+  if (added.length > 0 || removed.length > 0) {
+    lines.push(
+      "",
+      `📎 Источники: ${[
+        ...added.map((id) => `+${id}`),
+        ...removed.map((id) => `−${id}`),
+      ].join(" ")}`
+    );
+  }
+  return lines.join("\n");
+}
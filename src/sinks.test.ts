@@ -0,0 +1,198 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { readFile, rm } from "fs/promises";
+import { join } from "path";
+import { Alert } from "./alerts.js";
+import { Logger } from "./logger.js";
+import { AlertSink, createSink, deliverAlerts, validateSinkConfig } from "./sinks.js";
+
+function makeAlert(rule: string): Alert {
+  return {
+    id: `${rule}:*@2024-12-10T08:05:00.000Z`,
+    rule,
+    type: "threshold",
+    severity: "critical",
+    group: {},
+    message: "записей за 5м 00с: 3 (порог 3)",
+    firedAt: "2024-12-10T08:05:00.000Z",
+    count: 1,
+    records: [
+      {
+        timestamp: "2024-12-10T08:05:00.000Z",
+        level: "ERROR",
+        service: "payment-service",
+        error_type: "PaymentGatewayTimeout",
+        message: "Payment gateway did not respond",
+        user_id: null,
+        request_id: "req_1",
+        stack_trace: "",
+        metadata: {},
+      },
+    ],
+  };
+}
+
+// Получатель в памяти: запоминает, что ему отправили
+function memorySink(name: string, sent: Alert[], fail = false): AlertSink {
+  return {
+    name,
+    async send(alert) {
+      if (fail) throw new Error("unreachable");
+      sent.push(alert);
+    },
+  };
+}
+
+function recordingLogger(warnings: string[]): Logger {
+  return { info: () => {}, warn: (message) => warnings.push(message), progress: () => {} };
+}
+
+describe("sinks", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "sinks");
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should append alerts to a JSON Lines file", async () => {
+    const filePath = join(testDir, "alerts", "alerts.jsonl");
+    const sink = createSink({ type: "file", path: filePath });
+    assert.strictEqual(sink.name, "file");
+
+    await sink.send(makeAlert("first"));
+    await sink.send(makeAlert("second"));
+
+    const lines = (await readFile(filePath, "utf-8")).trim().split("\n");
+    assert.deepStrictEqual(
+      lines.map((line) => JSON.parse(line).rule),
+      ["first", "second"]
+    );
+  });
+
+  it("should POST alerts to a webhook and fail on error status", async () => {
+    const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    let status = 204;
+    const server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk);
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString("utf-8") });
+      res.writeHead(status).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const sink = createSink({
+        type: "webhook",
+        name: "oncall",
+        url: `http://127.0.0.1:${port}/hooks/alerts`,
+        headers: { Authorization: "Bearer secret" },
+      });
+      await sink.send(makeAlert("timeouts"));
+
+      assert.strictEqual(received.length, 1);
+      assert.strictEqual(received[0].headers.authorization, "Bearer secret");
+      assert.strictEqual(received[0].headers["content-type"], "application/json");
+      assert.strictEqual(JSON.parse(received[0].body).rule, "timeouts");
+
+      status = 500;
+      await assert.rejects(() => sink.send(makeAlert("timeouts")), /Webhook responded with 500/);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should deliver to the rule's sinks, summarize and survive failures", async () => {
+    const oncall: Alert[] = [];
+    const archive: Alert[] = [];
+    const warnings: string[] = [];
+    const sinks = [
+      memorySink("oncall", oncall),
+      memorySink("archive", archive),
+      memorySink("broken", [], true),
+    ];
+    const rules = [
+      { name: "critical", type: "threshold" as const, sinks: ["oncall", "broken"], summarize: true },
+      { name: "info", type: "threshold" as const },
+    ];
+
+    const alerts = [makeAlert("critical"), makeAlert("info")];
+    const { delivered, failed } = await deliverAlerts(alerts, rules, sinks, {
+      summarize: false,
+      summarizeAlert: async (alert) => `  Сводка: ${alert.rule}\n`,
+      logger: recordingLogger(warnings),
+    });
+
+    assert.deepStrictEqual(
+      oncall.map((alert) => [alert.rule, alert.summary]),
+      [
+        ["critical", "Сводка: critical"],
+        ["info", undefined],
+      ]
+    );
+    assert.deepStrictEqual(
+      archive.map((alert) => alert.rule),
+      ["info"]
+    );
+    assert.strictEqual(delivered[0].summary, "Сводка: critical");
+    assert.deepStrictEqual(failed, []);
+    assert.deepStrictEqual(warnings, [
+      "⚠️  Оповещение critical не отправлено в broken: Error: unreachable",
+      "⚠️  Оповещение info не отправлено в broken: Error: unreachable",
+    ]);
+  });
+
+  it("should report alerts that no sink accepted", async () => {
+    const sent: Alert[] = [];
+    const sinks = [memorySink("oncall", sent), memorySink("broken", [], true)];
+    const rules = [{ name: "critical", type: "threshold" as const, sinks: ["broken"] }];
+
+    const { delivered, failed } = await deliverAlerts(
+      [makeAlert("critical"), makeAlert("info")],
+      rules,
+      sinks,
+      { logger: recordingLogger([]) }
+    );
+
+    assert.deepStrictEqual(
+      delivered.map((alert) => alert.rule),
+      ["info"]
+    );
+    assert.deepStrictEqual(
+      failed.map((alert) => alert.rule),
+      ["critical"]
+    );
+  });
+
+  it("should send alerts without summary when the model fails", async () => {
+    const sent: Alert[] = [];
+    const warnings: string[] = [];
+    await deliverAlerts([makeAlert("critical")], [], [memorySink("console", sent)], {
+      summarize: true,
+      summarizeAlert: async () => {
+        throw new Error("model is down");
+      },
+      logger: recordingLogger(warnings),
+    });
+
+    assert.strictEqual(sent.length, 1);
+    assert.strictEqual(sent[0].summary, undefined);
+    assert.match(warnings[0], /Сводка для оповещения critical не получена: Error: model is down/);
+  });
+
+  it("should validate sink configuration", () => {
+    assert.throws(() => validateSinkConfig({ type: "slack" }, 0), {
+      message: "alerts.sinks[0].type must be one of: webhook, file, desktop, console",
+    });
+    assert.throws(() => validateSinkConfig({ type: "webhook", url: "ftp://host" }, 1), {
+      message: "alerts.sinks[1].url must be an http(s) URL",
+    });
+    assert.throws(() => validateSinkConfig({ type: "file" }, 2), {
+      message: "alerts.sinks[2].path must be a non-empty string",
+    });
+    assert.doesNotThrow(() => validateSinkConfig({ type: "desktop", name: "laptop" }, 0));
+  });
+});
@@ -0,0 +1,189 @@
+import { execFile } from "child_process";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { promisify } from "util";
+import { Alert, AlertRule, formatAlertLine } from "./alerts";
+import { consoleLogger, Logger } from "./logger";
+
+export type SinkType = "webhook" | "file" | "desktop" | "console";
+
+export const SINK_TYPES: SinkType[] = ["webhook", "file", "desktop", "console"];
+
+// Получатель из конфигурации; name нужен для alerts.rules[].sinks
+// (по умолчанию совпадает с type)
+export type SinkConfig =
+  | { type: "webhook"; name?: string; url: string; headers?: Record<string, string>; timeoutMs?: number }
+  | { type: "file"; name?: string; path: string }
+  | { type: "desktop"; name?: string }
+  | { type: "console"; name?: string };
+
+export interface AlertSink {
+  name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+const execFileAsync = promisify(execFile);
+
+// Проверка получателя из конфигурации
+export function validateSinkConfig(sink: unknown, index: number): void {
+  const prefix = `alerts.sinks[${index}]`;
+  if (!sink || typeof sink !== "object" || Array.isArray(sink)) {
+    throw new Error(`${prefix} must be an object`);
+  }
+  const value = sink as Record<string, unknown>;
+
+  if (!SINK_TYPES.includes(value.type as SinkType)) {
+    throw new Error(`${prefix}.type must be one of: ${SINK_TYPES.join(", ")}`);
+  }
+  if (value.name !== undefined && (typeof value.name !== "string" || !value.name)) {
+    throw new Error(`${prefix}.name must be a non-empty string`);
+  }
+  if (value.type === "webhook") {
+    try {
+      const url = new URL(String(value.url));
+      if (!["http:", "https:"].includes(url.protocol)) throw new Error();
+    } catch {
+      throw new Error(`${prefix}.url must be an http(s) URL`);
+    }
+    if (
+      value.timeoutMs !== undefined &&
+      (typeof value.timeoutMs !== "number" || !(value.timeoutMs > 0))
+    ) {
+      throw new Error(`${prefix}.timeoutMs must be a positive number`);
+    }
+  }
+  if (value.type === "file" && (typeof value.path !== "string" || !value.path)) {
+    throw new Error(`${prefix}.path must be a non-empty string`);
+  }
+}
+
+// POST с JSON оповещения; ответ не 2xx считается ошибкой
+function webhookSink(config: Extract<SinkConfig, { type: "webhook" }>): AlertSink {
+  return {
+    name: config.name ?? config.type,
+    async send(alert) {
+      const response = await fetch(config.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...config.headers },
+        body: JSON.stringify(alert),
+        signal: AbortSignal.timeout(config.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+    },
+  };
+}
+
+// Строка JSON на оповещение (JSON Lines): файл удобно читать tail -f и jq
+function fileSink(config: Extract<SinkConfig, { type: "file" }>): AlertSink {
+  return {
+    name: config.name ?? config.type,
+    async send(alert) {
+      await fs.mkdir(path.dirname(config.path), { recursive: true });
+      await fs.appendFile(config.path, `${JSON.stringify(alert)}\n`);
+    },
+  };
+}
+
+// Уведомление рабочего стола: notify-send (Linux) или osascript (macOS)
+function desktopSink(config: Extract<SinkConfig, { type: "desktop" }>): AlertSink {
+  return {
+    name: config.name ?? config.type,
+    async send(alert) {
+      const title = `qwen-analyzer: ${alert.rule}`;
+      const body = alert.summary ?? alert.message;
+      if (process.platform === "linux") {
+        const urgency = alert.severity === "critical" ? "critical" : "normal";
+        await execFileAsync("notify-send", ["-u", urgency, title, body], { timeout: 5000 });
+      } else if (process.platform === "darwin") {
+        const script = `display notification ${JSON.stringify(body)} with title ${JSON.stringify(title)}`;
+        await execFileAsync("osascript", ["-e", script], { timeout: 5000 });
+      } else {
+        throw new Error(`Desktop notifications are not supported on ${process.platform}`);
+      }
+    },
+  };
+}
+
+function consoleSink(config: Extract<SinkConfig, { type: "console" }>): AlertSink {
+  return {
+    name: config.name ?? config.type,
+    async send(alert) {
+      console.log(formatAlertLine(alert));
+    },
+  };
+}
+
+export function createSink(config: SinkConfig): AlertSink {
+  switch (config.type) {
+    case "webhook":
+      return webhookSink(config);
+    case "file":
+      return fileSink(config);
+    case "desktop":
+      return desktopSink(config);
+    default:
+      return consoleSink(config);
+  }
+}
+
+export interface DeliveryOptions {
+  summarize: boolean; // Значение по умолчанию для правил без summarize
+  summarizeAlert?: (alert: Alert) => Promise<string>;
+  logger: Logger;
+}
+
+export interface DeliveryResult {
+  delivered: Alert[]; // Со сводками модели
+  failed: Alert[]; // Не дошли ни до одного получателя
+}
+
+// Отправка оповещений: сводка модели (если включена для правила), затем
+// все получатели правила. Ошибка модели или получателя не прерывает
+// остальные отправки — она пишется в лог. Оповещение, которое не принял
+// ни один получатель, возвращается в failed: вызывающий откатывает его
+// в AlertEngine, чтобы не расходовать cooldown
+export async function deliverAlerts(
+  alerts: Alert[],
+  rules: AlertRule[],
+  sinks: AlertSink[],
+  options: Partial<DeliveryOptions> = {}
+): Promise<DeliveryResult> {
+  const logger = options.logger ?? consoleLogger;
+  const result: DeliveryResult = { delivered: [], failed: [] };
+
+  for (const alert of alerts) {
+    const rule = rules.find((item) => item.name === alert.rule);
+    let summarized = alert;
+
+    if ((rule?.summarize ?? options.summarize) && options.summarizeAlert) {
+      try {
+        summarized = { ...alert, summary: (await options.summarizeAlert(alert)).trim() };
+      } catch (error) {
+        logger.warn(`⚠️  Сводка для оповещения ${alert.rule} не получена: ${error}`);
+      }
+    }
+
+    const targets = rule?.sinks ? sinks.filter((sink) => rule.sinks!.includes(sink.name)) : sinks;
+    const sent = await Promise.all(
+      targets.map((sink) =>
+        sink.send(summarized).then(
+          () => true,
+          (error) => {
+            logger.warn(`⚠️  Оповещение ${alert.rule} не отправлено в ${sink.name}: ${error}`);
+            return false;
+          }
+        )
+      )
+    );
+    if (targets.length > 0 && !sent.includes(true)) {
+      result.failed.push(summarized);
+    } else {
+      result.delivered.push(summarized);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,72 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { globToRegExp, resolveLogFiles } from "./sources.js";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+
+describe("sources", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "sources");
+
+  before(async () => {
+    await mkdir(join(testDir, "auth", "2024"), { recursive: true });
+    await mkdir(join(testDir, ".cache"), { recursive: true });
+    await writeFile(join(testDir, "app.json"), "[]");
+    await writeFile(join(testDir, "auth", "auth.ndjson"), "");
+    await writeFile(join(testDir, "auth", "2024", "old.json"), "[]");
+    await writeFile(join(testDir, "auth", "notes.md"), "");
+    await writeFile(join(testDir, ".cache", "app.embeddings.json"), "{}");
+  });
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("globToRegExp", () => {
+    it("should match single and double star segments", () => {
+      const regex = globToRegExp("**/*.json");
+
+      assert.ok(regex.test("app.json"));
+      assert.ok(regex.test("auth/2024/old.json"));
+      assert.ok(!regex.test("auth/auth.ndjson"));
+      assert.ok(!globToRegExp("*.json").test("auth/old.json"));
+    });
+
+    it("should support alternatives and character classes", () => {
+      assert.ok(globToRegExp("*.{json,ndjson}").test("a.ndjson"));
+      assert.ok(globToRegExp("log[0-9].txt").test("log7.txt"));
+      assert.ok(!globToRegExp("log?.txt").test("log10.txt"));
+    });
+  });
+
+  describe("resolveLogFiles", () => {
+    it("should return a plain file as is", async () => {
+      const file = join(testDir, "app.json");
+      assert.deepStrictEqual(await resolveLogFiles(file), [file]);
+    });
+
+    it("should list supported files in a directory, skipping hidden ones", async () => {
+      const files = await resolveLogFiles(testDir);
+
+      assert.deepStrictEqual(files, [
+        join(testDir, "app.json"),
+        join(testDir, "auth", "2024", "old.json"),
+        join(testDir, "auth", "auth.ndjson"),
+      ]);
+    });
+
+    it("should expand glob patterns", async () => {
+      const files = await resolveLogFiles(`${testDir}/auth/**/*.json`);
+      assert.deepStrictEqual(files, [join(testDir, "auth", "2024", "old.json")]);
+    });
+
+    it("should return an empty list when glob base does not exist", async () => {
+      assert.deepStrictEqual(await resolveLogFiles(`${testDir}/missing/*.json`), []);
+    });
+
+    it("should throw when a plain path does not exist", async () => {
+      await assert.rejects(() => resolveLogFiles(join(testDir, "missing.json")), {
+        code: "ENOENT",
+      });
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { getSupportedExtensions } from "./parsers";
+
+// Расширения, которые берутся при обходе директории (кроме расширений парсеров)
+const TEXT_LOG_EXTENSIONS = [".log", ".txt"];
+
+function hasGlobChars(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+// Преобразование glob шаблона в регулярное выражение (поддерживаются **, *, ?, [..], {a,b})
+export function globToRegExp(glob: string): RegExp {
+  let regex = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+
+    if (ch === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" — любое количество директорий, включая ноль
+        const slash = glob[i + 2] === "/";
+        regex += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (ch === "?") {
+      regex += "[^/]";
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i);
+      if (end === -1) {
+        regex += "\\[";
+      } else {
+        regex += `[${glob.slice(i + 1, end).replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else if (ch === "{") {
+      inGroup = true;
+      regex += "(?:";
+    } else if (ch === "}" && inGroup) {
+      inGroup = false;
+      regex += ")";
+    } else if (ch === "," && inGroup) {
+      regex += "|";
+    } else {
+      regex += ch.replace(/[.+^$()|\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+// Рекурсивный обход директории (скрытые директории, например .cache, пропускаются)
+async function walk(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+        files.push(...(await walk(fullPath)));
+      }
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+// Разрешение пути, директории или glob шаблона в список файлов логов
+export async function resolveLogFiles(pattern: string): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join("/");
+
+  if (hasGlobChars(normalized)) {
+    // Базовая директория — часть пути до первого сегмента с glob символами
+    const segments = normalized.split("/");
+    const firstGlob = segments.findIndex(hasGlobChars);
+    const baseDir = segments.slice(0, firstGlob).join("/") || ".";
+    const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+
+    let files: string[];
+    try {
+      files = await walk(baseDir);
+    } catch {
+      return [];
+    }
+
+    return files
+      .filter((file) =>
+        matcher.test(path.relative(baseDir, file).split(path.sep).join("/"))
+      )
+      .sort();
+  }
+
+  const stat = await fs.stat(pattern);
+  if (stat.isDirectory()) {
+    const extensions = [...getSupportedExtensions(), ...TEXT_LOG_EXTENSIONS];
+    return (await walk(pattern))
+      .filter((file) => extensions.includes(path.extname(file).toLowerCase()))
+      .sort();
+  }
+
+  return [pattern];
+}
@@ -0,0 +1,126 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import {
+  fingerprint,
+  frameLabel,
+  normalizePath,
+  parseLogStack,
+  parseStackTrace,
+  topFrameLabel,
+} from "./stacktrace.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+// Ошибка подключения к базе с двумя кадрами stack trace
+const dbError = (overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    user_id: null,
+    stack_trace: "at Database.connect (db.js:45)\n  at AuthService.login (auth.js:12)",
+    ...overrides,
+  });
+
+describe("stacktrace", () => {
+  describe("parseStackTrace", () => {
+    it("should parse V8 frames with and without a function name", () => {
+      const frames = parseStackTrace(
+        [
+          "Error: connect ECONNREFUSED",
+          "    at async Database.connect (/srv/app/releases/42/src/db.js:45:11)",
+          "    at /srv/app/src/index.js:3:7",
+          "    at Module._compile (node:internal/modules/cjs/loader:1256:14)",
+        ].join("\n")
+      );
+
+      assert.deepStrictEqual(frames, [
+        { function: "Database.connect", file: "src/db.js", line: 45, column: 11, inApp: true },
+        { function: "<anonymous>", file: "src/index.js", line: 3, column: 7, inApp: true },
+        {
+          function: "Module._compile",
+          file: "node:internal/modules/cjs/loader",
+          line: 1256,
+          column: 14,
+          inApp: false,
+        },
+      ]);
+    });
+
+    it("should parse Java frames", () => {
+      const frames = parseStackTrace(
+        "java.sql.SQLException: timeout\n\tat com.acme.db.Pool.acquire(Pool.java:88)\n\tat java.lang.Thread.run(Native Method)"
+      );
+
+      assert.deepStrictEqual(frames.map(frameLabel), [
+        "com.acme.db.Pool.acquire (Pool.java:88)",
+        "java.lang.Thread.run (Native Method)",
+      ]);
+      assert.strictEqual(frames[1].inApp, false);
+    });
+
+    it("should put the innermost Python frame first", () => {
+      const frames = parseStackTrace(
+        [
+          "Traceback (most recent call last):",
+          '  File "/app/main.py", line 10, in <module>',
+          '  File "/app/billing/charge.py", line 45, in charge',
+          "TimeoutError: gateway",
+        ].join("\n")
+      );
+
+      assert.deepStrictEqual(frames.map(frameLabel), [
+        "charge (billing/charge.py:45)",
+        "<module> (app/main.py:10)",
+      ]);
+    });
+  });
+
+  describe("normalizePath", () => {
+    it("should drop schemes, queries and install directories", () => {
+      assert.strictEqual(normalizePath("file:///home/deploy/app/src/db.js"), "src/db.js");
+      assert.strictEqual(normalizePath("webpack:///./src/db.js?abc"), "src/db.js");
+      assert.strictEqual(normalizePath("/app/node_modules/pg/lib/client.js"), "node_modules/pg/lib/client.js");
+      assert.strictEqual(normalizePath("C:\\app\\src\\db.js"), "src/db.js");
+      assert.strictEqual(normalizePath("./db.js"), "db.js");
+    });
+  });
+
+  describe("fingerprint", () => {
+    it("should ignore line numbers and library frames", () => {
+      const a = dbError({
+        stack_trace:
+          "at Database.connect (/srv/v1/src/db.js:45:3)\n  at Pool.connect (/srv/v1/node_modules/pg/lib/pool.js:10:1)",
+      });
+      const b = dbError({
+        stack_trace:
+          "at Database.connect (/srv/v2/src/db.js:51:3)\n  at Pool.connect (/srv/v2/node_modules/pg/lib/pool.js:12:1)",
+      });
+
+      assert.strictEqual(fingerprint(a), fingerprint(b));
+      assert.match(fingerprint(a), /^[0-9a-f]{12}$/);
+      assert.notStrictEqual(fingerprint(a), fingerprint({ ...a, error_type: "QueryTimeout" }));
+    });
+
+    it("should fall back to the message without variable parts", () => {
+      const a = dbError({ stack_trace: "", message: "Retry 3 of 5 failed for user@example.com" });
+      const b = dbError({ stack_trace: "", message: "Retry 4 of 5 failed for admin@example.com" });
+      const c = dbError({ stack_trace: "", message: "Pool exhausted" });
+
+      assert.strictEqual(fingerprint(a), fingerprint(b));
+      assert.notStrictEqual(fingerprint(a), fingerprint(c));
+    });
+  });
+
+  describe("parseLogStack", () => {
+    it("should pick the first application frame as the top frame", () => {
+      const log = dbError({
+        stack_trace: "at Socket.emit (node:events:517:28)\n  at Database.connect (db.js:45)",
+      });
+
+      assert.strictEqual(topFrameLabel(log), "Database.connect (db.js:45)");
+      assert.strictEqual(parseLogStack(log), parseLogStack(log));
+    });
+
+    it("should have no top frame without a stack trace", () => {
+      assert.strictEqual(topFrameLabel(dbError({ stack_trace: "" })), null);
+    });
+  });
+});
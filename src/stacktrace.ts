@@ -0,0 +1,144 @@
+import * as crypto from "crypto";
+import { messageTemplate } from "./templates";
+import { ErrorLog } from "./types";
+
+// Кадр stack trace после разбора и нормализации
+export interface StackFrame {
+  function: string; // "Database.connect", "<anonymous>" для безымянных
+  file: string; // Нормализованный путь: "src/db.js", "db.js"
+  line: number | null;
+  column: number | null;
+  inApp: boolean; // false для node_modules, node:internal и т.п.
+}
+
+// Разобранный stack trace записи: кадры от места ошибки наружу
+export interface ParsedStack {
+  frames: StackFrame[];
+  topFrame: StackFrame | null; // Первый кадр кода приложения (или просто первый)
+  fingerprint: string;
+}
+
+// JavaScript (V8) и Java: "at fn (file:line:col)", "at file:line:col",
+// "at com.acme.Foo.bar(Foo.java:42)"
+const AT_FRAME = /^\s*at\s+(?:(.+?)\s*\((.+)\)|(.+?))\s*$/;
+// Python: File "app/db.py", line 45, in connect
+const PYTHON_FRAME = /^\s*File\s+"(.+)",\s+line\s+(\d+)(?:,\s+in\s+(.+?))?\s*$/;
+const LOCATION = /^(.*?)(?::(\d+))?(?::(\d+))?$/;
+
+// Путь без схем, query и каталога установки: совпадает между хостами и релизами
+export function normalizePath(file: string): string {
+  const cleaned = file
+    .trim()
+    .replace(/\\/g, "/")
+    .replace(/^file:\/\//, "")
+    .replace(/^webpack(?:-internal)?:\/\/\/?/, "")
+    .replace(/[?#].*$/, "");
+
+  const modules = cleaned.lastIndexOf("node_modules/");
+  if (modules >= 0) return cleaned.slice(modules);
+  if (!cleaned.startsWith("/") && !/^[a-z]:\//i.test(cleaned)) {
+    return cleaned.replace(/^\.\//, "");
+  }
+  // Абсолютный путь: оставляем два последних сегмента
+  return cleaned.split("/").filter(Boolean).slice(-2).join("/");
+}
+
+// Имя функции без async/new и сгенерированных суффиксов
+export function normalizeFunction(name: string): string {
+  const cleaned = name
+    .trim()
+    .replace(/^(?:async|new)\s+/, "")
+    .replace(/\s*\[as [^\]]+\]$/, "")
+    .replace(/^Object\.<anonymous>$/, "<anonymous>")
+    .replace(/\$\d+/g, "")
+    .replace(/<lambda>_?\d*/g, "<lambda>");
+  return cleaned || "<anonymous>";
+}
+
+function isInApp(file: string): boolean {
+  return !/(^|\/)node_modules\/|^node:|^internal\/|^<|^(?:Native Method|Unknown Source)$/.test(
+    file
+  );
+}
+
+function makeFrame(fn: string, location: string): StackFrame {
+  const [, file, line, column] = location.trim().match(LOCATION)!;
+  const normalized = normalizePath(file);
+  return {
+    function: normalizeFunction(fn),
+    file: normalized,
+    line: line ? Number(line) : null,
+    column: column ? Number(column) : null,
+    inApp: isInApp(normalized),
+  };
+}
+
+// Разбор stack trace JavaScript, Java или Python. Кадры Python идут в
+// обратном порядке (сначала внешний вызов), их переворачиваем
+export function parseStackTrace(stackTrace: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+  const pythonFrames: StackFrame[] = [];
+
+  for (const line of stackTrace.split("\n")) {
+    const python = line.match(PYTHON_FRAME);
+    if (python) {
+      pythonFrames.push(makeFrame(python[3] ?? "<module>", `${python[1]}:${python[2]}`));
+      continue;
+    }
+    const match = line.match(AT_FRAME);
+    if (!match) continue;
+    frames.push(match[2] ? makeFrame(match[1], match[2]) : makeFrame("<anonymous>", match[3]));
+  }
+
+  return [...frames, ...pythonFrames.reverse()];
+}
+
+// "Database.connect (db.js:45)"
+export function frameLabel(frame: StackFrame): string {
+  const line = frame.line === null ? "" : `:${frame.line}`;
+  return `${frame.function} (${frame.file}${line})`;
+}
+
+// Отпечаток для группировки как в Sentry: тип ошибки и кадры приложения
+// (функция и файл без номеров строк, чтобы не зависеть от релиза).
+// Без stack trace — тип ошибки и сообщение без переменных частей
+export function fingerprint(
+  log: ErrorLog,
+  frames: StackFrame[] = parseStackTrace(log.stack_trace)
+): string {
+  const appFrames = frames.filter((frame) => frame.inApp);
+  const significant = appFrames.length > 0 ? appFrames : frames;
+  const parts =
+    significant.length > 0
+      ? significant.map((frame) => `${frame.function}@${frame.file}`)
+      : [messageTemplate(log.message)];
+
+  return crypto
+    .createHash("sha1")
+    .update([log.error_type, ...parts].join("\n"))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+const parsedStacks = new WeakMap<ErrorLog, ParsedStack>();
+
+// Разобранный stack trace записи (кешируется на время жизни записи)
+export function parseLogStack(log: ErrorLog): ParsedStack {
+  const cached = parsedStacks.get(log);
+  if (cached) return cached;
+
+  const frames = parseStackTrace(log.stack_trace);
+  const parsed = {
+    frames,
+    topFrame: frames.find((frame) => frame.inApp) ?? frames[0] ?? null,
+    fingerprint: fingerprint(log, frames),
+  };
+  parsedStacks.set(log, parsed);
+  return parsed;
+}
+
+// Место в коде, где произошла ошибка: "Database.connect (db.js:45)"
+export function topFrameLabel(log: ErrorLog): string | null {
+  const { topFrame } = parseLogStack(log);
+  return topFrame ? frameLabel(topFrame) : null;
+}
@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { maskValues, messageTemplate } from "./templates.js";
+
+describe("templates", () => {
+  describe("maskValues", () => {
+    it("should mask uuids, emails, ips, timestamps and hex ids", () => {
+      assert.strictEqual(
+        maskValues(
+          "id 123e4567-e89b-12d3-a456-426614174000 user john.doe@example.com from 192.168.1.100:8080 at 2024-12-10T08:15:23.456Z txn 9f86d081884c7d65"
+        ),
+        "id <uuid> user <email> from <ip> at <time> txn <hex>"
+      );
+    });
+
+    it("should mask numbers but keep units and identifiers", () => {
+      assert.strictEqual(
+        maskValues("HTTP 503 after 30s (250ms), amount 99.99, /api/v1/users req_a1b2c3"),
+        "HTTP <num> after <num>s (<num>ms), amount <num>, /api/v1/users req_a1b2c3"
+      );
+    });
+  });
+
+  describe("messageTemplate", () => {
+    it("should give the same template to messages that differ only by values", () => {
+      assert.strictEqual(
+        messageTemplate("Retry 3 of 5 failed for user@example.com"),
+        messageTemplate("Retry  4 of 5 failed for admin@example.com ")
+      );
+      assert.strictEqual(
+        messageTemplate("Retry 3 of 5 failed for user@example.com"),
+        "Retry <num> of <num> failed for <email>"
+      );
+    });
+  });
+});
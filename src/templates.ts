@@ -0,0 +1,24 @@
+// Изменчивые части сообщений: заменяются метками, чтобы записи, которые
+// отличаются только ID, суммами или адресами, давали один шаблон
+const MASKS: [RegExp, string][] = [
+  // Метки маскирования персональных данных: "<email:3f2a9c1b>" → "<email>"
+  [/<([a-z_][\w.]*):[0-9a-f]{8}>/g, "<$1>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<uuid>"],
+  [/\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g, "<email>"],
+  [/\b(?:\d{1,3}\.){3}\d{1,3}(?::\d+)?\b/g, "<ip>"],
+  [/\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi, "<ip>"],
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?\b/g, "<time>"],
+  [/\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{8,}\b/gi, "<hex>"],
+  // Число с необязательной единицей: 503, 99.99, 30s, 250ms
+  [/(?<![\w<])[-+]?\d+(?:[.,]\d+)?(ms|s|m|h|kb|mb|gb|%)?(?![\w>])/gi, "<num>$1"],
+];
+
+// Значение с замаскированными изменчивыми частями
+export function maskValues(text: string): string {
+  return MASKS.reduce((masked, [pattern, label]) => masked.replace(pattern, label), text);
+}
+
+// Шаблон сообщения: "Retry 3 of 5 for user@example.com" → "Retry <num> of <num> for <email>"
+export function messageTemplate(message: string): string {
+  return maskValues(message).replace(/\s+/g, " ").trim();
+}
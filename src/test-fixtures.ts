@@ -0,0 +1,51 @@
+import { ErrorLog } from "./types";
+
+export const MINUTE = 60 * 1000;
+
+// Начало тестовых логов: 10.12.2024 08:00 UTC
+export const BASE_TIME = Date.UTC(2024, 11, 10, 8, 0);
+
+// Момент через minute минут после начала логов
+export const at = (minute: number): number => BASE_TIME + minute * MINUTE;
+
+// Запись лога для тестов: первая запись примера data/error-logs.json,
+// нужные поля перекрываются overrides
+export function makeLog(overrides: Partial<ErrorLog> = {}): ErrorLog {
+  return {
+    timestamp: "2024-12-10T08:15:23.456Z",
+    level: "ERROR",
+    service: "auth-service",
+    error_type: "DatabaseConnectionError",
+    message: "Failed to connect",
+    user_id: "user_1234",
+    request_id: "req_a1b2c3",
+    stack_trace: "",
+    metadata: {},
+    ...overrides,
+  };
+}
+
+// Одна ошибка сервиса; текст записи различается по типу и сервису
+export function serviceError(service: string, errorType: string): ErrorLog {
+  return makeLog({
+    timestamp: "2024-12-10T08:00:00.000Z",
+    service,
+    error_type: errorType,
+    message: `${errorType} in ${service}`,
+    user_id: null,
+    request_id: "req_1",
+  });
+}
+
+let counter = 0;
+
+// Запись через minute минут после начала логов, со своим request_id
+export function logAt(minute: number, overrides: Partial<ErrorLog> = {}): ErrorLog {
+  counter++;
+  return makeLog({
+    timestamp: new Date(at(minute)).toISOString(),
+    user_id: null,
+    request_id: `req_${counter}`,
+    ...overrides,
+  });
+}
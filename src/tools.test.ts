@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import { executeToolCall, formatLogLine, LOG_TOOLS, ToolContext } from "./tools.js";
+import { makeLog } from "./test-fixtures.js";
+
+const logs = [
+  makeLog({ metadata: { response_time_ms: 5000 } }),
+  makeLog({
+    timestamp: "2024-12-10T08:15:50.000Z",
+    request_id: "req_m3n4o5",
+    metadata: { response_time_ms: 3000 },
+  }),
+  makeLog({
+    timestamp: "2024-12-10T08:16:11.234Z",
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    request_id: "req_d4e5f6",
+    metadata: { response_time_ms: 30000 },
+    source: { file: "data/error-logs.json", line: 17 },
+  }),
+];
+
+const context: ToolContext = {
+  getLogs: () => logs,
+  searchLogs: async (_query, limit, filter) =>
+    logs.filter((log) => !filter.service || log.service === filter.service).slice(0, limit),
+};
+
+function call(name: string, args: Record<string, unknown>) {
+  return executeToolCall({ function: { name, arguments: args } }, context);
+}
+
+describe("tools", () => {
+  it("should declare every handled tool", () => {
+    assert.deepStrictEqual(
+      LOG_TOOLS.map((tool) => tool.function.name),
+      ["count_logs", "aggregate_logs", "search_logs", "get_log_by_request_id", "timeline"]
+    );
+  });
+
+  it("should count logs with a filter", async () => {
+    const result = await call("count_logs", { service: "auth-service" });
+    assert.strictEqual(result, "[service=auth-service] count — записей: 2");
+  });
+
+  it("should aggregate numeric fields", async () => {
+    const result = await call("aggregate_logs", {
+      error_type: "DatabaseConnectionError",
+      aggregate: "avg",
+      field: "metadata.response_time_ms",
+    });
+    assert.match(result, /avg\(metadata\.response_time_ms\) = 4000$/);
+  });
+
+  it("should accept numeric arguments passed as strings", async () => {
+    const result = await call("count_logs", { group_by: "service", top: "1" });
+    assert.strictEqual(result, "[все записи] count по service — записей: 3\n  - auth-service: 2");
+  });
+
+  it("should return records by request_id with provenance", async () => {
+    const result = await call("get_log_by_request_id", { request_id: "req_d4e5f6" });
+    assert.strictEqual(result, formatLogLine(logs[2]));
+    assert.match(result, /@data\/error-logs\.json:17$/);
+  });
+
+  it("should search with a filter and a limit", async () => {
+    const result = await call("search_logs", {
+      query: "timeouts",
+      service: "payment-service",
+      limit: 3,
+    });
+    assert.match(result, /PaymentGatewayTimeout/);
+    assert.doesNotMatch(result, /auth-service/);
+  });
+
+  it("should clamp the search limit to a positive bounded number", async () => {
+    const limits: number[] = [];
+    const recording: ToolContext = {
+      ...context,
+      searchLogs: async (_query, limit) => {
+        limits.push(limit);
+        return [];
+      },
+    };
+    for (const limit of [-3, 0, 2.7, 1000]) {
+      await executeToolCall(
+        { function: { name: "search_logs", arguments: { query: "timeouts", limit } } },
+        recording
+      );
+    }
+    assert.deepStrictEqual(limits, [1, 1, 2, 20]);
+  });
+
+  it("should clamp the group count to a positive bounded number", async () => {
+    for (const top of [-1, 0, 0.5]) {
+      assert.strictEqual(
+        await call("count_logs", { group_by: "service", top }),
+        "[все записи] count по service — записей: 3\n  - auth-service: 2"
+      );
+    }
+  });
+
+  it("should build a chronological timeline", async () => {
+    const result = await call("timeline", { bucket: "minute" });
+    assert.strictEqual(result, "2024-12-10T08:15: 2\n2024-12-10T08:16: 1");
+  });
+
+  it("should report errors to the model instead of throwing", async () => {
+    assert.strictEqual(await call("drop_table", {}), "Ошибка: неизвестный инструмент drop_table.");
+    assert.strictEqual(await call("search_logs", {}), "Ошибка: параметр query обязателен.");
+    assert.strictEqual(
+      await call("aggregate_logs", { aggregate: "avg" }),
+      'Ошибка: Aggregate "avg" requires a field'
+    );
+    assert.strictEqual(
+      await call("aggregate_logs", { aggregate: "median", field: "metadata.response_time_ms" }),
+      "Ошибка: Unknown aggregate: median"
+    );
+    assert.strictEqual(
+      await call("count_logs", { group_by: "servise" }),
+      "Ошибка: Unknown field: servise"
+    );
+    assert.strictEqual(
+      await call("aggregate_logs", { aggregate: "max", field: "metadata.response_time" }),
+      "Ошибка: в поле metadata.response_time нет числовых значений у отобранных записей."
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import type { Tool, ToolCall } from "ollama";
+import {
+  Aggregate,
+  filterLogs,
+  formatQueryResult,
+  LogFilter,
+  LogQuery,
+  runQuery,
+} from "./query";
+import { topFrameLabel } from "./stacktrace";
+import { ErrorLog } from "./types";
+
+// Доступ инструментов к хранилищу логов
+export interface ToolContext {
+  getLogs(): ErrorLog[];
+  searchLogs(query: string, limit: number, filter: LogFilter): Promise<ErrorLog[]>;
+}
+
+const MAX_TOOL_RECORDS = 20;
+const MAX_TOOL_GROUPS = 50;
+
+// Общие параметры фильтра для всех инструментов
+const FILTER_PROPERTIES = {
+  service: { type: "string", description: "Имя сервиса, например payment-service" },
+  error_type: { type: "string", description: "Тип ошибки, например PaymentGatewayTimeout" },
+  level: { type: "string", description: "Уровень: ERROR, WARN, ..." },
+  user_id: { type: "string", description: "ID пользователя, например user_1234" },
+  fingerprint: { type: "string", description: "Отпечаток stack trace из поля fingerprint" },
+  from: { type: "string", description: "Начало интервала, ISO 8601" },
+  to: { type: "string", description: "Конец интервала, ISO 8601" },
+};
+
+export const LOG_TOOLS: Tool[] = [
+  {
+    type: "function",
+    function: {
+      name: "count_logs",
+      description:
+        "Точное количество записей по фильтру, опционально с группировкой (top-N). Используй для любых вопросов «сколько».",
+      parameters: {
+        type: "object",
+        properties: {
+          ...FILTER_PROPERTIES,
+          group_by: {
+            type: "string",
+            description:
+              "Поле группировки: service, error_type, level, user_id, metadata.<ключ>, minute, hour, top_frame (место в коде), top_file, fingerprint",
+          },
+          top: { type: "number", description: "Сколько групп вернуть" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "aggregate_logs",
+      description:
+        "Точный агрегат числового поля (avg, sum, min, max, percentile), например metadata.response_time_ms.",
+      parameters: {
+        type: "object",
+        required: ["aggregate", "field"],
+        properties: {
+          ...FILTER_PROPERTIES,
+          aggregate: {
+            type: "string",
+            enum: ["avg", "sum", "min", "max", "percentile"],
+          },
+          field: { type: "string", description: "Поле, например metadata.response_time_ms" },
+          percentile: { type: "number", description: "0..100 для aggregate=percentile" },
+          group_by: { type: "string", description: "Поле группировки" },
+          top: { type: "number", description: "Сколько групп вернуть" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "search_logs",
+      description:
+        "Семантический поиск записей по описанию проблемы с необязательным фильтром. Возвращает сами записи.",
+      parameters: {
+        type: "object",
+        required: ["query"],
+        properties: {
+          query: { type: "string", description: "Что искать" },
+          ...FILTER_PROPERTIES,
+          limit: { type: "number", description: `Сколько записей вернуть (до ${MAX_TOOL_RECORDS})` },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_log_by_request_id",
+      description: "Все записи с указанным request_id.",
+      parameters: {
+        type: "object",
+        required: ["request_id"],
+        properties: {
+          request_id: { type: "string", description: "Например req_a1b2c3" },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "timeline",
+      description:
+        "Количество записей по времени (поминутно или по часам) для фильтра — чтобы увидеть всплески и порядок событий.",
+      parameters: {
+        type: "object",
+        properties: {
+          ...FILTER_PROPERTIES,
+          bucket: { type: "string", enum: ["minute", "hour"] },
+        },
+      },
+    },
+  },
+];
+
+// Компактное однострочное представление записи для результата инструмента
+export function formatLogLine(log: ErrorLog): string {
+  const source = log.source ? ` @${log.source.file}:${log.source.line}` : "";
+  const frame = topFrameLabel(log);
+  return `${log.timestamp} ${log.level} ${log.service} ${log.error_type} request_id=${
+    log.request_id || "-"
+  } user_id=${log.user_id ?? "-"} "${log.message}"${
+    frame ? ` at=${JSON.stringify(frame)}` : ""
+  } metadata=${JSON.stringify(log.metadata)}${source}`;
+}
+
+function formatLogs(logs: ErrorLog[]): string {
+  if (logs.length === 0) return "Записей не найдено.";
+  return logs.map(formatLogLine).join("\n");
+}
+
+function toStringArg(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+}
+
+function toNumberArg(value: unknown): number | undefined {
+  const num = typeof value === "string" ? Number(value) : value;
+  return typeof num === "number" && Number.isFinite(num) ? num : undefined;
+}
+
+// Целочисленный аргумент в пределах 1..max; ноль, отрицательное или
+// дробное значение от модели приводится к этому диапазону
+function toCountArg(value: unknown, fallback: number, max: number): number {
+  return Math.max(1, Math.min(max, Math.floor(toNumberArg(value) ?? fallback)));
+}
+
+// Фильтр из аргументов инструмента (и параметров запроса HTTP API)
+export function filterFromArgs(args: Record<string, unknown>): LogFilter {
+  const filter: LogFilter = {};
+  for (const key of ["service", "error_type", "level", "user_id", "fingerprint", "from", "to"] as const) {
+    const value = toStringArg(args[key]);
+    if (value) filter[key] = value;
+  }
+  return filter;
+}
+
+// Выполнение вызова инструмента; ошибки возвращаются модели текстом
+export async function executeToolCall(
+  call: ToolCall,
+  context: ToolContext
+): Promise<string> {
+  const args = call.function.arguments ?? {};
+  const filter = filterFromArgs(args);
+
+  try {
+    switch (call.function.name) {
+      case "count_logs": {
+        const query: LogQuery = {
+          filter,
+          groupBy: toStringArg(args.group_by),
+          top: toCountArg(args.top, MAX_TOOL_GROUPS, MAX_TOOL_GROUPS),
+        };
+        return formatQueryResult(query, runQuery(context.getLogs(), query));
+      }
+
+      case "aggregate_logs": {
+        const query: LogQuery = {
+          filter,
+          aggregate: toStringArg(args.aggregate) as Aggregate | undefined,
+          field: toStringArg(args.field),
+          percentile: toNumberArg(args.percentile),
+          groupBy: toStringArg(args.group_by),
+          top: toCountArg(args.top, MAX_TOOL_GROUPS, MAX_TOOL_GROUPS),
+        };
+        const result = runQuery(context.getLogs(), query);
+        // Поле без числовых значений — скорее опечатка модели, чем «нет данных»
+        if (result.matched > 0 && result.rows.every((row) => row.value === null)) {
+          return `Ошибка: в поле ${query.field} нет числовых значений у отобранных записей.`;
+        }
+        return formatQueryResult(query, result);
+      }
+
+      case "search_logs": {
+        const query = toStringArg(args.query);
+        if (!query) return "Ошибка: параметр query обязателен.";
+        const limit = toCountArg(args.limit, 5, MAX_TOOL_RECORDS);
+        return formatLogs(await context.searchLogs(query, limit, filter));
+      }
+
+      case "get_log_by_request_id": {
+        const requestId = toStringArg(args.request_id);
+        if (!requestId) return "Ошибка: параметр request_id обязателен.";
+        return formatLogs(
+          filterLogs(context.getLogs(), { request_id: requestId }).slice(
+            0,
+            MAX_TOOL_RECORDS
+          )
+        );
+      }
+
+      case "timeline": {
+        const bucket = args.bucket === "hour" ? "hour" : "minute";
+        const result = runQuery(context.getLogs(), { filter, groupBy: bucket });
+        if (result.matched === 0) return "Записей не найдено.";
+        // Хронологический порядок вместо сортировки по количеству
+        return result.rows
+          .sort((a, b) => String(a.group).localeCompare(String(b.group)))
+          .map((row) => `${row.group}: ${row.count}`)
+          .join("\n");
+      }
+
+      default:
+        return `Ошибка: неизвестный инструмент ${call.function.name}.`;
+    }
+  } catch (error) {
+    return `Ошибка: ${error instanceof Error ? error.message : error}`;
+  }
+}
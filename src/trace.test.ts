@@ -0,0 +1,136 @@
+import { describe, it, after } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { RAGSystem } from "./rag.js";
+import { buildTrace, formatTrace, formatTraceContext } from "./trace.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+
+const orderLog = (overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    timestamp: "2024-12-10T08:30:00.000Z",
+    service: "order-service",
+    error_type: "OrderFailed",
+    message: "Order could not be created",
+    user_id: null,
+    request_id: "req_1",
+    ...overrides,
+  });
+
+// Запрос req_1 пользователя user_1: база → inventory → order → gateway
+const logs: ErrorLog[] = [
+  orderLog({
+    timestamp: "2024-12-10T08:30:02.000Z",
+    service: "api-gateway",
+    error_type: "ServiceUnavailable",
+    user_id: "user_1",
+    metadata: { upstream_service: "order-service" },
+  }),
+  orderLog({
+    timestamp: "2024-12-10T08:30:00.000Z",
+    service: "inventory-service",
+    error_type: "DatabaseConnectionError",
+  }),
+  orderLog({ timestamp: "2024-12-10T08:30:01.000Z" }),
+  orderLog({
+    timestamp: "2024-12-10T08:40:00.000Z",
+    service: "auth-service",
+    error_type: "InvalidCredentials",
+    user_id: "user_1",
+    request_id: "req_2",
+  }),
+  orderLog({ request_id: "req_3", user_id: "user_2" }),
+];
+
+describe("trace", () => {
+  describe("buildTrace", () => {
+    it("should list a request's records in time order across services", () => {
+      const trace = buildTrace(logs, "req_1")!;
+
+      assert.deepStrictEqual(trace.matchedBy, ["request_id"]);
+      assert.deepStrictEqual(trace.services, ["inventory-service", "order-service", "api-gateway"]);
+      assert.deepStrictEqual(trace.users, ["user_1"]);
+      assert.strictEqual(trace.durationMs, 2000);
+      assert.strictEqual(trace.origin.service, "inventory-service");
+    });
+
+    it("should find upstream/downstream links from metadata and timing", () => {
+      const trace = buildTrace(logs, "req_1")!;
+
+      assert.deepStrictEqual(
+        trace.edges.map(({ upstream, downstream, basis }) => [upstream, downstream, basis]),
+        [
+          ["order-service", "api-gateway", "metadata"],
+          ["inventory-service", "order-service", "timing"],
+        ]
+      );
+      assert.strictEqual(trace.edges[0].records, 2);
+    });
+
+    it("should follow a user across their requests, including records without user_id", () => {
+      const trace = buildTrace(logs, "user_1")!;
+
+      assert.deepStrictEqual(trace.matchedBy, ["user_id"]);
+      assert.deepStrictEqual(trace.requests, ["req_1", "req_2"]);
+      assert.strictEqual(trace.records.length, 4);
+      assert.strictEqual(trace.records[3].service, "auth-service");
+      // Связи ищутся внутри запроса: req_1 и req_2 не связаны по времени
+      assert.ok(!trace.edges.some((edge) => edge.downstream === "auth-service"));
+    });
+
+    it("should return null for an unknown ID", () => {
+      assert.strictEqual(buildTrace(logs, "req_404"), null);
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format a trace for the user and for the prompt", () => {
+      const trace = buildTrace(logs, "req_1")!;
+      const text = formatTrace(trace);
+      assert.match(text, /^🧭 Трасса request_id req_1: записей 3, запросов 1, сервисов 3/);
+      assert.match(text, /order-service → api-gateway \(указано в metadata, записей: 2\)/);
+      assert.match(text, /Вероятное начало: 08:30:00.000 \[ERROR\] inventory-service/);
+
+      const context = formatTraceContext(trace, 2);
+      assert.match(context, /^TRACE request_id=req_1/);
+      assert.match(context, /- … пропущено записей: 1\n- 2024-12-10T08:30:02.000Z api-gateway/);
+    });
+  });
+
+  describe("RAGSystem", () => {
+    const testDir = join(process.cwd(), ".test-tmp", "trace");
+
+    after(async () => {
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it("should add the trace to the prompt when the question names an ID", async () => {
+      await mkdir(testDir, { recursive: true });
+      await writeFile(join(testDir, "logs.json"), JSON.stringify(logs));
+
+      const prompts: string[] = [];
+      const ollama = new OllamaClient();
+      ollama.createEmbeddings = async (texts) => texts.map(() => [1, 0]);
+      ollama.createEmbedding = async () => [1, 0];
+      ollama.chat = async (system) => {
+        prompts.push(system);
+        return "Ответ";
+      };
+
+      const rag = new RAGSystem(ollama, { cacheDir: join(testDir, "cache") }, silentLogger);
+      rag.setToolsEnabled(false);
+      await rag.loadAndIndexLogs(join(testDir, "logs.json"));
+
+      await rag.askQuestion("Что случилось с запросом req_1?");
+      assert.match(prompts[0], /TRACES[^\n]*\nTRACE request_id=req_1/);
+      assert.match(prompts[0], /Likely origin: 08:30:00.000 \[ERROR\] inventory-service/);
+
+      await rag.askQuestion("Почему падает order-service?");
+      assert.doesNotMatch(prompts[1], /TRACE request_id/);
+      assert.strictEqual(rag.getTrace(" user_2 ")?.records.length, 1);
+    });
+  });
+});
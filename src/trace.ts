@@ -0,0 +1,194 @@
+import { formatDuration } from "./batching";
+import { groupBy } from "./collections";
+import { ErrorLog } from "./types";
+
+export type TraceKey = "request_id" | "user_id";
+
+// Связь сервисов: upstream — зависимость, downstream — сервис, который к
+// ней обращается. metadata — связь указана в записи (upstream_service),
+// timing — ошибки одного запроса шли друг за другом в разных сервисах
+export interface TraceEdge {
+  upstream: string;
+  downstream: string;
+  basis: "metadata" | "timing";
+  records: number; // Сколько записей подтверждают связь
+}
+
+export interface Trace {
+  id: string;
+  matchedBy: TraceKey[]; // Каким полем совпал ID
+  records: ErrorLog[]; // В хронологическом порядке
+  services: string[]; // В порядке первого появления
+  requests: string[];
+  users: string[];
+  edges: TraceEdge[];
+  origin: ErrorLog; // Вероятное начало: первая ошибка в сервисе без upstream
+  start: string;
+  end: string;
+  durationMs: number;
+}
+
+// Ключи metadata, которые прямо называют соседний сервис
+const UPSTREAM_KEYS = ["upstream_service", "dependency", "target_service"];
+const DOWNSTREAM_KEYS = ["downstream_service", "caller_service", "source_service"];
+
+function unique(values: (string | null | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))];
+}
+
+function time(log: ErrorLog): number {
+  const parsed = Date.parse(log.timestamp);
+  return Number.isNaN(parsed) ? Infinity : parsed;
+}
+
+function findEdges(records: ErrorLog[]): TraceEdge[] {
+  const edges = new Map<string, TraceEdge>();
+  const add = (upstream: string, downstream: string, basis: TraceEdge["basis"]) => {
+    if (!upstream || !downstream || upstream === downstream) return;
+    const key = `${upstream}\n${downstream}`;
+    const edge = edges.get(key);
+    if (!edge) {
+      edges.set(key, { upstream, downstream, basis, records: 1 });
+      return;
+    }
+    edge.records++;
+    if (basis === "metadata") edge.basis = "metadata";
+  };
+
+  for (const log of records) {
+    for (const key of UPSTREAM_KEYS) {
+      if (typeof log.metadata?.[key] === "string") add(log.metadata[key], log.service, "metadata");
+    }
+    for (const key of DOWNSTREAM_KEYS) {
+      if (typeof log.metadata?.[key] === "string") add(log.service, log.metadata[key], "metadata");
+    }
+  }
+
+  // Внутри одного запроса ошибка обычно идёт от зависимости к вызывающему:
+  // следующая по времени запись другого сервиса считается downstream
+  const byRequest = groupBy(records, (log) => log.request_id || undefined);
+  for (const logs of byRequest.values()) {
+    for (let i = 1; i < logs.length; i++) {
+      const [previous, current] = [logs[i - 1], logs[i]];
+      const reverse = edges.get(`${current.service}\n${previous.service}`);
+      // Связь, указанная в metadata, важнее порядка записей
+      if (reverse?.basis === "metadata") continue;
+      add(previous.service, current.service, "timing");
+    }
+  }
+
+  return [...edges.values()];
+}
+
+// Трасса по request_id или user_id: все записи с этим ID, а для
+// пользователя — ещё и записи его запросов в других сервисах (где user_id
+// может быть не указан). null, если ID не встречается
+export function buildTrace(logs: ErrorLog[], id: string): Trace | null {
+  const matchedBy = new Set<TraceKey>();
+  const requestIds = new Set<string>();
+  for (const log of logs) {
+    if (log.request_id === id) matchedBy.add("request_id");
+    if (log.user_id === id) {
+      matchedBy.add("user_id");
+      if (log.request_id) requestIds.add(log.request_id);
+    }
+  }
+  if (matchedBy.size === 0) {
+    return null;
+  }
+  requestIds.add(id);
+
+  const records = logs
+    .filter((log) => log.user_id === id || requestIds.has(log.request_id))
+    .map((log, idx) => ({ log, idx }))
+    .sort((a, b) => time(a.log) - time(b.log) || a.idx - b.idx)
+    .map(({ log }) => log);
+
+  const edges = findEdges(records);
+  const downstream = new Set(edges.map((edge) => edge.downstream));
+  const upstream = new Set(edges.map((edge) => edge.upstream));
+  const origin =
+    records.find((log) => upstream.has(log.service) && !downstream.has(log.service)) ??
+    records.find((log) => !downstream.has(log.service)) ??
+    records[0];
+
+  const start = records[0].timestamp;
+  const end = records[records.length - 1].timestamp;
+  return {
+    id,
+    matchedBy: [...matchedBy],
+    records,
+    services: unique(records.map((log) => log.service)),
+    requests: unique(records.map((log) => log.request_id)),
+    users: unique(records.map((log) => log.user_id)),
+    edges,
+    origin,
+    start,
+    end,
+    durationMs: Math.max(0, (Date.parse(end) - Date.parse(start)) || 0),
+  };
+}
+
+function describeEdge(edge: TraceEdge): string {
+  const basis = edge.basis === "metadata" ? "указано в metadata" : "по времени";
+  return `${edge.upstream} → ${edge.downstream} (${basis}, записей: ${edge.records})`;
+}
+
+function describeRecord(log: ErrorLog): string {
+  return `${log.timestamp.slice(11, 23)} [${log.level}] ${log.service} ${log.error_type}: ${log.message}`;
+}
+
+// Трасса для вывода пользователю
+export function formatTrace(trace: Trace): string {
+  const lines = [
+    `🧭 Трасса ${trace.matchedBy.join("/")} ${trace.id}: записей ${trace.records.length}, ` +
+      `запросов ${trace.requests.length}, сервисов ${trace.services.length}`,
+    `   Период: ${trace.start} → ${trace.end} (${formatDuration(trace.durationMs)})`,
+    `   Сервисы: ${trace.services.join(" → ")}`,
+  ];
+  if (trace.users.length > 0 && !trace.matchedBy.includes("user_id")) {
+    lines.push(`   Пользователи: ${trace.users.join(", ")}`);
+  }
+  if (trace.edges.length > 0) {
+    lines.push("   Связи (upstream → downstream):");
+    lines.push(...trace.edges.map((edge) => `     • ${describeEdge(edge)}`));
+  }
+  lines.push(`   Вероятное начало: ${describeRecord(trace.origin)} (${trace.origin.request_id || "-"})`);
+  lines.push("");
+  for (const log of trace.records) {
+    const source = log.source ? `, ${log.source.file}:${log.source.line}` : "";
+    lines.push(`   ${describeRecord(log)} (${log.request_id || "-"}${source})`);
+  }
+  return lines.join("\n");
+}
+
+// Трасса для промпта модели; длинная трасса сокращается до первых и
+// последних записей
+export function formatTraceContext(trace: Trace, maxRecords: number = 20): string {
+  const head = Math.ceil(maxRecords / 2);
+  const records =
+    trace.records.length > maxRecords
+      ? [
+          ...trace.records.slice(0, head),
+          null,
+          ...trace.records.slice(trace.records.length - (maxRecords - head)),
+        ]
+      : trace.records;
+
+  return [
+    `TRACE ${trace.matchedBy.join("/")}=${trace.id}: ${trace.start} — ${trace.end}`,
+    `Services (first seen order): ${trace.services.join(" → ")}`,
+    `Requests: ${trace.requests.join(", ") || "-"}`,
+    `Users: ${trace.users.join(", ") || "-"}`,
+    `Dependencies (upstream → downstream): ${
+      trace.edges.map(describeEdge).join("; ") || "не найдены"
+    }`,
+    `Likely origin: ${describeRecord(trace.origin)} (${trace.origin.request_id || "-"})`,
+    "Records:",
+    ...records.map((log) =>
+      log
+        ? `- ${log.timestamp} ${log.service} ${log.error_type} (${log.request_id || "-"}): ${log.message}`
+        : `- … пропущено записей: ${trace.records.length - maxRecords}`
+    ),
+  ].join("\n");
+}
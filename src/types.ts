@@ -0,0 +1,19 @@
+// Запись лога ошибки в нормализованном виде (общая для всех форматов)
+export interface ErrorLog {
+  timestamp: string;
+  level: string;
+  service: string;
+  error_type: string;
+  message: string;
+  user_id: string | null;
+  request_id: string;
+  stack_trace: string;
+  metadata: Record<string, any>;
+  source?: LogSource; // Откуда запись была загружена
+}
+
+// Происхождение записи: файл и строка, с которой она начинается
+export interface LogSource {
+  file: string;
+  line: number;
+}
@@ -0,0 +1,123 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { mkdir, rm, readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join } from "path";
+import {
+  BinaryVectorStore,
+  cosineSimilarity,
+  decodeVectors,
+  encodeVectors,
+  JsonVectorStore,
+  StoredVectors,
+} from "./vectorstore.js";
+
+const KEY_A = "a".repeat(64);
+const KEY_B = "0123456789abcdef".repeat(4);
+
+function makeVectors(): StoredVectors {
+  return {
+    model: "nomic-embed-text:latest",
+    entries: {
+      [KEY_A]: Float32Array.from([0.5, -1.25, 3]),
+      [KEY_B]: Float32Array.from([1, 0, 0]),
+    },
+    createdAt: "2024-12-10T08:00:00.000Z",
+  };
+}
+
+describe("vectorstore", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "vectorstore");
+
+  before(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("binary format", () => {
+    it("should round-trip vectors with a compact layout", () => {
+      const buffer = encodeVectors(makeVectors());
+      const header = JSON.stringify({
+        model: "nomic-embed-text:latest",
+        dimensions: 3,
+        count: 2,
+        createdAt: "2024-12-10T08:00:00.000Z",
+      });
+
+      assert.strictEqual(buffer.length, 12 + header.length + 2 * (32 + 3 * 4));
+      assert.deepStrictEqual(decodeVectors(buffer), makeVectors());
+    });
+
+    it("should reject foreign, truncated and inconsistent data", () => {
+      const buffer = encodeVectors(makeVectors());
+
+      assert.throws(() => decodeVectors(Buffer.from("{}")), { message: "Not a vector store file" });
+      assert.throws(() => decodeVectors(buffer.subarray(0, buffer.length - 4)), {
+        message: "Vector store file is truncated",
+      });
+      assert.throws(
+        () => encodeVectors({ ...makeVectors(), entries: { "req_1": Float32Array.from([1]) } }),
+        { message: "Vector store keys must be sha256 hex digests, got: req_1" }
+      );
+      assert.throws(
+        () =>
+          encodeVectors({
+            ...makeVectors(),
+            entries: { [KEY_A]: Float32Array.from([1, 2]), [KEY_B]: Float32Array.from([1]) },
+          }),
+        { message: `All vectors must have 2 dimensions, got 1 for ${KEY_B}` }
+      );
+    });
+  });
+
+  describe("BinaryVectorStore", () => {
+    it("should save, load and remove a named set", async () => {
+      const store = new BinaryVectorStore(testDir);
+
+      assert.strictEqual(await store.load("logs.1234"), null);
+      await store.save("logs.1234", makeVectors());
+      assert.ok(existsSync(join(testDir, "logs.1234.vectors.bin")));
+      assert.deepStrictEqual(await store.load("logs.1234"), makeVectors());
+
+      await store.remove("logs.1234");
+      assert.strictEqual(await store.load("logs.1234"), null);
+    });
+  });
+
+  describe("JsonVectorStore", () => {
+    it("should read the previous JSON cache format", async () => {
+      await writeFile(
+        join(testDir, "old.5678.embeddings.json"),
+        JSON.stringify({
+          model: "nomic-embed-text:latest",
+          entries: { [KEY_A]: [0.5, -1.25, 3] },
+          createdAt: "2024-12-10T08:00:00.000Z",
+        })
+      );
+      const store = new JsonVectorStore(testDir);
+      const loaded = await store.load("old.5678");
+
+      assert.deepStrictEqual(loaded?.entries, { [KEY_A]: Float32Array.from([0.5, -1.25, 3]) });
+
+      await store.save("copy", makeVectors());
+      const saved = JSON.parse(await readFile(join(testDir, "copy.embeddings.json"), "utf-8"));
+      assert.deepStrictEqual(saved.entries[KEY_B], [1, 0, 0]);
+    });
+
+    it("should ignore a cache without entries", async () => {
+      await writeFile(join(testDir, "ancient.embeddings.json"), JSON.stringify({ hash: "x" }));
+      assert.strictEqual(await new JsonVectorStore(testDir).load("ancient"), null);
+    });
+  });
+
+  describe("cosineSimilarity", () => {
+    it("should compare plain and typed arrays", () => {
+      assert.strictEqual(cosineSimilarity([1, 0], Float32Array.from([2, 0])), 1);
+      assert.strictEqual(cosineSimilarity([1, 0], [0, 1]), 0);
+      assert.strictEqual(cosineSimilarity([0, 0], [1, 1]), 0);
+    });
+  });
+});
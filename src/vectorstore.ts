@@ -0,0 +1,204 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+
+// Embeddings одного файла логов: ключ записи (sha256) → вектор
+export interface StoredVectors {
+  model: string;
+  entries: Record<string, Float32Array>;
+  createdAt: string;
+}
+
+// Хранилище embeddings на диске; name — имя набора (по файлу логов)
+export interface VectorStore {
+  load(name: string): Promise<StoredVectors | null>;
+  save(name: string, vectors: StoredVectors): Promise<void>;
+  remove(name: string): Promise<void>;
+}
+
+// Косинусное сходство; векторы разной длины сравниваются по общей части
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Запись через временный файл, чтобы прерванная запись не испортила набор
+async function writeAtomic(filePath: string, data: string | Uint8Array): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, data);
+  await fs.rename(tmpPath, filePath);
+}
+
+async function removeIfExists(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+}
+
+const MAGIC = "QVEC";
+const VERSION = 1;
+const KEY_BYTES = 32; // sha256
+// На little-endian платформах (практически все) векторы копируются блоком
+const LITTLE_ENDIAN = os.endianness() === "LE";
+
+// Компактный бинарный формат (числа little-endian):
+//   "QVEC" | u32 версия | u32 длина заголовка | заголовок JSON
+//   (model, dimensions, count, createdAt) | ключи по 32 байта | векторы Float32
+// Векторы читаются одним блоком, записи получают представления (subarray)
+// этого блока, а не отдельные массивы
+export class BinaryVectorStore implements VectorStore {
+  constructor(private dir: string) {}
+
+  private getPath(name: string): string {
+    return path.join(this.dir, `${name}.vectors.bin`);
+  }
+
+  async load(name: string): Promise<StoredVectors | null> {
+    let buffer: Buffer;
+    try {
+      buffer = await fs.readFile(this.getPath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+    return decodeVectors(buffer);
+  }
+
+  async save(name: string, vectors: StoredVectors): Promise<void> {
+    await writeAtomic(this.getPath(name), encodeVectors(vectors));
+  }
+
+  async remove(name: string): Promise<void> {
+    await removeIfExists(this.getPath(name));
+  }
+}
+
+export function encodeVectors(vectors: StoredVectors): Buffer {
+  const keys = Object.keys(vectors.entries);
+  const dimensions = keys.length > 0 ? vectors.entries[keys[0]].length : 0;
+  const header = Buffer.from(
+    JSON.stringify({
+      model: vectors.model,
+      dimensions,
+      count: keys.length,
+      createdAt: vectors.createdAt,
+    })
+  );
+
+  const buffer = Buffer.alloc(
+    12 + header.length + keys.length * (KEY_BYTES + dimensions * 4)
+  );
+  buffer.write(MAGIC, 0, "ascii");
+  buffer.writeUInt32LE(VERSION, 4);
+  buffer.writeUInt32LE(header.length, 8);
+  header.copy(buffer, 12);
+
+  let keyOffset = 12 + header.length;
+  let vectorOffset = keyOffset + keys.length * KEY_BYTES;
+  for (const key of keys) {
+    if (!/^[0-9a-f]{64}$/.test(key)) {
+      throw new Error(`Vector store keys must be sha256 hex digests, got: ${key}`);
+    }
+    const vector = vectors.entries[key];
+    if (vector.length !== dimensions) {
+      throw new Error(
+        `All vectors must have ${dimensions} dimensions, got ${vector.length} for ${key}`
+      );
+    }
+    buffer.write(key, keyOffset, "hex");
+    keyOffset += KEY_BYTES;
+    if (LITTLE_ENDIAN) {
+      buffer.set(new Uint8Array(vector.buffer, vector.byteOffset, dimensions * 4), vectorOffset);
+      vectorOffset += dimensions * 4;
+    } else {
+      for (let i = 0; i < dimensions; i++, vectorOffset += 4) {
+        buffer.writeFloatLE(vector[i], vectorOffset);
+      }
+    }
+  }
+  return buffer;
+}
+
+export function decodeVectors(buffer: Buffer): StoredVectors {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== MAGIC) {
+    throw new Error("Not a vector store file");
+  }
+  const version = buffer.readUInt32LE(4);
+  if (version !== VERSION) {
+    throw new Error(`Unsupported vector store version: ${version}`);
+  }
+
+  const headerLength = buffer.readUInt32LE(8);
+  const header = JSON.parse(buffer.toString("utf-8", 12, 12 + headerLength));
+  const { dimensions, count } = header;
+  const keysStart = 12 + headerLength;
+  const vectorsStart = keysStart + count * KEY_BYTES;
+  if (buffer.length !== vectorsStart + count * dimensions * 4) {
+    throw new Error("Vector store file is truncated");
+  }
+
+  // Копия блока векторов: выровнена для Float32Array независимо от буфера
+  const block = new Float32Array(count * dimensions);
+  if (LITTLE_ENDIAN) {
+    new Uint8Array(block.buffer).set(buffer.subarray(vectorsStart));
+  } else {
+    for (let i = 0; i < block.length; i++) {
+      block[i] = buffer.readFloatLE(vectorsStart + i * 4);
+    }
+  }
+
+  const entries: Record<string, Float32Array> = {};
+  for (let i = 0; i < count; i++) {
+    const key = buffer.toString("hex", keysStart + i * KEY_BYTES, keysStart + (i + 1) * KEY_BYTES);
+    entries[key] = block.subarray(i * dimensions, (i + 1) * dimensions);
+  }
+  return { model: header.model, entries, createdAt: header.createdAt };
+}
+
+// Прежний формат: JSON с массивами чисел. Читается для переноса старого
+// кеша в бинарный формат
+export class JsonVectorStore implements VectorStore {
+  constructor(private dir: string) {}
+
+  private getPath(name: string): string {
+    return path.join(this.dir, `${name}.embeddings.json`);
+  }
+
+  async load(name: string): Promise<StoredVectors | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.getPath(name), "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+
+    const cache = JSON.parse(content);
+    // Кеш самого старого формата (целиком по хешу файла) не переиспользуется
+    if (!cache || typeof cache.entries !== "object") return null;
+
+    const entries: Record<string, Float32Array> = {};
+    for (const [key, vector] of Object.entries<number[]>(cache.entries)) {
+      entries[key] = Float32Array.from(vector);
+    }
+    return { model: cache.model, entries, createdAt: cache.createdAt };
+  }
+
+  async save(name: string, vectors: StoredVectors): Promise<void> {
+    const entries: Record<string, number[]> = {};
+    for (const [key, vector] of Object.entries(vectors.entries)) {
+      entries[key] = Array.from(vector);
+    }
+    await writeAtomic(this.getPath(name), JSON.stringify({ ...vectors, entries }));
+  }
+
+  async remove(name: string): Promise<void> {
+    await removeIfExists(this.getPath(name));
+  }
+}
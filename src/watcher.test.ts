@@ -0,0 +1,275 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert";
+import { appendFile, mkdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { silentLogger } from "./logger.js";
+import { OllamaClient } from "./ollama.js";
+import { PersonalizationManager } from "./personalization.js";
+import { RAGSystem, RefreshResult } from "./rag.js";
+import { makeLog } from "./test-fixtures.js";
+import { ErrorLog } from "./types.js";
+import {
+  findAlerts,
+  formatAlert,
+  formatWatchUpdate,
+  LogWatcher,
+} from "./watcher.js";
+
+const paymentTimeout = (overrides: Partial<ErrorLog> = {}): ErrorLog =>
+  makeLog({
+    timestamp: "2024-12-10T08:35:12.000Z",
+    service: "payment-service",
+    error_type: "PaymentGatewayTimeout",
+    message: "Gateway timeout",
+    user_id: null,
+    request_id: "req_p1",
+    ...overrides,
+  });
+
+const jsonl = (logs: ErrorLog[]) => logs.map((log) => JSON.stringify(log) + "\n").join("");
+
+describe("watcher", () => {
+  const testDir = join(process.cwd(), ".test-tmp", "watcher");
+  const profilePath = join(testDir, "profile.json");
+  const personalization = new PersonalizationManager();
+
+  before(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      profilePath,
+      JSON.stringify({
+        name: "Иван",
+        role: "Backend Developer",
+        experience: "3 года",
+        timezone: "Europe/Moscow",
+        preferences: {
+          answerStyle: "краткий",
+          includeRecommendations: true,
+          technicalLevel: "продвинутый",
+          useEmoji: true,
+        },
+        responsibilities: {
+          services: ["payment-service"],
+          criticalErrors: ["OutOfMemoryError"],
+        },
+        workingHours: { start: "09:00", end: "18:00" },
+      })
+    );
+    await personalization.loadProfile(profilePath);
+  });
+
+  after(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("findAlerts", () => {
+    it("should keep records of the user's services and critical errors", () => {
+      const payment = paymentTimeout();
+      const oom = paymentTimeout({ service: "inventory-service", error_type: "OutOfMemoryError" });
+      const other = paymentTimeout({ service: "auth-service", error_type: "InvalidCredentials" });
+
+      assert.deepStrictEqual(findAlerts([payment, oom, other], personalization), [payment, oom]);
+    });
+
+    it("should not alert without a loaded profile", () => {
+      assert.deepStrictEqual(findAlerts([paymentTimeout()], new PersonalizationManager()), []);
+      assert.deepStrictEqual(findAlerts([paymentTimeout()]), []);
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format an alert and an update summary", () => {
+      const log = paymentTimeout();
+      assert.strictEqual(
+        formatAlert(log),
+        "🚨 08:35:12 payment-service PaymentGatewayTimeout: Gateway timeout (req_p1)"
+      );
+      assert.strictEqual(
+        formatWatchUpdate(
+          { added: [log, paymentTimeout()], newFiles: ["logs/b.jsonl"], reloaded: [], alerts: [log] },
+          22
+        ),
+        "📥 Новых записей: 2 (всего 22), новые файлы: logs/b.jsonl, важных для вас: 1"
+      );
+    });
+  });
+
+  describe("LogWatcher", () => {
+    it("should report only polls with new records", async () => {
+      const results: RefreshResult[] = [
+        { added: [], newFiles: [], reloaded: [] },
+        { added: [paymentTimeout(), paymentTimeout({ service: "auth-service" })], newFiles: [], reloaded: [] },
+      ];
+      const updates: unknown[] = [];
+      const watcher = new LogWatcher(
+        { refreshLogs: async () => results.shift()! },
+        { onUpdate: (update) => updates.push(update) },
+        {},
+        personalization
+      );
+
+      assert.strictEqual(await watcher.poll(), null);
+      const update = await watcher.poll();
+      assert.strictEqual(update?.alerts.length, 1);
+      assert.deepStrictEqual(updates, [update]);
+    });
+
+    it("should call onPoll after every poll, with or without new records", async () => {
+      const results = [
+        { added: [], newFiles: [], reloaded: [] },
+        { added: [paymentTimeout()], newFiles: [], reloaded: [] },
+      ];
+      const events: string[] = [];
+      const watcher = new LogWatcher(
+        { refreshLogs: async () => results.shift()! },
+        { onUpdate: () => events.push("update"), onPoll: () => events.push("poll") }
+      );
+
+      await watcher.poll();
+      await watcher.poll();
+      assert.deepStrictEqual(events, ["poll", "update", "poll"]);
+    });
+
+    it("should poll on a timer until stopped", async () => {
+      let polls = 0;
+      const watcher = new LogWatcher(
+        {
+          refreshLogs: async () => {
+            polls++;
+            return { added: [paymentTimeout()], newFiles: [], reloaded: [] };
+          },
+        },
+        { onUpdate: () => {} },
+        { intervalMs: 5 }
+      );
+
+      watcher.start();
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      await watcher.stop();
+      const stoppedAt = polls;
+      await new Promise((resolve) => setTimeout(resolve, 30));
+
+      assert.ok(stoppedAt >= 2);
+      assert.strictEqual(polls, stoppedAt);
+    });
+  });
+
+  describe("RAGSystem.refreshLogs", () => {
+    it("should pick up appended records, new files and rewritten files", async () => {
+      const first = join(testDir, "a.jsonl");
+      const second = join(testDir, "b.jsonl");
+      await writeFile(first, jsonl([paymentTimeout({ request_id: "req_1" })]));
+
+      const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+      await rag.loadLogs(join(testDir, "*.jsonl"));
+
+      assert.deepStrictEqual(await rag.refreshLogs(), { added: [], newFiles: [], reloaded: [] });
+
+      await appendFile(first, jsonl([paymentTimeout({ request_id: "req_2" })]));
+      await writeFile(second, jsonl([paymentTimeout({ request_id: "req_3" })]));
+      const appended = await rag.refreshLogs();
+      assert.deepStrictEqual(
+        appended.added.map((log) => log.request_id),
+        ["req_2", "req_3"]
+      );
+      assert.strictEqual(appended.added[0].source?.line, 2);
+      assert.strictEqual(appended.newFiles.length, 1);
+      assert.strictEqual(rag.getStatisticsData().total, 3);
+
+      await writeFile(first, jsonl([paymentTimeout({ request_id: "req_4" })]));
+      const rotated = await rag.refreshLogs();
+      assert.deepStrictEqual(rotated.added.map((log) => log.request_id), ["req_4"]);
+      assert.strictEqual(rotated.reloaded.length, 1);
+      assert.strictEqual(rag.getStatisticsData().total, 2);
+    });
+
+    it("should read only the bytes appended since the last poll", async () => {
+      const file = join(testDir, "tail.jsonl");
+      await writeFile(file, jsonl([paymentTimeout({ request_id: "req_1" })]));
+
+      const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+      await rag.loadLogs(file);
+
+      // Недописанная строка ждёт следующего опроса
+      const next = jsonl([paymentTimeout({ request_id: "req_2" })]);
+      await appendFile(file, next.slice(0, 20));
+      assert.deepStrictEqual((await rag.refreshLogs()).added, []);
+
+      await appendFile(file, next.slice(20) + "not json\n" + jsonl([paymentTimeout({ request_id: "req_3" })]));
+      const appended = await rag.refreshLogs();
+      assert.deepStrictEqual(
+        appended.added.map((log) => [log.request_id, log.source?.line]),
+        [
+          ["req_2", 2],
+          ["req_3", 4],
+        ]
+      );
+      assert.deepStrictEqual(appended.reloaded, []);
+      assert.deepStrictEqual(
+        rag.getParseIssues().map((issue) => issue.line),
+        [3]
+      );
+      assert.strictEqual(rag.getStatisticsData().total, 3);
+
+      // Усечённый файл перечитывается целиком
+      await writeFile(file, jsonl([paymentTimeout({ request_id: "req_4" })]));
+      const truncated = await rag.refreshLogs();
+      assert.deepStrictEqual(truncated.added.map((log) => log.request_id), ["req_4"]);
+      assert.strictEqual(truncated.reloaded.length, 1);
+      assert.strictEqual(rag.getStatisticsData().total, 1);
+    });
+
+    it("should not tail past a partial line read at load time", async () => {
+      const file = join(testDir, "partial.jsonl");
+      const next = jsonl([paymentTimeout({ request_id: "req_2" })]);
+      await writeFile(file, jsonl([paymentTimeout({ request_id: "req_1" })]) + next.slice(0, 20));
+
+      const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+      await rag.loadLogs(file);
+      assert.strictEqual(rag.getParseIssues().length, 1);
+
+      await appendFile(file, next.slice(20));
+      const completed = await rag.refreshLogs();
+      assert.deepStrictEqual(
+        completed.added.map((log) => [log.request_id, log.source?.line]),
+        [["req_2", 2]]
+      );
+      assert.deepStrictEqual(rag.getParseIssues(), []);
+      assert.strictEqual(rag.getStatisticsData().total, 2);
+    });
+
+    it("should reread a file truncated and regrown past its old size", async () => {
+      const file = join(testDir, "regrown.jsonl");
+      await writeFile(file, jsonl([paymentTimeout({ request_id: "req_1" })]));
+
+      const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+      await rag.loadLogs(file);
+
+      // Тот же inode, размер больше прежнего, но начало другое
+      await writeFile(
+        file,
+        jsonl([
+          paymentTimeout({ request_id: "req_new_1" }),
+          paymentTimeout({ request_id: "req_new_2" }),
+        ])
+      );
+      const regrown = await rag.refreshLogs();
+      assert.deepStrictEqual(
+        regrown.added.map((log) => [log.request_id, log.source?.line]),
+        [
+          ["req_new_1", 1],
+          ["req_new_2", 2],
+        ]
+      );
+      assert.strictEqual(regrown.reloaded.length, 1);
+      assert.strictEqual(rag.getStatisticsData().total, 2);
+    });
+
+    it("should require loaded logs", async () => {
+      const rag = new RAGSystem(new OllamaClient(), {}, silentLogger);
+      await assert.rejects(() => rag.refreshLogs(), {
+        message: "Logs are not loaded. Call loadLogs() first.",
+      });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { PersonalizationManager } from "./personalization";
+import { RefreshResult } from "./rag";
+import { ErrorLog } from "./types";
+
+export interface WatchOptions {
+  intervalMs: number; // Период опроса файлов
+}
+
+export const DEFAULT_WATCH: WatchOptions = {
+  intervalMs: 2000,
+};
+
+// Источник новых записей (RAGSystem)
+export interface RefreshSource {
+  refreshLogs(): Promise<RefreshResult>;
+}
+
+// Обновление за один опрос: новые записи и те из них, что важны пользователю
+export interface WatchUpdate extends RefreshResult {
+  alerts: ErrorLog[];
+}
+
+export interface WatchHandlers {
+  onUpdate: (update: WatchUpdate) => void;
+  // После каждого опроса, даже без новых записей: правилам вида «записей
+  // нет N минут» нужна проверка и тогда, когда логи молчат
+  onPoll?: () => void;
+  onError?: (error: unknown) => void;
+}
+
+// Записи из зоны ответственности пользователя: его сервисы или критичные
+// для него типы ошибок. Без загруженного профиля оповещений нет
+export function findAlerts(
+  logs: ErrorLog[],
+  personalization?: PersonalizationManager
+): ErrorLog[] {
+  if (!personalization?.getProfile()) {
+    return [];
+  }
+  return logs.filter((log) =>
+    personalization.isRelevantToUser(log.service, log.error_type)
+  );
+}
+
+// "🚨 08:35:12 payment-service PaymentGatewayTimeout: Gateway timeout (req_x)"
+export function formatAlert(log: ErrorLog): string {
+  return `🚨 ${log.timestamp.slice(11, 19)} ${log.service} ${log.error_type}: ${log.message} (${log.request_id})`;
+}
+
+// "📥 Новых записей: 3 (всего 23), новые файлы: logs/b.json"
+export function formatWatchUpdate(update: WatchUpdate, total: number): string {
+  const parts = [`📥 Новых записей: ${update.added.length} (всего ${total})`];
+  if (update.newFiles.length > 0) {
+    parts.push(`новые файлы: ${update.newFiles.join(", ")}`);
+  }
+  if (update.reloaded.length > 0) {
+    parts.push(`перечитаны: ${update.reloaded.join(", ")}`);
+  }
+  if (update.alerts.length > 0) {
+    parts.push(`важных для вас: ${update.alerts.length}`);
+  }
+  return parts.join(", ");
+}
+
+// Наблюдение за файлами логов опросом: файлы проверяются раз в intervalMs,
+// следующий опрос планируется только после завершения предыдущего
+export class LogWatcher {
+  private options: WatchOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private polling: Promise<void> = Promise.resolve();
+
+  constructor(
+    private source: RefreshSource,
+    private handlers: WatchHandlers,
+    options: Partial<WatchOptions> = {},
+    private personalization?: PersonalizationManager
+  ) {
+    this.options = { ...DEFAULT_WATCH, ...options };
+  }
+
+  getIntervalMs(): number {
+    return this.options.intervalMs;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule();
+  }
+
+  // Остановка; текущий опрос (если идёт) завершается
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.polling;
+  }
+
+  // Один опрос: возвращает обновление или null, если новых записей нет
+  async poll(): Promise<WatchUpdate | null> {
+    const result = await this.source.refreshLogs();
+    if (result.added.length === 0 && result.reloaded.length === 0) {
+      this.handlers.onPoll?.();
+      return null;
+    }
+
+    const update = {
+      ...result,
+      alerts: findAlerts(result.added, this.personalization),
+    };
+    this.handlers.onUpdate(update);
+    this.handlers.onPoll?.();
+    return update;
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.polling = this.poll()
+        .then(() => undefined)
+        .catch((error) => this.handlers.onError?.(error))
+        .finally(() => {
+          if (this.running) this.schedule();
+        });
+    }, this.options.intervalMs);
+  }
+}